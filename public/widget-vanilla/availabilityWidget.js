@@ -5,7 +5,7 @@
  * Requiere: Firebase SDK (ya incluido en WebCabanasManuara)
  */
 
-import { CABIN_TYPES } from './cabinData.js';
+import { CABIN_TYPES, toWidgetCabins } from './cabinData.js';
 
 // Nombres de días y meses en español
 const DAYS_SHORT = ['Lu', 'Ma', 'Mi', 'Ju', 'Vi', 'Sa', 'Do'];
@@ -33,10 +33,12 @@ export class AvailabilityWidget {
     this.selectedCheckIn = null;
     this.selectedCheckOut = null;
     this.hoverDate = null;
+    this.cabins = CABIN_TYPES;
     this.reservations = [];
     this.availability = [];
     this.loading = true;
     this.unsubscribe = null;
+    this.unsubscribeConfig = null;
 
     // Firebase references (se inicializan en init())
     this.db = null;
@@ -49,9 +51,31 @@ export class AvailabilityWidget {
   init(db) {
     this.db = db;
     this.render();
+    this.subscribeToCabins();
     this.subscribeToAvailability();
   }
 
+  /**
+   * Suscribirse a las cabañas configuradas en Admin (requiere `doc` en window.firebaseFirestore)
+   */
+  subscribeToCabins() {
+    const { doc, onSnapshot } = window.firebaseFirestore;
+    if (!doc) {
+      console.warn('window.firebaseFirestore.doc no está disponible: se usan las cabañas de cabinData.js');
+      return;
+    }
+
+    this.unsubscribeConfig = onSnapshot(doc(this.db, 'configuracion', 'admin'), (snapshot) => {
+      const cabins = snapshot.exists() ? toWidgetCabins(snapshot.data().config) : [];
+      if (cabins.length === 0) return;
+      this.cabins = cabins;
+      this.calculateAvailability();
+      this.render();
+    }, (error) => {
+      console.error('Error fetching cabins:', error);
+    });
+  }
+
   /**
    * Suscribirse a cambios en tiempo real
    */
@@ -104,9 +128,9 @@ export class AvailabilityWidget {
       const cabinStatus = {};
       let availableCabins = 0;
 
-      CABIN_TYPES.forEach(cabin => {
+      this.cabins.forEach(cabin => {
         const isOccupied = this.reservations.some(res =>
-          res.cabinType === cabin.name &&
+          (res.cabinType === cabin.id || res.cabinType === cabin.name) &&
           res.checkIn <= date &&
           res.checkOut > date
         );
@@ -118,7 +142,7 @@ export class AvailabilityWidget {
       return {
         date,
         availableCabins,
-        totalCabins: CABIN_TYPES.length,
+        totalCabins: this.cabins.length,
         cabinStatus
       };
     });
@@ -231,7 +255,7 @@ export class AvailabilityWidget {
   getAvailableCabins() {
     if (!this.selectedCheckIn || !this.selectedCheckOut) return [];
 
-    return CABIN_TYPES.map(cabin => {
+    return this.cabins.map(cabin => {
       const isAvailable = this.availability
         .filter(day => day.date >= this.selectedCheckIn && day.date < this.selectedCheckOut)
         .every(day => day.cabinStatus[cabin.name] === true);
@@ -533,6 +557,9 @@ export class AvailabilityWidget {
     if (this.unsubscribe) {
       this.unsubscribe();
     }
+    if (this.unsubscribeConfig) {
+      this.unsubscribeConfig();
+    }
     if (this.container) {
       this.container.innerHTML = '';
     }
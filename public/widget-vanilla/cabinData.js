@@ -1,11 +1,12 @@
 /**
  * Datos de cabañas para el widget de disponibilidad
- * Estos datos deben coincidir con los del Channel Manager
+ * Estos datos deben coincidir con los del Channel Manager: el id es el de la cabaña en
+ * Admin, que es lo que guardan las reservas (las antiguas guardan el nombre)
  */
 
 export const CABIN_TYPES = [
   {
-    id: 'cabana-pequena',
+    id: 'cabin-1',
     name: 'Cabaña Pequeña (Max 3p)',
     displayName: 'Cabaña Pequeña',
     maxCapacity: 3,
@@ -14,7 +15,7 @@ export const CABIN_TYPES = [
     textClass: 'text-blue-800'
   },
   {
-    id: 'cabana-mediana-1',
+    id: 'cabin-2',
     name: 'Cabaña Mediana 1 (Max 4p)',
     displayName: 'Cabaña Mediana 1',
     maxCapacity: 4,
@@ -23,7 +24,7 @@ export const CABIN_TYPES = [
     textClass: 'text-purple-800'
   },
   {
-    id: 'cabana-mediana-2',
+    id: 'cabin-3',
     name: 'Cabaña Mediana 2 (Max 4p)',
     displayName: 'Cabaña Mediana 2',
     maxCapacity: 4,
@@ -32,7 +33,7 @@ export const CABIN_TYPES = [
     textClass: 'text-amber-800'
   },
   {
-    id: 'cabana-grande',
+    id: 'cabin-4',
     name: 'Cabaña Grande (Max 6p)',
     displayName: 'Cabaña Grande',
     maxCapacity: 6,
@@ -42,6 +43,44 @@ export const CABIN_TYPES = [
   }
 ];
 
+// Colores de Admin (clases de Tailwind) y su equivalente para el widget
+const COLOR_HEX = {
+  blue: '#3B82F6',
+  purple: '#8B5CF6',
+  amber: '#F59E0B',
+  pink: '#EC4899',
+  green: '#22C55E',
+  red: '#EF4444',
+  indigo: '#6366F1',
+  teal: '#14B8A6',
+  orange: '#F97316',
+  cyan: '#06B6D4'
+};
+
+/**
+ * Cabañas activas de la configuración compartida (documento configuracion/admin), en el
+ * orden de Admin. Una cabaña nueva aparece en el widget sin cambiar este archivo;
+ * CABIN_TYPES solo se usa mientras la configuración no ha llegado.
+ */
+export function toWidgetCabins(config) {
+  const cabins = (config && Array.isArray(config.cabins)) ? config.cabins : [];
+  return cabins
+    .filter(cabin => cabin.isActive)
+    .sort((a, b) => a.order - b.order)
+    .map(cabin => {
+      const colorName = (cabin.color || '').replace(/^bg-/, '').replace(/-\d+$/, '') || 'blue';
+      return {
+        id: cabin.id,
+        name: cabin.name,
+        displayName: cabin.displayName,
+        maxCapacity: cabin.maxCapacity,
+        color: COLOR_HEX[colorName] || COLOR_HEX.blue,
+        bgClass: `bg-${colorName}-100`,
+        textClass: `text-${colorName}-800`
+      };
+    });
+}
+
 /**
  * Obtener capacidad máxima de una cabaña por su nombre
  */
@@ -0,0 +1,87 @@
+/**
+ * Smoke check of the in-memory backend (VITE_DATA_SOURCE=memory): books, pays, checks in and
+ * cancels a stay through the same business rules the app uses, and reads the public
+ * availability after each step. Run with `npm run smoke:memory`; it exits non-zero on failure.
+ */
+
+import { getCabinIds } from '@/lib/cabinConfig';
+import { createReservation, getReservationById } from '@/lib/reservations';
+import { addPayment } from '@/lib/payments';
+import { updateCheckInOut } from '@/lib/checkInOut';
+import { cancelReservation } from '@/lib/cancellations';
+import { getPublicAvailability } from '@/lib/publicAvailability';
+import { addDays, getTodayDate } from '@/lib/dateUtils';
+import type { ReservationFormData } from '@/types/reservation';
+
+// Config and the offline cache read localStorage, which Node lacks
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+  clear: () => storage.clear(),
+  key: (index: number) => Array.from(storage.keys())[index] ?? null,
+  get length() { return storage.size; }
+};
+
+const check = (condition: boolean, message: string): void => {
+  if (!condition) throw new Error(`Smoke check failed: ${message}`);
+  console.log(`ok - ${message}`);
+};
+
+const isCabinFree = async (cabinType: string, date: string): Promise<boolean> => {
+  const { availability } = await getPublicAvailability(date, addDays(date, 1));
+  return availability[0].cabins[cabinType].available;
+};
+
+const run = async () => {
+  if (import.meta.env.VITE_DATA_SOURCE !== 'memory') {
+    throw new Error('Run with VITE_DATA_SOURCE=memory');
+  }
+
+  const [cabinType, otherCabin] = getCabinIds();
+  const checkIn = addDays(getTodayDate(), 30);
+  const checkOut = addDays(checkIn, 2);
+  const form = {
+    passengerName: 'Huésped de prueba',
+    phone: '+56900000000',
+    email: '',
+    cabinType,
+    checkIn,
+    checkOut,
+    adults: 2,
+    children: 0,
+    babies: 0,
+    arrivalFlight: '',
+    departureFlight: '',
+    useCustomPrice: false,
+    reservationSource: 'manual'
+  } as ReservationFormData;
+
+  const id = await createReservation(form);
+  const created = await getReservationById(id);
+  check(!!created && created.totalPrice > 0, 'creates a priced reservation');
+  check(!(await isCabinFree(cabinType, checkIn)), 'the booked cabin is taken in the public availability');
+  check(await isCabinFree(otherCabin, checkIn), 'other cabins stay free');
+
+  const overlapping = await createReservation({ ...form, checkIn: addDays(checkIn, 1), checkOut: addDays(checkOut, 1) })
+    .then(() => false, () => true);
+  check(overlapping, 'rejects an overlapping reservation of the same cabin');
+
+  await addPayment(id, { amount: 10000, method: 'cash', paymentDate: getTodayDate(), createdBy: 'Smoke' });
+  const paid = await getReservationById(id);
+  check(paid!.remainingBalance === created!.totalPrice - 10000, 'a payment lowers the remaining balance');
+
+  await updateCheckInOut({ reservationId: id, type: 'check_in', actualDateTime: `${checkIn}T15:00` });
+  check((await getReservationById(id))!.checkInStatus === 'checked_in', 'checks the guest in');
+
+  await cancelReservation(id, { reason: 'guest_request', notes: '', cancelledBy: 'Smoke', fee: 0, refundAmount: 0 });
+  check(await isCabinFree(cabinType, checkIn), 'cancelling frees the cabin');
+
+  console.log('Memory smoke check passed');
+};
+
+run().catch(error => {
+  console.error(error);
+  throw error;
+});
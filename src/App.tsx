@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Layout from "./components/Layout";
 import { OfflineIndicator } from "./components/OfflineIndicator";
 import { InstallPrompt } from "./components/InstallPrompt";
+import { useSharedAdminConfig } from "./hooks/useOfflineSync";
 
 // Lazy load pages for better initial load performance
 const Dashboard = lazy(() => import("./pages/Dashboard"));
@@ -16,6 +17,8 @@ const Analytics = lazy(() => import("./pages/Analytics"));
 const Reports = lazy(() => import("./pages/Reports"));
 const Admin = lazy(() => import("./pages/Admin"));
 const Referrers = lazy(() => import("./pages/Referrers"));
+const Trash = lazy(() => import("./pages/Trash"));
+const DataProblems = lazy(() => import("./pages/DataProblems"));
 const WidgetDemo = lazy(() => import("./pages/WidgetDemo"));
 const Install = lazy(() => import("./pages/Install"));
 const NotFound = lazy(() => import("./pages/NotFound"));
@@ -29,34 +32,41 @@ const PageLoader = () => (
   </div>
 );
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <OfflineIndicator />
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <InstallPrompt />
-        <Suspense fallback={<PageLoader />}>
-          <Routes>
-            {/* Widget demo e install - sin layout */}
-            <Route path="/widget-demo" element={<WidgetDemo />} />
-            <Route path="/install" element={<Install />} />
+const App = () => {
+  // Cabins and prices come from the shared configuration; a new revision re-renders the app
+  useSharedAdminConfig(queryClient);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <OfflineIndicator />
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <InstallPrompt />
+          <Suspense fallback={<PageLoader />}>
+            <Routes>
+              {/* Widget demo e install - sin layout */}
+              <Route path="/widget-demo" element={<WidgetDemo />} />
+              <Route path="/install" element={<Install />} />
             
-            {/* Rutas principales con layout */}
-            <Route path="/" element={<Layout><Dashboard /></Layout>} />
-            <Route path="/calendar" element={<Layout><Calendar /></Layout>} />
-            <Route path="/reservations" element={<Layout><Reservations /></Layout>} />
-            <Route path="/analytics" element={<Layout><Analytics /></Layout>} />
-            <Route path="/reports" element={<Layout><Reports /></Layout>} />
-            <Route path="/admin" element={<Layout><Admin /></Layout>} />
-            <Route path="/referrers" element={<Layout><Referrers /></Layout>} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </Suspense>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+              {/* Rutas principales con layout */}
+              <Route path="/" element={<Layout><Dashboard /></Layout>} />
+              <Route path="/calendar" element={<Layout><Calendar /></Layout>} />
+              <Route path="/reservations" element={<Layout><Reservations /></Layout>} />
+              <Route path="/analytics" element={<Layout><Analytics /></Layout>} />
+              <Route path="/reports" element={<Layout><Reports /></Layout>} />
+              <Route path="/admin" element={<Layout><Admin /></Layout>} />
+              <Route path="/referrers" element={<Layout><Referrers /></Layout>} />
+              <Route path="/trash" element={<Layout><Trash /></Layout>} />
+              <Route path="/data-problems" element={<Layout><DataProblems /></Layout>} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </Suspense>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
@@ -2,28 +2,35 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { CalendarDays, Users, Check, X } from 'lucide-react';
+import { CalendarDays, Users, Check, X, Wrench } from 'lucide-react';
 import { formatDateForDisplay } from '@/lib/dateUtils';
 import { getLocalMultipleCabinAvailability, getCabinDisplayName, getCabinColor, type CabinAvailability } from '@/lib/availabilityHelpers';
+import { getBlockStays } from '@/lib/cabinBlocks';
 import { Reservation } from '@/types/reservation';
+import { CabinBlock } from '@/types/cabinBlock';
 
 interface AvailabilityCardProps {
   startDate: string;
   endDate: string;
   reservations: Reservation[];
+  blocks?: CabinBlock[];
   onBookCabin: (cabinType: string) => void;
   onClear: () => void;
 }
 
-const AvailabilityCard = ({ startDate, endDate, reservations, onBookCabin, onClear }: AvailabilityCardProps) => {
+// Stable default so the effect below does not re-run on every render
+const NO_BLOCKS: CabinBlock[] = [];
+
+const AvailabilityCard = ({ startDate, endDate, reservations, blocks = NO_BLOCKS, onBookCabin, onClear }: AvailabilityCardProps) => {
   const [availability, setAvailability] = useState<CabinAvailability[]>([]);
 
   useEffect(() => {
     if (startDate && endDate) {
-      const availabilityData = getLocalMultipleCabinAvailability(reservations, startDate, endDate);
+      const blockStays = blocks.flatMap(block => getBlockStays(block, startDate, endDate));
+      const availabilityData = getLocalMultipleCabinAvailability([...reservations, ...blockStays], startDate, endDate);
       setAvailability(availabilityData);
     }
-  }, [startDate, endDate, reservations]);
+  }, [startDate, endDate, reservations, blocks]);
 
   const totalNights = startDate && endDate ? 
     Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24)) : 0;
@@ -89,6 +96,11 @@ const AvailabilityCard = ({ startDate, endDate, reservations, onBookCabin, onCle
                     <Check className="w-3 h-3 mr-1" />
                     Disponible
                   </>
+                ) : cabin.isOutOfOrder ? (
+                  <>
+                    <Wrench className="w-3 h-3 mr-1" />
+                    Fuera de servicio
+                  </>
                 ) : (
                   <>
                     <X className="w-3 h-3 mr-1" />
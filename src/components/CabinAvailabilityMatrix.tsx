@@ -1,9 +1,9 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Check, X, Users, Calendar } from 'lucide-react';
+import { Check, X, Users, Calendar, Clock, Wrench } from 'lucide-react';
 import { checkMultipleCabinAvailability, getCabinDisplayName, getCabinColor, type CabinAvailability } from '@/lib/availabilityHelpers';
-import { formatDateForDisplay } from '@/lib/dateUtils';
+import { formatDateForDisplay, formatDateTimeForDisplay } from '@/lib/dateUtils';
 
 interface CabinAvailabilityMatrixProps {
   checkIn: string;
@@ -85,7 +85,9 @@ const CabinAvailabilityMatrix = ({
                     ? 'bg-primary/10 border-primary ring-2 ring-primary/20' 
                     : cabin.isAvailable
                       ? 'bg-green-50 border-green-200 hover:bg-green-100 dark:bg-green-950/30 dark:border-green-800'
-                      : 'bg-red-50 border-red-200 dark:bg-red-950/30 dark:border-red-800 opacity-60 cursor-not-allowed'
+                      : cabin.isHeld
+                        ? 'bg-amber-50 border-amber-300 border-dashed dark:bg-amber-950/30 dark:border-amber-700 opacity-80 cursor-not-allowed'
+                        : 'bg-red-50 border-red-200 dark:bg-red-950/30 dark:border-red-800 opacity-60 cursor-not-allowed'
                   }
                 `}
                 onClick={() => cabin.isAvailable && onCabinSelect(cabin.cabinType)}
@@ -99,11 +101,16 @@ const CabinAvailabilityMatrix = ({
                     <div className="text-xs text-muted-foreground">
                       Máx. {cabin.maxCapacity} personas
                     </div>
+                    {cabin.isHeld && cabin.heldUntil && (
+                      <div className="text-xs text-amber-700 dark:text-amber-400">
+                        Se libera el {formatDateTimeForDisplay(cabin.heldUntil)} si no llega el abono
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
                   <Badge 
-                    variant={cabin.isAvailable ? 'success' : 'destructive'}
+                    variant={cabin.isAvailable ? 'success' : cabin.isHeld ? 'warning' : 'destructive'}
                     className="text-xs"
                   >
                     {cabin.isAvailable ? (
@@ -111,6 +118,16 @@ const CabinAvailabilityMatrix = ({
                         <Check className="w-3 h-3 mr-1" />
                         Disponible
                       </>
+                    ) : cabin.isHeld ? (
+                      <>
+                        <Clock className="w-3 h-3 mr-1" />
+                        Bloqueo tentativo
+                      </>
+                    ) : cabin.isOutOfOrder ? (
+                      <>
+                        <Wrench className="w-3 h-3 mr-1" />
+                        Fuera de servicio
+                      </>
                     ) : (
                       <>
                         <X className="w-3 h-3 mr-1" />
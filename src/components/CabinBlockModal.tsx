@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Wrench, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { getCabinIds, getCabinName, getCabins } from '@/lib/cabinConfig';
+import { addDays, calculateNights, formatDateForDisplay, getTodayDate } from '@/lib/dateUtils';
+import { BLOCK_REASON_LABELS, createCabinBlock, deleteCabinBlock, updateCabinBlock } from '@/lib/cabinBlocks';
+import { CabinBlock, CabinBlockFormData, CabinBlockFrequency, CabinBlockReason } from '@/types/cabinBlock';
+import { CabinType } from '@/types/reservation';
+import { logger } from '@/lib/logger';
+
+interface CabinBlockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  // Block being edited; a new one is created when missing
+  block?: CabinBlock | null;
+}
+
+interface ContentProps {
+  formData: CabinBlockFormData;
+  setFormData: (data: CabinBlockFormData) => void;
+  handleSubmit: (e: React.FormEvent) => void;
+  handleDelete?: () => void;
+  onClose: () => void;
+  loading: boolean;
+}
+
+const FREQUENCY_LABELS: Record<CabinBlockFrequency, string> = {
+  weekly: 'Cada semana',
+  monthly: 'Cada mes',
+  yearly: 'Cada año',
+};
+
+const getInitialFormData = (block?: CabinBlock | null): CabinBlockFormData => {
+  if (block) {
+    return {
+      cabinType: block.cabinType,
+      startDate: block.startDate,
+      endDate: block.endDate,
+      reason: block.reason,
+      notes: block.notes || '',
+      recurrence: block.recurrence,
+    };
+  }
+  const today = getTodayDate();
+  return {
+    cabinType: getCabinIds()[0],
+    startDate: today,
+    endDate: addDays(today, 1),
+    reason: 'maintenance',
+    notes: '',
+  };
+};
+
+const Content = ({ formData, setFormData, handleSubmit, handleDelete, onClose, loading }: ContentProps) => {
+  const nights = formData.endDate > formData.startDate ? calculateNights(formData.startDate, formData.endDate) : 0;
+
+  return (
+  <div className="space-y-4 p-4">
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Cabin and reason */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label>Cabaña</Label>
+          <Select
+            value={formData.cabinType}
+            onValueChange={(value) => setFormData({ ...formData, cabinType: value as CabinType })}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getCabins().map(cabin => (
+                <SelectItem key={cabin.id} value={cabin.id}>{cabin.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Motivo</Label>
+          <Select
+            value={formData.reason}
+            onValueChange={(value) => setFormData({ ...formData, reason: value as CabinBlockReason })}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BLOCK_REASON_LABELS).map(([reason, label]) => (
+                <SelectItem key={reason} value={reason}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Dates: the end date is the day the cabin is back in service */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="blockStartDate">Desde</Label>
+          <Input
+            id="blockStartDate"
+            type="date"
+            value={formData.startDate}
+            onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+            required
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="blockEndDate">Vuelve a servicio</Label>
+          <Input
+            id="blockEndDate"
+            type="date"
+            min={formData.startDate ? addDays(formData.startDate, 1) : undefined}
+            value={formData.endDate}
+            onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+            required
+            className="mt-1"
+          />
+        </div>
+      </div>
+      {nights > 0 && (
+        <div className="text-xs text-muted-foreground">
+          {nights} noche(s) sin vender, del {formatDateForDisplay(formData.startDate)} al {formatDateForDisplay(addDays(formData.endDate, -1))}.
+        </div>
+      )}
+
+      {/* Recurrence */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label>Repetir</Label>
+          <Select
+            value={formData.recurrence?.frequency || 'none'}
+            onValueChange={(value) => setFormData({
+              ...formData,
+              recurrence: value === 'none'
+                ? undefined
+                : { ...formData.recurrence, frequency: value as CabinBlockFrequency }
+            })}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No se repite</SelectItem>
+              {Object.entries(FREQUENCY_LABELS).map(([frequency, label]) => (
+                <SelectItem key={frequency} value={frequency}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {formData.recurrence && (
+          <div>
+            <Label htmlFor="blockUntil">Hasta (opcional)</Label>
+            <Input
+              id="blockUntil"
+              type="date"
+              min={formData.startDate}
+              value={formData.recurrence.until || ''}
+              onChange={(e) => setFormData({
+                ...formData,
+                recurrence: { frequency: formData.recurrence!.frequency, ...(e.target.value ? { until: e.target.value } : {}) }
+              })}
+              className="mt-1"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="blockNotes">Notas (opcional)</Label>
+        <Textarea
+          id="blockNotes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          placeholder="Qué se va a hacer, quién se queda..."
+          className="mt-1"
+          rows={2}
+        />
+      </div>
+
+      {/* Buttons */}
+      <div className="flex gap-3 pt-2">
+        {handleDelete && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleDelete}
+            disabled={loading}
+            className="min-h-[44px] text-destructive"
+            aria-label="Eliminar bloqueo"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onClose}
+          className="flex-1 min-h-[44px]"
+        >
+          Volver
+        </Button>
+        <Button
+          type="submit"
+          disabled={loading || nights === 0}
+          className="flex-1 min-h-[44px]"
+        >
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {loading ? 'Guardando...' : 'Guardar'}
+        </Button>
+      </div>
+    </form>
+  </div>
+  );
+};
+
+const CabinBlockModal = ({ isOpen, onClose, onSuccess, block }: CabinBlockModalProps) => {
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<CabinBlockFormData>(() => getInitialFormData(block));
+
+  useEffect(() => {
+    if (isOpen) {
+      logger.info('modal.cabinBlock.open', { blockId: block?.id });
+      setFormData(getInitialFormData(block));
+    } else {
+      logger.info('modal.cabinBlock.close');
+    }
+  }, [isOpen, block]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    logger.info('modal.cabinBlock.submit.start', { blockId: block?.id, cabinType: formData.cabinType });
+    setLoading(true);
+
+    try {
+      if (block?.id) {
+        await updateCabinBlock(block.id, formData);
+      } else {
+        await createCabinBlock(formData);
+      }
+      logger.info('modal.cabinBlock.submit.success', { blockId: block?.id });
+      toast({
+        title: "Cabaña fuera de servicio",
+        description: `La ${getCabinName(formData.cabinType)} no se puede reservar del ${formatDateForDisplay(formData.startDate)} al ${formatDateForDisplay(formData.endDate)}.`
+      });
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Hubo un problema al guardar el bloqueo.";
+      logger.error('modal.cabinBlock.submit.error', { blockId: block?.id, error: errorMessage });
+
+      toast({
+        title: "⚠️ Error al guardar",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!block?.id) return;
+    setLoading(true);
+
+    try {
+      await deleteCabinBlock(block.id);
+      toast({
+        title: "Bloqueo eliminado",
+        description: `La ${getCabinName(block.cabinType)} vuelve a estar disponible.`
+      });
+      onSuccess();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo eliminar el bloqueo.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const contentProps = {
+    formData,
+    setFormData,
+    handleSubmit,
+    handleDelete: block?.id ? handleDelete : undefined,
+    onClose,
+    loading,
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={onClose}>
+        <DrawerContent className="max-h-[90vh]">
+          <DrawerHeader>
+            <DrawerTitle className="text-lg font-semibold flex items-center gap-2">
+              <Wrench className="w-5 h-5 text-primary" />
+              Fuera de Servicio
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="overflow-y-auto pb-4">
+            <Content {...contentProps} />
+          </div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold flex items-center gap-2">
+            <Wrench className="w-5 h-5 text-primary" />
+            Fuera de Servicio
+          </DialogTitle>
+          <DialogDescription>
+            La cabaña no se puede reservar en esas fechas. No cuenta como ocupación ni como ingreso.
+          </DialogDescription>
+        </DialogHeader>
+        <Content {...contentProps} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CabinBlockModal;
@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateForDisplay } from '@/lib/dateUtils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { Reservation, CancellationReason } from '@/types/reservation';
+import { Payment } from '@/types/payment';
+import {
+  cancelReservation,
+  calculateCancellationFee,
+  calculateSuggestedRefund,
+  getTotalPaid,
+  CANCELLATION_REASONS,
+  MANUAL_CANCELLATION_REASONS,
+  CancellationRequest
+} from '@/lib/cancellations';
+import { logger } from '@/lib/logger';
+import { getCabinName } from '@/lib/cabinConfig';
+
+interface CancellationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  reservation: Reservation;
+}
+
+interface ContentProps {
+  reservation: Reservation;
+  totalPaid: number;
+  formData: CancellationRequest;
+  setFormData: (formData: CancellationRequest) => void;
+  handleReasonChange: (reason: CancellationReason) => void;
+  handleSubmit: (e: React.FormEvent) => void;
+  onClose: () => void;
+  loading: boolean;
+}
+
+const buildInitialForm = (reservation: Reservation, reason: CancellationReason): CancellationRequest => {
+  const fee = calculateCancellationFee(reservation, reason);
+  return {
+    reason,
+    notes: '',
+    cancelledBy: '',
+    fee,
+    refundAmount: calculateSuggestedRefund(reservation, fee),
+    refundMethod: 'transfer'
+  };
+};
+
+const Content = ({
+  reservation,
+  totalPaid,
+  formData,
+  setFormData,
+  handleReasonChange,
+  handleSubmit,
+  onClose,
+  loading,
+}: ContentProps) => {
+  const retained = totalPaid - formData.refundAmount;
+  const stillOwed = Math.max(0, formData.fee - retained);
+
+  return (
+  <div className="space-y-4 p-4">
+    {/* Reservation Info */}
+    <div className="bg-accent/50 p-4 rounded-lg">
+      <div className="text-sm text-muted-foreground">Reserva de:</div>
+      <div className="font-medium">{reservation.passengerName}</div>
+      <div className="text-sm text-muted-foreground mt-1">
+        {getCabinName(reservation.cabinType)} • {formatDateForDisplay(reservation.checkIn)} - {formatDateForDisplay(reservation.checkOut)}
+      </div>
+      <div className="mt-2 flex justify-between text-sm">
+        <span>Total:</span>
+        <span className="font-medium">${reservation.totalPrice.toLocaleString('es-CL')}</span>
+      </div>
+      <div className="flex justify-between text-sm">
+        <span>Pagado:</span>
+        <span className="font-medium">${totalPaid.toLocaleString('es-CL')}</span>
+      </div>
+    </div>
+
+    <form onSubmit={handleSubmit} className="space-y-4">
+
+      {/* Reason */}
+      <div>
+        <Label>Motivo</Label>
+        <Select
+          value={formData.reason}
+          onValueChange={(value: CancellationReason) => handleReasonChange(value)}
+        >
+          <SelectTrigger className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MANUAL_CANCELLATION_REASONS.map(reason => (
+              <SelectItem key={reason} value={reason}>{CANCELLATION_REASONS[reason]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Cancelled by */}
+      <div>
+        <Label htmlFor="cancelledBy">Cancelado por</Label>
+        <Input
+          id="cancelledBy"
+          value={formData.cancelledBy}
+          onChange={(e) => setFormData({ ...formData, cancelledBy: e.target.value })}
+          placeholder="Nombre de quien registra la cancelación"
+          required
+          className="mt-1"
+        />
+      </div>
+
+      {/* Fee and refund */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="fee">Cargo por cancelación</Label>
+          <Input
+            id="fee"
+            type="number"
+            min="0"
+            value={formData.fee}
+            onChange={(e) => setFormData({ ...formData, fee: parseFloat(e.target.value) || 0 })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="refundAmount">Reembolso</Label>
+          <Input
+            id="refundAmount"
+            type="number"
+            min="0"
+            max={totalPaid}
+            value={formData.refundAmount}
+            onChange={(e) => setFormData({ ...formData, refundAmount: parseFloat(e.target.value) || 0 })}
+            className="mt-1"
+          />
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Cargo sugerido según la política de cancelación y la anticipación. Puedes editarlo manualmente.
+      </div>
+
+      {/* Refund method */}
+      {formData.refundAmount > 0 && (
+        <div>
+          <Label>Método de Reembolso</Label>
+          <Select
+            value={formData.refundMethod}
+            onValueChange={(value: Payment['method']) => setFormData({ ...formData, refundMethod: value })}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="cash">Efectivo</SelectItem>
+              <SelectItem value="transfer">Transferencia</SelectItem>
+              <SelectItem value="credit_card">Tarjeta de Crédito</SelectItem>
+              <SelectItem value="other">Otro</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="bg-muted/50 p-3 rounded-lg text-sm space-y-1">
+        <div className="flex justify-between">
+          <span>Monto retenido:</span>
+          <span className="font-medium">${retained.toLocaleString('es-CL')}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Saldo pendiente del cargo:</span>
+          <span className={stillOwed > 0 ? 'font-medium text-destructive' : 'font-medium'}>
+            ${stillOwed.toLocaleString('es-CL')}
+          </span>
+        </div>
+      </div>
+
+      {/* Notes */}
+      <div>
+        <Label htmlFor="notes">Notas (opcional)</Label>
+        <Textarea
+          id="notes"
+          value={formData.notes}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value.slice(0, 500) })}
+          placeholder="Detalles adicionales sobre la cancelación..."
+          className="mt-1"
+          rows={3}
+          maxLength={500}
+        />
+      </div>
+
+      {/* Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onClose}
+          className="flex-1 min-h-[44px]"
+        >
+          Volver
+        </Button>
+        <Button
+          type="submit"
+          variant="destructive"
+          disabled={loading || !formData.cancelledBy.trim() || formData.refundAmount > totalPaid}
+          className="flex-1 min-h-[44px]"
+        >
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {loading ? 'Cancelando...' : 'Cancelar Reserva'}
+        </Button>
+      </div>
+    </form>
+  </div>
+  );
+};
+
+const CancellationModal = ({ isOpen, onClose, onSuccess, reservation }: CancellationModalProps) => {
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<CancellationRequest>(() => buildInitialForm(reservation, 'guest_request'));
+
+  const totalPaid = getTotalPaid(reservation);
+
+  useEffect(() => {
+    if (isOpen) {
+      logger.info('modal.cancellation.open', { reservationId: reservation?.id });
+      setFormData(buildInitialForm(reservation, 'guest_request'));
+    } else {
+      logger.info('modal.cancellation.close');
+    }
+  }, [isOpen, reservation]);
+
+  const handleReasonChange = (reason: CancellationReason) => {
+    const fee = calculateCancellationFee(reservation, reason);
+    setFormData({
+      ...formData,
+      reason,
+      fee,
+      refundAmount: calculateSuggestedRefund(reservation, fee)
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    logger.info('modal.cancellation.submit.start', {
+      reservationId: reservation.id,
+      reason: formData.reason,
+      fee: formData.fee,
+      refundAmount: formData.refundAmount
+    });
+
+    setLoading(true);
+
+    try {
+      await cancelReservation(reservation.id!, formData);
+      logger.info('modal.cancellation.submit.success', { reservationId: reservation.id });
+      toast({
+        title: "Reserva cancelada",
+        description: formData.refundAmount > 0
+          ? `Se registró un reembolso de $${formData.refundAmount.toLocaleString('es-CL')} para ${reservation.passengerName}.`
+          : `La reserva de ${reservation.passengerName} fue cancelada.`
+      });
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Hubo un problema al cancelar la reserva.";
+      logger.error('modal.cancellation.submit.error', {
+        reservationId: reservation.id,
+        error: errorMessage
+      });
+
+      toast({
+        title: "⚠️ Error al cancelar",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const contentProps = {
+    reservation,
+    totalPaid,
+    formData,
+    setFormData,
+    handleReasonChange,
+    handleSubmit,
+    onClose,
+    loading,
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={onClose}>
+        <DrawerContent className="max-h-[90vh]">
+          <DrawerHeader>
+            <DrawerTitle className="text-lg font-semibold flex items-center gap-2">
+              <Ban className="w-5 h-5 text-destructive" />
+              Cancelar Reserva
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="overflow-y-auto pb-4">
+            <Content {...contentProps} />
+          </div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold flex items-center gap-2">
+            <Ban className="w-5 h-5 text-destructive" />
+            Cancelar Reserva
+          </DialogTitle>
+          <DialogDescription>
+            La reserva se conserva para reportes y la cabaña queda disponible para esas fechas.
+          </DialogDescription>
+        </DialogHeader>
+        <Content {...contentProps} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancellationModal;
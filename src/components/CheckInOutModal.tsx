@@ -11,6 +11,7 @@ import { Reservation, CheckInOutData } from '@/types/reservation';
 import { performCheckIn, performCheckOut } from '@/lib/reservationService';
 import { formatDateForDisplay } from '@/lib/dateUtils';
 import { logger } from '@/lib/logger';
+import { getCabinName } from '@/lib/cabinConfig';
 
 interface CheckInOutModalProps {
   isOpen: boolean;
@@ -133,7 +134,7 @@ const CheckInOutModal = ({ isOpen, onClose, reservation, type, onSuccess }: Chec
       {/* Reservation Info */}
       <div className="space-y-2 p-4 bg-muted rounded-lg">
         <div><strong>Huésped:</strong> {reservation.passengerName}</div>
-        <div><strong>Cabaña:</strong> {reservation.cabinType}</div>
+        <div><strong>Cabaña:</strong> {getCabinName(reservation.cabinType)}</div>
         <div>
           <strong>Fecha programada:</strong> {formatDateForDisplay(scheduledDate)}
         </div>
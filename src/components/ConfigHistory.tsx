@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { FieldChange } from '@/types/reservation';
+import { ConfigVersion, getConfigVersions, restoreConfigVersion } from '@/lib/sharedConfig';
+import { getCabinDisplayName } from '@/lib/cabinConfig';
+import { formatDateTimeForDisplay } from '@/lib/dateUtils';
+import { logger } from '@/lib/logger';
+
+interface ConfigHistoryProps {
+  currentRevision: number;
+  disabled?: boolean;
+  onRestored?: () => void;
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  cabins: 'Cabañas',
+  pricing: 'Precios',
+  addOns: 'Servicios adicionales',
+  taxes: 'Impuestos',
+  exchangeRates: 'Tipos de cambio',
+  seasons: 'Temporadas',
+  holds: 'Bloqueos tentativos',
+  restrictions: 'Restricciones',
+  businessName: 'Nombre',
+  version: 'Versión de formato'
+};
+
+// `cabins.cabin-2.maxCapacity` → "Cabañas · Mediana 1 · maxCapacity"
+const formatField = (field: string): string => {
+  const [section, ...rest] = field.split('.');
+  const parts = section === 'cabins' && rest.length > 0
+    ? [getCabinDisplayName(rest[0]), ...rest.slice(1)]
+    : rest;
+  return [SECTION_LABELS[section] || section, ...parts].join(' · ');
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'number') return value.toLocaleString('es-CL');
+  if (Array.isArray(value)) {
+    return value.some(item => item && typeof item === 'object') ? `${value.length} elemento(s)` : value.join(', ');
+  }
+  if (typeof value === 'object') return 'registrada';
+  return String(value);
+};
+
+const ChangeLine = ({ change }: { change: FieldChange }) => (
+  <div className="text-xs text-muted-foreground break-all">
+    <span className="font-medium text-foreground">{formatField(change.field)}:</span>{' '}
+    {change.from !== null && (
+      <>
+        <span className="line-through">{formatValue(change.from)}</span>
+        {' → '}
+      </>
+    )}
+    <span className="text-foreground">{formatValue(change.to)}</span>
+  </div>
+);
+
+const ConfigHistory = ({ currentRevision, disabled, onRestored }: ConfigHistoryProps) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<ConfigVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  // Reloaded on every new revision, saved here or received from another device
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    getConfigVersions()
+      .then(result => {
+        if (active) setVersions(result);
+      })
+      .catch(error => {
+        logger.error('ConfigHistory.load.error', { error: String(error) });
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [currentRevision]);
+
+  const handleRestore = async (version: ConfigVersion) => {
+    setRestoring(version.revision);
+    try {
+      const restored = await restoreConfigVersion(version, currentRevision);
+      onRestored?.();
+      toast({
+        title: 'Configuración restaurada',
+        description: `La versión ${version.revision} se guardó como versión ${restored.revision}.`
+      });
+    } catch (error) {
+      logger.error('ConfigHistory.restore.error', { revision: version.revision, error: String(error) });
+      toast({
+        title: 'No se pudo restaurar',
+        description: error instanceof Error ? error.message : 'Error al restaurar la configuración',
+        variant: 'destructive'
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Historial de Configuración
+        </CardTitle>
+        <CardDescription>
+          Cada guardado crea una versión compartida por todos los dispositivos. Restaurar una versión la guarda de nuevo como la más reciente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Cargando versiones...
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Aún no hay versiones guardadas.</p>
+        ) : (
+          <ScrollArea className="h-72 border rounded-lg">
+            <div className="divide-y">
+              {versions.map((version) => (
+                <div key={version.id} className="p-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={version.revision === currentRevision ? 'default' : 'outline'}>
+                        Versión {version.revision}
+                      </Badge>
+                      {version.restoredFrom !== undefined && (
+                        <Badge variant="secondary" className="text-xs">Restaura v{version.restoredFrom}</Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {version.updatedAt ? formatDateTimeForDisplay(version.updatedAt) : ''}
+                        {version.updatedBy ? ` · ${version.updatedBy}` : ''}
+                      </span>
+                    </div>
+                    {version.revision !== currentRevision && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="outline" className="h-7" disabled={disabled || restoring !== null}>
+                            {restoring === version.revision
+                              ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                              : <RotateCcw className="w-3 h-3 mr-1" />}
+                            Restaurar
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>¿Restaurar la versión {version.revision}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Cabañas, precios y restricciones volverán a como estaban en esa versión en todos los dispositivos. Las reservas existentes no se verán afectadas.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRestore(version)}>Restaurar</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                  {version.changes.length === 0 && version.revision === 1 && (
+                    <p className="text-xs text-muted-foreground">Configuración inicial</p>
+                  )}
+                  {version.changes.map((change) => (
+                    <ChangeLine key={change.field} change={change} />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConfigHistory;
@@ -13,6 +13,7 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { Reservation } from '@/types/reservation';
 import { markConfirmationSent, updateReservation } from '@/lib/reservationService';
 import GuestInfoModal from './GuestInfoModal';
+import { getCabinName } from '@/lib/cabinConfig';
 
 interface ConfirmationModalProps {
   isOpen: boolean;
@@ -100,7 +101,7 @@ const ConfirmationModal = ({ isOpen, onClose, onSuccess, reservation }: Confirma
         <div className="text-sm text-muted-foreground">Confirmación para:</div>
         <div className="font-medium">{reservation.passengerName}</div>
         <div className="text-sm text-muted-foreground mt-1">
-          {reservation.cabinType} • {formatDateForDisplay(reservation.checkIn)} - {formatDateForDisplay(reservation.checkOut)}
+          {getCabinName(reservation.cabinType)} • {formatDateForDisplay(reservation.checkIn)} - {formatDateForDisplay(reservation.checkOut)}
         </div>
       </div>
 
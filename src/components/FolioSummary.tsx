@@ -0,0 +1,45 @@
+import { FolioLine } from '@/lib/folio';
+import { TaxBreakdown } from '@/types/reservation';
+
+interface FolioSummaryProps {
+  lines: FolioLine[];
+  total: number;
+  taxes?: TaxBreakdown;
+}
+
+const formatAmount = (amount: number): string => `$${amount.toLocaleString('es-CL')}`;
+
+// "Neto $84.034 · IVA 19% $15.966 · Exento $40.000"
+export const TaxSplit = ({ taxes }: { taxes: TaxBreakdown }) => (
+  <p className="text-xs text-muted-foreground text-right">
+    Neto {formatAmount(taxes.net)} · IVA {taxes.ivaRate}% {formatAmount(taxes.iva)}
+    {taxes.exempt > 0 && ` · Exento ${formatAmount(taxes.exempt)}`}
+  </p>
+);
+
+// Itemized folio: stay, discounts and add-ons adding up to the total, and its IVA split
+const FolioSummary = ({ lines, total, taxes }: FolioSummaryProps) => (
+  <div className="text-sm space-y-1">
+    {lines.map((line, index) => (
+      <div
+        key={`${line.type}-${index}`}
+        className={`flex justify-between gap-2 ${line.amount < 0 ? 'text-green-700' : ''}`}
+      >
+        <span>
+          {line.description}
+          {line.detail && <span className="text-xs text-muted-foreground ml-1">({line.detail})</span>}
+        </span>
+        <span className="whitespace-nowrap">
+          {line.amount < 0 ? '-' : ''}{formatAmount(Math.abs(line.amount))}
+        </span>
+      </div>
+    ))}
+    <div className="flex justify-between gap-2 border-t pt-1 font-medium">
+      <span>Total</span>
+      <span>{formatAmount(total)}</span>
+    </div>
+    {taxes && <TaxSplit taxes={taxes} />}
+  </div>
+);
+
+export default FolioSummary;
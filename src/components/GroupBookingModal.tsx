@@ -0,0 +1,621 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Users, Loader2, Save, UserPlus, X, DollarSign, Send, LogIn, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { Reservation } from '@/types/reservation';
+import { PaymentFormData } from '@/types/payment';
+import { ReservationGroup, ReservationGroupFormData } from '@/types/group';
+import { formatDateForDisplay, getTodayDate } from '@/lib/dateUtils';
+import { calculateRemainingBalance, getReservationsInRange, isCancelled } from '@/lib/reservationService';
+import {
+  MIN_GROUP_SIZE,
+  addGroupPayment,
+  addReservationToGroup,
+  allocateGroupPayment,
+  checkInGroup,
+  confirmGroup,
+  createGroup,
+  dissolveGroup,
+  getGroupById,
+  getGroupMembers,
+  removeReservationFromGroup,
+  summarizeGroup,
+  updateGroupDetails
+} from '@/lib/groups';
+import { getHistoryActor } from '@/lib/reservationHistory';
+import { logger } from '@/lib/logger';
+import { getCabinDisplayName } from '@/lib/cabinConfig';
+
+interface GroupBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  // Opens the reservation's group, or starts a new group around it
+  reservation: Reservation;
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentFormData['method'], string> = {
+  cash: 'Efectivo',
+  transfer: 'Transferencia',
+  credit_card: 'Tarjeta de Crédito',
+  other: 'Otro'
+};
+
+const formatMoney = (amount: number) => `$${amount.toLocaleString('es-CL')}`;
+
+
+// Same local "YYYY-MM-DDTHH:mm" format as CheckInOutModal
+const getLocalDateTime = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  const hours = String(now.getHours()).padStart(2, '0');
+  const minutes = String(now.getMinutes()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}T${hours}:${minutes}`;
+};
+
+const emptyPayment = (): PaymentFormData => ({
+  amount: 0,
+  paymentDate: getTodayDate(),
+  method: 'transfer',
+  notes: '',
+  createdBy: getHistoryActor()
+});
+
+const GroupBookingModal = ({ isOpen, onClose, onSuccess, reservation }: GroupBookingModalProps) => {
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const [group, setGroup] = useState<ReservationGroup | null>(null);
+  const [members, setMembers] = useState<Reservation[]>([]);
+  const [candidates, setCandidates] = useState<Reservation[]>([]);
+  const [details, setDetails] = useState<ReservationGroupFormData>({ name: '', leadGuestName: '' });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [memberToAdd, setMemberToAdd] = useState('');
+  const [payment, setPayment] = useState<PaymentFormData>(emptyPayment());
+  const [confirmMethod, setConfirmMethod] = useState<'email' | 'whatsapp' | 'manual'>('whatsapp');
+  const [loading, setLoading] = useState(false);
+  // Name of the action in progress, so only its button shows a spinner
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const isNew = !reservation.groupId;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (reservation.groupId) {
+        const current = await getGroupById(reservation.groupId);
+        if (!current) {
+          throw new Error('Grupo no encontrado');
+        }
+        const currentMembers = await getGroupMembers(current);
+        const first = currentMembers[0]?.checkIn || reservation.checkIn;
+        const last = currentMembers.reduce((max, m) => (m.checkOut > max ? m.checkOut : max), reservation.checkOut);
+        setGroup(current);
+        setMembers(currentMembers);
+        setDetails({
+          name: current.name,
+          leadGuestName: current.leadGuestName,
+          leadGuestPhone: current.leadGuestPhone,
+          leadGuestEmail: current.leadGuestEmail,
+          notes: current.notes
+        });
+        setCandidates(await getReservationsInRange(first, last));
+      } else {
+        setGroup(null);
+        setMembers([]);
+        setDetails({
+          name: `Grupo ${reservation.passengerName}`,
+          leadGuestName: reservation.passengerName,
+          leadGuestPhone: reservation.phone || '',
+          leadGuestEmail: reservation.email || '',
+          notes: ''
+        });
+        setSelectedIds([reservation.id!]);
+        // Groups usually share dates, so overlapping stays are offered
+        setCandidates(await getReservationsInRange(reservation.checkIn, reservation.checkOut));
+      }
+    } catch (error) {
+      logger.error('modal.group.load.error', { reservationId: reservation.id, error: String(error) });
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'No se pudo cargar el grupo.',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    reservation.id, reservation.groupId, reservation.checkIn, reservation.checkOut,
+    reservation.passengerName, reservation.phone, reservation.email, toast
+  ]);
+
+  useEffect(() => {
+    if (isOpen) {
+      logger.info('modal.group.open', { reservationId: reservation.id, groupId: reservation.groupId });
+      setPayment(emptyPayment());
+      setMemberToAdd('');
+      load();
+    }
+  }, [isOpen, load, reservation.id, reservation.groupId]);
+
+  const memberIds = members.map(m => m.id);
+  const joinable = candidates.filter(c =>
+    c.id !== reservation.id && !memberIds.includes(c.id) && !isCancelled(c) && !c.groupId
+  );
+  const summary = useMemo(() => summarizeGroup(members), [members]);
+  const allocationPreview = useMemo(
+    () => (payment.amount > 0 ? allocateGroupPayment(members, payment.amount) : []),
+    [members, payment.amount]
+  );
+  const pendingConfirmation = members.filter(m => !isCancelled(m) && !m.confirmationSent).length;
+  const pendingCheckIn = members.filter(m => !isCancelled(m) && (m.checkInStatus || 'pending') === 'pending').length;
+
+  // Runs a group action, then reloads the group and the list behind the modal
+  const run = async (action: string, work: () => Promise<string>) => {
+    setBusy(action);
+    try {
+      const message = await work();
+      toast({ title: '✅ Grupo actualizado', description: message });
+      onSuccess();
+      // The reservation passed in no longer matches: close instead of reloading
+      if (action === 'create' || action === 'dissolve') {
+        onClose();
+      } else {
+        await load();
+      }
+    } catch (error) {
+      logger.error('modal.group.action.error', { action, groupId: group?.id, error: String(error) });
+      toast({
+        title: '⚠️ Error',
+        description: error instanceof Error ? error.message : 'No se pudo actualizar el grupo.',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = () => run('create', async () => {
+    await createGroup(details, selectedIds);
+    return `Se agruparon ${selectedIds.length} reservas.`;
+  });
+
+  const handleSaveDetails = () => run('details', async () => {
+    await updateGroupDetails(group!.id!, details);
+    return 'Datos del grupo guardados.';
+  });
+
+  const handleAddMember = () => run('add', async () => {
+    await addReservationToGroup(group!.id!, memberToAdd);
+    setMemberToAdd('');
+    return 'Reserva agregada al grupo.';
+  });
+
+  const handleRemoveMember = (member: Reservation) => run('remove', async () => {
+    await removeReservationFromGroup(group!.id!, member.id!);
+    return `${member.passengerName} ya no pertenece al grupo.`;
+  });
+
+  const handlePayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('payment', async () => {
+      const shares = await addGroupPayment(group!.id!, payment);
+      setPayment(emptyPayment());
+      return `Pago de ${formatMoney(payment.amount)} repartido en ${shares.length} reserva(s).`;
+    });
+  };
+
+  const handleConfirm = () => run('confirm', async () => {
+    const confirmed = await confirmGroup(group!.id!, confirmMethod);
+    return `Confirmación registrada en ${confirmed} reserva(s).`;
+  });
+
+  const handleCheckIn = () => run('checkin', async () => {
+    const checkedIn = await checkInGroup(group!.id!, getLocalDateTime());
+    return `Check-in registrado en ${checkedIn} reserva(s).`;
+  });
+
+  const handleDissolve = () => run('dissolve', async () => {
+    await dissolveGroup(group!.id!);
+    return 'Las reservas quedan como reservas individuales.';
+  });
+
+  const detailsForm = (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div className="sm:col-span-2">
+        <Label htmlFor="groupName">Nombre del grupo</Label>
+        <Input
+          id="groupName"
+          value={details.name}
+          onChange={(e) => setDetails({ ...details, name: e.target.value })}
+          className="mt-1"
+        />
+      </div>
+      <div className="sm:col-span-2">
+        <Label htmlFor="leadGuestName">Huésped principal</Label>
+        <Input
+          id="leadGuestName"
+          value={details.leadGuestName}
+          onChange={(e) => setDetails({ ...details, leadGuestName: e.target.value })}
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="leadGuestPhone">Teléfono</Label>
+        <Input
+          id="leadGuestPhone"
+          value={details.leadGuestPhone || ''}
+          onChange={(e) => setDetails({ ...details, leadGuestPhone: e.target.value })}
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="leadGuestEmail">Email</Label>
+        <Input
+          id="leadGuestEmail"
+          type="email"
+          value={details.leadGuestEmail || ''}
+          onChange={(e) => setDetails({ ...details, leadGuestEmail: e.target.value })}
+          className="mt-1"
+        />
+      </div>
+    </div>
+  );
+
+  const createContent = (
+    <div className="space-y-4">
+      {detailsForm}
+      <div>
+        <Label>Reservas del grupo</Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Reservas con fechas que se cruzan con {formatDateForDisplay(reservation.checkIn)} - {formatDateForDisplay(reservation.checkOut)}
+        </p>
+        <div className="border rounded-lg divide-y">
+          {[reservation, ...joinable].map(candidate => (
+            <label key={candidate.id} className="flex items-center gap-3 p-3 text-sm cursor-pointer">
+              <Checkbox
+                checked={selectedIds.includes(candidate.id!)}
+                disabled={candidate.id === reservation.id}
+                onCheckedChange={(checked) => setSelectedIds(checked
+                  ? [...selectedIds, candidate.id!]
+                  : selectedIds.filter(id => id !== candidate.id))}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{candidate.passengerName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {getCabinDisplayName(candidate.cabinType)} • {formatDateForDisplay(candidate.checkIn)} - {formatDateForDisplay(candidate.checkOut)}
+                </div>
+              </div>
+              <span className="text-sm font-medium">{formatMoney(candidate.totalPrice)}</span>
+            </label>
+          ))}
+        </div>
+        {joinable.length === 0 && !loading && (
+          <p className="text-xs text-muted-foreground mt-2">No hay otras reservas disponibles para agrupar en esas fechas.</p>
+        )}
+      </div>
+      <div className="flex gap-3 pt-2">
+        <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+          Cancelar
+        </Button>
+        <Button
+          onClick={handleCreate}
+          disabled={!!busy || selectedIds.length < MIN_GROUP_SIZE || !details.name.trim() || !details.leadGuestName.trim()}
+          className="flex-1"
+        >
+          {busy === 'create' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Users className="w-4 h-4 mr-2" />}
+          Crear grupo ({selectedIds.length})
+        </Button>
+      </div>
+    </div>
+  );
+
+  const manageContent = (
+    <div className="space-y-5">
+      {/* Combined totals */}
+      <div className="bg-accent/50 p-4 rounded-lg space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span>Precio combinado ({members.length} cabañas):</span>
+          <span className="font-medium">{formatMoney(summary.totalPrice)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Pagado:</span>
+          <span className="font-medium">{formatMoney(summary.totalPaid)}</span>
+        </div>
+        <div className="flex justify-between font-bold border-t pt-1 mt-1">
+          <span>Saldo del grupo:</span>
+          <span className={summary.remainingBalance > 0 ? 'text-destructive' : 'text-primary'}>
+            {formatMoney(summary.remainingBalance)}
+          </span>
+        </div>
+      </div>
+
+      {/* Members */}
+      <div className="space-y-2">
+        <Label>Reservas</Label>
+        <div className="border rounded-lg divide-y">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center gap-3 p-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{member.passengerName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {getCabinDisplayName(member.cabinType)} • {formatDateForDisplay(member.checkIn)} - {formatDateForDisplay(member.checkOut)}
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {isCancelled(member) && <Badge variant="destructive" className="text-xs">Cancelada</Badge>}
+                  <Badge variant={member.confirmationSent ? 'default' : 'outline'} className="text-xs">
+                    {member.confirmationSent ? 'Confirmada' : 'Sin confirmar'}
+                  </Badge>
+                  <Badge variant={member.checkInStatus === 'checked_in' ? 'default' : 'outline'} className="text-xs">
+                    {member.checkInStatus === 'checked_in' ? 'In ✓' : member.checkInStatus === 'no_show' ? 'No Show' : 'In ⏳'}
+                  </Badge>
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="font-medium">{formatMoney(member.totalPrice)}</div>
+                <div className="text-xs text-muted-foreground">Saldo: {formatMoney(calculateRemainingBalance(member))}</div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemoveMember(member)}
+                disabled={!!busy || members.length <= MIN_GROUP_SIZE}
+                title="Quitar del grupo"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {joinable.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={memberToAdd} onValueChange={setMemberToAdd}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Agregar otra reserva..." />
+              </SelectTrigger>
+              <SelectContent>
+                {joinable.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id!}>
+                    {candidate.passengerName} · {getCabinDisplayName(candidate.cabinType)} · {formatDateForDisplay(candidate.checkIn)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAddMember} disabled={!!busy || !memberToAdd}>
+              {busy === 'add' ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Group-level actions */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div className="flex gap-2">
+          <Select value={confirmMethod} onValueChange={(value) => setConfirmMethod(value as typeof confirmMethod)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="email">📧 Email</SelectItem>
+              <SelectItem value="whatsapp">💬 WhatsApp</SelectItem>
+              <SelectItem value="manual">📄 Manual</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="secondary"
+            onClick={handleConfirm}
+            disabled={!!busy || pendingConfirmation === 0}
+            className="flex-1 bg-orange-100 text-orange-700 hover:bg-orange-200"
+          >
+            {busy === 'confirm' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+            Confirmar grupo
+          </Button>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={handleCheckIn}
+          disabled={!!busy || pendingCheckIn === 0}
+          className="bg-green-100 text-green-700 hover:bg-green-200"
+        >
+          {busy === 'checkin' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogIn className="w-4 h-4 mr-2" />}
+          Check-in grupal ({pendingCheckIn})
+        </Button>
+      </div>
+
+      {/* Shared payment */}
+      {summary.remainingBalance > 0 && (
+        <form onSubmit={handlePayment} className="space-y-3 border rounded-lg p-3">
+          <Label className="flex items-center gap-2">
+            <DollarSign className="w-4 h-4" />
+            Pago del grupo
+          </Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min="1"
+              max={summary.remainingBalance}
+              value={payment.amount || ''}
+              onChange={(e) => setPayment({ ...payment, amount: parseFloat(e.target.value) || 0 })}
+              placeholder="Monto"
+              required
+            />
+            <Input
+              type="date"
+              value={payment.paymentDate}
+              onChange={(e) => setPayment({ ...payment, paymentDate: e.target.value })}
+              required
+            />
+            <Select
+              value={payment.method}
+              onValueChange={(value) => setPayment({ ...payment, method: value as PaymentFormData['method'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={payment.notes || ''}
+              onChange={(e) => setPayment({ ...payment, notes: e.target.value.slice(0, 500) })}
+              placeholder="Notas (opcional)"
+              maxLength={500}
+            />
+          </div>
+          {allocationPreview.length > 0 && payment.amount <= summary.remainingBalance && (
+            <div className="text-xs text-muted-foreground space-y-0.5">
+              {allocationPreview.map(share => (
+                <div key={share.reservationId} className="flex justify-between">
+                  <span>{share.passengerName} · {getCabinDisplayName(share.cabinType)}</span>
+                  <span>{formatMoney(share.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <Button
+            type="submit"
+            disabled={!!busy || payment.amount <= 0 || payment.amount > summary.remainingBalance}
+            className="w-full"
+          >
+            {busy === 'payment' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Registrar pago del grupo
+          </Button>
+        </form>
+      )}
+
+      {/* Ledger */}
+      <div className="space-y-2">
+        <Label>Pagos</Label>
+        {summary.ledger.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin pagos registrados</p>
+        ) : (
+          <div className="border rounded-lg divide-y">
+            {summary.ledger.map(entry => (
+              <div key={entry.id} className="p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="font-medium">
+                    {formatDateForDisplay(entry.paymentDate)} · {PAYMENT_METHOD_LABELS[entry.method] || entry.method}
+                  </span>
+                  <span className={entry.amount < 0 ? 'font-medium text-destructive' : 'font-medium'}>
+                    {formatMoney(entry.amount)}
+                  </span>
+                </div>
+                {entry.allocations.map(share => (
+                  <div key={share.reservationId} className="flex justify-between text-xs text-muted-foreground">
+                    <span>{share.passengerName} · {getCabinDisplayName(share.cabinType)}</span>
+                    <span>{formatMoney(share.amount)}</span>
+                  </div>
+                ))}
+                {entry.notes && <div className="text-xs text-muted-foreground">{entry.notes}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Details */}
+      <div className="space-y-3">
+        {detailsForm}
+        <Button variant="outline" onClick={handleSaveDetails} disabled={!!busy} className="w-full">
+          {busy === 'details' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Guardar datos del grupo
+        </Button>
+      </div>
+
+      <div className="flex justify-center pt-2">
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!!busy} className="text-destructive hover:text-destructive hover:bg-destructive/10">
+              <Unlink className="w-4 h-4 mr-2" />
+              Desagrupar
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>¿Desagrupar reservas?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Se eliminará el grupo "{group?.name}". Las {members.length} reservas y sus pagos se mantienen como reservas individuales.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDissolve}>Desagrupar</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+
+  const content = (
+    <div className="p-4 overflow-y-auto">
+      {loading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin mx-auto mb-2" />
+          Cargando...
+        </div>
+      ) : isNew ? createContent : manageContent}
+    </div>
+  );
+
+  const title = isNew ? 'Agrupar reservas' : group?.name || 'Grupo';
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={onClose}>
+        <DrawerContent className="max-h-[90vh]">
+          <DrawerHeader>
+            <DrawerTitle className="text-lg font-semibold flex items-center gap-2">
+              <Users className="w-5 h-5 text-primary" />
+              {title}
+            </DrawerTitle>
+          </DrawerHeader>
+          {content}
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold flex items-center gap-2">
+            <Users className="w-5 h-5 text-primary" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>
+            {isNew
+              ? 'Une varias cabañas bajo un huésped principal, con un precio combinado y pagos compartidos.'
+              : `Huésped principal: ${group?.leadGuestName || '—'}`}
+          </DialogDescription>
+        </DialogHeader>
+        {content}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupBookingModal;
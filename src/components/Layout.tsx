@@ -6,7 +6,8 @@ import {
   Home, 
   FileText,
   Bed,
-  Settings
+  Settings,
+  Trash2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -104,6 +105,18 @@ const Layout = ({ children }: LayoutProps) => {
               >
                 <Settings className="h-4 w-4" />
               </NavLink>
+              <NavLink 
+                to="/trash" 
+                title="Papelera"
+                className={({ isActive }) => 
+                  cn(
+                    "text-sm font-medium transition-colors hover:text-primary py-2",
+                    isActive ? "text-foreground border-b-2 border-primary" : "text-muted-foreground"
+                  )
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </NavLink>
             </nav>
           </div>
         </div>
@@ -0,0 +1,296 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Loader2, ArrowRightLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { addDays, formatDateForDisplay, getTodayDate } from '@/lib/dateUtils';
+import { checkMultipleCabinAvailability, type CabinAvailability } from '@/lib/availabilityHelpers';
+import { getCabinOnNight } from '@/lib/availabilityPolicy';
+import { formatSegments, getSegments, splitStayAt, toStayLayout } from '@/lib/staySegments';
+import { calculatePrice } from '@/lib/pricing';
+import { getBookingDate } from '@/lib/pricingRules';
+import { validateCabinCapacity } from '@/lib/validation';
+import { moveGuest } from '@/lib/cabinMoves';
+import { getCabinName } from '@/lib/cabinConfig';
+import { CabinType, Reservation } from '@/types/reservation';
+import { logger } from '@/lib/logger';
+
+interface MoveGuestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  reservation: Reservation;
+}
+
+interface ContentProps {
+  reservation: Reservation;
+  moveDate: string;
+  setMoveDate: (date: string) => void;
+  cabinType: CabinType | '';
+  setCabinType: (cabinType: CabinType | '') => void;
+  availability: CabinAvailability[];
+  checkingAvailability: boolean;
+  handleSubmit: (e: React.FormEvent) => void;
+  onClose: () => void;
+  loading: boolean;
+}
+
+// Today when the guest is in house, otherwise the second night of the stay
+const getDefaultMoveDate = (reservation: Reservation): string => {
+  const today = getTodayDate();
+  return today > reservation.checkIn && today < reservation.checkOut ? today : addDays(reservation.checkIn, 1);
+};
+
+const Content = ({
+  reservation,
+  moveDate,
+  setMoveDate,
+  cabinType,
+  setCabinType,
+  availability,
+  checkingAvailability,
+  handleSubmit,
+  onClose,
+  loading,
+}: ContentProps) => {
+  const currentCabin = getCabinOnNight(reservation, moveDate);
+  const isValidDate = moveDate > reservation.checkIn && moveDate < reservation.checkOut;
+
+  // New segments and price for the selected move
+  const preview = useMemo(() => {
+    if (!isValidDate || !cabinType || cabinType === currentCabin) return null;
+    const layout = toStayLayout(splitStayAt(reservation, moveDate, cabinType));
+    return {
+      segments: layout.segments || [],
+      totalPrice: calculatePrice({ ...reservation, ...layout }, getBookingDate(reservation), reservation.nightlyRates, reservation.priceAdjustments)
+    };
+  }, [reservation, moveDate, cabinType, currentCabin, isValidDate]);
+
+  return (
+  <div className="space-y-4 p-4">
+    {/* Reservation Info */}
+    <div className="bg-accent/50 p-4 rounded-lg">
+      <div className="text-sm text-muted-foreground">Reserva de:</div>
+      <div className="font-medium">{reservation.passengerName}</div>
+      <div className="text-sm text-muted-foreground mt-1">
+        {formatSegments(getSegments(reservation))}
+      </div>
+    </div>
+
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Move date */}
+      <div>
+        <Label htmlFor="moveDate">Cambiar desde la noche del</Label>
+        <Input
+          id="moveDate"
+          type="date"
+          min={addDays(reservation.checkIn, 1)}
+          max={addDays(reservation.checkOut, -1)}
+          value={moveDate}
+          onChange={(e) => setMoveDate(e.target.value)}
+          required
+          className="mt-1"
+        />
+        {currentCabin && (
+          <div className="text-xs text-muted-foreground mt-1">
+            Esa noche está en la {currentCabin}. Se mueve hasta el check-out ({formatDateForDisplay(reservation.checkOut)}).
+          </div>
+        )}
+      </div>
+
+      {/* Target cabin */}
+      <div>
+        <Label>Nueva cabaña</Label>
+        <Select
+          value={cabinType}
+          onValueChange={(value) => setCabinType(value as CabinType)}
+          disabled={!isValidDate || checkingAvailability}
+        >
+          <SelectTrigger className="mt-1">
+            <SelectValue placeholder={checkingAvailability ? 'Revisando disponibilidad...' : 'Selecciona una cabaña'} />
+          </SelectTrigger>
+          <SelectContent>
+            {availability.map(cabin => {
+              const fits = validateCabinCapacity(cabin.cabinType, reservation.adults, reservation.children, reservation.babies).isValid;
+              const isCurrent = cabin.cabinType === currentCabin;
+              return (
+                <SelectItem
+                  key={cabin.cabinType}
+                  value={cabin.cabinType}
+                  disabled={isCurrent || !cabin.isAvailable || !fits}
+                >
+                  {getCabinName(cabin.cabinType)}
+                  {isCurrent ? ' (actual)' : !cabin.isAvailable ? ' (ocupada)' : !fits ? ' (capacidad insuficiente)' : ''}
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Preview */}
+      {preview && (
+        <div className="bg-muted/50 p-3 rounded-lg text-sm space-y-1">
+          <div className="text-muted-foreground">{formatSegments(preview.segments)}</div>
+          <div className="flex justify-between">
+            <span>Nuevo total:</span>
+            <span className="font-medium">${preview.totalPrice.toLocaleString('es-CL')}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onClose}
+          className="flex-1 min-h-[44px]"
+        >
+          Volver
+        </Button>
+        <Button
+          type="submit"
+          disabled={loading || !preview}
+          className="flex-1 min-h-[44px]"
+        >
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {loading ? 'Moviendo...' : 'Mover Huésped'}
+        </Button>
+      </div>
+    </form>
+  </div>
+  );
+};
+
+const MoveGuestModal = ({ isOpen, onClose, onSuccess, reservation }: MoveGuestModalProps) => {
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const [loading, setLoading] = useState(false);
+  const [moveDate, setMoveDate] = useState(() => getDefaultMoveDate(reservation));
+  const [cabinType, setCabinType] = useState<CabinType | ''>('');
+  const [availability, setAvailability] = useState<CabinAvailability[]>([]);
+  const [checkingAvailability, setCheckingAvailability] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      logger.info('modal.moveGuest.open', { reservationId: reservation?.id });
+      setMoveDate(getDefaultMoveDate(reservation));
+      setCabinType('');
+    } else {
+      logger.info('modal.moveGuest.close');
+    }
+  }, [isOpen, reservation]);
+
+  // Cabins free from the move date until check-out
+  useEffect(() => {
+    if (!isOpen || moveDate <= reservation.checkIn || moveDate >= reservation.checkOut) {
+      setAvailability([]);
+      return;
+    }
+    let cancelled = false;
+    setCheckingAvailability(true);
+    checkMultipleCabinAvailability(moveDate, reservation.checkOut, reservation.id)
+      .then(result => {
+        if (!cancelled) setAvailability(result);
+      })
+      .catch(error => logger.error('modal.moveGuest.availability.error', { error: String(error) }))
+      .finally(() => {
+        if (!cancelled) setCheckingAvailability(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, moveDate, reservation.checkIn, reservation.checkOut, reservation.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cabinType) return;
+
+    logger.info('modal.moveGuest.submit.start', { reservationId: reservation.id, moveDate, cabinType });
+    setLoading(true);
+
+    try {
+      await moveGuest(reservation.id!, moveDate, cabinType);
+      logger.info('modal.moveGuest.submit.success', { reservationId: reservation.id });
+      toast({
+        title: "Huésped movido",
+        description: `${reservation.passengerName} pasa a la ${getCabinName(cabinType)} desde el ${formatDateForDisplay(moveDate)}.`
+      });
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Hubo un problema al mover al huésped.";
+      logger.error('modal.moveGuest.submit.error', {
+        reservationId: reservation.id,
+        error: errorMessage
+      });
+
+      toast({
+        title: "⚠️ Error al mover",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const contentProps = {
+    reservation,
+    moveDate,
+    setMoveDate: (date: string) => {
+      setMoveDate(date);
+      setCabinType('');
+    },
+    cabinType,
+    setCabinType,
+    availability,
+    checkingAvailability,
+    handleSubmit,
+    onClose,
+    loading,
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={onClose}>
+        <DrawerContent className="max-h-[90vh]">
+          <DrawerHeader>
+            <DrawerTitle className="text-lg font-semibold flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5 text-primary" />
+              Mover Huésped
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="overflow-y-auto pb-4">
+            <Content {...contentProps} />
+          </div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold flex items-center gap-2">
+            <ArrowRightLeft className="w-5 h-5 text-primary" />
+            Mover Huésped
+          </DialogTitle>
+          <DialogDescription>
+            La estadía se divide en la fecha elegida; las noches anteriores quedan en su cabaña.
+          </DialogDescription>
+        </DialogHeader>
+        <Content {...contentProps} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoveGuestModal;
@@ -13,9 +13,15 @@ import { useToast } from '@/hooks/use-toast';
 import { formatDateForDisplay } from '@/lib/dateUtils';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Reservation } from '@/types/reservation';
-import { PaymentFormData } from '@/types/payment';
+import { Currency, PaymentFormData } from '@/types/payment';
 import { addPayment, calculateRemainingBalance } from '@/lib/reservationService';
 import { logger } from '@/lib/logger';
+import { getHistoryActor } from '@/lib/reservationHistory';
+import { getCabinName } from '@/lib/cabinConfig';
+import { BASE_CURRENCY, CURRENCIES, formatCurrency, fromBaseAmount, getExchangeRate, toSettledBaseAmount } from '@/lib/currency';
+import { getFolioLines } from '@/lib/folio';
+import { getReservationTaxes } from '@/lib/taxes';
+import FolioSummary from '@/components/FolioSummary';
 
 interface PaymentModalProps {
   isOpen: boolean;
@@ -27,6 +33,8 @@ interface PaymentModalProps {
 interface ContentProps {
   reservation: Reservation;
   remainingBalance: number;
+  baseAmount: number; // CLP counted toward the balance
+  changeCurrency: (currency: Currency) => void;
   formData: PaymentFormData;
   setFormData: (formData: PaymentFormData) => void;
   handleSubmit: (e: React.FormEvent) => void;
@@ -35,9 +43,14 @@ interface ContentProps {
   loading: boolean;
 }
 
+// Payment in another currency: amount in that currency and the rate applied
+const isForeign = (formData: PaymentFormData): boolean => !!formData.currency && formData.currency !== BASE_CURRENCY;
+
 const Content = ({
   reservation,
   remainingBalance,
+  baseAmount,
+  changeCurrency,
   formData,
   setFormData,
   handleSubmit,
@@ -45,7 +58,11 @@ const Content = ({
   onClose,
   loading,
 }: ContentProps) => {
-  
+  // Balance in the payment currency, rounded to the cent; paying it settles the CLP balance exactly
+  const foreignBalance = isForeign(formData)
+    ? fromBaseAmount(remainingBalance, formData.currency!, formData.exchangeRate || getExchangeRate(formData.currency!))
+    : 0;
+
   return (
   <div className="space-y-4 p-4">
     {/* Reservation Info */}
@@ -53,13 +70,12 @@ const Content = ({
       <div className="text-sm text-muted-foreground">Reserva de:</div>
       <div className="font-medium">{reservation.passengerName}</div>
       <div className="text-sm text-muted-foreground mt-1">
-        {reservation.cabinType} • {formatDateForDisplay(reservation.checkIn)} - {formatDateForDisplay(reservation.checkOut)}
+        {getCabinName(reservation.cabinType)} • {formatDateForDisplay(reservation.checkIn)} - {formatDateForDisplay(reservation.checkOut)}
       </div>
-      <div className="mt-2 flex justify-between text-sm">
-        <span>Total:</span>
-        <span className="font-medium">${reservation.totalPrice.toLocaleString('es-CL')}</span>
+      <div className="mt-2">
+        <FolioSummary lines={getFolioLines(reservation)} total={reservation.totalPrice} taxes={getReservationTaxes(reservation)} />
       </div>
-      <div className="flex justify-between text-sm">
+      <div className="flex justify-between text-sm mt-1">
         <span>Pagado:</span>
         <span className="font-medium">${(reservation.totalPrice - remainingBalance).toLocaleString('es-CL')}</span>
       </div>
@@ -71,26 +87,93 @@ const Content = ({
 
     <form onSubmit={handleSubmit} className="space-y-4">
 
+      {/* Currency */}
+      <div>
+        <Label>Moneda</Label>
+        <Select
+          value={formData.currency || BASE_CURRENCY}
+          onValueChange={(value: Currency) => changeCurrency(value)}
+        >
+          <SelectTrigger className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CURRENCIES.map(currency => (
+              <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {reservation.taxTreatment === 'exempt' && !isForeign(formData) && (
+          <p className="text-xs text-amber-600 mt-1">
+            La estadía está exenta de IVA porque se confirmó que el huésped paga en moneda extranjera; un pago en CLP no cumple la exención.
+          </p>
+        )}
+      </div>
+
       {/* Amount */}
       <div>
-        <Label htmlFor="amount">Monto del Pago</Label>
+        <Label htmlFor="amount">Monto del Pago{isForeign(formData) ? ` (${formData.currency})` : ''}</Label>
         <div className="flex gap-2 mt-1">
+          {isForeign(formData) ? (
+            <Input
+              id="amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={formData.originalAmount || ''}
+              onChange={(e) => setFormData({ ...formData, originalAmount: parseFloat(e.target.value) || 0 })}
+              placeholder="0"
+              required
+              className="flex-1"
+            />
+          ) : (
+            <Input
+              id="amount"
+              type="number"
+              min="1"
+              max={remainingBalance}
+              value={formData.amount || ''}
+              onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+              placeholder="0"
+              required
+              className="flex-1"
+            />
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground mt-1">
+          {isForeign(formData) ? (
+            <>
+              Balance pendiente: {formatCurrency(foreignBalance, formData.currency)}{' '}
+              <button
+                type="button"
+                className="underline"
+                onClick={() => setFormData({ ...formData, originalAmount: foreignBalance })}
+              >
+                Pagar el saldo
+              </button>
+            </>
+          ) : 'Puedes editar el monto manualmente si es necesario'}
+        </div>
+      </div>
+
+      {isForeign(formData) && (
+        <div>
+          <Label htmlFor="exchangeRate">Tipo de Cambio (CLP por {formData.currency})</Label>
           <Input
-            id="amount"
+            id="exchangeRate"
             type="number"
-            min="1"
-            max={remainingBalance}
-            value={formData.amount || ''}
-            onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
-            placeholder="0"
+            min="0.01"
+            step="0.01"
+            value={formData.exchangeRate || ''}
+            onChange={(e) => setFormData({ ...formData, exchangeRate: parseFloat(e.target.value) || 0 })}
             required
-            className="flex-1"
+            className="mt-1"
           />
+          <div className="text-xs text-muted-foreground mt-1">
+            Equivale a {formatCurrency(baseAmount)} del balance de la reserva
+          </div>
         </div>
-        <div className="text-xs text-muted-foreground mt-1">
-          Puedes editar el monto manualmente si es necesario
-        </div>
-      </div>
+      )}
 
       {/* Payment Date */}
       <div>
@@ -153,7 +236,7 @@ const Content = ({
         </Button>
         <Button
           type="submit"
-          disabled={loading || formData.amount <= 0 || formData.amount > remainingBalance}
+          disabled={loading || baseAmount <= 0 || baseAmount > remainingBalance}
           className="flex-1 min-h-[44px]"
         >
           {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
@@ -181,10 +264,20 @@ const PaymentModal = ({ isOpen, onClose, onSuccess, reservation }: PaymentModalP
       })(),
     method: 'cash',
     notes: '',
-    createdBy: 'Sistema'
+    createdBy: getHistoryActor()
   });
 
   const remainingBalance = calculateRemainingBalance(reservation);
+  const baseAmount = isForeign(formData)
+    ? toSettledBaseAmount(formData.originalAmount || 0, formData.exchangeRate || 0, remainingBalance)
+    : formData.amount;
+
+  // Foreign currencies start from the rate set in Admin, which can be edited for this payment
+  const changeCurrency = (currency: Currency) => {
+    setFormData(currency === BASE_CURRENCY
+      ? { ...formData, currency: undefined, originalAmount: undefined, exchangeRate: undefined }
+      : { ...formData, currency, exchangeRate: getExchangeRate(currency) });
+  };
 
   useEffect(() => {
     if (isOpen) {
@@ -200,12 +293,15 @@ const PaymentModal = ({ isOpen, onClose, onSuccess, reservation }: PaymentModalP
         })(),
         method: 'cash',
         notes: '',
-        createdBy: 'Sistema'
+        createdBy: getHistoryActor(),
+        ...(reservation?.guestCurrency && reservation.guestCurrency !== BASE_CURRENCY
+          ? { currency: reservation.guestCurrency, exchangeRate: getExchangeRate(reservation.guestCurrency) }
+          : {})
       });
     } else {
       logger.info('modal.payment.close');
     }
-  }, [isOpen, reservation?.id]);
+  }, [isOpen, reservation?.id, reservation?.guestCurrency]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -216,9 +312,9 @@ const PaymentModal = ({ isOpen, onClose, onSuccess, reservation }: PaymentModalP
       method: formData.method 
     });
 
-    if (formData.amount <= 0) {
+    if (baseAmount <= 0) {
       logger.warn('modal.payment.submit.validation.amount.invalid', { 
-        amount: formData.amount,
+        amount: baseAmount,
         reservationId: reservation.id 
       });
       toast({
@@ -229,9 +325,9 @@ const PaymentModal = ({ isOpen, onClose, onSuccess, reservation }: PaymentModalP
       return;
     }
 
-    if (formData.amount > remainingBalance) {
+    if (baseAmount > remainingBalance) {
       logger.warn('modal.payment.submit.validation.amount.exceeds_balance', { 
-        amount: formData.amount,
+        amount: baseAmount,
         remainingBalance,
         reservationId: reservation.id 
       });
@@ -246,14 +342,15 @@ const PaymentModal = ({ isOpen, onClose, onSuccess, reservation }: PaymentModalP
     setLoading(true);
     
     try {
-      await addPayment(reservation.id!, formData);
+      await addPayment(reservation.id!, { ...formData, amount: baseAmount });
       logger.info('modal.payment.submit.success', { 
         reservationId: reservation.id,
-        amount: formData.amount 
+        amount: baseAmount,
+        currency: formData.currency
       });
       toast({
         title: "✅ Pago registrado exitosamente",
-        description: `Se ha registrado un pago de $${formData.amount.toLocaleString('es-CL')} para la reserva de ${reservation.passengerName}.`
+        description: `Se ha registrado un pago de ${isForeign(formData) ? `${formatCurrency(formData.originalAmount || 0, formData.currency)} (${formatCurrency(baseAmount)})` : formatCurrency(baseAmount)} para la reserva de ${reservation.passengerName}.`
       });
       onSuccess();
       onClose();
@@ -278,6 +375,8 @@ const PaymentModal = ({ isOpen, onClose, onSuccess, reservation }: PaymentModalP
   const contentProps = {
     reservation,
     remainingBalance,
+    baseAmount,
+    changeCurrency,
     formData,
     setFormData,
     handleSubmit,
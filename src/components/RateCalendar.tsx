@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DateRateAdjustment, PricingConfig } from '@/lib/adminConfig';
+import {
+  findOccupancy,
+  formatRateAdjustment,
+  NightOccupancy,
+  RateSuggestion,
+  suggestRateAdjustment
+} from '@/lib/occupancyPricing';
+import { formatDateForDisplay, formatDateToISO, getTodayDate, parseDate } from '@/lib/dateUtils';
+import { logger } from '@/lib/logger';
+
+interface RateCalendarProps {
+  pricing: PricingConfig;
+  cabinIds: string[];
+  // undefined removes the adjustment of the night
+  onChange: (updates: Record<string, DateRateAdjustment | undefined>) => void;
+}
+
+const MONTH_NAMES = [
+  'Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio',
+  'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'
+];
+
+const WEEKDAY_LABELS = ['Lu', 'Ma', 'Mi', 'Ju', 'Vi', 'Sá', 'Do'];
+
+const adjustmentColor = (percent: number): string => {
+  if (percent > 0) return 'bg-amber-100 text-amber-900';
+  if (percent < 0) return 'bg-green-100 text-green-900';
+  return 'bg-muted';
+};
+
+const toSuggestedAdjustment = (suggestion: RateSuggestion): DateRateAdjustment => ({
+  percent: suggestion.percent,
+  source: 'suggestion',
+  ruleName: suggestion.ruleName,
+});
+
+/**
+ * Nights of a month with their on-the-books occupancy, the adjustment the occupancy rules
+ * being edited suggest and the one accepted. Changes are saved with the rest of the config.
+ */
+const RateCalendar = ({ pricing, cabinIds, onChange }: RateCalendarProps) => {
+  const today = getTodayDate();
+  const [month, setMonth] = useState(() => {
+    const date = parseDate(today);
+    return { year: date.getFullYear(), month: date.getMonth() };
+  });
+  const [occupancy, setOccupancy] = useState<NightOccupancy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [override, setOverride] = useState('');
+
+  const startDate = formatDateToISO(new Date(month.year, month.month, 1));
+  const endDate = formatDateToISO(new Date(month.year, month.month + 1, 1));
+  const cabinKey = cabinIds.join(',');
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    findOccupancy(startDate, endDate, cabinKey.split(',').filter(Boolean))
+      .then(result => {
+        if (active) setOccupancy(result);
+      })
+      .catch(error => {
+        logger.error('RateCalendar.load.error', { startDate, error: String(error) });
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [startDate, endDate, cabinKey]);
+
+  const suggestions = useMemo(() => {
+    const byDate = new Map<string, RateSuggestion>();
+    occupancy.forEach(night => {
+      const suggestion = suggestRateAdjustment(night, today, pricing.occupancyRules);
+      if (suggestion) byDate.set(night.date, suggestion);
+    });
+    return byDate;
+  }, [occupancy, today, pricing.occupancyRules]);
+
+  // Suggestions on nights nobody has decided on yet
+  const pending = Array.from(suggestions.values()).filter(suggestion => !pricing.dateAdjustments[suggestion.date]);
+
+  const selectNight = (date: string) => {
+    setSelectedDate(date);
+    const percent = pricing.dateAdjustments[date]?.percent ?? suggestions.get(date)?.percent;
+    setOverride(percent !== undefined ? String(percent) : '');
+  };
+
+  const changeMonth = (delta: number) => {
+    setSelectedDate(null);
+    setMonth(current => {
+      const date = new Date(current.year, current.month + delta, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  };
+
+  const acceptPending = () => {
+    onChange(Object.fromEntries(pending.map(suggestion => [suggestion.date, toSuggestedAdjustment(suggestion)])));
+  };
+
+  const selectedNight = occupancy.find(night => night.date === selectedDate);
+  const selectedSuggestion = selectedDate ? suggestions.get(selectedDate) : undefined;
+  const selectedAdjustment = selectedDate ? pricing.dateAdjustments[selectedDate] : undefined;
+  const overridePercent = Number(override);
+  const isValidOverride = override.trim() !== '' && Number.isInteger(overridePercent) && overridePercent >= -100;
+
+  // Monday-first offset of the 1st of the month
+  const offset = (parseDate(startDate).getDay() + 6) % 7;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => changeMonth(-1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-center">
+          <p className="font-medium">{MONTH_NAMES[month.month]} {month.year}</p>
+          <p className="text-xs text-muted-foreground">{pending.length} sugerencia(s) pendiente(s)</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => changeMonth(1)}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Cargando ocupación...
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-1 text-center text-xs">
+          {WEEKDAY_LABELS.map(label => (
+            <span key={label} className="text-muted-foreground">{label}</span>
+          ))}
+          {Array.from({ length: offset }, (_, index) => <span key={`empty-${index}`} />)}
+          {occupancy.map(night => {
+            const adjustment = pricing.dateAdjustments[night.date];
+            const suggestion = suggestions.get(night.date);
+            const isPast = night.date < today;
+            return (
+              <button
+                key={night.date}
+                type="button"
+                onClick={() => selectNight(night.date)}
+                className={`rounded border p-1 min-h-[3.5rem] flex flex-col items-center gap-0.5 ${adjustment ? adjustmentColor(adjustment.percent) : ''} ${suggestion && !adjustment ? 'border-dashed border-primary' : ''} ${selectedDate === night.date ? 'ring-2 ring-primary' : ''} ${isPast ? 'opacity-50' : ''}`}
+              >
+                <span className="font-medium">{Number(night.date.slice(8, 10))}</span>
+                <span className="text-[10px] text-muted-foreground">{night.sold}/{night.capacity}</span>
+                {adjustment ? (
+                  <span className="text-[10px] font-semibold">{formatRateAdjustment(adjustment.percent)}</span>
+                ) : suggestion ? (
+                  <span className="text-[10px] text-primary">{formatRateAdjustment(suggestion.percent)}?</span>
+                ) : null}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedNight && (
+        <div className="p-3 border rounded-lg space-y-2 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">Noche del {formatDateForDisplay(selectedNight.date)}</span>
+            <span className="text-muted-foreground">
+              {selectedNight.sold} de {selectedNight.capacity} cabañas vendidas ({selectedNight.percent}%)
+            </span>
+          </div>
+          {selectedNight.date < today ? (
+            <p className="text-xs text-muted-foreground">
+              Noche pasada{selectedAdjustment ? ` · ajuste ${formatRateAdjustment(selectedAdjustment.percent)}` : ''}.
+            </p>
+          ) : (
+            <>
+              {selectedSuggestion ? (
+                <div className="flex items-center justify-between gap-2">
+                  <span>
+                    Sugerencia: <span className="font-medium">{formatRateAdjustment(selectedSuggestion.percent)}</span>
+                    <span className="text-xs text-muted-foreground ml-1">({selectedSuggestion.ruleName})</span>
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8"
+                    disabled={selectedAdjustment?.source === 'suggestion' && selectedAdjustment.percent === selectedSuggestion.percent}
+                    onClick={() => onChange({ [selectedNight.date]: toSuggestedAdjustment(selectedSuggestion) })}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Aceptar
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">Sin sugerencia para esta ocupación.</p>
+              )}
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label className="text-xs">Ajuste de la tarifa (%)</Label>
+                  <Input
+                    type="number"
+                    min="-100"
+                    step="1"
+                    value={override}
+                    onChange={(e) => setOverride(e.target.value)}
+                    placeholder="Ej: 10 o -10"
+                    className="h-9 mt-1"
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  className="h-9"
+                  disabled={!isValidOverride}
+                  onClick={() => onChange({ [selectedNight.date]: { percent: overridePercent, source: 'manual' } })}
+                >
+                  Aplicar
+                </Button>
+                {selectedAdjustment && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-9 text-destructive hover:text-destructive"
+                    onClick={() => onChange({ [selectedNight.date]: undefined })}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Quitar
+                  </Button>
+                )}
+              </div>
+              {selectedAdjustment && (
+                <p className="text-xs text-muted-foreground">
+                  Aplicado: {formatRateAdjustment(selectedAdjustment.percent)}
+                  {selectedAdjustment.source === 'suggestion' ? ` · sugerencia aceptada (${selectedAdjustment.ruleName})` : ' · definido a mano'}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-100 border" /> Alza</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100 border" /> Descuento</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border border-dashed border-primary" /> Sugerencia pendiente</span>
+        </div>
+        <Button size="sm" variant="outline" disabled={pending.length === 0} onClick={acceptPending}>
+          <Check className="w-4 h-4 mr-1" />
+          Aceptar sugerencias del mes
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RateCalendar;
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { FieldChange, GuestResidency, ReservationHistoryAction, ReservationHistoryEntry, StaySegment, TaxBreakdown, TaxTreatment } from '@/types/reservation';
+import { getReservationHistory } from '@/lib/reservationHistory';
+import { formatSegments } from '@/lib/staySegments';
+import { formatDateTimeForDisplay } from '@/lib/dateUtils';
+import { GUEST_RESIDENCY_LABELS, TAX_TREATMENT_LABELS } from '@/lib/taxes';
+import { logger } from '@/lib/logger';
+
+interface ReservationHistoryProps {
+  reservationId: string;
+  // Bump to reload after a change made from the same screen
+  refreshKey?: number;
+}
+
+const ACTION_LABELS: Record<ReservationHistoryAction, string> = {
+  create: 'Creación',
+  update: 'Edición',
+  status: 'Cambio de estado',
+  payment: 'Pago',
+  check_in: 'Check-in',
+  check_out: 'Check-out',
+  confirmation: 'Confirmación enviada',
+  referrer_payment: 'Pago a referente',
+  cancel: 'Cancelación',
+  delete: 'Movida a papelera',
+  restore: 'Restaurada',
+  migration: 'Migración de datos',
+  group: 'Grupo',
+  move: 'Cambio de cabaña'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  passengerName: 'Pasajero',
+  cabinType: 'Cabaña',
+  segments: 'Tramos',
+  checkIn: 'Check-in',
+  checkOut: 'Check-out',
+  adults: 'Adultos',
+  children: 'Niños',
+  babies: 'Bebés',
+  season: 'Temporada',
+  totalPrice: 'Precio total',
+  nightlyRates: 'Detalle por noche',
+  grossPrice: 'Precio bruto',
+  priceAdjustments: 'Descuentos',
+  promoCode: 'Código promocional',
+  addOns: 'Servicios adicionales',
+  guestCurrency: 'Moneda del huésped',
+  guestResidency: 'Residencia del huésped',
+  paysInForeignCurrency: 'Paga en moneda extranjera',
+  taxTreatment: 'IVA',
+  taxes: 'Desglose de IVA',
+  useCustomPrice: 'Precio personalizado',
+  customPrice: 'Monto personalizado',
+  remainingBalance: 'Saldo',
+  payments: 'Pagos',
+  paymentStatus: 'Estado de pago',
+  reservationStatus: 'Estado de reserva',
+  holdExpiresAt: 'Vencimiento del bloqueo',
+  checkInStatus: 'Estado check-in',
+  checkOutStatus: 'Estado check-out',
+  actualCheckIn: 'Ingreso real',
+  actualCheckOut: 'Salida real',
+  checkInNotes: 'Notas check-in',
+  checkOutNotes: 'Notas check-out',
+  confirmationSent: 'Confirmación enviada',
+  confirmationMethod: 'Método de confirmación',
+  comments: 'Comentarios',
+  referrerName: 'Referente',
+  referrerPaymentStatus: 'Pago a referente',
+  groupId: 'Grupo (id)',
+  groupName: 'Grupo',
+  cancellation: 'Cancelación',
+  deletedAt: 'Eliminada',
+  deletedBy: 'Eliminada por'
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  '/': 'Dashboard',
+  '/calendar': 'Calendario',
+  '/reservations': 'Reservas',
+  '/referrers': 'Referentes',
+  '/trash': 'Papelera'
+};
+
+// Creation entries list every field; only the meaningful ones are shown
+const CREATE_SUMMARY_FIELDS = ['passengerName', 'cabinType', 'checkIn', 'checkOut', 'totalPrice'];
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'number') {
+    return ['totalPrice', 'customPrice', 'remainingBalance'].includes(field)
+      ? `$${value.toLocaleString('es-CL')}`
+      : String(value);
+  }
+  if (Array.isArray(value)) {
+    if (field === 'payments') {
+      const total = value.reduce((sum: number, p: { amount?: number }) => sum + (p.amount || 0), 0);
+      return `${value.length} ($${total.toLocaleString('es-CL')})`;
+    }
+    if (field === 'segments') {
+      return formatSegments(value as StaySegment[]);
+    }
+    if (field === 'nightlyRates') {
+      const total = value.reduce((sum: number, night: { amount?: number }) => sum + (night.amount || 0), 0);
+      return `${value.length} noche(s) ($${total.toLocaleString('es-CL')})`;
+    }
+    if (field === 'addOns') {
+      return value.map((addOn: { name: string; total: number }) => `${addOn.name} $${addOn.total.toLocaleString('es-CL')}`).join(', ') || '—';
+    }
+    if (field === 'priceAdjustments') {
+      return value.map((adjustment: { name: string; amount: number }) => `${adjustment.name} -$${Math.abs(adjustment.amount).toLocaleString('es-CL')}`).join(', ') || '—';
+    }
+    return value.join(', ');
+  }
+  if (field === 'holdExpiresAt' && typeof value === 'string') return formatDateTimeForDisplay(value);
+  if (field === 'guestResidency' && typeof value === 'string') return GUEST_RESIDENCY_LABELS[value as GuestResidency] || value;
+  if (field === 'taxTreatment' && typeof value === 'string') return TAX_TREATMENT_LABELS[value as TaxTreatment] || value;
+  if (field === 'taxes' && typeof value === 'object') {
+    const { net, iva, exempt } = value as TaxBreakdown;
+    return `Neto $${net.toLocaleString('es-CL')}, IVA $${iva.toLocaleString('es-CL')}, exento $${exempt.toLocaleString('es-CL')}`;
+  }
+  if (typeof value === 'object') return 'registrada';
+  return String(value);
+};
+
+const ChangeLine = ({ change }: { change: FieldChange }) => (
+  <li className="text-xs text-muted-foreground">
+    <span className="font-medium text-foreground">{FIELD_LABELS[change.field] || change.field}:</span>{' '}
+    {change.from !== null && (
+      <>
+        <span className="line-through">{formatValue(change.field, change.from)}</span>
+        {' → '}
+      </>
+    )}
+    <span>{formatValue(change.field, change.to)}</span>
+  </li>
+);
+
+const ReservationHistory = ({ reservationId, refreshKey }: ReservationHistoryProps) => {
+  const [entries, setEntries] = useState<ReservationHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    getReservationHistory(reservationId)
+      .then(result => {
+        if (active) {
+          setEntries(result);
+          setError(false);
+        }
+      })
+      .catch(err => {
+        logger.error('reservationHistory.load.error', { reservationId, error: String(err) });
+        if (active) setError(true);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [reservationId, refreshKey]);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Historial de cambios
+      </h3>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Cargando historial...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">No se pudo cargar el historial.</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Sin cambios registrados.</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {entries.map(entry => {
+            const changes = entry.action === 'create'
+              ? entry.changes.filter(c => CREATE_SUMMARY_FIELDS.includes(c.field))
+              : entry.changes;
+            return (
+              <li key={entry.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className="text-xs">{ACTION_LABELS[entry.action] || entry.action}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(entry.timestamp).toLocaleString('es-CL')} · {entry.actor} · {SOURCE_LABELS[entry.source] || entry.source}
+                  </span>
+                </div>
+                {changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {changes.map(change => (
+                      <ChangeLine key={change.field} change={change} />
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ReservationHistory;
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { DatabaseZap, Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { MigrationPlan, applyReservationMigration, planReservationMigration } from '@/lib/reservationMigration';
+import { logger } from '@/lib/logger';
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return `[${value.length}]`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ReservationMigration = ({ disabled }: { disabled?: boolean }) => {
+  const { toast } = useToast();
+  const [plan, setPlan] = useState<MigrationPlan | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const handleScan = async () => {
+    setScanning(true);
+    try {
+      setPlan(await planReservationMigration());
+    } catch (error) {
+      logger.error('ReservationMigration.scan.error', { error: String(error) });
+      toast({ title: 'Error', description: 'No se pudieron analizar las reservas', variant: 'destructive' });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setApplying(true);
+    try {
+      const result = await applyReservationMigration(plan, (done, total) => setProgress({ done, total }));
+      toast({
+        title: result.failed.length === 0 ? '✅ Migración completada' : 'Migración con errores',
+        description: `${result.migrated} reserva(s) migradas${result.skipped > 0 ? `, ${result.skipped} ya no lo necesitaban` : ''}${result.failed.length > 0 ? `, ${result.failed.length} con error` : ''}`,
+        variant: result.failed.length === 0 ? 'default' : 'destructive'
+      });
+      // Scan again so the report reflects what is left
+      setPlan(await planReservationMigration());
+    } catch (error) {
+      logger.error('ReservationMigration.apply.error', { error: String(error) });
+      toast({ title: 'Error', description: 'No se pudo completar la migración', variant: 'destructive' });
+    } finally {
+      setApplying(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <DatabaseZap className="w-5 h-5" />
+          Migración de Datos
+        </CardTitle>
+        <CardDescription>
+          Convierte reservas antiguas al formato actual (fechas, nombres de cabaña y estados). Analiza primero para ver los cambios.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={handleScan} disabled={disabled || scanning || applying}>
+            {scanning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            Analizar (sin cambios)
+          </Button>
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button disabled={disabled || !plan || plan.documents.length === 0 || scanning || applying}>
+                {applying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <DatabaseZap className="w-4 h-4 mr-2" />}
+                {applying && progress ? `Migrando ${progress.done}/${progress.total}` : 'Aplicar migración'}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>¿Aplicar migración?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Se reescribirán {plan?.documents.length || 0} reserva(s) con los cambios del análisis. Cada cambio queda registrado en el historial de la reserva.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction onClick={handleApply}>Migrar</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        {plan && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {plan.scanned} reserva(s) analizadas · {plan.documents.length} requieren migración
+            </p>
+            {plan.documents.length > 0 && (
+              <ScrollArea className="h-72 border rounded-lg">
+                <div className="divide-y">
+                  {plan.documents.map((migration) => (
+                    <div key={migration.id} className="p-3 text-sm space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">{migration.passengerName}</span>
+                        <Badge variant="outline" className="text-xs font-mono">{migration.id}</Badge>
+                      </div>
+                      {migration.changes.map((change) => (
+                        <div key={change.field} className="text-xs text-muted-foreground break-all">
+                          <span className="font-medium text-foreground">{change.field}:</span>{' '}
+                          <span className="line-through">{formatValue(change.from)}</span>
+                          {' → '}
+                          <span className="text-foreground">{formatValue(change.to)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReservationMigration;
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { X, Save, Loader2, Calendar, AlertCircle, CheckCircle, DollarSign, WifiOff } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { X, Save, Loader2, Calendar, AlertCircle, CheckCircle, DollarSign, WifiOff, ArrowRightLeft, Clock, ListOrdered, FileText, Tag, ShoppingBag, Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -10,18 +10,34 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Reservation, ReservationFormData } from '@/types/reservation';
+import { GuestResidency, PriceAdjustment, Reservation, ReservationAddOn, ReservationFormData, StaySegment, TaxBreakdown } from '@/types/reservation';
+import { WaitlistFormData } from '@/types/waitlist';
 import { 
   createReservation, 
   updateReservation,
   updateReservationStatuses
 } from '@/lib/reservations';
-import { calculatePrice } from '@/lib/pricing';
+import { getStayPricing, groupNightlyRates, PriceLine } from '@/lib/pricing';
+import { checkPromoCode, getBookingDate, normalizePromoCode } from '@/lib/pricingRules';
+import { createReservationAddOn, describeAddOn, getFolioLines, priceAddOns } from '@/lib/folio';
+import { getAddOns } from '@/lib/adminConfig';
+import { getTaxTreatment, GUEST_RESIDENCY_LABELS, TAX_TREATMENT_LABELS } from '@/lib/taxes';
+import { formatRateAdjustment } from '@/lib/occupancyPricing';
+import { BASE_CURRENCY, CURRENCIES, CURRENCY_LABELS, formatCurrency, fromBaseAmount, getExchangeRate } from '@/lib/currency';
+import { Currency } from '@/types/payment';
 import { validateReservationDates, validateCabinCapacity } from '@/lib/validation';
-import { addDays, getTodayDate, getTomorrowDate, formatDateForDisplay } from '@/lib/dateUtils';
+import { addDays, getTodayDate, getTomorrowDate, formatDateForDisplay, formatDateTimeForDisplay, toDateTimeInputValue } from '@/lib/dateUtils';
+import { fitSegmentsToStay, formatSegments, getSegments } from '@/lib/staySegments';
+import { getDefaultHoldExpiry, isHold } from '@/lib/holds';
+import { validateStayRestrictions } from '@/lib/stayRestrictions';
+import { exportReservationVoucher } from '@/lib/voucherService';
+import { findCabin, getCabinDisplayName, getCabinIds, getCabinName, getCabins } from '@/lib/cabinConfig';
 import ReferrerSelector from '@/components/ReferrerSelector';
 import StatusManager from '@/components/StatusManager';
+import ReservationHistory from '@/components/ReservationHistory';
 import CabinAvailabilityMatrix from '@/components/CabinAvailabilityMatrix';
+import WaitlistModal from '@/components/WaitlistModal';
+import FolioSummary, { TaxSplit } from '@/components/FolioSummary';
 import { useOfflineAvailability } from '@/hooks/useOfflineReservations';
 import { useOnlineStatus } from '@/components/OfflineIndicator';
 
@@ -44,15 +60,22 @@ const initializeFormData = (reservation?: Reservation | null): ReservationFormDa
       children: reservation.children || 0,
       babies: reservation.babies || 0,
       season: reservation.season || 'Baja',
-      cabinType: reservation.cabinType || 'Cabaña Pequeña (Max 3p)',
+      cabinType: reservation.cabinType || getCabinIds()[0],
       arrivalFlight: reservation.arrivalFlight || 'LA841',
       departureFlight: reservation.departureFlight || 'LA842',
       useCustomPrice: reservation.useCustomPrice ?? false,
       customPrice: reservation.customPrice || 0,
+      promoCode: reservation.promoCode || '',
+      addOns: reservation.addOns || [],
+      guestCurrency: reservation.guestCurrency,
+      guestResidency: reservation.guestResidency,
+      paysInForeignCurrency: reservation.paysInForeignCurrency,
       comments: reservation.comments || '',
       hasRentedCar: reservation.hasRentedCar ?? false,
       referrerId: reservation.referrerId,
       referrerName: reservation.referrerName,
+      // Only holds carry an expiry, which can be extended while editing
+      ...(isHold(reservation) && reservation.holdExpiresAt ? { holdExpiresAt: reservation.holdExpiresAt } : {}),
     };
   }
   
@@ -65,11 +88,13 @@ const initializeFormData = (reservation?: Reservation | null): ReservationFormDa
     children: 0,
     babies: 0,
     season: 'Baja',
-    cabinType: 'Cabaña Pequeña (Max 3p)',
+    cabinType: getCabinIds()[0],
     arrivalFlight: 'LA841',
     departureFlight: 'LA842',
     useCustomPrice: false,
     customPrice: 0,
+    promoCode: '',
+    addOns: [],
     comments: '',
     hasRentedCar: false,
     initialPayment: { amount: 0, method: 'cash', notes: '' }
@@ -79,15 +104,20 @@ const initializeFormData = (reservation?: Reservation | null): ReservationFormDa
 const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: ReservationModalProps) => {
   const { toast } = useToast();
   const isOnline = useOnlineStatus();
-  const { checkAvailability, getNextAvailable } = useOfflineAvailability();
+  const { checkAvailability, getNextAvailable, suggestSplitStay } = useOfflineAvailability();
   
   const [loading, setLoading] = useState(false);
   const [checkingAvailability, setCheckingAvailability] = useState(false);
   const [availabilityStatus, setAvailabilityStatus] = useState<'available' | 'unavailable' | 'checking' | null>(null);
   const [nextAvailableDate, setNextAvailableDate] = useState<string | null>(null);
+  // Split stay proposed when no single cabin is free for every night
+  const [splitSuggestion, setSplitSuggestion] = useState<StaySegment[] | null>(null);
   const [dateValidationError, setDateValidationError] = useState<string | null>(null);
   const [capacityValidationError, setCapacityValidationError] = useState<string | null>(null);
   const [updateDates, setUpdateDates] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  // Set while the full dates are being added to the waitlist
+  const [waitlistRequest, setWaitlistRequest] = useState<Omit<WaitlistFormData, 'cabinTypes'> | null>(null);
   
   // Estado local para la reservación que se actualiza en tiempo real
   const [localReservation, setLocalReservation] = useState<Reservation | null>(reservation || null);
@@ -96,10 +126,19 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
 
   const [calculatedPrice, setCalculatedPrice] = useState(0);
   const [automaticPrice, setAutomaticPrice] = useState(0);
+  // Nights grouped by cabin, season and rate plan
+  const [priceBreakdown, setPriceBreakdown] = useState<PriceLine[]>([]);
+  // Automatic price before discounts and the pricing rules that apply
+  const [grossPrice, setGrossPrice] = useState(0);
+  const [priceAdjustments, setPriceAdjustments] = useState<PriceAdjustment[]>([]);
+  // IVA of the final price
+  const [taxes, setTaxes] = useState<TaxBreakdown | undefined>(undefined);
   const isEditing = !!reservation;
 
   // Configurar límites de fechas
   const today = getTodayDate();
+  // Discounts are evaluated on the day the stay was booked
+  const bookedOn = reservation ? getBookingDate(reservation) : today;
   const maxDate = addDays(today, 730); // 2 años en el futuro
   const minCheckOut = formData.checkIn ? addDays(formData.checkIn, 1) : '';
 
@@ -135,20 +174,32 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
   // Calculate prices
   useEffect(() => {
     if (formData.checkIn && formData.checkOut) {
-      // Calculate automatic price (for comparison)
-      const autoFormData = { ...formData, useCustomPrice: false, customPrice: 0 };
-      const autoPrice = calculatePrice(autoFormData);
-      setAutomaticPrice(autoPrice);
+      // Calculate automatic price of the stay alone, as a resident pays it (for comparison)
+      const autoPricing = getStayPricing({ ...formData, useCustomPrice: false, customPrice: 0, addOns: [], guestResidency: undefined }, bookedOn, reservation?.nightlyRates, reservation?.priceAdjustments);
+      setAutomaticPrice(autoPricing.totalPrice);
+      setGrossPrice(autoPricing.grossPrice || 0);
+      setPriceAdjustments(autoPricing.priceAdjustments || []);
+      setPriceBreakdown(groupNightlyRates(autoPricing.nightlyRates || []));
       
       // Calculate final price
-      const finalPrice = calculatePrice(formData);
-      setCalculatedPrice(finalPrice);
+      const finalPricing = getStayPricing(formData, bookedOn, reservation?.nightlyRates, reservation?.priceAdjustments);
+      setCalculatedPrice(finalPricing.totalPrice);
+      setTaxes(finalPricing.taxes);
       
       // Validate dates in real-time if needed
       if (shouldValidateDates) {
-        const validation = validateReservationDates(formData.checkIn, formData.checkOut, {
+        const dateValidation = validateReservationDates(formData.checkIn, formData.checkOut, {
           allowPastCheckIn: isEditing,
         });
+        // Minimum stay and closed arrival / departure days configured in Admin
+        const validation = dateValidation.isValid
+          ? validateStayRestrictions({
+              ...formData,
+              segments: formData.segments && formData.segments.length > 0
+                ? formData.segments
+                : fitSegmentsToStay(reservation ? getSegments(reservation) : [], formData.cabinType, formData.checkIn, formData.checkOut)
+            }, reservation?.id ? reservation : undefined)
+          : dateValidation;
         if (!validation.isValid) {
           setDateValidationError(validation.error || null);
           setAvailabilityStatus(null);
@@ -161,13 +212,49 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
       }
     } else {
       setCalculatedPrice(0);
+      setTaxes(undefined);
       setAutomaticPrice(0);
+      setGrossPrice(0);
+      setPriceAdjustments([]);
+      setPriceBreakdown([]);
       if (shouldValidateDates) {
         setDateValidationError(null);
         setAvailabilityStatus(null);
       }
     }
-  }, [formData, shouldValidateDates]);
+  }, [formData, shouldValidateDates, reservation, bookedOn]);
+
+  // A code already saved on the reservation keeps applying; new codes must be valid
+  const promoCodeError = useMemo(() => {
+    const code = formData.promoCode ? normalizePromoCode(formData.promoCode) : '';
+    if (!code || formData.useCustomPrice || code === reservation?.promoCode) return null;
+    return checkPromoCode(code, bookedOn).error || null;
+  }, [formData.promoCode, formData.useCustomPrice, reservation?.promoCode, bookedOn]);
+
+  // Add-ons priced for the stay being edited and the folio they make with it
+  const addOnLines = useMemo(() => priceAddOns(formData.addOns || [], formData), [formData]);
+  const folioLines = useMemo(() => getFolioLines({
+    totalPrice: calculatedPrice,
+    grossPrice: formData.useCustomPrice ? undefined : grossPrice,
+    priceAdjustments: formData.useCustomPrice ? undefined : priceAdjustments,
+    addOns: addOnLines,
+    taxes,
+    useCustomPrice: formData.useCustomPrice,
+  }), [calculatedPrice, grossPrice, priceAdjustments, addOnLines, taxes, formData.useCustomPrice]);
+  const taxTreatment = getTaxTreatment(formData);
+
+  // An accepted split stay no longer applies once the dates or the arrival cabin change
+  useEffect(() => {
+    const segments = formData.segments;
+    if (!segments || segments.length === 0) return;
+    if (
+      segments[0].cabinType !== formData.cabinType ||
+      segments[0].checkIn !== formData.checkIn ||
+      segments[segments.length - 1].checkOut !== formData.checkOut
+    ) {
+      setFormData(current => ({ ...current, segments: undefined }));
+    }
+  }, [formData.segments, formData.cabinType, formData.checkIn, formData.checkOut]);
 
   useEffect(() => {
     const doCheckAvailability = async () => {
@@ -177,20 +264,30 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
         setAvailabilityStatus('checking');
         
         try {
-          const isAvailable = await checkAvailability(
-            formData.cabinType, 
-            formData.checkIn, 
-            formData.checkOut,
-            reservation?.id
-          );
+          // Split stays are checked cabin by cabin (an accepted suggestion, or the edited stay adapted to the form)
+          const segments = formData.segments && formData.segments.length > 0
+            ? formData.segments
+            : fitSegmentsToStay(reservation ? getSegments(reservation) : [], formData.cabinType, formData.checkIn, formData.checkOut);
+          const results = await Promise.all(segments.map(segment =>
+            checkAvailability(segment.cabinType, segment.checkIn, segment.checkOut, reservation?.id)
+          ));
+          const isAvailable = results.every(Boolean);
           
           if (isAvailable) {
             setAvailabilityStatus('available');
             setNextAvailableDate(null);
+            setSplitSuggestion(null);
           } else {
             setAvailabilityStatus('unavailable');
             const nextDate = await getNextAvailable(formData.cabinType, formData.checkIn);
             setNextAvailableDate(nextDate);
+            // New single-cabin bookings may still fit by changing cabin mid-stay
+            const fittingCabins = getCabinIds().filter(cabinType =>
+              validateCabinCapacity(cabinType, formData.adults, formData.children, formData.babies).isValid
+            );
+            setSplitSuggestion(!reservation && segments.length === 1
+              ? await suggestSplitStay(fittingCabins, formData.checkIn, formData.checkOut)
+              : null);
           }
         } catch (error) {
           setAvailabilityStatus(null);
@@ -200,13 +297,14 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
       } else {
         setAvailabilityStatus(null);
         setNextAvailableDate(null);
+        setSplitSuggestion(null);
         setCheckingAvailability(false);
       }
     };
 
     const timeoutId = setTimeout(doCheckAvailability, 500);
     return () => clearTimeout(timeoutId);
-  }, [formData.checkIn, formData.checkOut, formData.cabinType, dateValidationError, reservation?.id, shouldValidateDates, checkAvailability, getNextAvailable]);
+  }, [formData.checkIn, formData.checkOut, formData.cabinType, formData.segments, formData.adults, formData.children, formData.babies, dateValidationError, reservation, shouldValidateDates, checkAvailability, getNextAvailable, suggestSplitStay]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -225,7 +323,7 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
       if (availabilityStatus === 'unavailable') {
         toast({
           title: "❌ Cabaña no disponible",
-          description: `La ${formData.cabinType} no está disponible para las fechas seleccionadas. ${nextAvailableDate ? `Próxima fecha disponible: ${formatDateForDisplay(nextAvailableDate)}` : ''}`,
+          description: `La ${getCabinName(formData.cabinType)} no está disponible para las fechas seleccionadas. ${nextAvailableDate ? `Próxima fecha disponible: ${formatDateForDisplay(nextAvailableDate)}` : ''}`,
           variant: "destructive"
         });
         return;
@@ -242,6 +340,15 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
       return;
     }
 
+    if (promoCodeError) {
+      toast({
+        title: "🏷️ Código promocional inválido",
+        description: promoCodeError,
+        variant: "destructive"
+      });
+      return;
+    }
+
     // Validar precio personalizado
     if (formData.useCustomPrice && (!formData.customPrice || formData.customPrice <= 0)) {
       toast({
@@ -283,23 +390,28 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
         await updateReservation(reservation.id, cleanFormData, shouldValidateDates);
         toast({
           title: "✅ Reserva actualizada exitosamente",
-          description: `La reserva de ${formData.passengerName} para la ${formData.cabinType} ha sido modificada${shouldValidateDates ? ` del ${formatDateForDisplay(formData.checkIn)} al ${formatDateForDisplay(formData.checkOut)}` : ''}.`
+          description: `La reserva de ${formData.passengerName} para la ${getCabinName(formData.cabinType)} ha sido modificada${shouldValidateDates ? ` del ${formatDateForDisplay(formData.checkIn)} al ${formatDateForDisplay(formData.checkOut)}` : ''}.`
         });
       } else {
         await createReservation(cleanFormData);
         toast({
-          title: "🎉 Reserva creada exitosamente",
-          description: `Se ha registrado la reserva de ${formData.passengerName} para la ${formData.cabinType} del ${formatDateForDisplay(formData.checkIn)} al ${formatDateForDisplay(formData.checkOut)}.`
+          title: formData.reservationStatus === 'hold' ? "⏳ Bloqueo tentativo creado" : "🎉 Reserva creada exitosamente",
+          description: `Se ha registrado ${formData.reservationStatus === 'hold' ? 'el bloqueo' : 'la reserva'} de ${formData.passengerName} para la ${getCabinName(formData.cabinType)} del ${formatDateForDisplay(formData.checkIn)} al ${formatDateForDisplay(formData.checkOut)}.${formData.holdExpiresAt ? ` Vence el ${formatDateTimeForDisplay(formData.holdExpiresAt)}.` : ''}`
         });
       }
       onSuccess();
       onClose();
     } catch (error: any) {
       const errorMessage = error.message || "Hubo un problema al guardar la reserva.";
+      // Booked from another device meanwhile: the request can still go to the waitlist
+      const canJoinWaitlist = !reservation?.id && errorMessage.includes('no está disponible');
+      if (canJoinWaitlist) {
+        setAvailabilityStatus('unavailable');
+      }
       
       toast({
         title: "⚠️ Error al procesar la reserva",
-        description: `No se pudo ${reservation?.id ? 'actualizar' : 'crear'} la reserva. ${errorMessage}`,
+        description: `No se pudo ${reservation?.id ? 'actualizar' : 'crear'} la reserva. ${errorMessage}${canJoinWaitlist ? ' Puedes agregar la solicitud a la lista de espera.' : ''}`,
         variant: "destructive"
       });
     } finally {
@@ -317,12 +429,55 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
     }
   };
 
+  const handleUseSplitStay = () => {
+    if (splitSuggestion) {
+      setFormData({ ...formData, cabinType: splitSuggestion[0].cabinType, segments: splitSuggestion });
+      setSplitSuggestion(null);
+    }
+  };
+
+  const handleJoinWaitlist = () => {
+    setWaitlistRequest({
+      guestName: formData.passengerName,
+      phone: formData.phone,
+      email: formData.email,
+      checkIn: formData.checkIn,
+      checkOut: formData.checkOut,
+      adults: formData.adults,
+      children: formData.children,
+      babies: formData.babies,
+      notes: formData.comments
+    });
+  };
+
   const handleSetArrival = (arrivalType: 'today' | 'tomorrow') => {
     const checkInDate = arrivalType === 'today' ? getTodayDate() : getTomorrowDate();
     const checkOutDate = addDays(checkInDate, 1);
     setFormData({ ...formData, checkIn: checkInDate, checkOut: checkOutDate });
   };
 
+  const handleHoldToggle = (checked: boolean) => {
+    const { holdExpiresAt: _expiry, reservationStatus: _status, ...rest } = formData;
+    setFormData(checked ? { ...rest, reservationStatus: 'hold', holdExpiresAt: getDefaultHoldExpiry() } : rest);
+  };
+
+  const handleAddOnAdd = (addOnId: string) => {
+    const addOn = getAddOns().find(a => a.id === addOnId);
+    if (!addOn) return;
+    setFormData(current => ({ ...current, addOns: [...(current.addOns || []), createReservationAddOn(addOn, current)] }));
+  };
+
+  const handleAddOnChange = (id: string, updates: Partial<ReservationAddOn>) => {
+    setFormData(current => ({
+      ...current,
+      addOns: (current.addOns || []).map(a => a.id === id ? { ...a, ...updates } : a)
+    }));
+  };
+
+  const handleAddOnRemove = (id: string) => {
+    setFormData(current => ({ ...current, addOns: (current.addOns || []).filter(a => a.id !== id) }));
+  };
+
   const handleCustomPriceToggle = (checked: boolean) => {
     setFormData({ 
       ...formData, 
@@ -358,7 +513,9 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
         <Alert className="border-green-500 bg-green-50">
           <CheckCircle className="h-4 w-4 text-green-600" />
           <AlertDescription className="text-green-800">
-            ✅ {formData.cabinType} disponible para las fechas seleccionadas
+            {formData.segments && formData.segments.length > 1
+              ? `✅ Estadía dividida disponible: ${formatSegments(formData.segments)}`
+              : `✅ ${getCabinName(formData.cabinType)} disponible para las fechas seleccionadas`}
           </AlertDescription>
         </Alert>
       );
@@ -369,7 +526,7 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            ❌ {formData.cabinType} no disponible para estas fechas.
+            ❌ {getCabinName(formData.cabinType)} no disponible para estas fechas.
             {nextAvailableDate && (
               <div className="mt-2 space-y-2">
                 <div>Próxima fecha disponible: {formatDateForDisplay(nextAvailableDate)}</div>
@@ -383,6 +540,34 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
                 </Button>
               </div>
             )}
+            {splitSuggestion && (
+              <div className="mt-2 space-y-2">
+                <div>Se puede alojar cambiando de cabaña: {formatSegments(splitSuggestion)}</div>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  size="sm"
+                  onClick={handleUseSplitStay}
+                >
+                  <ArrowRightLeft className="w-4 h-4 mr-2" />
+                  Usar estadía dividida
+                </Button>
+              </div>
+            )}
+            {!reservation?.id && (
+              <div className="mt-2 space-y-2">
+                <div>¿El huésped no puede cambiar de fechas? Guárdalo y te avisamos si algo se libera.</div>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  size="sm"
+                  onClick={handleJoinWaitlist}
+                >
+                  <ListOrdered className="w-4 h-4 mr-2" />
+                  Agregar a lista de espera
+                </Button>
+              </div>
+            )}
           </AlertDescription>
         </Alert>
       );
@@ -404,6 +589,7 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
   };
 
   return (
+    <>
     <Dialog open={isOpen} onOpenChange={(open) => { if (!open) handleModalClose(); }} modal={false}>
       <DialogContent 
         className="sm:max-w-2xl max-h-[90vh] overflow-y-auto"
@@ -526,15 +712,28 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Cabaña Pequeña (Max 3p)">Cabaña Pequeña (Max 3p)</SelectItem>
-                  <SelectItem value="Cabaña Mediana 1 (Max 4p)">Cabaña Mediana 1 (Max 4p)</SelectItem>
-                  <SelectItem value="Cabaña Mediana 2 (Max 4p)">Cabaña Mediana 2 (Max 4p)</SelectItem>
-                  <SelectItem value="Cabaña Grande (Max 6p)">Cabaña Grande (Max 6p)</SelectItem>
+                  {getCabins().map(cabin => (
+                    <SelectItem key={cabin.id} value={cabin.id}>{cabin.name}</SelectItem>
+                  ))}
+                  {/* A booked cabin that was deactivated in Admin stays selectable for its own booking */}
+                  {!getCabinIds().includes(formData.cabinType) && findCabin(formData.cabinType) && (
+                    <SelectItem value={formData.cabinType}>{getCabinName(formData.cabinType)}</SelectItem>
+                  )}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          {/* Estadía dividida existente: las fechas ajustan el primer y último tramo */}
+          {reservation?.segments && reservation.segments.length > 1 && (
+            <Alert>
+              <ArrowRightLeft className="h-4 w-4" />
+              <AlertDescription>
+                Estadía dividida: {formatSegments(reservation.segments)}. Para cambiar de cabaña a mitad de la estadía usa "Mover".
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Indicador de validación de fechas */}
           {shouldValidateDates && dateValidationError && (
             <Alert variant="destructive">
@@ -549,7 +748,7 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
               checkIn={formData.checkIn}
               checkOut={formData.checkOut}
               selectedCabin={formData.cabinType}
-              onCabinSelect={(cabinType) => setFormData({ ...formData, cabinType: cabinType as any })}
+              onCabinSelect={(cabinType) => setFormData({ ...formData, cabinType })}
               excludeReservationId={reservation?.id}
             />
           )}
@@ -610,21 +809,20 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
               </p>
             </div>
 
-            {/* Temporada */}
+            {/* Temporada: cada noche se cobra con la temporada de su fecha */}
             <div>
               <Label>Temporada</Label>
-              <Select
-                value={formData.season}
-                onValueChange={(value: 'Alta' | 'Baja') => setFormData({ ...formData, season: value })}
-              >
-                <SelectTrigger className="mt-1">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="Baja">Temporada Baja</SelectItem>
-                  <SelectItem value="Alta">Temporada Alta</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="mt-1 h-10 flex items-center gap-1 flex-wrap">
+                {priceBreakdown.length > 0 ? (
+                  Array.from(new Set(priceBreakdown.map(line => line.season))).map(season => (
+                    <Badge key={season} variant={season === 'Alta' ? 'destructive' : 'secondary'}>
+                      {season} · {priceBreakdown.filter(line => line.season === season).reduce((sum, line) => sum + line.nights, 0)} noches
+                    </Badge>
+                  ))
+                ) : (
+                  <span className="text-sm text-muted-foreground">Según las fechas</span>
+                )}
+              </div>
             </div>
 
             {/* Vuelos */}
@@ -695,20 +893,125 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
               </div>
             )}
 
+            {!formData.useCustomPrice && (
+              <div>
+                <Label htmlFor="promoCode" className="flex items-center gap-2">
+                  <Tag className="w-4 h-4" />
+                  Código Promocional
+                </Label>
+                <Input
+                  id="promoCode"
+                  value={formData.promoCode || ''}
+                  onChange={(e) => setFormData({ ...formData, promoCode: e.target.value.toUpperCase() })}
+                  placeholder="Opcional"
+                  className="mt-1 uppercase"
+                />
+                {promoCodeError && (
+                  <p className="text-xs text-destructive mt-1">{promoCodeError}</p>
+                )}
+              </div>
+            )}
+
+            <div className="mt-3">
+              <Label>Moneda del Huésped</Label>
+              <Select
+                value={formData.guestCurrency || BASE_CURRENCY}
+                onValueChange={(value: Currency) => setFormData({ ...formData, guestCurrency: value === BASE_CURRENCY ? undefined : value })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                El precio se cobra en CLP; la cotización y el comprobante también lo muestran en esta moneda.
+              </p>
+            </div>
+
+            <div className="mt-3">
+              <Label>Residencia del Huésped</Label>
+              <Select
+                value={formData.guestResidency || 'resident'}
+                onValueChange={(value: GuestResidency) => setFormData({
+                  ...formData,
+                  guestResidency: value === 'resident' ? undefined : value,
+                  ...(value === 'resident' ? { paysInForeignCurrency: undefined } : {})
+                })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GUEST_RESIDENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {formData.guestResidency === 'foreign' && (
+                <div className="flex items-center space-x-2 mt-2">
+                  <Checkbox
+                    id="paysInForeignCurrency"
+                    checked={!!formData.paysInForeignCurrency}
+                    onCheckedChange={(checked) => setFormData({ ...formData, paysInForeignCurrency: checked === true || undefined })}
+                  />
+                  <Label htmlFor="paysInForeignCurrency" className="text-sm cursor-pointer">
+                    Confirmo que el huésped paga el alojamiento en dólares o euros
+                  </Label>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground mt-1">
+                <Badge variant={taxTreatment === 'exempt' ? 'secondary' : 'outline'} className="mr-1 text-xs">
+                  {TAX_TREATMENT_LABELS[taxTreatment]}
+                </Badge>
+                {formData.guestResidency === 'foreign'
+                  ? taxTreatment === 'exempt'
+                    ? 'El alojamiento se cobra sin IVA; guarda copia del pasaporte y la tarjeta de turismo.'
+                    : 'Para quedar exento de IVA el huésped debe pagar en dólares o euros; confírmalo arriba.'
+                  : 'Los precios incluyen IVA.'}
+              </p>
+            </div>
+
             {/* Price comparison */}
-            {automaticPrice > 0 && (
+            {grossPrice > 0 && (
               <div className="mt-3 text-sm space-y-1">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Precio automático:</span>
                   <span className={formData.useCustomPrice ? "line-through text-muted-foreground" : "font-medium"}>
-                    ${automaticPrice.toLocaleString('es-CL')}
+                    ${grossPrice.toLocaleString('es-CL')}
                   </span>
                 </div>
-                {formData.useCustomPrice && calculatedPrice > 0 && (
+                {priceBreakdown.map((line) => (
+                  <div key={line.checkIn} className="flex justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {formatDateForDisplay(line.checkIn)} – {formatDateForDisplay(line.checkOut)} · {getCabinDisplayName(line.cabinType)} · {line.ratePlanName}
+                      {line.rateAdjustment ? ` (${formatRateAdjustment(line.rateAdjustment)})` : ''}
+                    </span>
+                    <span className="whitespace-nowrap">{line.nights} × ${line.nightlyRate.toLocaleString('es-CL')}</span>
+                  </div>
+                ))}
+                {!formData.useCustomPrice && priceAdjustments.length > 0 && (
+                  <>
+                    {priceAdjustments.map((adjustment) => (
+                      <div key={adjustment.ruleId} className="flex justify-between gap-2 text-xs text-green-700">
+                        <span>{adjustment.name}{adjustment.code ? ` (${adjustment.code})` : ''}</span>
+                        <span className="whitespace-nowrap">-${Math.abs(adjustment.amount).toLocaleString('es-CL')}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Con descuentos:</span>
+                      <span className="font-medium">${automaticPrice.toLocaleString('es-CL')}</span>
+                    </div>
+                  </>
+                )}
+                {formData.useCustomPrice && (formData.customPrice || 0) > 0 && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Precio personalizado:</span>
                     <span className="font-medium text-primary">
-                      ${calculatedPrice.toLocaleString('es-CL')}
+                      ${(formData.customPrice || 0).toLocaleString('es-CL')}
                     </span>
                   </div>
                 )}
@@ -716,6 +1019,58 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
             )}
           </div>
 
+          {/* Servicios adicionales */}
+          <div className="bg-accent/50 p-4 rounded-lg border space-y-3">
+            <Label className="flex items-center gap-2">
+              <ShoppingBag className="w-4 h-4" />
+              Servicios Adicionales
+            </Label>
+            {addOnLines.map((addOn) => (
+              <div key={addOn.id} className="flex items-center gap-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{addOn.name}</p>
+                  <p className="text-xs text-muted-foreground">{describeAddOn(addOn)}</p>
+                </div>
+                <Input
+                  type="number"
+                  min="1"
+                  value={addOn.quantity}
+                  onChange={(e) => handleAddOnChange(addOn.id, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="h-8 w-16"
+                  aria-label={`Cantidad de ${addOn.name}`}
+                />
+                <span className="w-24 text-right whitespace-nowrap">${addOn.total.toLocaleString('es-CL')}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => handleAddOnRemove(addOn.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Select value="" onValueChange={handleAddOnAdd}>
+              <SelectTrigger>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Plus className="w-4 h-4" />
+                  <SelectValue placeholder="Agregar servicio" />
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                {getAddOns().filter(a => a.isActive).map(addOn => (
+                  <SelectItem key={addOn.id} value={addOn.id}>
+                    {addOn.name} · {describeAddOn({ unit: addOn.unit, unitPrice: addOn.price, quantity: 1 })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Traslados, arriendo de auto, tours y otros servicios del catálogo. Se suman al total, también con precio personalizado.
+            </p>
+          </div>
+
           {/* Final price display */}
           {calculatedPrice > 0 && (
             <div className="bg-accent p-4 rounded-lg">
@@ -723,13 +1078,29 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
               <div className="text-2xl font-bold text-primary">
                 ${calculatedPrice.toLocaleString('es-CL')}
               </div>
+              {formData.guestCurrency && formData.guestCurrency !== BASE_CURRENCY && (
+                <div className="text-sm text-muted-foreground">
+                  ≈ {formatCurrency(fromBaseAmount(calculatedPrice, formData.guestCurrency), formData.guestCurrency)}
+                  {' '}(1 {formData.guestCurrency} = {formatCurrency(getExchangeRate(formData.guestCurrency))})
+                </div>
+              )}
               <div className="text-xs text-muted-foreground mt-1">
                 {Math.ceil((new Date(formData.checkOut).getTime() - new Date(formData.checkIn).getTime()) / (1000 * 60 * 60 * 24))} noches
                 {formData.useCustomPrice && <span className="ml-2">(Precio personalizado)</span>}
+                {!formData.useCustomPrice && priceAdjustments.length > 0 && <span className="ml-2">(Con descuentos)</span>}
               </div>
               <div className="text-xs text-muted-foreground mt-1">
                 {formData.adults} adultos, {formData.children} niños, {formData.babies} bebés
               </div>
+              {addOnLines.length > 0 || (taxes?.waivedIva || 0) > 0 ? (
+                <div className="mt-3">
+                  <FolioSummary lines={folioLines} total={calculatedPrice} taxes={taxes} />
+                </div>
+              ) : taxes && (
+                <div className="mt-2">
+                  <TaxSplit taxes={taxes} />
+                </div>
+              )}
             </div>
           )}
 
@@ -746,12 +1117,49 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
                   🚗 ¿Tiene auto arrendado?
                 </Label>
                 <p className="text-xs text-muted-foreground">
-                  Marcar si el huésped cuenta con un vehículo arrendado.
+                  Marcar si el huésped cuenta con un vehículo arrendado. Si lo arrienda con nosotros, agrégalo también como servicio adicional.
                 </p>
               </div>
             </div>
           </div>
 
+          {/* Bloqueo tentativo - al crear, o para extender uno existente */}
+          {(!isEditing || formData.holdExpiresAt) && (
+            <div className="bg-amber-50 dark:bg-amber-950/30 p-4 rounded-lg border border-amber-200 dark:border-amber-800 space-y-3">
+              {!isEditing && (
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="isHold"
+                    checked={formData.reservationStatus === 'hold'}
+                    onCheckedChange={(checked) => handleHoldToggle(!!checked)}
+                  />
+                  <div className="grid gap-1.5 leading-none">
+                    <Label htmlFor="isHold" className="text-sm font-medium cursor-pointer flex items-center gap-2">
+                      <Clock className="w-4 h-4" />
+                      Bloqueo tentativo
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      Reserva las fechas a la espera del abono. Si no se confirma antes del vencimiento, la cabaña se libera sola.
+                    </p>
+                  </div>
+                </div>
+              )}
+              {formData.holdExpiresAt && (
+                <div>
+                  <Label htmlFor="holdExpiresAt" className="text-xs">Vence el</Label>
+                  <Input
+                    id="holdExpiresAt"
+                    type="datetime-local"
+                    value={toDateTimeInputValue(formData.holdExpiresAt)}
+                    onChange={(e) => e.target.value && setFormData({ ...formData, holdExpiresAt: new Date(e.target.value).toISOString() })}
+                    required
+                    className="mt-1 sm:max-w-xs"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Abono inicial - solo al crear */}
           {!isEditing && calculatedPrice > 0 && (
             <div className="bg-accent/50 p-4 rounded-lg border space-y-3">
@@ -933,6 +1341,7 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
                       const updatedReservation = { ...localReservation, ...statusUpdates };
                       setLocalReservation(updatedReservation);
                     }
+                    setHistoryRefreshKey(key => key + 1);
                     
                     toast({
                       title: "✅ Estados actualizados",
@@ -953,6 +1362,13 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
             </div>
           )}
 
+          {/* Historial - Solo para reservas existentes */}
+          {reservation?.id && (
+            <div className="border-t pt-6">
+              <ReservationHistory reservationId={reservation.id} refreshKey={historyRefreshKey} />
+            </div>
+          )}
+
           {/* Botones */}
           <div className="flex gap-4 pt-4">
             <Button
@@ -963,6 +1379,26 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
             >
               Cancelar
             </Button>
+            {localReservation?.id && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  try {
+                    exportReservationVoucher(localReservation);
+                  } catch (error) {
+                    toast({
+                      title: "Error",
+                      description: error instanceof Error ? error.message : 'Error al generar el comprobante',
+                      variant: "destructive",
+                    });
+                  }
+                }}
+              >
+                <FileText className="w-4 h-4 mr-2" />
+                Comprobante
+              </Button>
+            )}
             <Button
               type="submit"
               disabled={loading || (shouldValidateDates && (availabilityStatus === 'unavailable' || !!dateValidationError)) || !!capacityValidationError}
@@ -975,6 +1411,19 @@ const ReservationModal = ({ isOpen, onClose, onSuccess, reservation }: Reservati
         </form>
       </DialogContent>
     </Dialog>
+
+    {waitlistRequest && (
+      <WaitlistModal
+        isOpen={!!waitlistRequest}
+        onClose={() => setWaitlistRequest(null)}
+        onSuccess={() => {
+          onSuccess();
+          onClose();
+        }}
+        request={waitlistRequest}
+      />
+    )}
+    </>
   );
 };
 
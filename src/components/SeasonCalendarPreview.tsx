@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AdminConfig } from '@/lib/adminConfig';
+import { getYearSeasonCalendar, NightSeason } from '@/lib/seasonCalendar';
+import { parseDate } from '@/lib/dateUtils';
+
+interface SeasonCalendarPreviewProps {
+  seasons: AdminConfig['seasons'];
+}
+
+const MONTH_NAMES = [
+  'Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio',
+  'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'
+];
+
+const WEEKDAY_LABELS = ['Lu', 'Ma', 'Mi', 'Ju', 'Vi', 'Sá', 'Do'];
+
+// Nights of the year by month, for the seasons being edited (saved or not)
+const SeasonCalendarPreview = ({ seasons }: SeasonCalendarPreviewProps) => {
+  const [year, setYear] = useState(() => new Date().getFullYear());
+
+  const months = useMemo(() => {
+    const byMonth: NightSeason[][] = Array.from({ length: 12 }, () => []);
+    getYearSeasonCalendar(year, seasons).forEach(night => {
+      byMonth[Number(night.date.slice(5, 7)) - 1].push(night);
+    });
+    return byMonth;
+  }, [year, seasons]);
+
+  const highNights = months.flat().filter(night => night.season === 'Alta').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => setYear(y => y - 1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-center">
+          <p className="font-medium">{year}</p>
+          <p className="text-xs text-muted-foreground">{highNights} noches de temporada alta</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setYear(y => y + 1)}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {months.map((nights, monthIndex) => {
+          // Monday-first offset of the 1st of the month
+          const offset = (parseDate(nights[0].date).getDay() + 6) % 7;
+          return (
+            <div key={monthIndex} className="border rounded-lg p-2">
+              <p className="text-sm font-medium mb-1">{MONTH_NAMES[monthIndex]}</p>
+              <div className="grid grid-cols-7 gap-0.5 text-center text-[10px]">
+                {WEEKDAY_LABELS.map(label => (
+                  <span key={label} className="text-muted-foreground">{label}</span>
+                ))}
+                {Array.from({ length: offset }, (_, index) => <span key={`empty-${index}`} />)}
+                {nights.map(night => (
+                  <span
+                    key={night.date}
+                    title={night.period ? `${night.period} (Alta)` : `Temporada ${night.season}`}
+                    className={`rounded py-0.5 ${night.season === 'Alta' ? 'bg-destructive text-destructive-foreground' : 'bg-muted'}`}
+                  >
+                    {Number(night.date.slice(8, 10))}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-destructive" /> Alta</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-muted border" /> Baja</span>
+        <span>Cada día es la noche que empieza ese día.</span>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonCalendarPreview;
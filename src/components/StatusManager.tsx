@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Edit, Save, X } from 'lucide-react';
 import { Reservation } from '@/types/reservation';
+import { isCancelled } from '@/lib/cancellations';
 
 interface StatusManagerProps {
   reservation: Reservation;
@@ -52,6 +53,10 @@ const StatusManager = ({ reservation, onStatusUpdate, compact = false }: StatusM
         return { variant: 'info' as const, label: 'Check Out', icon: '🚪' };
       case 'departed':
         return { variant: 'secondary' as const, label: 'Salida', icon: '✈️' };
+      case 'hold':
+        return { variant: 'pending' as const, label: 'Bloqueo tentativo', icon: '⏳' };
+      case 'cancelled':
+        return { variant: 'destructive' as const, label: 'Cancelada', icon: '🚫' };
       case 'pending_checkin':
       default:
         return { variant: 'warning' as const, label: 'Pendiente Check In', icon: '🔑' };
@@ -122,6 +127,8 @@ const StatusManager = ({ reservation, onStatusUpdate, compact = false }: StatusM
   const reservationConfig = getReservationStatusConfig(reservation.reservationStatus || 'pending_checkin');
   const checkInConfig = getCheckInStatusConfig(reservation.checkInStatus || 'pending');
   const checkOutConfig = getCheckOutStatusConfig(reservation.checkOutStatus || 'pending');
+  // A cancelled reservation keeps its states; it only changes through the cancellation workflow
+  const cancelled = isCancelled(reservation);
 
   if (compact) {
     return (
@@ -132,139 +139,144 @@ const StatusManager = ({ reservation, onStatusUpdate, compact = false }: StatusM
         <Badge variant={reservationConfig.variant} className="text-xs">
           {reservationConfig.icon} {reservationConfig.label}
         </Badge>
-        <Dialog open={isEditing} onOpenChange={setIsEditing}>
-          <DialogTrigger asChild>
-            <Button 
-              type="button"
-              variant="ghost" 
-              size="sm" 
-              className="h-6 w-6 p-0"
-              onClick={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                setIsEditing(true);
-              }}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Editar Estados</DialogTitle>
-              <DialogDescription>
-                Modifica los estados de pago y reserva de forma rápida.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label>Estado de Pago</Label>
-                <Select value={paymentStatus} onValueChange={(value: any) => setPaymentStatus(value)}>
-                  <SelectTrigger onClick={(e) => e.stopPropagation()}>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="z-50 bg-popover">{/* Added z-index and background */}
-                    <SelectItem value="pending_deposit">Pendiente de Abono</SelectItem>
-                    <SelectItem value="pending_payment">Pendiente de Pago</SelectItem>
-                    <SelectItem value="deposit_made">Abono Realizado</SelectItem>
-                    <SelectItem value="fully_paid">Pago Completo</SelectItem>
-                    <SelectItem value="overdue">Vencido</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+        {!cancelled && (
+          <Dialog open={isEditing} onOpenChange={setIsEditing}>
+            <DialogTrigger asChild>
+              <Button 
+                type="button"
+                variant="ghost" 
+                size="sm" 
+                className="h-6 w-6 p-0"
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setIsEditing(true);
+                }}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Editar Estados</DialogTitle>
+                <DialogDescription>
+                  Modifica los estados de pago y reserva de forma rápida.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>Estado de Pago</Label>
+                  <Select value={paymentStatus} onValueChange={(value: any) => setPaymentStatus(value)}>
+                    <SelectTrigger onClick={(e) => e.stopPropagation()}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-50 bg-popover">{/* Added z-index and background */}
+                      <SelectItem value="pending_deposit">Pendiente de Abono</SelectItem>
+                      <SelectItem value="pending_payment">Pendiente de Pago</SelectItem>
+                      <SelectItem value="deposit_made">Abono Realizado</SelectItem>
+                      <SelectItem value="fully_paid">Pago Completo</SelectItem>
+                      <SelectItem value="overdue">Vencido</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label>Estado de Reserva</Label>
-                <Select value={reservationStatus} onValueChange={(value: any) => setReservationStatus(value)}>
-                  <SelectTrigger onClick={(e) => e.stopPropagation()}>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="z-50 bg-popover">
-                    <SelectItem value="pending_checkin">Pendiente Check In</SelectItem>
-                    <SelectItem value="in_stay">En Estadía</SelectItem>
-                    <SelectItem value="checked_out">Check Out</SelectItem>
-                    <SelectItem value="departed">Salida</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div>
+                  <Label>Estado de Reserva</Label>
+                  <Select value={reservationStatus} onValueChange={(value: any) => setReservationStatus(value)}>
+                    <SelectTrigger onClick={(e) => e.stopPropagation()}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-50 bg-popover">
+                      {reservation.reservationStatus === 'hold' && (
+                        <SelectItem value="hold" disabled>Bloqueo tentativo</SelectItem>
+                      )}
+                      <SelectItem value="pending_checkin">Pendiente Check In</SelectItem>
+                      <SelectItem value="in_stay">En Estadía</SelectItem>
+                      <SelectItem value="checked_out">Check Out</SelectItem>
+                      <SelectItem value="departed">Salida</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label>Estado Check In</Label>
-                <Select value={checkInStatus} onValueChange={(value: any) => {
-                  setCheckInStatus(value);
-                  // Auto-sync reservation status when check-in changes
-                  if (value === 'checked_in' && reservationStatus === 'pending_checkin') {
-                    setReservationStatus('in_stay');
-                  }
-                }}>
-                  <SelectTrigger onClick={(e) => e.stopPropagation()}>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="z-50 bg-popover">
-                    <SelectItem value="pending">Pendiente</SelectItem>
-                    <SelectItem value="checked_in">Ingresado</SelectItem>
-                    <SelectItem value="no_show">No Show</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div>
+                  <Label>Estado Check In</Label>
+                  <Select value={checkInStatus} onValueChange={(value: any) => {
+                    setCheckInStatus(value);
+                    // Auto-sync reservation status when check-in changes
+                    if (value === 'checked_in' && reservationStatus === 'pending_checkin') {
+                      setReservationStatus('in_stay');
+                    }
+                  }}>
+                    <SelectTrigger onClick={(e) => e.stopPropagation()}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-50 bg-popover">
+                      <SelectItem value="pending">Pendiente</SelectItem>
+                      <SelectItem value="checked_in">Ingresado</SelectItem>
+                      <SelectItem value="no_show">No Show</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label>Estado Check Out</Label>
-                <Select value={checkOutStatus} onValueChange={(value: any) => {
-                  setCheckOutStatus(value);
-                  // Auto-sync reservation status when check-out changes
-                  if (value === 'checked_out' && reservationStatus === 'in_stay') {
-                    setReservationStatus('checked_out');
-                  }
-                }}>
-                  <SelectTrigger onClick={(e) => e.stopPropagation()}>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="z-50 bg-popover">
-                    <SelectItem value="pending">Pendiente</SelectItem>
-                    <SelectItem value="checked_out">Egresado</SelectItem>
-                    <SelectItem value="late_checkout">Tardío</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div>
+                  <Label>Estado Check Out</Label>
+                  <Select value={checkOutStatus} onValueChange={(value: any) => {
+                    setCheckOutStatus(value);
+                    // Auto-sync reservation status when check-out changes
+                    if (value === 'checked_out' && reservationStatus === 'in_stay') {
+                      setReservationStatus('checked_out');
+                    }
+                  }}>
+                    <SelectTrigger onClick={(e) => e.stopPropagation()}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-50 bg-popover">
+                      <SelectItem value="pending">Pendiente</SelectItem>
+                      <SelectItem value="checked_out">Egresado</SelectItem>
+                      <SelectItem value="late_checkout">Tardío</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label>Notas (opcional)</Label>
-                <Textarea
-                  value={notes}
-                  onChange={(e) => setNotes(e.target.value)}
-                  placeholder="Agregar notas sobre el cambio de estado..."
-                  className="min-h-[60px]"
-                />
-              </div>
+                <div>
+                  <Label>Notas (opcional)</Label>
+                  <Textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Agregar notas sobre el cambio de estado..."
+                    className="min-h-[60px]"
+                  />
+                </div>
 
-              <div className="flex gap-2 justify-end">
-                <Button 
-                  type="button"
-                  variant="outline" 
-                  onClick={(e) => {
-                    e.preventDefault();
-                    e.stopPropagation();
-                    handleCancel();
-                  }}
-                >
-                  <X className="w-4 h-4 mr-1" />
-                  Cancelar
-                </Button>
-                <Button 
-                  type="button"
-                  onClick={(e) => {
-                    e.preventDefault();
-                    e.stopPropagation();
-                    handleSave();
-                  }}
-                >
-                  <Save className="w-4 h-4 mr-1" />
-                  Guardar
-                </Button>
+                <div className="flex gap-2 justify-end">
+                  <Button 
+                    type="button"
+                    variant="outline" 
+                    onClick={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      handleCancel();
+                    }}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Cancelar
+                  </Button>
+                  <Button 
+                    type="button"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      handleSave();
+                    }}
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    Guardar
+                  </Button>
+                </div>
               </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
     );
   }
@@ -273,19 +285,21 @@ const StatusManager = ({ reservation, onStatusUpdate, compact = false }: StatusM
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Estados de la Reserva</h3>
-        <Button 
-          type="button"
-          variant="outline" 
-          size="sm" 
-          onClick={(e) => {
-            e.preventDefault();
-            e.stopPropagation();
-            setIsEditing(true);
-          }}
-        >
-          <Edit className="w-4 h-4 mr-1" />
-          Editar Estados
-        </Button>
+        {!cancelled && (
+          <Button 
+            type="button"
+            variant="outline" 
+            size="sm" 
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              setIsEditing(true);
+            }}
+          >
+            <Edit className="w-4 h-4 mr-1" />
+            Editar Estados
+          </Button>
+        )}
       </div>
 
       <div className="grid grid-cols-2 gap-4">
@@ -327,7 +341,7 @@ const StatusManager = ({ reservation, onStatusUpdate, compact = false }: StatusM
       </div>
 
       {/* Edit Dialog */}
-      <Dialog open={isEditing} onOpenChange={setIsEditing}>
+      <Dialog open={isEditing && !cancelled} onOpenChange={setIsEditing}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle>Editar Estados de la Reserva</DialogTitle>
@@ -359,6 +373,9 @@ const StatusManager = ({ reservation, onStatusUpdate, compact = false }: StatusM
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent className="z-50 bg-popover">
+                  {reservation.reservationStatus === 'hold' && (
+                    <SelectItem value="hold" disabled>⏳ Bloqueo tentativo</SelectItem>
+                  )}
                   <SelectItem value="pending_checkin">🔑 Pendiente Check In</SelectItem>
                   <SelectItem value="in_stay">🏠 En Estadía</SelectItem>
                   <SelectItem value="checked_out">🚪 Check Out</SelectItem>
@@ -1,27 +1,39 @@
 import { useState, useEffect, useMemo, useRef, useCallback, memo } from 'react';
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Eye, ZoomIn, ZoomOut, ArrowLeft, ArrowRight, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Eye, ZoomIn, ZoomOut, ArrowLeft, ArrowRight, PanelLeftClose, PanelLeftOpen, Users, ArrowRightLeft, Clock, Wrench } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
-import { Reservation } from '@/types/reservation';
-import { formatDateForDisplay, parseDate, getDaysBetween } from '@/lib/dateUtils';
+import { Reservation, StaySegment } from '@/types/reservation';
+import { formatDateForDisplay, formatDateTimeForDisplay, parseDate, getDaysBetween } from '@/lib/dateUtils';
 import { useDateSelection } from '@/hooks/useDateSelection';
 import { logger } from '@/lib/logger';
-import { CABIN_TYPES } from '@/lib/cabinConfig';
+import { getCabinColor, getCabinDisplayName, getCabinIds } from '@/lib/cabinConfig';
+import { blocksInventory } from '@/lib/availabilityPolicy';
+import { getSegments } from '@/lib/staySegments';
+import { isHold } from '@/lib/holds';
+import { getBlockStays, BLOCK_REASON_LABELS } from '@/lib/cabinBlocks';
+import { CabinBlock } from '@/types/cabinBlock';
 
 interface TimelineCalendarProps {
   reservations: Reservation[];
   onReservationClick: (reservation: Reservation) => void;
   loading: boolean;
   onDateRangeSelect?: (startDate: string, endDate: string) => void;
+  // Out-of-order blocks, drawn behind the reservations of their cabin
+  blocks?: CabinBlock[];
+  onBlockClick?: (block: CabinBlock) => void;
 }
 
-const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRangeSelect }: TimelineCalendarProps) => {
+const NO_BLOCKS: CabinBlock[] = [];
+
+const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRangeSelect, blocks = NO_BLOCKS, onBlockClick }: TimelineCalendarProps) => {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<'week' | 'month'>('month');
   const [dayWidth, setDayWidth] = useState(40);
   const [labelsCollapsed, setLabelsCollapsed] = useState(false);
+  // Hovering a group member highlights the rest of its group
+  const [hoveredGroupId, setHoveredGroupId] = useState<string | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
   
@@ -58,21 +70,6 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
     [updateSelection]
   );
 
-  const getCabinColor = (cabinType: string) => {
-    switch (cabinType) {
-      case 'Cabaña Pequeña (Max 3p)':
-        return 'bg-blue-500';
-      case 'Cabaña Mediana 1 (Max 4p)':
-        return 'bg-purple-500';
-      case 'Cabaña Mediana 2 (Max 4p)':
-        return 'bg-amber-500';
-      case 'Cabaña Grande (Max 6p)':
-        return 'bg-pink-500';
-      default:
-        return 'bg-emerald-500';
-    }
-  };
-
   // Helper function to add days to a date string
   const addDaysToDateString = (dateStr: string, days: number): string => {
     const [year, month, day] = dateStr.split('-').map(Number);
@@ -267,9 +264,10 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
     }
   };
 
-  const getReservationPosition = (reservation: Reservation) => {
-    const checkInDate = reservation.checkIn;
-    const checkOutDate = reservation.checkOut;
+  // Position of a stay segment (a whole stay unless the guest changes cabin)
+  const getReservationPosition = (segment: Pick<StaySegment, 'checkIn' | 'checkOut'>) => {
+    const checkInDate = segment.checkIn;
+    const checkOutDate = segment.checkOut;
     
     const startIndex = timelineDates.findIndex(dateStr => dateStr === checkInDate);
     const endIndex = timelineDates.findIndex(dateStr => dateStr === checkOutDate);
@@ -298,23 +296,28 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
   };
 
   const processReservationsForTimeline = () => {
-    const cabinReservations: { [key: string]: Array<{ reservation: Reservation; position: any; row: number }> } = {};
+    const cabinReservations: { [key: string]: Array<{ reservation: Reservation; segment: StaySegment; isSplit: boolean; position: any; row: number }> } = {};
 
-    CABIN_TYPES.forEach(cabinType => {
+    getCabinIds().forEach(cabinType => {
       cabinReservations[cabinType] = [];
     });
 
-    const filteredReservations = reservations.filter(reservation => {
-      const position = getReservationPosition(reservation);
-      return position !== null;
+    // Cancelled / no-show stays free the cabin, so they are not drawn as occupied
+    const filteredReservations = reservations.filter(blocksInventory);
+
+    // Split stays draw one bar per segment, each in its own cabin row
+    const segmentItems = filteredReservations.flatMap(reservation => {
+      const segments = getSegments(reservation);
+      return segments.map(segment => ({ reservation, segment, isSplit: segments.length > 1 }));
     });
 
-    filteredReservations.forEach(reservation => {
-      const position = getReservationPosition(reservation);
+    segmentItems.forEach(({ reservation, segment, isSplit }) => {
+      const position = getReservationPosition(segment);
       if (!position) return;
 
-      const cabinType = reservation.cabinType;
-      const cabinReservationList = cabinReservations[cabinType] || [];
+      // Cabins deactivated in Admin still get a row while they have stays in view
+      const cabinType = segment.cabinType;
+      const cabinReservationList = (cabinReservations[cabinType] ??= []);
 
       // Find available row for this reservation
       let row = 0;
@@ -341,6 +344,8 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
 
       cabinReservationList.push({
         reservation,
+        segment,
+        isSplit,
         position,
         row
       });
@@ -357,6 +362,17 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
     return result;
   }, [reservations, timelineDates, dayWidth]);
 
+  // Blocks cover nights only: the band ends the day before the cabin is back in service.
+  // Few blocks fall in the visible range, so they are laid out on every render.
+  const blocksRangeEnd = addDaysToDateString(timelineDates[timelineDates.length - 1], 1);
+  const processedBlocks = blocks.flatMap(block =>
+    getBlockStays(block, timelineDates[0], blocksRangeEnd).map(stay => ({
+      block,
+      stay,
+      position: getReservationPosition({ checkIn: stay.checkIn, checkOut: addDaysToDateString(stay.checkOut, -1) })
+    }))
+  ).filter(item => item.position);
+
   const navigateTime = (direction: 'prev' | 'next') => {
     logger.debug('timeline.navigate', { direction, viewMode, currentDate: getCurrentDateString() });
     setCurrentDate(prev => {
@@ -503,7 +519,7 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
             </div>
             
             {/* Cabin rows */}
-            {CABIN_TYPES.map((cabinType) => {
+            {Object.keys(processedReservations).map((cabinType) => {
               const maxRows = Math.max(1, processedReservations[cabinType]?.length > 0 ? 
                 Math.max(...processedReservations[cabinType].map(r => r.row)) + 1 : 1);
               const rowHeight = Math.max(60, maxRows * 35);
@@ -513,7 +529,7 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
                   key={cabinType} 
                   className="border-b border-border/50 flex items-center px-2 sm:px-4 bg-background"
                   style={{ height: `${rowHeight}px` }}
-                  title={cabinType.split(' (')[0]}
+                  title={getCabinDisplayName(cabinType)}
                 >
                   <div className="flex items-center gap-2">
                     <div 
@@ -521,7 +537,7 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
                     ></div>
                     {!labelsCollapsed && (
                       <span className="text-sm font-medium">
-                        {cabinType.split(' (')[0]}
+                        {getCabinDisplayName(cabinType)}
                       </span>
                     )}
                   </div>
@@ -582,8 +598,9 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
               </div>
 
               {/* Cabin Rows with Reservations */}
-              {CABIN_TYPES.map((cabinType) => {
+              {Object.keys(processedReservations).map((cabinType) => {
                 const cabinReservations = processedReservations[cabinType] || [];
+                const cabinBlocks = processedBlocks.filter(item => item.stay.cabinType === cabinType);
                 const maxRows = Math.max(1, cabinReservations.length > 0 ? 
                   Math.max(...cabinReservations.map(r => r.row)) + 1 : 1);
                 const rowHeight = Math.max(60, maxRows * 35);
@@ -628,40 +645,74 @@ const TimelineCalendar = ({ reservations, onReservationClick, loading, onDateRan
                       );
                     })}
                     
+                    {/* Out-of-order bands: full row height, hatched gray */}
+                    {cabinBlocks.map(item => (
+                      <div
+                        key={item.stay.id}
+                        className={`absolute top-0 h-full bg-muted-foreground/20 border-x-2 border-muted-foreground/40 flex items-start justify-center pt-1 text-muted-foreground ${onBlockClick ? 'cursor-pointer hover:bg-muted-foreground/30' : ''}`}
+                        style={{
+                          left: `${item.position!.startIndex * dayWidth}px`,
+                          width: `${item.position!.width}px`,
+                          backgroundImage: 'repeating-linear-gradient(-45deg, rgba(100,116,139,0.25) 0 4px, transparent 4px 10px)'
+                        }}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onBlockClick?.(item.block);
+                        }}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        title={`Fuera de servicio: ${BLOCK_REASON_LABELS[item.block.reason]} - ${formatDateForDisplay(item.stay.checkIn)} al ${formatDateForDisplay(item.stay.checkOut)}${item.block.notes ? ` · ${item.block.notes}` : ''}`}
+                      >
+                        <Wrench className="w-3 h-3 flex-shrink-0" />
+                      </div>
+                    ))}
+
                     {/* Reservation bars */}
                     {cabinReservations.map((item, index) => (
                       <div
-                        key={`${item.reservation.id}-${index}`}
+                        key={`${item.reservation.id}-${item.segment.checkIn}-${index}`}
                         className={`
                           absolute cursor-pointer hover:scale-[1.02] transition-transform duration-200
                           ${getCabinColor(cabinType)} text-white rounded-md shadow-sm
                           flex items-center px-2 py-1 text-xs font-medium
                           hover:shadow-md hover:z-10
+                          ${item.reservation.groupId ? 'ring-2 ring-offset-1 ring-white/70' : ''}
+                          ${item.reservation.groupId && item.reservation.groupId === hoveredGroupId ? 'ring-foreground z-10' : ''}
+                          ${item.isSplit ? 'border-2 border-dashed border-white/80' : ''}
+                          ${isHold(item.reservation) ? 'opacity-70 outline outline-2 outline-dashed outline-offset-1 outline-foreground/40' : ''}
                         `}
                         style={{
                           left: `${item.position.startIndex * dayWidth + 2}px`,
                           width: `${item.position.width - 4}px`,
                           top: `${8 + item.row * 35}px`,
-                          height: '28px'
+                          height: '28px',
+                          // Tentative holds are striped: the cabin is promised, not booked
+                          backgroundImage: isHold(item.reservation)
+                            ? 'repeating-linear-gradient(45deg, rgba(255,255,255,0.35) 0 6px, transparent 6px 12px)'
+                            : undefined
                         }}
+                        onMouseEnter={() => setHoveredGroupId(item.reservation.groupId || null)}
+                        onMouseLeave={() => setHoveredGroupId(null)}
                         onClick={(e) => {
                           e.stopPropagation();
                           const start = performance.now();
                           onReservationClick(item.reservation);
-                          scrollToDate(item.reservation.checkIn);
+                          scrollToDate(item.segment.checkIn);
                           const duration = performance.now() - start;
                           logger.debug('timeline.reservation.click', { 
                             reservationId: item.reservation.id,
                             durationMs: duration 
                           });
                         }}
-                        title={`${item.reservation.passengerName} - ${formatDateForDisplay(item.reservation.checkIn)} al ${formatDateForDisplay(item.reservation.checkOut)}`}
+                        title={`${item.reservation.passengerName} - ${formatDateForDisplay(item.segment.checkIn)} al ${formatDateForDisplay(item.segment.checkOut)}${item.isSplit ? ` · Estadía dividida: ${formatDateForDisplay(item.reservation.checkIn)} al ${formatDateForDisplay(item.reservation.checkOut)}` : ''}${item.reservation.groupId ? ` · Grupo: ${item.reservation.groupName || ''}` : ''}${isHold(item.reservation) && item.reservation.holdExpiresAt ? ` · Bloqueo tentativo hasta ${formatDateTimeForDisplay(item.reservation.holdExpiresAt)}` : ''}`}
                       >
+                        {isHold(item.reservation) && <Clock className="w-3 h-3 mr-1 flex-shrink-0" />}
+                        {item.isSplit && <ArrowRightLeft className="w-3 h-3 mr-1 flex-shrink-0" />}
+                        {item.reservation.groupId && <Users className="w-3 h-3 mr-1 flex-shrink-0" />}
                         <div className="truncate flex-1">
                           {item.reservation.passengerName}
                         </div>
                         <Badge variant="secondary" className="ml-2 text-xs">
-                          {getDaysBetween(item.reservation.checkIn, item.reservation.checkOut)}d
+                          {getDaysBetween(item.segment.checkIn, item.segment.checkOut)}d
                         </Badge>
                       </div>
                     ))}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ListOrdered, MessageCircle, X, Clock, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateForDisplay } from '@/lib/dateUtils';
+import { getCabinDisplayName } from '@/lib/availabilityHelpers';
+import { holdWaitlistOffer } from '@/lib/holds';
+import { discardWaitlistEntry } from '@/lib/waitlist';
+import { WaitlistEntry } from '@/types/waitlist';
+import { CabinType } from '@/types/reservation';
+import { logger } from '@/lib/logger';
+
+interface WaitlistCardProps {
+  entries: WaitlistEntry[];
+  onChange: () => void;
+  // Offers can only be booked while online
+  canBook: boolean;
+}
+
+// wa.me needs the number with country code and digits only
+const getWhatsAppLink = (entry: WaitlistEntry, cabinType?: CabinType): string => {
+  const message = `Hola ${entry.guestName}, se liberó ${cabinType ? `la ${getCabinDisplayName(cabinType)}` : 'una cabaña'} del ${formatDateForDisplay(entry.checkIn)} al ${formatDateForDisplay(entry.checkOut)}. ¿Te la reservamos?`;
+  return `https://wa.me/${entry.phone.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+};
+
+const formatParty = (entry: WaitlistEntry): string => `${entry.adults + entry.children}p`;
+
+const WaitlistCard = ({ entries, onChange, canBook }: WaitlistCardProps) => {
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const offers = entries.filter(entry => entry.status === 'offered');
+  const waiting = entries.filter(entry => entry.status === 'waiting');
+
+  const handleBook = async (entry: WaitlistEntry, cabinType: CabinType) => {
+    setBusyId(entry.id!);
+    try {
+      await holdWaitlistOffer(entry, cabinType, { source: '/' });
+      toast({
+        title: "⏳ Bloqueo tentativo creado",
+        description: `La ${getCabinDisplayName(cabinType)} queda bloqueada para ${entry.guestName} mientras confirma.`
+      });
+      onChange();
+    } catch (error) {
+      logger.error('waitlistCard.book.error', { entryId: entry.id, error: String(error) });
+      toast({
+        title: "No se pudo reservar",
+        description: error instanceof Error ? error.message : "Hubo un problema al reservar la oferta.",
+        variant: "destructive"
+      });
+      // The cabin may have been taken again: refresh the offers
+      onChange();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id!);
+    try {
+      await discardWaitlistEntry(entry.id!);
+      toast({
+        title: "Solicitud descartada",
+        description: `${entry.guestName} sale de la lista de espera.`
+      });
+      onChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo descartar la solicitud.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="card-cabin">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-primary" />
+          Lista de Espera
+          {offers.length > 0 && (
+            <Badge className="bg-green-600 hover:bg-green-600">{offers.length} con cabaña libre</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Offers: a cabin freed up for the whole stay */}
+        {offers.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {offers.map(entry => (
+              <div key={entry.id} className="border border-green-500 bg-green-50 rounded-lg p-4 space-y-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h4 className="font-medium">{entry.guestName}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDateForDisplay(entry.checkIn)} – {formatDateForDisplay(entry.checkOut)}
+                    </p>
+                    <p className="text-sm text-green-700 font-medium">
+                      Libre: {(entry.offeredCabins || []).map(getCabinDisplayName).join(', ')}
+                    </p>
+                  </div>
+                  <Badge variant="secondary">{formatParty(entry)}</Badge>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {(entry.offeredCabins || []).map(cabinType => (
+                    <Button
+                      key={cabinType}
+                      size="sm"
+                      onClick={() => handleBook(entry, cabinType)}
+                      disabled={!canBook || busyId === entry.id}
+                    >
+                      {busyId === entry.id ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Clock className="w-4 h-4 mr-1" />}
+                      Bloquear {getCabinDisplayName(cabinType)}
+                    </Button>
+                  ))}
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={getWhatsAppLink(entry, entry.offeredCabins?.[0])} target="_blank" rel="noopener noreferrer">
+                      <MessageCircle className="w-4 h-4 mr-1" />
+                      WhatsApp
+                    </a>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDiscard(entry)}
+                    disabled={busyId === entry.id}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Descartar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Still waiting */}
+        {waiting.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Esperando una cabaña ({waiting.length})</p>
+            <div className="border rounded-lg divide-y">
+              {waiting.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between gap-2 p-3 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">{entry.guestName}</span>
+                    <span className="text-muted-foreground">
+                      {' · '}{formatDateForDisplay(entry.checkIn)} – {formatDateForDisplay(entry.checkOut)}
+                      {' · '}{entry.cabinTypes.map(getCabinDisplayName).join(', ')}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="secondary">{formatParty(entry)}</Badge>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDiscard(entry)}
+                      disabled={busyId === entry.id}
+                      aria-label="Descartar"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaitlistCard;
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { Loader2, ListOrdered } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { getCabinIds, getCabinName } from '@/lib/cabinConfig';
+import { formatDateForDisplay } from '@/lib/dateUtils';
+import { validateCabinCapacity } from '@/lib/validation';
+import { addToWaitlist } from '@/lib/waitlist';
+import { WaitlistFormData } from '@/types/waitlist';
+import { CabinType } from '@/types/reservation';
+import { logger } from '@/lib/logger';
+
+interface WaitlistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  // Request that could not be booked, prefilled from the reservation form
+  request: Omit<WaitlistFormData, 'cabinTypes'>;
+}
+
+interface ContentProps {
+  formData: WaitlistFormData;
+  setFormData: (data: WaitlistFormData) => void;
+  handleSubmit: (e: React.FormEvent) => void;
+  onClose: () => void;
+  loading: boolean;
+}
+
+// Every cabin that fits the party is acceptable by default
+const getFittingCabins = (request: Pick<WaitlistFormData, 'adults' | 'children' | 'babies'>): CabinType[] => {
+  return getCabinIds().filter(cabinType =>
+    validateCabinCapacity(cabinType, request.adults, request.children, request.babies).isValid
+  );
+};
+
+const Content = ({ formData, setFormData, handleSubmit, onClose, loading }: ContentProps) => (
+  <div className="space-y-4 p-4">
+    {/* Request Info */}
+    <div className="bg-accent/50 p-4 rounded-lg">
+      <div className="text-sm text-muted-foreground">Fechas solicitadas:</div>
+      <div className="font-medium">
+        {formatDateForDisplay(formData.checkIn)} – {formatDateForDisplay(formData.checkOut)}
+      </div>
+      <div className="text-sm text-muted-foreground mt-1">
+        {formData.adults} adulto(s){formData.children > 0 ? `, ${formData.children} niño(s)` : ''}{formData.babies > 0 ? `, ${formData.babies} bebé(s)` : ''}
+      </div>
+    </div>
+
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Contact */}
+      <div>
+        <Label htmlFor="waitlistGuestName">Nombre del huésped</Label>
+        <Input
+          id="waitlistGuestName"
+          value={formData.guestName}
+          onChange={(e) => setFormData({ ...formData, guestName: e.target.value })}
+          required
+          className="mt-1"
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="waitlistPhone">Teléfono</Label>
+          <Input
+            id="waitlistPhone"
+            type="tel"
+            value={formData.phone}
+            onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+            required
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="waitlistEmail">Email (opcional)</Label>
+          <Input
+            id="waitlistEmail"
+            type="email"
+            value={formData.email || ''}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      {/* Acceptable cabins */}
+      <div>
+        <Label>Cabañas que acepta</Label>
+        <div className="border rounded-lg divide-y mt-1">
+          {getCabinIds().map(cabinType => {
+            const fits = validateCabinCapacity(cabinType, formData.adults, formData.children, formData.babies).isValid;
+            return (
+              <label key={cabinType} className={`flex items-center gap-3 p-3 text-sm ${fits ? 'cursor-pointer' : 'opacity-50'}`}>
+                <Checkbox
+                  checked={formData.cabinTypes.includes(cabinType)}
+                  disabled={!fits}
+                  onCheckedChange={(checked) => setFormData({
+                    ...formData,
+                    cabinTypes: checked
+                      ? [...formData.cabinTypes, cabinType]
+                      : formData.cabinTypes.filter(c => c !== cabinType)
+                  })}
+                />
+                <span className="flex-1">{getCabinName(cabinType)}</span>
+                {!fits && <span className="text-xs text-muted-foreground">capacidad insuficiente</span>}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="waitlistNotes">Notas (opcional)</Label>
+        <Textarea
+          id="waitlistNotes"
+          value={formData.notes || ''}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          placeholder="Flexibilidad de fechas, cómo contactarlo..."
+          className="mt-1"
+          rows={2}
+        />
+      </div>
+
+      {/* Buttons */}
+      <div className="flex gap-3 pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onClose}
+          className="flex-1 min-h-[44px]"
+        >
+          Volver
+        </Button>
+        <Button
+          type="submit"
+          disabled={loading || formData.cabinTypes.length === 0}
+          className="flex-1 min-h-[44px]"
+        >
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {loading ? 'Guardando...' : 'Agregar a la lista'}
+        </Button>
+      </div>
+    </form>
+  </div>
+);
+
+const WaitlistModal = ({ isOpen, onClose, onSuccess, request }: WaitlistModalProps) => {
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<WaitlistFormData>({ ...request, cabinTypes: getFittingCabins(request) });
+
+  useEffect(() => {
+    if (isOpen) {
+      logger.info('modal.waitlist.open', { checkIn: request.checkIn, checkOut: request.checkOut });
+      setFormData({ ...request, cabinTypes: getFittingCabins(request) });
+    } else {
+      logger.info('modal.waitlist.close');
+    }
+  }, [isOpen, request]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    logger.info('modal.waitlist.submit.start', { cabinTypes: formData.cabinTypes });
+    setLoading(true);
+
+    try {
+      await addToWaitlist(formData);
+      logger.info('modal.waitlist.submit.success');
+      toast({
+        title: "Agregado a la lista de espera",
+        description: `Si se libera una cabaña para ${formData.guestName} aparecerá como oferta en el Dashboard.`
+      });
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Hubo un problema al guardar la solicitud.";
+      logger.error('modal.waitlist.submit.error', { error: errorMessage });
+
+      toast({
+        title: "⚠️ Error al agregar a la lista",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const contentProps = {
+    formData,
+    setFormData,
+    handleSubmit,
+    onClose,
+    loading,
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={onClose}>
+        <DrawerContent className="max-h-[90vh]">
+          <DrawerHeader>
+            <DrawerTitle className="text-lg font-semibold flex items-center gap-2">
+              <ListOrdered className="w-5 h-5 text-primary" />
+              Lista de Espera
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="overflow-y-auto pb-4">
+            <Content {...contentProps} />
+          </div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-primary" />
+            Lista de Espera
+          </DialogTitle>
+          <DialogDescription>
+            Cuando una cancelación o cambio libere alguna de estas cabañas, la solicitud aparecerá como oferta en el Dashboard.
+          </DialogDescription>
+        </DialogHeader>
+        <Content {...contentProps} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WaitlistModal;
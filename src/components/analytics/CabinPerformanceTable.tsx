@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { CabinStats, formatCurrency, formatPercentage } from '@/lib/analyticsService';
+import { getCabinName } from '@/lib/cabinConfig';
 
 interface CabinPerformanceTableProps {
   data: CabinStats[];
@@ -35,7 +36,7 @@ const CabinPerformanceTable = ({ data }: CabinPerformanceTableProps) => {
             {data.map((cabin) => (
               <TableRow key={cabin.cabinType}>
                 <TableCell className="font-medium">
-                  {cabin.cabinType.replace(' (Max ', ' (').replace('p)', 'p)')}
+                  {getCabinName(cabin.cabinType).replace(' (Max ', ' (')}
                 </TableCell>
                 <TableCell className="text-right">{cabin.totalReservations}</TableCell>
                 <TableCell className="text-right">{formatCurrency(cabin.totalRevenue)}</TableCell>
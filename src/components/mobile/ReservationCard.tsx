@@ -1,4 +1,4 @@
-import { Edit, Trash2, CreditCard, LogIn, LogOut, DollarSign, Send, CheckCircle } from 'lucide-react';
+import { Edit, Trash2, CreditCard, LogIn, LogOut, DollarSign, Send, CheckCircle, Ban, Users, ArrowRightLeft, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -15,6 +15,11 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Reservation } from '@/types/reservation';
 import { calculateRemainingBalance } from '@/lib/reservationService';
+import { CANCELLATION_REASONS, getTotalPaid, isCancelled } from '@/lib/cancellations';
+import { getCabinMoves } from '@/lib/staySegments';
+import { formatHoldTimeLeft, isHold, isHoldExpired } from '@/lib/holds';
+import { formatDateTimeForDisplay } from '@/lib/dateUtils';
+import { getCabinDisplayName } from '@/lib/cabinConfig';
 
 interface ReservationCardProps {
   reservation: Reservation;
@@ -24,6 +29,10 @@ interface ReservationCardProps {
   onCheckOut: (reservation: Reservation) => void;
   onDelete: (id: string) => void;
   onConfirmation: (reservation: Reservation) => void;
+  onCancel?: (reservation: Reservation) => void;
+  onGroup?: (reservation: Reservation) => void;
+  onMove?: (reservation: Reservation) => void;
+  onConfirmHold?: (reservation: Reservation) => void;
 }
 
 const ReservationCard = ({ 
@@ -33,7 +42,11 @@ const ReservationCard = ({
   onCheckIn, 
   onCheckOut, 
   onDelete,
-  onConfirmation 
+  onConfirmation,
+  onCancel,
+  onGroup,
+  onMove,
+  onConfirmHold
 }: ReservationCardProps) => {
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -69,6 +82,10 @@ const ReservationCard = ({
         return { variant: 'info' as const, label: '🚪 Check Out' };
       case 'departed':
         return { variant: 'secondary' as const, label: '✈️ Salida' };
+      case 'cancelled':
+        return { variant: 'destructive' as const, label: '🚫 Cancelada' };
+      case 'hold':
+        return { variant: 'pending' as const, label: '⏳ Bloqueo tentativo' };
       case 'pending_checkin':
       default:
         return { variant: 'warning' as const, label: '🔑 Pendiente Check In' };
@@ -106,15 +123,34 @@ const ReservationCard = ({
   const checkInBadge = getCheckInStatusBadge(reservation.checkInStatus || 'pending');
   const checkOutBadge = getCheckOutStatusBadge(reservation.checkOutStatus || 'pending');
   const remainingBalance = calculateRemainingBalance(reservation);
+  const cancelled = isCancelled(reservation);
+  const hold = isHold(reservation);
+  const cabinMoves = getCabinMoves(reservation);
 
   return (
-    <Card className="card-cabin">
+    <Card className={`card-cabin ${reservation.groupId ? 'border-l-4 border-l-primary' : ''}`}>
       <CardContent className="p-4 space-y-4">
         {/* Header with name and price */}
         <div className="flex justify-between items-start">
           <div className="flex-1">
             <h3 className="font-semibold text-lg text-foreground">{reservation.passengerName}</h3>
-            <p className="text-sm text-muted-foreground">{reservation.cabinType.split(' (')[0]}</p>
+            <p className="text-sm text-muted-foreground">{getCabinDisplayName(reservation.cabinType)}</p>
+            {cabinMoves.map(move => (
+              <p key={move.date} className="text-xs text-muted-foreground flex items-center gap-1">
+                <ArrowRightLeft className="w-3 h-3" />
+                {getCabinDisplayName(move.to)} desde {formatDate(move.date)}
+              </p>
+            ))}
+            {reservation.groupId && (
+              <button
+                type="button"
+                onClick={() => onGroup?.(reservation)}
+                className="text-xs text-primary font-medium flex items-center gap-1 mt-1 hover:underline"
+              >
+                <Users className="w-3 h-3" />
+                {reservation.groupName || 'Grupo'}
+              </button>
+            )}
             {reservation.useCustomPrice && (
               <div className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
                 <DollarSign className="w-3 h-3" />
@@ -154,6 +190,11 @@ const ReservationCard = ({
 
         {/* Status badges */}
         <div className="flex flex-wrap gap-2">
+          {(cancelled || hold) && (
+            <Badge variant={reservationBadge.variant} className="text-xs">
+              {reservationBadge.label}
+            </Badge>
+          )}
           <Badge variant={checkInBadge.variant} className="text-xs">
             {checkInBadge.label}
           </Badge>
@@ -174,6 +215,33 @@ const ReservationCard = ({
           </Badge>
         </div>
 
+        {/* Hold expiry */}
+        {hold && reservation.holdExpiresAt && (
+          <div className="text-xs p-2 bg-amber-50 dark:bg-amber-950/30 rounded-md flex items-center gap-2">
+            <Clock className="w-3 h-3 text-amber-700" />
+            <span className="text-amber-800 dark:text-amber-300">
+              {isHoldExpired(reservation)
+                ? `Vencido el ${formatDateTimeForDisplay(reservation.holdExpiresAt)}${getTotalPaid(reservation) > 0 || reservation.checkInStatus === 'checked_in' ? '; se confirmará al sincronizar' : ', se liberará al sincronizar'}`
+                : `Vence el ${formatDateTimeForDisplay(reservation.holdExpiresAt)} (quedan ${formatHoldTimeLeft(reservation.holdExpiresAt)})`}
+            </span>
+          </div>
+        )}
+
+        {/* Cancellation details */}
+        {cancelled && reservation.cancellation && (
+          <div className="text-xs p-2 bg-destructive/10 rounded-md space-y-1">
+            <div className="font-medium text-destructive">
+              {CANCELLATION_REASONS[reservation.cancellation.reason]} · {new Date(reservation.cancellation.cancelledAt).toLocaleDateString('es-CL')} · {reservation.cancellation.cancelledBy}
+            </div>
+            <div className="text-muted-foreground">
+              Cargo: ${reservation.cancellation.fee.toLocaleString('es-CL')} · Reembolso: ${reservation.cancellation.refundAmount.toLocaleString('es-CL')}
+            </div>
+            {reservation.cancellation.notes && (
+              <div className="text-muted-foreground">{reservation.cancellation.notes}</div>
+            )}
+          </div>
+        )}
+
         {/* Comments */}
         {reservation.comments && (
           <div className="text-xs text-muted-foreground p-2 bg-muted/50 rounded-md">
@@ -221,71 +289,121 @@ const ReservationCard = ({
           </div>
 
           {/* Secondary actions row */}
-          <div className="grid grid-cols-2 gap-2">
+          {!cancelled && (
+            <div className="grid grid-cols-2 gap-2">
             
-            {!reservation.confirmationSent && (
-              <Button
-                variant="secondary"
-                size="default"
-                onClick={() => onConfirmation(reservation)}
-                className="min-h-[48px] font-medium bg-orange-100 text-orange-700 hover:bg-orange-200"
-              >
-                <Send className="w-4 h-4 mr-1" />
-                Confirmar
-              </Button>
-            )}
+              {!reservation.confirmationSent && (
+                <Button
+                  variant="secondary"
+                  size="default"
+                  onClick={() => onConfirmation(reservation)}
+                  className="min-h-[48px] font-medium bg-orange-100 text-orange-700 hover:bg-orange-200"
+                >
+                  <Send className="w-4 h-4 mr-1" />
+                  Confirmar
+                </Button>
+              )}
             
-            {reservation.confirmationSent && (
+              {reservation.confirmationSent && (
+                <Button
+                  variant="outline"
+                  size="default"
+                  disabled
+                  className="min-h-[48px] font-medium opacity-75"
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Confirmado
+                </Button>
+              )}
+            
+              {reservation.checkInStatus !== 'checked_in' && (
+                <Button
+                  variant="secondary"
+                  size="default"
+                  onClick={() => onCheckIn(reservation)}
+                  className="min-h-[48px] font-medium bg-green-100 text-green-700 hover:bg-green-200"
+                >
+                  <LogIn className="w-4 h-4 mr-2" />
+                  Check-in
+                </Button>
+              )}
+            
+              {reservation.checkInStatus === 'checked_in' && reservation.checkOutStatus !== 'checked_out' && (
+                <Button
+                  variant="secondary"
+                  size="default"
+                  onClick={() => onCheckOut(reservation)}
+                  className="min-h-[48px] font-medium bg-blue-100 text-blue-700 hover:bg-blue-200"
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Check-out
+                </Button>
+              )}
+
+              {reservation.checkInStatus === 'checked_in' && reservation.checkOutStatus === 'checked_out' && (
+                <Button
+                  variant="outline"
+                  size="default"
+                  disabled
+                  className="min-h-[48px] font-medium opacity-75"
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Completado
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Cancel and delete buttons in separate row */}
+          <div className="flex flex-wrap justify-center gap-2 pt-2">
+            {onConfirmHold && hold && (
               <Button
                 variant="outline"
-                size="default"
-                disabled
-                className="min-h-[48px] font-medium opacity-75"
+                size="sm"
+                onClick={() => onConfirmHold(reservation)}
+                className="text-green-700 hover:text-green-700 hover:bg-green-100 min-h-[40px] px-6"
               >
-                <CheckCircle className="w-4 h-4 mr-1" />
-                Confirmado
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Confirmar bloqueo
               </Button>
             )}
-            
-            {reservation.checkInStatus !== 'checked_in' && (
+
+            {onMove && !cancelled && reservation.checkOutStatus !== 'checked_out' && (
               <Button
-                variant="secondary"
-                size="default"
-                onClick={() => onCheckIn(reservation)}
-                className="min-h-[48px] font-medium bg-green-100 text-green-700 hover:bg-green-200"
+                variant="outline"
+                size="sm"
+                onClick={() => onMove(reservation)}
+                className="min-h-[40px] px-6"
               >
-                <LogIn className="w-4 h-4 mr-2" />
-                Check-in
+                <ArrowRightLeft className="w-4 h-4 mr-2" />
+                Mover
               </Button>
             )}
-            
-            {reservation.checkInStatus === 'checked_in' && reservation.checkOutStatus !== 'checked_out' && (
+
+            {onGroup && !cancelled && (
               <Button
-                variant="secondary"
-                size="default"
-                onClick={() => onCheckOut(reservation)}
-                className="min-h-[48px] font-medium bg-blue-100 text-blue-700 hover:bg-blue-200"
+                variant="outline"
+                size="sm"
+                onClick={() => onGroup(reservation)}
+                className="min-h-[40px] px-6"
               >
-                <LogOut className="w-4 h-4 mr-2" />
-                Check-out
+                <Users className="w-4 h-4 mr-2" />
+                {reservation.groupId ? 'Grupo' : 'Agrupar'}
               </Button>
             )}
 
-            {reservation.checkInStatus === 'checked_in' && reservation.checkOutStatus === 'checked_out' && (
+            {onCancel && !cancelled && reservation.checkInStatus !== 'checked_in' && (
               <Button
                 variant="outline"
-                size="default"
-                disabled
-                className="min-h-[48px] font-medium opacity-75"
+                size="sm"
+                onClick={() => onCancel(reservation)}
+                className="text-orange-700 hover:text-orange-700 hover:bg-orange-100 min-h-[40px] px-6"
               >
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Completado
+                <Ban className="w-4 h-4 mr-2" />
+                Cancelar
               </Button>
             )}
-          </div>
 
-          {/* Delete button in separate row */}
-          <div className="flex justify-center pt-2">
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button
@@ -301,7 +419,7 @@ const ReservationCard = ({
                 <AlertDialogHeader>
                   <AlertDialogTitle>¿Eliminar reserva?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    Esta acción no se puede deshacer. Se eliminará permanentemente la reserva de {reservation.passengerName}.
+                    La reserva de {reservation.passengerName} se moverá a la papelera, desde donde se puede restaurar.
                     {(reservation.payments || []).length > 0 && (
                       <div className="mt-2 text-destructive font-medium">
                         ⚠️ Esta reserva tiene {(reservation.payments || []).length} pago{(reservation.payments || []).length !== 1 ? 's' : ''} registrado{(reservation.payments || []).length !== 1 ? 's' : ''}.
@@ -1,18 +1,20 @@
 import React from 'react';
 import type { AvailabilityLegendProps } from './types';
 import { cn } from '@/lib/utils';
+import { getCabinIds } from '@/lib/cabinConfig';
 
 export const AvailabilityLegend: React.FC<AvailabilityLegendProps> = ({ className }) => {
+  const cabinCount = getCabinIds().length;
   const legendItems = [
     { 
       color: 'bg-emerald-100 border-emerald-300', 
       label: 'Todas disponibles',
-      description: '4/4 cabañas'
+      description: `${cabinCount}/${cabinCount} cabañas`
     },
     { 
       color: 'bg-amber-100 border-amber-300', 
       label: 'Parcialmente disponible',
-      description: '1-3 cabañas'
+      description: cabinCount > 2 ? `1-${cabinCount - 1} cabañas` : '1 cabaña'
     },
     { 
       color: 'bg-rose-100 border-rose-300', 
@@ -23,6 +25,11 @@ export const AvailabilityLegend: React.FC<AvailabilityLegendProps> = ({ classNam
       color: 'bg-muted border-muted-foreground/20', 
       label: 'No disponible',
       description: 'Fecha pasada'
+    },
+    { 
+      color: 'bg-background border-dashed border-muted-foreground', 
+      label: 'Con restricciones',
+      description: 'mínimo de noches o sin llegadas/salidas'
     }
   ];
 
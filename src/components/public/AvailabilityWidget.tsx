@@ -5,14 +5,18 @@ import { es } from 'date-fns/locale';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
-import { formatDateToISO } from '@/lib/dateUtils';
+import { calculateNights, formatDateToISO } from '@/lib/dateUtils';
 import { usePublicAvailability } from '@/hooks/usePublicAvailability';
 import { AvailabilityLegend } from './AvailabilityLegend';
 import { CabinSelector } from './CabinSelector';
-import type { AvailabilityWidgetProps, AvailabilityStatus, CabinInfo } from './types';
+import type { AvailabilityWidgetProps, AvailabilityStatus, CabinInfo, DayAvailability } from './types';
 
 const WEEKDAYS = ['Lu', 'Ma', 'Mi', 'Ju', 'Vi', 'Sa', 'Do'];
 
+const hasDayRestrictions = (day: DayAvailability): boolean => {
+  return (day.minNights || 1) > 1 || !!day.closedToArrival || !!day.closedToDeparture;
+};
+
 export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
   onDateRangeSelect,
   onCabinSelect,
@@ -27,6 +31,7 @@ export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
   const [selectedCheckIn, setSelectedCheckIn] = useState<string | null>(null);
   const [selectedCheckOut, setSelectedCheckOut] = useState<string | null>(null);
   const [hoverDate, setHoverDate] = useState<string | null>(null);
+  const [restrictionHint, setRestrictionHint] = useState<string | null>(null);
 
   // Calculate date range for availability query (current view + 2 months buffer)
   const queryStartDate = useMemo(() => {
@@ -55,6 +60,30 @@ export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
     return 'none';
   }, [availability]);
 
+  // Why no cabin accepts an arrival on checkIn (or the stay until checkOut), or null
+  const getRestrictionError = useCallback((checkIn: string, checkOut?: string): string | null => {
+    const arrival = availability.find(d => d.date === checkIn);
+    if (arrival?.closedToArrival) return 'No se reciben llegadas ese día';
+    if (!checkOut) return null;
+
+    const minNights = arrival?.minNights || 1;
+    if (calculateNights(checkIn, checkOut) < minNights) {
+      return `Las llegadas de ese día requieren mínimo ${minNights} noches`;
+    }
+    if (availability.find(d => d.date === checkOut)?.closedToDeparture) return 'No se permiten salidas ese día';
+    return null;
+  }, [availability]);
+
+  // Whether clicking the date now would be accepted as check-in or check-out
+  const isSelectable = (dateStr: string): boolean => {
+    if (selectedCheckIn && !selectedCheckOut && dateStr !== selectedCheckIn) {
+      return dateStr > selectedCheckIn
+        ? !getRestrictionError(selectedCheckIn, dateStr)
+        : !getRestrictionError(dateStr, selectedCheckIn);
+    }
+    return !getRestrictionError(dateStr);
+  };
+
   // Generate calendar days for current month view
   const calendarDays = useMemo(() => {
     const monthStart = startOfMonth(currentMonth);
@@ -92,14 +121,32 @@ export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
     
     if (!selectedCheckIn || (selectedCheckIn && selectedCheckOut)) {
       // Start new selection
+      const restrictionError = getRestrictionError(dateStr);
+      if (restrictionError) {
+        setRestrictionHint(restrictionError);
+        return;
+      }
+      setRestrictionHint(null);
       setSelectedCheckIn(dateStr);
       setSelectedCheckOut(null);
     } else {
       // Complete selection
       if (dateStr < selectedCheckIn) {
+        const restrictionError = getRestrictionError(dateStr, selectedCheckIn);
+        if (restrictionError) {
+          setRestrictionHint(restrictionError);
+          return;
+        }
+        setRestrictionHint(null);
         setSelectedCheckIn(dateStr);
         setSelectedCheckOut(selectedCheckIn);
       } else if (dateStr > selectedCheckIn) {
+        const restrictionError = getRestrictionError(selectedCheckIn, dateStr);
+        if (restrictionError) {
+          setRestrictionHint(restrictionError);
+          return;
+        }
+        setRestrictionHint(null);
         setSelectedCheckOut(dateStr);
         onDateRangeSelect?.(selectedCheckIn, dateStr);
       }
@@ -116,6 +163,7 @@ export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
     setSelectedCheckIn(null);
     setSelectedCheckOut(null);
     setHoverDate(null);
+    setRestrictionHint(null);
   };
 
   const handleCabinSelect = (cabin: CabinInfo) => {
@@ -162,14 +210,21 @@ export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
       return cn(baseClasses, 'bg-primary/20 text-primary-foreground');
     }
     
+    // Restricted days get a dashed border; days that can't be picked right now are dimmed
+    const dayData = availability.find(d => d.date === dateStr);
+    const restrictionClasses = cn(
+      dayData && hasDayRestrictions(dayData) && 'border-dashed',
+      !isSelectable(dateStr) && 'opacity-50 cursor-not-allowed'
+    );
+    
     // Status-based colors
     switch (status) {
       case 'full':
-        return cn(baseClasses, 'bg-emerald-100 text-emerald-800 border border-emerald-300 hover:bg-emerald-200 cursor-pointer');
+        return cn(baseClasses, 'bg-emerald-100 text-emerald-800 border border-emerald-300 hover:bg-emerald-200 cursor-pointer', restrictionClasses);
       case 'partial':
-        return cn(baseClasses, 'bg-amber-100 text-amber-800 border border-amber-300 hover:bg-amber-200 cursor-pointer');
+        return cn(baseClasses, 'bg-amber-100 text-amber-800 border border-amber-300 hover:bg-amber-200 cursor-pointer', restrictionClasses);
       case 'none':
-        return cn(baseClasses, 'bg-rose-100 text-rose-800 border border-rose-300 hover:bg-rose-200 cursor-pointer');
+        return cn(baseClasses, 'bg-rose-100 text-rose-800 border border-rose-300 hover:bg-rose-200 cursor-pointer', restrictionClasses);
       default:
         return cn(baseClasses, 'bg-muted text-muted-foreground');
     }
@@ -182,7 +237,13 @@ export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
     if (status === 'past') return 'Fecha pasada';
     if (!dayData) return 'Sin datos';
     
-    return `${dayData.availableCabins}/${dayData.totalCabins} cabañas disponibles`;
+    const notes = [
+      dayData.closedToArrival && 'Sin llegadas',
+      dayData.closedToDeparture && 'Sin salidas',
+      (dayData.minNights || 1) > 1 && `Mínimo ${dayData.minNights} noches`
+    ].filter(Boolean);
+    
+    return [`${dayData.availableCabins}/${dayData.totalCabins} cabañas disponibles`, ...notes].join(' · ');
   };
 
   const canGoPrev = currentMonth > startOfMonth(new Date());
@@ -230,6 +291,10 @@ export const AvailabilityWidget: React.FC<AvailabilityWidgetProps> = ({
             </Button>
           </div>
         )}
+        
+        {restrictionHint && (
+          <p className="mt-2 text-sm text-amber-700">{restrictionHint}</p>
+        )}
       </CardHeader>
       
       <CardContent className="pt-0">
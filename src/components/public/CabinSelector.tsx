@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { calculateNights, formatDateRange } from '@/lib/dateUtils';
+import { validateStayRestrictions } from '@/lib/stayRestrictions';
 import type { CabinSelectorProps, CabinInfo } from './types';
 
 export const CabinSelector: React.FC<CabinSelectorProps> = ({
@@ -24,12 +25,18 @@ export const CabinSelector: React.FC<CabinSelectorProps> = ({
         day.date >= checkIn && day.date < checkOut
       );
       
-      const isAvailable = relevantDays.length > 0 && 
-        relevantDays.every(day => day.cabinStatus[cabin.name] === true);
+      const isFree = relevantDays.length > 0 && 
+        relevantDays.every(day => day.cabinStatus[cabin.id] === true);
+      
+      // A free cabin can still be closed by a stay restriction for these dates
+      const restrictionError = isFree
+        ? validateStayRestrictions({ cabinType: cabin.id, checkIn, checkOut }).error
+        : undefined;
       
       return {
         cabin,
-        isAvailable
+        isAvailable: isFree && !restrictionError,
+        restrictionError
       };
     });
   }, [cabins, availability, checkIn, checkOut]);
@@ -73,7 +80,7 @@ export const CabinSelector: React.FC<CabinSelectorProps> = ({
             </p>
             
             <div className="space-y-2">
-              {cabinAvailability.map(({ cabin, isAvailable }) => (
+              {cabinAvailability.map(({ cabin, isAvailable, restrictionError }) => (
                 <div
                   key={cabin.id}
                   onClick={() => handleCabinClick(cabin, isAvailable)}
@@ -97,6 +104,9 @@ export const CabinSelector: React.FC<CabinSelectorProps> = ({
                         <Users className="w-3 h-3" />
                         <span>Máx {cabin.maxCapacity} personas</span>
                       </div>
+                      {restrictionError && (
+                        <p className="text-xs text-amber-700 mt-1">{restrictionError}</p>
+                      )}
                     </div>
                   </div>
                   
@@ -116,7 +126,7 @@ export const CabinSelector: React.FC<CabinSelectorProps> = ({
                     ) : (
                       <Badge variant="outline" className="bg-rose-50 text-rose-700 border-rose-200">
                         <X className="w-3 h-3 mr-1" />
-                        Ocupada
+                        {restrictionError ? 'Restringida' : 'Ocupada'}
                       </Badge>
                     )}
                   </div>
@@ -13,7 +13,11 @@ export interface DayAvailability {
   date: string;
   availableCabins: number;
   totalCabins: number;
-  cabinStatus: Record<string, boolean>;
+  cabinStatus: Record<string, boolean>; // Keyed by CabinInfo.id
+  // Stay restrictions for a guest who can take any cabin (see stayRestrictions.ts)
+  minNights?: number;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
 }
 
 export interface PublicAvailabilityData {
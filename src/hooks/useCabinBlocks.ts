@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { getCabinBlocks } from '@/lib/cabinBlocks';
+import { cacheCabinBlocks } from '@/lib/offlineCache';
+import { reservationKeys } from './useReservations';
+import { logger } from '@/lib/logger';
+
+// Nested under reservations so invalidating reservations also refreshes the blocks
+export const cabinBlockKeys = {
+  all: [...reservationKeys.all, 'blocks'] as const,
+};
+
+/**
+ * Hook to fetch out-of-order blocks. They are cached for the offline availability checks.
+ */
+export function useCabinBlocksQuery(enabled: boolean = true) {
+  return useQuery({
+    queryKey: cabinBlockKeys.all,
+    queryFn: async () => {
+      logger.info('useCabinBlocks.query.start');
+      const blocks = await getCabinBlocks();
+      cacheCabinBlocks(blocks);
+      logger.info('useCabinBlocks.query.success', { count: blocks.length });
+      return blocks;
+    },
+    enabled,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,19 +1,22 @@
-import { useEffect, useMemo, useCallback } from 'react';
+import { useEffect, useMemo, useCallback, useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { useReservationsQuery, reservationKeys } from './useReservations';
+import { useReservationsQuery, useReservationPagesQuery, reservationKeys } from './useReservations';
+import { useCabinBlocksQuery } from './useCabinBlocks';
 import { useOnlineStatus } from '@/components/OfflineIndicator';
 import { 
   getCachedReservations, 
   cacheReservations, 
   checkCabinAvailabilityOffline,
   getNextAvailableDateOffline,
+  findSplitStayOffline,
   getCacheStatus,
   addPendingOperation,
   getPendingOperations,
   removePendingOperation
 } from '@/lib/offlineCache';
-import { checkCabinAvailability, getNextAvailableDate } from '@/lib/availability';
-import { Reservation } from '@/types/reservation';
+import { checkCabinAvailability, findSplitStay, getNextAvailableDate } from '@/lib/availability';
+import { releaseExpiredHolds } from '@/lib/holds';
+import { CabinType, Reservation, StaySegment } from '@/types/reservation';
 import { logger } from '@/lib/logger';
 
 /**
@@ -25,6 +28,8 @@ export function useOfflineReservations() {
   const isOnline = useOnlineStatus();
   const queryClient = useQueryClient();
   const query = useReservationsQuery();
+  // Loaded (and cached) so offline availability also respects out-of-order blocks
+  useCabinBlocksQuery(isOnline);
   
   // Cache reservations when online and data is fresh
   useEffect(() => {
@@ -72,6 +77,56 @@ export function useOfflineReservations() {
   };
 }
 
+/**
+ * Paginated variant for long lists.
+ * Loaded pages are not written to the offline cache: a partial list would
+ * make offline availability checks miss bookings. Offline, the cache kept
+ * by useOfflineReservations is shown instead.
+ */
+export function useOfflineReservationPages() {
+  const isOnline = useOnlineStatus();
+  const query = useReservationPagesQuery();
+
+  const loaded = useMemo<Reservation[]>(
+    () => query.data?.pages.flatMap(page => page.reservations) || [],
+    [query.data]
+  );
+
+  const isUsingCache = !isOnline || (!query.data && getCachedReservations().length > 0);
+
+  const reservations = useMemo<Reservation[]>(() => {
+    if (!isUsingCache) {
+      return loaded;
+    }
+    const cached = getCachedReservations();
+    if (cached.length > 0) {
+      logger.info('useOfflineReservationPages.usingCache', { count: cached.length });
+      return cached;
+    }
+    return loaded;
+  }, [isUsingCache, loaded]);
+
+  // Read again whenever the shown list changes (a sync or a new page may have updated the cache)
+  const [cacheStatus, setCacheStatus] = useState(getCacheStatus);
+  useEffect(() => {
+    setCacheStatus(getCacheStatus());
+  }, [reservations]);
+
+  return {
+    reservations,
+    isLoading: isOnline ? query.isLoading : false,
+    isFetching: isOnline ? query.isFetching : false,
+    isOnline,
+    isUsingCache,
+    cacheStatus,
+    error: isOnline ? query.error : null,
+    refetch: query.refetch,
+    hasMore: isOnline && !!query.hasNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+  };
+}
+
 /**
  * Hook for checking cabin availability with offline support
  */
@@ -113,10 +168,29 @@ export function useOfflineAvailability() {
     
     return getNextAvailableDateOffline(cabinType, preferredCheckIn);
   }, [isOnline]);
+
+  const suggestSplitStay = useCallback(async (
+    cabinTypes: CabinType[],
+    checkIn: string,
+    checkOut: string,
+    excludeReservationId?: string
+  ): Promise<StaySegment[] | null> => {
+    if (isOnline) {
+      try {
+        return await findSplitStay(cabinTypes, checkIn, checkOut, excludeReservationId);
+      } catch (error) {
+        logger.warn('useOfflineAvailability.suggestSplitStayFailed', { error: String(error) });
+        return findSplitStayOffline(cabinTypes, checkIn, checkOut, excludeReservationId);
+      }
+    }
+
+    return findSplitStayOffline(cabinTypes, checkIn, checkOut, excludeReservationId);
+  }, [isOnline]);
   
   return {
     checkAvailability,
     getNextAvailable,
+    suggestSplitStay,
     isOnline,
   };
 }
@@ -128,6 +202,18 @@ export function useSyncPendingOperations() {
   const isOnline = useOnlineStatus();
   const queryClient = useQueryClient();
   
+  // Expired tentative holds give their cabin back on every load / reconnect
+  const releaseHolds = useCallback(async () => {
+    try {
+      const released = await releaseExpiredHolds();
+      if (released > 0) {
+        queryClient.invalidateQueries({ queryKey: reservationKeys.all });
+      }
+    } catch (error) {
+      logger.error('useSyncPendingOperations.releaseHolds.error', { error: String(error) });
+    }
+  }, [queryClient]);
+
   const syncPending = useCallback(async () => {
     const pending = getPendingOperations();
     if (pending.length === 0) return;
@@ -159,8 +245,9 @@ export function useSyncPendingOperations() {
   useEffect(() => {
     if (isOnline) {
       syncPending();
+      releaseHolds();
     }
-  }, [isOnline, syncPending]);
+  }, [isOnline, syncPending, releaseHolds]);
   
   return { syncPending, hasPending: getPendingOperations().length > 0 };
 }
@@ -8,7 +8,9 @@ import {
   SyncResult,
   OfflineOperation 
 } from '@/lib/offlineQueue';
-import { getAdminConfig, AdminConfig } from '@/lib/adminConfig';
+import { getAdminConfig, subscribeToAdminConfig, AdminConfig } from '@/lib/adminConfig';
+import { startAdminConfigSync } from '@/lib/sharedConfig';
+import { releaseExpiredHolds } from '@/lib/holds';
 import { QueryClientContext, QueryClient } from '@tanstack/react-query';
 import { reservationKeys } from './useReservations';
 import { useToast } from './use-toast';
@@ -53,6 +55,10 @@ export function useOfflineSync() {
     
     try {
       const result = await syncQueue();
+      // Holds may have expired while the device was offline
+      await releaseExpiredHolds().catch(error => 
+        logger.error('useOfflineSync.releaseHolds.error', { error: String(error) })
+      );
       setLastSyncResult(result);
       setPendingCount(getQueueLength());
       setPendingOperations(getOfflineQueue());
@@ -113,6 +119,9 @@ export function useOfflineSync() {
 
 export function useAdminConfig() {
   const [config, setConfig] = useState<AdminConfig>(() => getAdminConfig());
+
+  // Saves from this device and revisions received from other devices
+  useEffect(() => subscribeToAdminConfig(setConfig), []);
   
   const refreshConfig = useCallback(() => {
     setConfig(getAdminConfig());
@@ -120,3 +129,19 @@ export function useAdminConfig() {
   
   return { config, refreshConfig };
 }
+
+/**
+ * Follows the shared admin configuration for the whole app: a revision saved on another
+ * device re-renders the screens and refreshes the availability derived from it.
+ */
+export function useSharedAdminConfig(queryClient: QueryClient) {
+  const { config } = useAdminConfig();
+
+  useEffect(() => startAdminConfigSync(), []);
+
+  useEffect(() => subscribeToAdminConfig(() => {
+    queryClient.invalidateQueries({ queryKey: reservationKeys.all });
+  }), [queryClient]);
+
+  return config;
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
-import { collection, onSnapshot, query } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { CABIN_TYPES, getCabinInfo } from '@/lib/cabinConfig';
+import { getCabinIds, getCabinInfo } from '@/lib/cabinConfig';
 import { logger } from '@/lib/logger';
+import { blocksInventory, occupiesNight, OccupyingStay, staysOverlap } from '@/lib/availabilityPolicy';
+import { getReservationRepository } from '@/lib/repository';
+import { getDayRestrictionsForAnyCabin } from '@/lib/stayRestrictions';
+import { findBlockStays } from '@/lib/cabinBlocks';
+import { addDays } from '@/lib/dateUtils';
 import type { CabinInfo, DayAvailability, PublicAvailabilityData } from '@/components/public/types';
 
 interface Reservation {
@@ -10,6 +13,8 @@ interface Reservation {
   cabinType: string;
   checkIn: string;
   checkOut: string;
+  // A split stay takes each cabin only on the nights of its segment
+  segments?: OccupyingStay['segments'];
 }
 
 // Generate date range
@@ -31,14 +36,13 @@ const getDateRange = (startDate: string, endDate: string): string[] => {
 
 // Calculate availability for a specific day
 const calculateDayAvailability = (date: string, reservations: Reservation[]): DayAvailability => {
+  const cabinTypes = getCabinIds();
   const cabinStatus: Record<string, boolean> = {};
   let availableCabins = 0;
   
-  CABIN_TYPES.forEach(cabinType => {
+  cabinTypes.forEach(cabinType => {
     const isOccupied = reservations.some(res => 
-      res.cabinType === cabinType && 
-      res.checkIn <= date && 
-      res.checkOut > date
+      occupiesNight(res, date, cabinType)
     );
     
     cabinStatus[cabinType] = !isOccupied;
@@ -48,8 +52,9 @@ const calculateDayAvailability = (date: string, reservations: Reservation[]): Da
   return {
     date,
     availableCabins,
-    totalCabins: CABIN_TYPES.length,
-    cabinStatus
+    totalCabins: cabinTypes.length,
+    cabinStatus,
+    ...getDayRestrictionsForAnyCabin(cabinTypes, date)
   };
 };
 
@@ -81,20 +86,18 @@ export const usePublicAvailability = (startDate: string, endDate: string) => {
 
     logger.info('usePublicAvailability.subscribe', { startDate, endDate });
 
-    // Subscribe to both collections in real-time
-    const reservasRef = collection(db, 'reservas');
-    const reservationsRef = collection(db, 'reservations');
-    
-    let reservasData: Reservation[] = [];
+    // Reservations in real time; out-of-order blocks change rarely and are read once
     let reservationsData: Reservation[] = [];
-    let reservasLoaded = false;
+    let blocksData: Reservation[] = [];
     let reservationsLoaded = false;
+    let blocksLoaded = false;
+    let active = true;
 
     const updateAvailability = () => {
-      if (!reservasLoaded || !reservationsLoaded) return;
+      if (!active || !reservationsLoaded || !blocksLoaded) return;
       
-      const allReservations = [...reservasData, ...reservationsData].filter(res => 
-        res.checkIn < endDate && res.checkOut > startDate
+      const allReservations = [...reservationsData, ...blocksData].filter(res => 
+        staysOverlap(res.checkIn, res.checkOut, startDate, endDate)
       );
       
       const processedData = processReservations(allReservations);
@@ -107,64 +110,56 @@ export const usePublicAvailability = (startDate: string, endDate: string) => {
       });
     };
 
-    const unsubscribeReservas = onSnapshot(
-      query(reservasRef),
-      (snapshot) => {
-        reservasData = snapshot.docs
-          .map(doc => {
-            const data = doc.data();
-            if (data.checkIn && data.checkOut && data.cabinType) {
+    const unsubscribeReservations = getReservationRepository().subscribe(
+      (documents) => {
+        reservationsData = documents
+          .map((doc): Reservation | null => {
+            const data = doc.data as Partial<OccupyingStay>;
+            // Cancelled / no-show stays free the cabin
+            if (data.checkIn && data.checkOut && data.cabinType && blocksInventory(data)) {
               return {
                 id: doc.id,
                 cabinType: data.cabinType,
                 checkIn: data.checkIn,
-                checkOut: data.checkOut
+                checkOut: data.checkOut,
+                segments: data.segments
               };
             }
             return null;
           })
           .filter((res): res is Reservation => res !== null);
         
-        reservasLoaded = true;
+        reservationsLoaded = true;
         updateAvailability();
       },
       (err) => {
-        logger.exception('usePublicAvailability.reservas.error', err);
+        logger.error('usePublicAvailability.reservations.error', { error: String(err) });
         setError('Error al cargar disponibilidad');
         setLoading(false);
       }
     );
 
-    const unsubscribeReservations = onSnapshot(
-      query(reservationsRef),
-      (snapshot) => {
-        reservationsData = snapshot.docs
-          .map(doc => {
-            const data = doc.data();
-            if (data.checkIn && data.checkOut && data.cabinType) {
-              return {
-                id: doc.id,
-                cabinType: data.cabinType,
-                checkIn: data.checkIn,
-                checkOut: data.checkOut
-              };
-            }
-            return null;
-          })
-          .filter((res): res is Reservation => res !== null);
-        
-        reservationsLoaded = true;
+    // A blocked cabin shows as taken, without telling the public why
+    findBlockStays(startDate, addDays(endDate, 1))
+      .then(stays => {
+        blocksData = stays.map(stay => ({
+          id: stay.id!,
+          cabinType: stay.cabinType,
+          checkIn: stay.checkIn,
+          checkOut: stay.checkOut
+        }));
+        blocksLoaded = true;
         updateAvailability();
-      },
-      (err) => {
-        logger.exception('usePublicAvailability.reservations.error', err);
+      })
+      .catch(err => {
+        logger.error('usePublicAvailability.blocks.error', { error: String(err) });
+        if (!active) return;
         setError('Error al cargar disponibilidad');
         setLoading(false);
-      }
-    );
+      });
 
     return () => {
-      unsubscribeReservas();
+      active = false;
       unsubscribeReservations();
       logger.info('usePublicAvailability.unsubscribe');
     };
@@ -1,6 +1,8 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { 
   getAllReservations, 
+  getReservationsPage,
+  ReservationPage,
   createReservation, 
   updateReservation, 
   deleteReservation,
@@ -14,6 +16,7 @@ export const reservationKeys = {
   all: ['reservations'] as const,
   lists: () => [...reservationKeys.all, 'list'] as const,
   list: (filters: Record<string, unknown>) => [...reservationKeys.lists(), filters] as const,
+  pages: () => [...reservationKeys.lists(), 'pages'] as const,
   details: () => [...reservationKeys.all, 'detail'] as const,
   detail: (id: string) => [...reservationKeys.details(), id] as const,
 };
@@ -40,6 +43,26 @@ export function useReservationsQuery() {
   });
 }
 
+/**
+ * Hook to fetch reservations page by page (latest check-ins first)
+ */
+export function useReservationPagesQuery() {
+  return useInfiniteQuery({
+    queryKey: reservationKeys.pages(),
+    queryFn: async ({ pageParam }): Promise<ReservationPage> => {
+      logger.info('useReservations.pages.start', { cursor: pageParam });
+      const page = await getReservationsPage(pageParam);
+      logger.info('useReservations.pages.success', { count: page.reservations.length });
+      return page;
+    },
+    initialPageParam: null as ReservationPage['nextCursor'],
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: STALE_TIME,
+    gcTime: CACHE_TIME,
+    refetchOnWindowFocus: false,
+  });
+}
+
 /**
  * Hook to create a new reservation
  */
@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { evaluateWaitlist, getOpenWaitlistEntries } from '@/lib/waitlist';
+import { reservationKeys } from './useReservations';
+import { logger } from '@/lib/logger';
+
+// Nested under reservations so invalidating reservations also refreshes the offers
+export const waitlistKeys = {
+  all: [...reservationKeys.all, 'waitlist'] as const,
+};
+
+/**
+ * Hook to fetch open waitlist entries. Every entry is re-checked first, so offers whose
+ * cabin was booked again (or changes made offline) are reflected on the Dashboard.
+ */
+export function useWaitlistQuery(enabled: boolean = true) {
+  return useQuery({
+    queryKey: waitlistKeys.all,
+    queryFn: async () => {
+      logger.info('useWaitlist.query.start');
+      try {
+        await evaluateWaitlist();
+      } catch (error) {
+        logger.warn('useWaitlist.evaluate.error', { error: String(error) });
+      }
+      const entries = await getOpenWaitlistEntries();
+      logger.info('useWaitlist.query.success', { count: entries.length });
+      return entries;
+    },
+    enabled,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,10 +1,21 @@
+import type { AddOnUnit, PriceAdjustmentType, Season } from '@/types/reservation';
 import { logger } from './logger';
+import { getNightSeason } from './seasonCalendar';
 
+/**
+ * Admin configuration: cabins, pricing, add-ons, taxes, exchange rates, seasons, holds and stay
+ * restrictions.
+ * The shared copy lives in the backend (`sharedConfig.ts`); this module reads the copy the
+ * device last received, kept in localStorage so prices and availability work offline.
+ */
+
+// Offline copy of the shared configuration
 const STORAGE_KEY = 'manuara_admin_config';
-const CONFIG_VERSION = '1.0';
+const CONFIG_VERSION = '1.10';
 
 // ============ Types ============
 
+// Reservations, blocks and locks refer to a cabin by its id, which never changes
 export interface CabinConfig {
   id: string;
   name: string;
@@ -13,33 +24,157 @@ export interface CabinConfig {
   color: string;
   isActive: boolean;
   order: number;
+  ratePlans?: Partial<SeasonRatePlans>; // Own plans; seasons without one use pricing.defaultRatePlans
+}
+
+/**
+ * How a night is charged. `per_person`: every guest pays their rate. `cabin`: the base rate
+ * covers the included guests (adults first) and each guest beyond them pays their rate.
+ */
+export type RatePlanType = 'per_person' | 'cabin';
+
+export interface RatePlan {
+  id: string;
+  name: string;
+  type: RatePlanType;
+  baseRate: number; // cabin: nightly rate of the cabin
+  includedGuests: number; // cabin: adults and children covered by the base rate
+  adultRate: number; // per_person: every adult; cabin: each adult beyond the included guests
+  childRate: number; // per_person: every child; cabin: each child beyond the included guests
+  babyRate: number; // Every baby, usually 0
+}
+
+// Rate plan id used in each season
+export type SeasonRatePlans = Record<Season, string>;
+
+/**
+ * Discount on the automatic price (see pricingRules.ts). Each type uses its own condition:
+ * `length_of_stay` minNights, `early_booking` minDaysAhead, `promo_code` the code and its window.
+ */
+export interface PricingRule {
+  id: string;
+  name: string;
+  type: PriceAdjustmentType;
+  discountType: 'percent' | 'fixed';
+  value: number; // percent: % of the automatic price; fixed: amount off the stay
+  isActive: boolean;
+  minNights?: number; // length_of_stay: stays of at least these nights
+  minDaysAhead?: number; // early_booking: booked at least these days before check-in
+  code?: string; // promo_code: compared in upper case
+  validFrom?: string; // promo_code: first booking day (YYYY-MM-DD)
+  validUntil?: string; // promo_code: last booking day (YYYY-MM-DD)
+  maxUses?: number; // promo_code: reservations that can use it; unlimited when missing
+}
+
+/**
+ * Nightly rate suggestion from on-the-books occupancy (see occupancyPricing.ts).
+ * `high_occupancy` uses minOccupancy, `last_minute` maxOccupancy within withinDays from today.
+ */
+export type OccupancyRuleType = 'high_occupancy' | 'last_minute';
+
+export interface OccupancyRule {
+  id: string;
+  name: string;
+  type: OccupancyRuleType;
+  adjustment: number; // Percent of the nightly rate: positive raises it, negative discounts it
+  isActive: boolean;
+  minOccupancy?: number; // high_occupancy: percent of the cabins sold that night, e.g. 75 (3 of 4)
+  maxOccupancy?: number; // last_minute: at most this percent sold, 0 for empty nights
+  withinDays?: number; // last_minute: nights starting within these days from today
+}
+
+// Adjustment accepted or set by hand on the rate calendar; every cabin is charged it that night
+export interface DateRateAdjustment {
+  percent: number;
+  source: 'suggestion' | 'manual';
+  ruleName?: string; // suggestion: rule that proposed it
 }
 
 export interface PricingConfig {
-  adultHighSeason: number;
-  adultLowSeason: number;
-  childRate: number;
-  babyRate: number; // Usually 0
+  ratePlans: RatePlan[];
+  defaultRatePlans: SeasonRatePlans;
+  rules: PricingRule[];
+  occupancyRules: OccupancyRule[];
+  dateAdjustments: Record<string, DateRateAdjustment>; // By night (YYYY-MM-DD)
+}
+
+// Nights from startDate to endDate, both included
+export interface SeasonDateRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
 }
 
+// High-season period; how it is dated depends on type (see seasonCalendar.ts)
 export interface SeasonConfig {
   name: string;
-  startMonth: number; // 1-12
-  startDay: number;
-  endMonth: number;
-  endDay: number;
+  type?: 'fixed' | 'easter' | 'dates'; // 'fixed' when missing
+  // fixed: the same range every year
+  startMonth?: number; // 1-12
+  startDay?: number;
+  endMonth?: number;
+  endDay?: number;
+  // easter: days from Easter Sunday, e.g. -7 is Palm Sunday
+  easterStartOffset?: number;
+  easterEndOffset?: number;
+  // dates: explicit ranges, one or more per year
+  ranges?: SeasonDateRange[];
+}
+
+// Service in the add-on catalog (transfers, car rental, tours...); reservations copy it when added
+export interface AddOn {
+  id: string;
+  name: string;
+  price: number; // Per unit, see unit
+  unit: AddOnUnit;
+  taxable: boolean; // Subject to IVA
+  isActive: boolean; // Inactive add-ons stay on existing reservations but can no longer be added
+}
+
+export interface TaxConfig {
+  ivaRate: number; // Percent; configured prices include it (see taxes.ts)
+}
+
+// CLP per unit of each foreign currency, as set by hand in Admin
+export interface ExchangeRates {
+  USD: number;
+  EUR: number;
+  updatedAt?: string; // YYYY-MM-DD the rates were last changed
+}
+
+export interface HoldConfig {
+  defaultHours: number; // How long a tentative hold blocks the cabin
+}
+
+// Stay rule for a date range (inclusive); applies to every cabin unless cabinType (a cabin id) is set
+export interface StayRestriction {
+  id: string;
+  name: string;
+  cabinType?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  minNights?: number; // For arrivals within the range
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+  weekdays?: number[]; // 0 = domingo … 6 = sábado; the rule only applies on these weekdays (every day when empty)
 }
 
 export interface AdminConfig {
   version: string;
   cabins: CabinConfig[];
   pricing: PricingConfig;
+  addOns: AddOn[];
+  taxes: TaxConfig;
+  exchangeRates: ExchangeRates;
+  holds: HoldConfig;
+  restrictions: StayRestriction[];
   seasons: {
     high: SeasonConfig[];
     defaultSeason: 'Alta' | 'Baja';
   };
   businessName: string;
   lastUpdated: number;
+  revision?: number; // Shared revision this copy comes from; missing until the device first syncs
+  updatedBy?: string; // Operator who saved that revision
 }
 
 // ============ Default Configuration ============
@@ -83,18 +218,63 @@ const DEFAULT_CABINS: CabinConfig[] = [
   },
 ];
 
+// Plans named after the per-person rates used before rate plans existed
+const perPersonPlan = (id: string, name: string, adultRate: number, childRate: number, babyRate: number): RatePlan => ({
+  id,
+  name,
+  type: 'per_person',
+  baseRate: 0,
+  includedGuests: 0,
+  adultRate,
+  childRate,
+  babyRate,
+});
+
+const DEFAULT_OCCUPANCY_RULES: OccupancyRule[] = [
+  { id: 'occupancy-high', name: 'Alta ocupación (3 de 4 cabañas)', type: 'high_occupancy', minOccupancy: 75, adjustment: 15, isActive: true },
+  { id: 'occupancy-last-minute', name: 'Última hora (noches vacías)', type: 'last_minute', maxOccupancy: 0, withinDays: 7, adjustment: -15, isActive: true },
+];
+
 const DEFAULT_PRICING: PricingConfig = {
-  adultHighSeason: 30000,
-  adultLowSeason: 25000,
-  childRate: 15000,
-  babyRate: 0,
+  ratePlans: [
+    perPersonPlan('per-person-high', 'Por persona (Alta)', 30000, 15000, 0),
+    perPersonPlan('per-person-low', 'Por persona (Baja)', 25000, 15000, 0),
+  ],
+  defaultRatePlans: { Alta: 'per-person-high', Baja: 'per-person-low' },
+  rules: [],
+  occupancyRules: DEFAULT_OCCUPANCY_RULES,
+  dateAdjustments: {},
+};
+
+const DEFAULT_ADD_ONS: AddOn[] = [
+  { id: 'addon-transfer', name: 'Traslado aeropuerto', price: 10000, unit: 'per_person', taxable: true, isActive: true },
+  { id: 'addon-car', name: 'Arriendo de auto', price: 45000, unit: 'per_night', taxable: true, isActive: true },
+  { id: 'addon-tour', name: 'Tour por la isla', price: 40000, unit: 'per_person', taxable: true, isActive: true },
+  { id: 'addon-breakfast', name: 'Desayuno', price: 8000, unit: 'per_person_night', taxable: true, isActive: true },
+];
+
+const DEFAULT_TAXES: TaxConfig = {
+  ivaRate: 19,
+};
+
+const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 950,
+  EUR: 1030,
+};
+
+const DEFAULT_HOLDS: HoldConfig = {
+  defaultHours: 48,
 };
 
+// From Palm Sunday to the night of Easter Sunday
+const SEMANA_SANTA: SeasonConfig = { name: 'Semana Santa', type: 'easter', easterStartOffset: -7, easterEndOffset: 0 };
+
 const DEFAULT_SEASONS: AdminConfig['seasons'] = {
   high: [
-    { name: 'Verano', startMonth: 12, startDay: 15, endMonth: 3, endDay: 15 },
-    { name: 'Semana Santa', startMonth: 4, startDay: 1, endMonth: 4, endDay: 15 },
-    { name: 'Fiestas Patrias', startMonth: 9, startDay: 10, endMonth: 9, endDay: 25 },
+    { name: 'Verano', type: 'fixed', startMonth: 12, startDay: 15, endMonth: 3, endDay: 15 },
+    SEMANA_SANTA,
+    { name: 'Tapati Rapa Nui', type: 'dates', ranges: [] },
+    { name: 'Fiestas Patrias', type: 'fixed', startMonth: 9, startDay: 10, endMonth: 9, endDay: 25 },
   ],
   defaultSeason: 'Baja',
 };
@@ -104,6 +284,11 @@ export function getDefaultConfig(): AdminConfig {
     version: CONFIG_VERSION,
     cabins: DEFAULT_CABINS,
     pricing: DEFAULT_PRICING,
+    addOns: DEFAULT_ADD_ONS,
+    taxes: DEFAULT_TAXES,
+    exchangeRates: DEFAULT_EXCHANGE_RATES,
+    holds: DEFAULT_HOLDS,
+    restrictions: [],
     seasons: DEFAULT_SEASONS,
     businessName: 'Manuara Cabañas',
     lastUpdated: Date.now(),
@@ -112,24 +297,34 @@ export function getDefaultConfig(): AdminConfig {
 
 // ============ Storage Functions ============
 
+// Last stored value and its parsed config: cabin lookups run for every stay, so it is parsed once
+let parsedConfig: { stored: string; config: AdminConfig } | null = null;
+
+const listeners = new Set<(config: AdminConfig) => void>();
+
 export function getAdminConfig(): AdminConfig {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (!stored) {
       const defaultConfig = getDefaultConfig();
-      saveAdminConfig(defaultConfig);
+      writeStoredConfig(defaultConfig);
       return defaultConfig;
     }
+
+    if (parsedConfig && parsedConfig.stored === stored) {
+      return parsedConfig.config;
+    }
     
     const config: AdminConfig = JSON.parse(stored);
     
     // Version check - migrate if needed
     if (config.version !== CONFIG_VERSION) {
-      const newConfig = migrateConfig(config);
-      saveAdminConfig(newConfig);
+      const newConfig = upgradeAdminConfig(config);
+      writeStoredConfig(newConfig);
       return newConfig;
     }
     
+    parsedConfig = { stored, config };
     return config;
   } catch (error) {
     logger.error('adminConfig.get.error', { error: String(error) });
@@ -137,23 +332,96 @@ export function getAdminConfig(): AdminConfig {
   }
 }
 
-export function saveAdminConfig(config: AdminConfig): void {
+function writeStoredConfig(config: AdminConfig): void {
   try {
-    config.lastUpdated = Date.now();
     localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
-    logger.info('adminConfig.saved');
   } catch (error) {
-    logger.error('adminConfig.save.error', { error: String(error) });
+    logger.error('adminConfig.cache.error', { error: String(error) });
   }
 }
 
-function migrateConfig(oldConfig: AdminConfig): AdminConfig {
-  // Future migrations can be handled here
-  return {
+// Replaces the offline copy; changes are saved through sharedConfig.ts, not here
+export function cacheAdminConfig(config: AdminConfig): void {
+  writeStoredConfig(config);
+  logger.info('adminConfig.cached', { revision: config.revision });
+  listeners.forEach(listener => listener(config));
+}
+
+// Called whenever the offline copy changes (a save here or on another device)
+export function subscribeToAdminConfig(listener: (config: AdminConfig) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Brings a config written by an older version of the app to the current shape
+export function upgradeAdminConfig(oldConfig: AdminConfig): AdminConfig {
+  if (oldConfig.version === CONFIG_VERSION) return oldConfig;
+
+  const config = {
     ...getDefaultConfig(),
     ...oldConfig,
     version: CONFIG_VERSION,
   };
+
+  // 1.3: restrictions refer to cabins by id instead of by name
+  const cabinIdsByName = new Map(config.cabins.flatMap(c => [[c.name, c.id], [c.displayName, c.id]] as Array<[string, string]>));
+  config.restrictions = (config.restrictions || []).map(r =>
+    r.cabinType && cabinIdsByName.has(r.cabinType) ? { ...r, cabinType: cabinIdsByName.get(r.cabinType) } : r
+  );
+
+  // 1.4: the per-person rates become the default rate plans of each season
+  if (!Array.isArray(config.pricing.ratePlans)) {
+    const legacy = config.pricing as unknown as Record<string, number>;
+    const childRate = legacy.childRate ?? 15000;
+    const babyRate = legacy.babyRate ?? 0;
+    config.pricing = {
+      ratePlans: [
+        perPersonPlan('per-person-high', 'Por persona (Alta)', legacy.adultHighSeason ?? 30000, childRate, babyRate),
+        perPersonPlan('per-person-low', 'Por persona (Baja)', legacy.adultLowSeason ?? 25000, childRate, babyRate),
+      ],
+      defaultRatePlans: { Alta: 'per-person-high', Baja: 'per-person-low' },
+      rules: [],
+      occupancyRules: DEFAULT_OCCUPANCY_RULES,
+      dateAdjustments: {},
+    };
+  }
+
+  // 1.5: periods have a type; the fixed 1-15 April Semana Santa now follows Easter
+  config.seasons = {
+    ...config.seasons,
+    high: config.seasons.high.map(period => {
+      const isOldSemanaSanta = period.name === 'Semana Santa' && !period.type &&
+        period.startMonth === 4 && period.startDay === 1 && period.endMonth === 4 && period.endDay === 15;
+      if (isOldSemanaSanta) return SEMANA_SANTA;
+      return period.type ? period : { ...period, type: 'fixed' as const };
+    }),
+  };
+
+  // 1.6: pricing rules (discounts and promo codes)
+  if (!Array.isArray(config.pricing.rules)) {
+    config.pricing = { ...config.pricing, rules: [] };
+  }
+
+  // 1.7: exchange rates for payments in USD and EUR (added by the defaults above)
+  config.exchangeRates = { ...DEFAULT_EXCHANGE_RATES, ...config.exchangeRates };
+
+  // 1.8: add-on catalog (added by the defaults above)
+  if (!Array.isArray(config.addOns)) {
+    config.addOns = DEFAULT_ADD_ONS;
+  }
+
+  // 1.9: IVA rate (added by the defaults above)
+  config.taxes = { ...DEFAULT_TAXES, ...config.taxes };
+
+  // 1.10: occupancy rules and the rate calendar
+  if (!Array.isArray(config.pricing.occupancyRules)) {
+    config.pricing = { ...config.pricing, occupancyRules: DEFAULT_OCCUPANCY_RULES };
+  }
+  config.pricing = { ...config.pricing, dateAdjustments: config.pricing.dateAdjustments || {} };
+
+  return config;
 }
 
 // ============ Cabin Management ============
@@ -165,167 +433,66 @@ export function getActiveCabins(): CabinConfig[] {
     .sort((a, b) => a.order - b.order);
 }
 
-export function getCabinTypes(): string[] {
-  return getActiveCabins().map(c => c.name);
+// ============ Pricing Management ============
+
+export function getPricing(): PricingConfig {
+  return getAdminConfig().pricing;
 }
 
-export function addCabin(cabin: Omit<CabinConfig, 'id' | 'order'>): CabinConfig {
-  const config = getAdminConfig();
-  const newCabin: CabinConfig = {
-    ...cabin,
-    id: `cabin-${Date.now()}`,
-    order: config.cabins.length + 1,
-  };
-  
-  config.cabins.push(newCabin);
-  saveAdminConfig(config);
-  
-  logger.info('adminConfig.cabinAdded', { id: newCabin.id, name: newCabin.name });
-  return newCabin;
+// Plan charged for a night of the cabin in the season; falls back to the default plans
+export function getRatePlan(cabinType: string, season: Season, config: AdminConfig = getAdminConfig()): RatePlan {
+  const { ratePlans, defaultRatePlans } = config.pricing;
+  const cabin = config.cabins.find(c => c.id === cabinType);
+  const planId = cabin?.ratePlans?.[season] || defaultRatePlans[season];
+  return ratePlans.find(plan => plan.id === planId) || ratePlans[0];
 }
 
-export function updateCabin(id: string, updates: Partial<CabinConfig>): CabinConfig | null {
-  const config = getAdminConfig();
-  const index = config.cabins.findIndex(c => c.id === id);
-  
-  if (index === -1) return null;
-  
-  config.cabins[index] = { ...config.cabins[index], ...updates };
-  saveAdminConfig(config);
-  
-  logger.info('adminConfig.cabinUpdated', { id });
-  return config.cabins[index];
-}
-
-export function deleteCabin(id: string): boolean {
-  const config = getAdminConfig();
-  const index = config.cabins.findIndex(c => c.id === id);
-  
-  if (index === -1) return false;
-  
-  // Soft delete - mark as inactive
-  config.cabins[index].isActive = false;
-  saveAdminConfig(config);
-  
-  logger.info('adminConfig.cabinDeleted', { id });
-  return true;
-}
-
-export function reorderCabins(cabinIds: string[]): void {
-  const config = getAdminConfig();
-  
-  cabinIds.forEach((id, index) => {
-    const cabin = config.cabins.find(c => c.id === id);
-    if (cabin) {
-      cabin.order = index + 1;
-    }
-  });
-  
-  saveAdminConfig(config);
-  logger.info('adminConfig.cabinsReordered');
+export function getPricingRules(): PricingRule[] {
+  return getAdminConfig().pricing.rules || [];
 }
 
-// ============ Pricing Management ============
+export function getOccupancyRules(): OccupancyRule[] {
+  return getAdminConfig().pricing.occupancyRules || [];
+}
 
-export function getPricing(): PricingConfig {
-  return getAdminConfig().pricing;
+// Rate calendar adjustments by night; missing in copies received before it existed
+export function getDateRateAdjustments(): Record<string, DateRateAdjustment> {
+  return getAdminConfig().pricing.dateAdjustments || {};
 }
 
-export function updatePricing(pricing: Partial<PricingConfig>): PricingConfig {
-  const config = getAdminConfig();
-  config.pricing = { ...config.pricing, ...pricing };
-  saveAdminConfig(config);
-  
-  logger.info('adminConfig.pricingUpdated', pricing);
-  return config.pricing;
-}
-
-// ============ Dynamic Price Calculation ============
-
-export function calculateDynamicPrice(
-  checkIn: string,
-  checkOut: string,
-  adults: number,
-  children: number,
-  babies: number = 0
-): number {
-  const pricing = getPricing();
-  const season = determineSeason(checkIn);
-  
-  const nights = Math.ceil(
-    (new Date(checkOut).getTime() - new Date(checkIn).getTime()) / (1000 * 60 * 60 * 24)
-  );
-  
-  if (nights <= 0) return 0;
-  
-  const adultRate = season === 'Alta' ? pricing.adultHighSeason : pricing.adultLowSeason;
-  const costPerNight = (adults * adultRate) + (children * pricing.childRate) + (babies * pricing.babyRate);
-  
-  return costPerNight * nights;
+// ============ Add-ons ============
+
+export function getAddOns(): AddOn[] {
+  return getAdminConfig().addOns || [];
 }
 
-export function determineSeason(dateStr: string): 'Alta' | 'Baja' {
-  const config = getAdminConfig();
-  const date = new Date(dateStr);
-  const month = date.getMonth() + 1; // 1-12
-  const day = date.getDate();
-  
-  for (const season of config.seasons.high) {
-    const isWithinSeason = isDateInSeasonRange(month, day, season);
-    if (isWithinSeason) return 'Alta';
-  }
-  
-  return config.seasons.defaultSeason;
-}
-
-function isDateInSeasonRange(month: number, day: number, season: SeasonConfig): boolean {
-  const { startMonth, startDay, endMonth, endDay } = season;
-  
-  // Handle cross-year ranges (e.g., Dec 15 - Mar 15)
-  if (startMonth > endMonth) {
-    // Either in the start year portion or end year portion
-    if (month > startMonth || (month === startMonth && day >= startDay)) {
-      return true;
-    }
-    if (month < endMonth || (month === endMonth && day <= endDay)) {
-      return true;
-    }
-    return false;
-  }
-  
-  // Same year range
-  if (month > startMonth && month < endMonth) return true;
-  if (month === startMonth && day >= startDay) return true;
-  if (month === endMonth && day <= endDay) return true;
-  
-  return false;
+// ============ Taxes ============
+
+export function getTaxConfig(): TaxConfig {
+  return getAdminConfig().taxes || DEFAULT_TAXES;
 }
 
-// ============ Cabin Helpers ============
+// ============ Exchange Rates ============
 
-export function getCabinMaxCapacity(cabinName: string): number {
-  const cabins = getActiveCabins();
-  const cabin = cabins.find(c => c.name === cabinName);
-  return cabin?.maxCapacity ?? 3;
+export function getExchangeRates(): ExchangeRates {
+  return getAdminConfig().exchangeRates || DEFAULT_EXCHANGE_RATES;
 }
 
-export function getCabinColor(cabinName: string): string {
-  const cabins = getActiveCabins();
-  const cabin = cabins.find(c => c.name === cabinName);
-  return cabin?.color ?? 'bg-emerald-500';
+// ============ Hold Management ============
+
+export function getHoldConfig(): HoldConfig {
+  return getAdminConfig().holds || DEFAULT_HOLDS;
 }
 
-export function getCabinDisplayName(cabinName: string): string {
-  const cabins = getActiveCabins();
-  const cabin = cabins.find(c => c.name === cabinName);
-  return cabin?.displayName ?? cabinName.split(' (')[0];
+// ============ Stay Restrictions ============
+
+export function getStayRestrictions(): StayRestriction[] {
+  return getAdminConfig().restrictions || [];
 }
 
-// ============ Reset to Defaults ============
+// ============ Seasons ============
 
-export function resetToDefaults(): AdminConfig {
-  const defaultConfig = getDefaultConfig();
-  saveAdminConfig(defaultConfig);
-  logger.info('adminConfig.resetToDefaults');
-  return defaultConfig;
+// Season of the night that starts on the date (YYYY-MM-DD)
+export function determineSeason(dateStr: string): Season {
+  return getNightSeason(dateStr, getAdminConfig().seasons).season;
 }
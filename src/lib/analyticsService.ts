@@ -1,6 +1,12 @@
 
+import { addMonths } from 'date-fns';
 import { Reservation } from '@/types/reservation';
-import { addDays, formatDateForDisplay, calculateNights, parseDate } from './dateUtils';
+import { CabinBlock } from '@/types/cabinBlock';
+import { addDays, formatDateForDisplay, calculateNights, parseDate, formatDateToISO, getTodayDate } from './dateUtils';
+import { isCancelled, getRetainedRevenue } from './cancellations';
+import { getBlockStays } from './cabinBlocks';
+import { determineSeason } from './adminConfig';
+import { getCabinIds } from './cabinConfig';
 
 export interface OccupancyStats {
   totalReservations: number;
@@ -35,27 +41,64 @@ export interface SeasonStats {
   occupancyRate: number;
 }
 
+export interface AnalyticsOptions {
+  // Cancelled stays only count their retained fee as revenue and never occupy nights
+  includeCancelled?: boolean;
+  // Nights of out-of-order blocks are not available capacity
+  blocks?: CabinBlock[];
+}
+
+const selectReservations = (reservations: Reservation[], options?: AnalyticsOptions): Reservation[] => {
+  return options?.includeCancelled ? reservations : reservations.filter(r => !isCancelled(r));
+};
+
+// Cabin-nights taken off sale within [startDate, endDate), once each even if blocks overlap
+const getBlockedNights = (
+  options: AnalyticsOptions | undefined,
+  startDate: string,
+  endDate: string,
+  cabinType?: string
+): Array<{ cabinType: string; date: string }> => {
+  const nights = new Map<string, { cabinType: string; date: string }>();
+  (options?.blocks || [])
+    .filter(block => !cabinType || block.cabinType === cabinType)
+    .flatMap(block => getBlockStays(block, startDate, endDate))
+    .forEach(stay => {
+      const last = stay.checkOut < endDate ? stay.checkOut : endDate;
+      for (let date = stay.checkIn > startDate ? stay.checkIn : startDate; date < last; date = addDays(date, 1)) {
+        nights.set(`${stay.cabinType}|${date}`, { cabinType: stay.cabinType, date });
+      }
+    });
+  return Array.from(nights.values());
+};
+
+// Nights a reservation actually occupied (cancelled stays free their nights)
+const getOccupiedNights = (reservation: Reservation, checkIn: string, checkOut: string): number => {
+  return isCancelled(reservation) ? 0 : calculateNights(checkIn, checkOut);
+};
+
 export const calculateOccupancyStats = (
   reservations: Reservation[],
   startDate: string,
-  endDate: string
+  endDate: string,
+  options?: AnalyticsOptions
 ): OccupancyStats => {
   // Filter reservations that overlap with the date range
   // A reservation overlaps if: checkIn <= endDate AND checkOut >= startDate
-  const filteredReservations = reservations.filter(r => 
+  const filteredReservations = selectReservations(reservations, options).filter(r => 
     r.checkIn <= endDate && r.checkOut >= startDate
   );
 
   const totalReservations = filteredReservations.length;
   const totalGuests = filteredReservations.reduce((sum, r) => sum + r.adults + r.children, 0);
-  const totalRevenue = filteredReservations.reduce((sum, r) => sum + r.totalPrice, 0);
+  const totalRevenue = filteredReservations.reduce((sum, r) => sum + getRetainedRevenue(r), 0);
   
   // Calculate nights within the period for each reservation
   const totalNights = filteredReservations.reduce((sum, r) => {
     // Clamp the reservation dates to the period
     const effectiveStart = r.checkIn > startDate ? r.checkIn : startDate;
     const effectiveEnd = r.checkOut < endDate ? r.checkOut : endDate;
-    const nights = calculateNights(effectiveStart, effectiveEnd);
+    const nights = getOccupiedNights(r, effectiveStart, effectiveEnd);
     return sum + Math.max(0, nights);
   }, 0);
 
@@ -66,8 +109,8 @@ export const calculateOccupancyStats = (
   // Calculate total days in period
   const totalDaysInPeriod = calculateNights(startDate, endDate);
   
-  // 4 cabins available
-  const totalCabinDays = totalDaysInPeriod * 4;
+  // Active cabins, minus the nights they were out of order
+  const totalCabinDays = totalDaysInPeriod * getCabinIds().length - getBlockedNights(options, startDate, endDate).length;
   const occupancyRate = totalCabinDays > 0 ? (totalNights / totalCabinDays) * 100 : 0;
   
   const averageRevenuePerNight = totalNights > 0 ? totalRevenue / totalNights : 0;
@@ -82,27 +125,24 @@ export const calculateOccupancyStats = (
   };
 };
 
-export const calculateCabinStats = (reservations: Reservation[]): CabinStats[] => {
-  const cabinTypes = [
-    'Cabaña Pequeña (Max 3p)',
-    'Cabaña Mediana 1 (Max 4p)',
-    'Cabaña Mediana 2 (Max 4p)',
-    'Cabaña Grande (Max 6p)'
-  ];
+export const calculateCabinStats = (reservations: Reservation[], options?: AnalyticsOptions): CabinStats[] => {
+  const selected = selectReservations(reservations, options);
 
-  return cabinTypes.map(cabinType => {
-    const cabinReservations = reservations.filter(r => r.cabinType === cabinType);
+  return getCabinIds().map(cabinType => {
+    const cabinReservations = selected.filter(r => r.cabinType === cabinType);
     const totalReservations = cabinReservations.length;
-    const totalRevenue = cabinReservations.reduce((sum, r) => sum + r.totalPrice, 0);
+    const totalRevenue = cabinReservations.reduce((sum, r) => sum + getRetainedRevenue(r), 0);
     const totalGuests = cabinReservations.reduce((sum, r) => sum + r.adults + r.children, 0);
     const averageGuests = totalReservations > 0 ? totalGuests / totalReservations : 0;
 
     const totalNights = cabinReservations.reduce((sum, r) => {
-      return sum + calculateNights(r.checkIn, r.checkOut);
+      return sum + getOccupiedNights(r, r.checkIn, r.checkOut);
     }, 0);
 
-    // Calcular ocupación aproximada (últimos 30 días)
-    const occupancyRate = totalNights > 0 ? (totalNights / 30) * 100 : 0;
+    // Calcular ocupación aproximada (últimos 30 días, sin las noches fuera de servicio)
+    const today = getTodayDate();
+    const availableNights = 30 - getBlockedNights(options, addDays(today, -30), today, cabinType).length;
+    const occupancyRate = totalNights > 0 && availableNights > 0 ? (totalNights / availableNights) * 100 : 0;
 
     return {
       cabinType,
@@ -114,10 +154,10 @@ export const calculateCabinStats = (reservations: Reservation[]): CabinStats[] =
   });
 };
 
-export const calculateMonthlyStats = (reservations: Reservation[]): MonthlyStats[] => {
+export const calculateMonthlyStats = (reservations: Reservation[], options?: AnalyticsOptions): MonthlyStats[] => {
   const monthlyData: { [key: string]: { reservations: number; revenue: number; guests: number; nights: number } } = {};
 
-  reservations.forEach(reservation => {
+  selectReservations(reservations, options).forEach(reservation => {
     const checkInDate = parseDate(reservation.checkIn);
     const monthKey = `${checkInDate.getFullYear()}-${String(checkInDate.getMonth() + 1).padStart(2, '0')}`;
     
@@ -126,53 +166,63 @@ export const calculateMonthlyStats = (reservations: Reservation[]): MonthlyStats
     }
 
     monthlyData[monthKey].reservations++;
-    monthlyData[monthKey].revenue += reservation.totalPrice;
+    monthlyData[monthKey].revenue += getRetainedRevenue(reservation);
     monthlyData[monthKey].guests += reservation.adults + reservation.children;
     
-    const nights = calculateNights(reservation.checkIn, reservation.checkOut);
+    const nights = getOccupiedNights(reservation, reservation.checkIn, reservation.checkOut);
     monthlyData[monthKey].nights += nights;
   });
 
-  return Object.entries(monthlyData).map(([month, data]) => ({
-    month,
-    reservations: data.reservations,
-    revenue: data.revenue,
-    guests: data.guests,
-    occupancyRate: Math.min((data.nights / (30 * 4)) * 100, 100) // Aprox 30 días * 4 cabañas
-  })).sort((a, b) => a.month.localeCompare(b.month));
+  return Object.entries(monthlyData).map(([month, data]) => {
+    const monthStart = `${month}-01`;
+    const monthEnd = formatDateToISO(addMonths(parseDate(monthStart), 1));
+    // Noches del mes * cabañas activas, sin las noches fuera de servicio
+    const capacity = calculateNights(monthStart, monthEnd) * getCabinIds().length - getBlockedNights(options, monthStart, monthEnd).length;
+    return {
+      month,
+      reservations: data.reservations,
+      revenue: data.revenue,
+      guests: data.guests,
+      occupancyRate: capacity > 0 ? Math.min((data.nights / capacity) * 100, 100) : 0
+    };
+  }).sort((a, b) => a.month.localeCompare(b.month));
 };
 
-export const calculateSeasonStats = (reservations: Reservation[]): SeasonStats[] => {
+export const calculateSeasonStats = (reservations: Reservation[], options?: AnalyticsOptions): SeasonStats[] => {
   const seasonData: { [key: string]: { reservations: number; revenue: number; nights: number } } = {
     'Alta': { reservations: 0, revenue: 0, nights: 0 },
     'Baja': { reservations: 0, revenue: 0, nights: 0 }
   };
 
-  reservations.forEach(reservation => {
+  selectReservations(reservations, options).forEach(reservation => {
     const season = reservation.season;
     seasonData[season].reservations++;
-    seasonData[season].revenue += reservation.totalPrice;
+    seasonData[season].revenue += getRetainedRevenue(reservation);
     
-    const nights = calculateNights(reservation.checkIn, reservation.checkOut);
+    const nights = getOccupiedNights(reservation, reservation.checkIn, reservation.checkOut);
     seasonData[season].nights += nights;
   });
 
-  return Object.entries(seasonData).map(([season, data]) => ({
-    season: season as 'Alta' | 'Baja',
-    reservations: data.reservations,
-    revenue: data.revenue,
-    averagePrice: data.reservations > 0 ? data.revenue / data.reservations : 0,
-    occupancyRate: Math.min((data.nights / (365 * 4 * 0.5)) * 100, 100) // Aprox 6 meses por temporada * 4 cabañas
-  }));
-};
+  // Noches fuera de servicio del último año, por temporada
+  const today = getTodayDate();
+  const blockedNights = getBlockedNights(options, addDays(today, -365), today);
 
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('es-CL', {
-    style: 'currency',
-    currency: 'CLP'
-  }).format(amount);
+  return Object.entries(seasonData).map(([season, data]) => {
+    // Aprox 6 meses por temporada * cabañas activas
+    const capacity = 365 * getCabinIds().length * 0.5 - blockedNights.filter(night => determineSeason(night.date) === season).length;
+    return {
+      season: season as 'Alta' | 'Baja',
+      reservations: data.reservations,
+      revenue: data.revenue,
+      averagePrice: data.reservations > 0 ? data.revenue / data.reservations : 0,
+      occupancyRate: capacity > 0 ? Math.min((data.nights / capacity) * 100, 100) : 0
+    };
+  });
 };
 
+// Analytics are in CLP, the base currency (see currency.ts)
+export { formatCurrency } from './currency';
+
 export const formatPercentage = (value: number): string => {
   return `${value.toFixed(1)}%`;
 };
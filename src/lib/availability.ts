@@ -1,69 +1,118 @@
-import { 
-  collection, 
-  getDocs, 
-  query, 
-  where, 
-  orderBy 
-} from 'firebase/firestore';
-import { db } from './firebase';
+import { blocksInventory, conflictsWithStay, getStaySegments, OccupiedSegment, OccupyingStay } from './availabilityPolicy';
+import { getReservationRepository, QueryFilter } from './repository';
+import { planSplitStay } from './staySegments';
+import { BLOCK_HORIZON_DAYS, findBlockStays } from './cabinBlocks';
+import { addDays } from './dateUtils';
+import { getStoredCabinKeys } from './cabinConfig';
+import { CabinType, StaySegment } from '@/types/reservation';
 
-const COLLECTION_NAME = 'reservas';
+/**
+ * Stays that use the cabin: arriving to it (cabinType) or moving into it later (cabinTypes).
+ * Documents not migrated yet store the cabin name instead of its id, so every key is queried.
+ */
+const findStaysInCabin = async (cabinType: string, filters: QueryFilter[] = []): Promise<OccupyingStay[]> => {
+  const repository = getReservationRepository();
+  const results = await Promise.all(getStoredCabinKeys(cabinType).flatMap(key => [
+    repository.find({ filters: [{ field: 'cabinType', op: '==', value: key }, ...filters] }),
+    repository.find({ filters: [{ field: 'cabinTypes', op: 'array-contains', value: key }, ...filters] })
+  ]));
 
-export const checkCabinAvailability = async (
+  const byId = new Map<string, OccupyingStay>();
+  results.flat().forEach(doc => byId.set(doc.id, { id: doc.id, ...doc.data } as OccupyingStay));
+  return Array.from(byId.values());
+};
+
+// Stays (and out-of-order blocks) that block the cabin for the requested dates
+export const findConflictingStays = async (
   cabinType: string,
   checkIn: string,
   checkOut: string,
   excludeReservationId?: string
-): Promise<boolean> => {
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('cabinType', '==', cabinType)
-  );
-  
-  const querySnapshot = await getDocs(q);
-  
-  const conflictingReservations = querySnapshot.docs
-    .filter(doc => {
-      // Excluir la reserva actual si estamos editando
-      if (excludeReservationId && doc.id === excludeReservationId) {
-        return false;
-      }
+): Promise<OccupyingStay[]> => {
+  const [reservations, blocks] = await Promise.all([
+    findStaysInCabin(cabinType),
+    findBlockStays(checkIn, checkOut, cabinType)
+  ]);
 
-      const reservation = doc.data();
-      const resCheckIn = reservation.checkIn;
-      const resCheckOut = reservation.checkOut;
-
-      return checkIn < resCheckOut && checkOut > resCheckIn;
-    });
+  // Canceladas y no-show no ocupan la cabaña
+  return [...reservations, ...blocks]
+    .filter(reservation => conflictsWithStay(reservation, cabinType, checkIn, checkOut, excludeReservationId));
+};
 
+export const checkCabinAvailability = async (
+  cabinType: string,
+  checkIn: string,
+  checkOut: string,
+  excludeReservationId?: string
+): Promise<boolean> => {
+  const conflictingReservations = await findConflictingStays(cabinType, checkIn, checkOut, excludeReservationId);
   return conflictingReservations.length === 0;
 };
 
+// First segment of a (possibly split) stay whose cabin is taken, or null when every segment is free
+export const findUnavailableSegment = async (
+  stay: OccupyingStay,
+  excludeReservationId?: string
+): Promise<OccupiedSegment | null> => {
+  const segments = getStaySegments(stay);
+  const results = await Promise.all(segments.map(segment =>
+    checkCabinAvailability(segment.cabinType, segment.checkIn, segment.checkOut, excludeReservationId)
+  ));
+  const index = results.findIndex(isAvailable => !isAvailable);
+  return index === -1 ? null : segments[index];
+};
+
 export const getNextAvailableDate = async (cabinType: string, preferredCheckIn: string): Promise<string | null> => {
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('cabinType', '==', cabinType),
-    where('checkOut', '>', preferredCheckIn),
-    orderBy('checkOut', 'asc')
-  );
-  
-  const querySnapshot = await getDocs(q);
-  
-  if (querySnapshot.empty) {
+  const [reservations, blocks] = await Promise.all([
+    findStaysInCabin(cabinType, [{ field: 'checkOut', op: '>', value: preferredCheckIn }]),
+    findBlockStays(preferredCheckIn, addDays(preferredCheckIn, BLOCK_HORIZON_DAYS), cabinType)
+  ]);
+
+  // Only the nights each stay spends in this cabin count
+  const segments = [...reservations, ...blocks]
+    .filter(blocksInventory)
+    .flatMap(getStaySegments)
+    .filter(segment => segment.cabinType === cabinType && segment.checkOut > preferredCheckIn)
+    .sort((a, b) => a.checkOut.localeCompare(b.checkOut));
+
+  if (segments.length === 0) {
     return preferredCheckIn; // Cabaña disponible desde la fecha preferida
   }
 
   // Buscar el primer gap disponible
-  const reservations = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-  
-  for (const reservation of reservations) {
-    const reservationData = reservation as any;
-    if (preferredCheckIn < reservationData.checkIn) {
+
+  for (const segment of segments) {
+    if (preferredCheckIn < segment.checkIn) {
       return preferredCheckIn; // Hay un gap antes de esta reserva
     }
     // La cabaña estará disponible desde el día de check-out de esta reserva
-    preferredCheckIn = reservationData.checkOut;
+    preferredCheckIn = segment.checkOut;
   }
 
   return preferredCheckIn;
-};
\ No newline at end of file
+};
+
+// Stays and out-of-order blocks that overlap the dates in any cabin; same (checkOut, checkIn) index as getReservationsInRange
+export const findStaysInRange = async (checkIn: string, checkOut: string): Promise<OccupyingStay[]> => {
+  const [documents, blocks] = await Promise.all([
+    getReservationRepository().find({
+      filters: [
+        { field: 'checkOut', op: '>', value: checkIn },
+        { field: 'checkIn', op: '<', value: checkOut }
+      ]
+    }),
+    findBlockStays(checkIn, checkOut)
+  ]);
+  return [...documents.map(doc => ({ id: doc.id, ...doc.data }) as OccupyingStay), ...blocks];
+};
+
+// Split stay over the given cabins when none of them is free for the whole stay
+export const findSplitStay = async (
+  cabinTypes: CabinType[],
+  checkIn: string,
+  checkOut: string,
+  excludeReservationId?: string
+): Promise<StaySegment[] | null> => {
+  const reservations = await findStaysInRange(checkIn, checkOut);
+  return planSplitStay(reservations, cabinTypes, checkIn, checkOut, excludeReservationId);
+};
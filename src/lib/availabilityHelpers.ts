@@ -1,42 +1,51 @@
-import { Reservation } from '@/types/reservation';
-import { checkCabinAvailability } from './availability';
+import { findConflictingStays } from './availability';
+import { conflictsWithStay, OccupyingStay } from './availabilityPolicy';
 import { 
-  CABIN_TYPES, 
+  getCabinIds, 
   getMaxCapacity, 
   getCabinDisplayName, 
-  getCabinColor,
-  type CabinType 
+  getCabinColor
 } from './cabinConfig';
 
 // Re-export from cabinConfig for backward compatibility
 export { 
-  CABIN_TYPES, 
+  getCabinIds, 
   getMaxCapacity, 
   getCabinDisplayName, 
-  getCabinColor,
-  type CabinType 
+  getCabinColor
 };
 
 export interface CabinAvailability {
   cabinType: string;
   isAvailable: boolean;
   maxCapacity: number;
+  // Taken only by tentative holds; the cabin frees up when the last one expires
+  isHeld?: boolean;
+  heldUntil?: string;
+  // Out of service (see cabinBlocks.ts) for some of the nights
+  isOutOfOrder?: boolean;
 }
 
+const toCabinAvailability = (cabinType: string, conflicts: OccupyingStay[]): CabinAvailability => {
+  const isHeld = conflicts.length > 0 && conflicts.every(stay => stay.reservationStatus === 'hold');
+  return {
+    cabinType,
+    isAvailable: conflicts.length === 0,
+    maxCapacity: getMaxCapacity(cabinType),
+    isHeld,
+    heldUntil: isHeld ? conflicts.map(stay => stay.holdExpiresAt || '').sort().pop() || undefined : undefined,
+    isOutOfOrder: conflicts.some(stay => stay.blockId)
+  };
+};
+
 export const checkMultipleCabinAvailability = async (
   checkIn: string,
   checkOut: string,
   excludeReservationId?: string
 ): Promise<CabinAvailability[]> => {
-  const availabilityPromises = CABIN_TYPES.map(async (cabinType) => {
-    const isAvailable = await checkCabinAvailability(cabinType, checkIn, checkOut, excludeReservationId);
-    const maxCapacity = getMaxCapacity(cabinType);
-    
-    return {
-      cabinType,
-      isAvailable,
-      maxCapacity
-    };
+  const availabilityPromises = getCabinIds().map(async (cabinType) => {
+    const conflicts = await findConflictingStays(cabinType, checkIn, checkOut, excludeReservationId);
+    return toCabinAvailability(cabinType, conflicts);
   });
 
   return Promise.all(availabilityPromises);
@@ -44,39 +53,29 @@ export const checkMultipleCabinAvailability = async (
 
 // Helper function to check if we have any reservations that would conflict
 export const checkLocalAvailability = (
-  reservations: Reservation[],
+  reservations: OccupyingStay[],
   cabinType: string,
   checkIn: string,
   checkOut: string,
   excludeReservationId?: string
 ): boolean => {
-  const conflictingReservations = reservations.filter(reservation => {
-    // Exclude current reservation if editing
-    if (excludeReservationId && reservation.id === excludeReservationId) {
-      return false;
-    }
-
-    // Check if same cabin type
-    if (reservation.cabinType !== cabinType) {
-      return false;
-    }
-
-    // Check for date overlap
-    return checkIn < reservation.checkOut && checkOut > reservation.checkIn;
-  });
+  // Excludes the reservation being edited and cancelled / no-show stays
+  const conflictingReservations = reservations.filter(reservation =>
+    conflictsWithStay(reservation, cabinType, checkIn, checkOut, excludeReservationId)
+  );
 
   return conflictingReservations.length === 0;
 };
 
+// Reservations plus the stays of out-of-order blocks (getBlockStays)
 export const getLocalMultipleCabinAvailability = (
-  reservations: Reservation[],
+  reservations: OccupyingStay[],
   checkIn: string,
   checkOut: string,
   excludeReservationId?: string
 ): CabinAvailability[] => {
-  return CABIN_TYPES.map(cabinType => ({
+  return getCabinIds().map(cabinType => toCabinAvailability(
     cabinType,
-    isAvailable: checkLocalAvailability(reservations, cabinType, checkIn, checkOut, excludeReservationId),
-    maxCapacity: getMaxCapacity(cabinType)
-  }));
+    reservations.filter(reservation => conflictsWithStay(reservation, cabinType, checkIn, checkOut, excludeReservationId))
+  ));
 };
@@ -0,0 +1,97 @@
+/**
+ * Availability policy
+ * Single place that decides which reservations occupy cabin inventory. Out-of-order blocks
+ * reach these rules as stays too (getBlockStays in cabinBlocks.ts).
+ * Every availability path (admin, offline cache, public widget, timeline) goes through here.
+ */
+
+import { Reservation, ReservationStatusType } from '@/types/reservation';
+import { normalizeCabinType } from './cabinConfig';
+
+export type InventoryStatusFields = Partial<Pick<Reservation, 'reservationStatus' | 'checkInStatus' | 'deletedAt'>>;
+
+export interface OccupyingStay extends InventoryStatusFields {
+  id?: string;
+  cabinType: string;
+  checkIn: string;
+  checkOut: string;
+  // Split stays (see StaySegment)
+  segments?: OccupiedSegment[];
+  // Tentative holds (see holds.ts)
+  holdExpiresAt?: string;
+  // Set on the stays of out-of-order blocks (see cabinBlocks.ts)
+  blockId?: string;
+}
+
+export interface OccupiedSegment {
+  cabinType: string;
+  checkIn: string;
+  checkOut: string;
+}
+
+// Reservation statuses that release the cabin
+export const NON_BLOCKING_RESERVATION_STATUSES: ReservationStatusType[] = ['cancelled'];
+
+// Check-in statuses that release the cabin
+export const NON_BLOCKING_CHECK_IN_STATUSES: Reservation['checkInStatus'][] = ['no_show'];
+
+export const blocksInventory = (reservation: InventoryStatusFields): boolean => {
+  // Reservations in the trash never hold the cabin
+  if (reservation.deletedAt) {
+    return false;
+  }
+  if (reservation.reservationStatus && NON_BLOCKING_RESERVATION_STATUSES.includes(reservation.reservationStatus)) {
+    return false;
+  }
+  if (reservation.checkInStatus && NON_BLOCKING_CHECK_IN_STATUSES.includes(reservation.checkInStatus)) {
+    return false;
+  }
+  return true;
+};
+
+// Stays are half-open ranges: check-out day is free for a new check-in
+export const staysOverlap = (
+  checkIn: string,
+  checkOut: string,
+  otherCheckIn: string,
+  otherCheckOut: string
+): boolean => {
+  return checkIn < otherCheckOut && checkOut > otherCheckIn;
+};
+
+// Cabins a stay occupies, in order; a stay without segments is one segment in its cabinType.
+// Documents not migrated yet may store cabin names: segments always carry cabin ids.
+export const getStaySegments = (stay: OccupyingStay): OccupiedSegment[] => {
+  if (stay.segments && stay.segments.length > 0) {
+    return stay.segments.map(segment => ({ ...segment, cabinType: normalizeCabinType(segment.cabinType) }));
+  }
+  return [{ cabinType: normalizeCabinType(stay.cabinType), checkIn: stay.checkIn, checkOut: stay.checkOut }];
+};
+
+// Cabin a stay occupies on a given night, if any
+export const getCabinOnNight = (stay: OccupyingStay, date: string): string | null => {
+  const segment = getStaySegments(stay).find(s => s.checkIn <= date && s.checkOut > date);
+  return segment ? segment.cabinType : null;
+};
+
+// Whether a reservation blocks the given cabin for the requested stay
+export const conflictsWithStay = (
+  reservation: OccupyingStay,
+  cabinType: string,
+  checkIn: string,
+  checkOut: string,
+  excludeReservationId?: string
+): boolean => {
+  if (excludeReservationId && reservation.id === excludeReservationId) return false;
+  if (!blocksInventory(reservation)) return false;
+  return getStaySegments(reservation).some(segment =>
+    segment.cabinType === cabinType && staysOverlap(checkIn, checkOut, segment.checkIn, segment.checkOut)
+  );
+};
+
+// Whether a reservation occupies a cabin on a given night (any of its cabins when none is given)
+export const occupiesNight = (reservation: OccupyingStay, date: string, cabinType?: string): boolean => {
+  if (!blocksInventory(reservation)) return false;
+  const cabin = getCabinOnNight(reservation, date);
+  return cabin !== null && (!cabinType || cabin === cabinType);
+};
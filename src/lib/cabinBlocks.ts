@@ -0,0 +1,308 @@
+import { addMonths, addYears } from 'date-fns';
+import { CabinBlock, CabinBlockFormData, CabinBlockReason } from '@/types/cabinBlock';
+import { logger } from './logger';
+import { addDays, calculateNights, formatDateForDisplay, formatDateToISO, getTodayDate, parseDate } from './dateUtils';
+import { conflictsWithStay, OccupyingStay } from './availabilityPolicy';
+import { getCabinBlockRepository, getReservationRepository, MAX_TRANSACTION_WRITES, ReservationTransaction, StoredDocument } from './repository';
+import { assertValid, validateCabinBlock } from './schemas';
+import { readValidDocuments } from './quarantine';
+import { getHistoryActor } from './reservationHistory';
+import { getCabinName, normalizeCabinType } from './cabinConfig';
+import {
+  deleteBlockLocks,
+  getBlockConflictingLockIds,
+  getStayLockIds,
+  isOccupancyConflict,
+  OCCUPANCY_CONFLICT,
+  OccupancyLock,
+  writeBlockLocks
+} from './occupancyLocks';
+
+/**
+ * Out-of-order blocks
+ * A cabin taken off sale (maintenance, repairs, owner use) without a reservation, so revenue
+ * and occupancy reports stay clean. Every availability path turns blocks into stays with
+ * getBlockStays, one per occurrence of a recurring block; analytics removes the blocked
+ * nights from the available capacity.
+ * Blocks are written in a reservation transaction together with `ocupacion` locks for the
+ * nights of their upcoming occurrences, so a booking and a block for the same night cannot
+ * both go through. Only the next BLOCK_LOCK_HORIZON_DAYS nights are locked, so releasing the
+ * old nights and locking the new ones fits in one transaction; later nights rely on the
+ * pre-checks, like reservations from before the locks.
+ */
+
+export const BLOCK_REASON_LABELS: Record<CabinBlockReason, string> = {
+  maintenance: 'Mantención',
+  repair: 'Reparación',
+  owner_use: 'Uso de los dueños',
+  other: 'Otro',
+};
+
+// Recurring blocks without an end date are expanded this far ahead when no range is given
+export const BLOCK_HORIZON_DAYS = 366;
+
+// Nights from today locked in `ocupacion`: an update releases up to this many and locks as many
+export const BLOCK_LOCK_HORIZON_DAYS = 180;
+
+// Nights of one occurrence; longer periods repeat a block instead
+export const MAX_BLOCK_NIGHTS = BLOCK_HORIZON_DAYS;
+
+type StoredDate = Date | { toDate: () => Date } | undefined;
+
+const toDate = (value: StoredDate): Date | undefined => {
+  if (!value) return undefined;
+  return value instanceof Date ? value : value.toDate();
+};
+
+export const normalizeCabinBlock = (raw: Record<string, unknown>): CabinBlock => {
+  const data = raw as Partial<Omit<CabinBlock, 'createdAt' | 'updatedAt'>> & {
+    createdAt?: StoredDate;
+    updatedAt?: StoredDate;
+  };
+  return {
+    id: data.id,
+    cabinType: normalizeCabinType(data.cabinType || ''),
+    startDate: data.startDate || '',
+    endDate: data.endDate || '',
+    reason: data.reason || 'other',
+    notes: data.notes || '',
+    recurrence: data.recurrence,
+    createdBy: data.createdBy,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  } as CabinBlock;
+};
+
+// Documents that fail the schema are quarantined instead of reaching availability
+const toValidBlocks = (docs: StoredDocument[]): CabinBlock[] => {
+  return readValidDocuments<CabinBlock>('fuera_de_servicio', docs, normalizeCabinBlock, validateCabinBlock, 'cabinType');
+};
+
+// Start of the nth occurrence (the first one is the block itself)
+const getOccurrenceStart = (block: CabinBlock, index: number): string => {
+  if (index === 0 || !block.recurrence) return block.startDate;
+  switch (block.recurrence.frequency) {
+    case 'weekly':
+      return addDays(block.startDate, index * 7);
+    case 'monthly':
+      return formatDateToISO(addMonths(parseDate(block.startDate), index));
+    case 'yearly':
+      return formatDateToISO(addYears(parseDate(block.startDate), index));
+  }
+};
+
+/**
+ * Occurrences of a block that overlap [rangeStart, rangeEnd), as stays of its cabin.
+ * Each stay gets its own id so it never matches the reservation being edited.
+ */
+export const getBlockStays = (block: CabinBlock, rangeStart: string, rangeEnd: string): OccupyingStay[] => {
+  const nights = calculateNights(block.startDate, block.endDate);
+  const until = block.recurrence?.until;
+  const stays: OccupyingStay[] = [];
+
+  for (let index = 0; ; index++) {
+    const checkIn = getOccurrenceStart(block, index);
+    if (checkIn >= rangeEnd || (until && checkIn > until)) break;
+
+    const checkOut = addDays(checkIn, nights);
+    if (checkOut > rangeStart) {
+      stays.push({ id: `${block.id}@${checkIn}`, blockId: block.id, cabinType: block.cabinType, checkIn, checkOut });
+    }
+    if (!block.recurrence) break;
+  }
+
+  return stays;
+};
+
+export const getCabinBlocks = async (): Promise<CabinBlock[]> => {
+  const docs = await getCabinBlockRepository().find();
+  return toValidBlocks(docs).sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+// Blocks of the cabin (every cabin when none is given) as stays within the range.
+// Blocks are few, so the cabin is matched after normalizing rather than in the query.
+export const findBlockStays = async (rangeStart: string, rangeEnd: string, cabinType?: string): Promise<OccupyingStay[]> => {
+  const docs = await getCabinBlockRepository().find();
+  return toValidBlocks(docs)
+    .filter(block => !cabinType || block.cabinType === cabinType)
+    .flatMap(block => getBlockStays(block, rangeStart, rangeEnd));
+};
+
+// Upcoming occurrences checked against reservations and locked: past ones no longer matter
+const getUpcomingStays = (block: CabinBlock): OccupyingStay[] => {
+  const today = getTodayDate();
+  const rangeEnd = block.recurrence
+    ? (block.recurrence.until ? addDays(block.recurrence.until, 1) : addDays(today, BLOCK_HORIZON_DAYS))
+    : block.endDate;
+  return getBlockStays(block, today, rangeEnd);
+};
+
+// Upcoming occurrences within the next horizonDays nights, clipped to them
+const getLockedStays = (block: CabinBlock, horizonDays: number = BLOCK_LOCK_HORIZON_DAYS): OccupyingStay[] => {
+  const today = getTodayDate();
+  const horizon = addDays(today, horizonDays);
+  return getBlockStays(block, today, horizon).map(stay => ({
+    ...stay,
+    checkIn: stay.checkIn < today ? today : stay.checkIn,
+    checkOut: stay.checkOut > horizon ? horizon : stay.checkOut
+  }));
+};
+
+const assertBlockSpan = (block: Pick<CabinBlock, 'startDate' | 'endDate'>): void => {
+  if (calculateNights(block.startDate, block.endDate) > MAX_BLOCK_NIGHTS) {
+    throw new Error(`Un bloqueo puede cubrir hasta ${MAX_BLOCK_NIGHTS} noches seguidas; para períodos más largos usa la repetición`);
+  }
+};
+
+/**
+ * The cabin must be free for every upcoming occurrence: guests already booked have to be
+ * moved first. Same (checkOut, checkIn) range query as findStaysInRange.
+ */
+const assertNoReservations = async (block: CabinBlock): Promise<void> => {
+  const stays = getUpcomingStays(block);
+  if (stays.length === 0) return;
+
+  const docs = await getReservationRepository().find({
+    filters: [
+      { field: 'checkOut', op: '>', value: stays[0].checkIn },
+      { field: 'checkIn', op: '<', value: stays[stays.length - 1].checkOut }
+    ]
+  });
+  const reservations = docs.map(doc => ({ id: doc.id, ...doc.data }) as OccupyingStay & { passengerName?: string });
+
+  for (const stay of stays) {
+    const conflict = reservations.find(reservation =>
+      conflictsWithStay(reservation, block.cabinType, stay.checkIn, stay.checkOut)
+    );
+    if (conflict) {
+      throw new Error(`La ${getCabinName(block.cabinType)} tiene una reserva de ${conflict.passengerName || 'un huésped'} (${formatDateForDisplay(conflict.checkIn)} - ${formatDateForDisplay(conflict.checkOut)}). Mueve la reserva antes de sacar la cabaña de servicio.`);
+    }
+  }
+};
+
+/**
+ * Locks the nights of the block's upcoming occurrences inside the transaction, releasing the
+ * ones it held before (updates and deletes). Reservations hold their nights the same way, so
+ * a booking made after the pre-check conflicts here instead of ending up on a blocked night.
+ * Must run before any other transaction write; the returned function writes the locks, and the
+ * caller adds one write for the block itself.
+ */
+const lockBlockNights = async (
+  transaction: ReservationTransaction,
+  blockId: string | undefined,
+  previous: CabinBlock | null,
+  next: CabinBlock | null
+): Promise<(id: string) => void> => {
+  const nextStays = next ? getLockedStays(next) : [];
+  const nextLocks = await transaction.getLocks(nextStays.flatMap(getStayLockIds));
+  // Blocks saved before the lock horizon was shortened may hold nights up to BLOCK_HORIZON_DAYS
+  const previousLocks = previous
+    ? await transaction.getLocks(getLockedStays(previous, BLOCK_HORIZON_DAYS).flatMap(getStayLockIds))
+    : new Map<string, OccupancyLock | null>();
+  if (getBlockConflictingLockIds(nextLocks, blockId).length > 0) {
+    throw new Error(OCCUPANCY_CONFLICT);
+  }
+
+  const releasedCount = Array.from(previousLocks.entries())
+    .filter(([lockId, lock]) => lock?.blockId === blockId && !nextLocks.has(lockId))
+    .length;
+  const writeCount = releasedCount + nextLocks.size + 1;
+  if (writeCount > MAX_TRANSACTION_WRITES) {
+    logger.error('cabinBlocks.lockBlockNights.tooManyWrites', { blockId, writeCount });
+    throw new Error('El bloqueo ocupa demasiadas noches para guardarlo de una vez; acórtalo o divídelo en varios');
+  }
+
+  return (id: string) => {
+    deleteBlockLocks(transaction, previousLocks, id, Array.from(nextLocks.keys()));
+    writeBlockLocks(transaction, nextStays, id);
+  };
+};
+
+const toUnavailableBlockError = (block: CabinBlock): Error => {
+  return new Error(`La ${getCabinName(block.cabinType)} ya está reservada o fuera de servicio en alguna de esas noches. Revisa el calendario y vuelve a intentarlo.`);
+};
+
+export const createCabinBlock = async (data: CabinBlockFormData): Promise<string> => {
+  logger.info('cabinBlocks.createCabinBlock.start', { cabinType: data.cabinType, startDate: data.startDate, endDate: data.endDate });
+
+  const blockData = {
+    cabinType: data.cabinType,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    reason: data.reason,
+    notes: data.notes || '',
+    ...(data.recurrence ? { recurrence: data.recurrence } : {}),
+    createdBy: getHistoryActor(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  assertValid(validateCabinBlock(blockData));
+  assertBlockSpan(blockData);
+  // Pre-check against existing documents (covers legacy reservations without occupancy locks)
+  await assertNoReservations(blockData);
+
+  try {
+    const id = await getReservationRepository().runTransaction(async (transaction) => {
+      const lockNights = await lockBlockNights(transaction, undefined, null, blockData);
+      const newId = transaction.createBlock(blockData);
+      lockNights(newId);
+      return newId;
+    });
+    logger.info('cabinBlocks.createCabinBlock.success', { id });
+    return id;
+  } catch (error) {
+    if (isOccupancyConflict(error)) {
+      logger.warn('cabinBlocks.createCabinBlock.lock.conflict', { cabinType: data.cabinType, startDate: data.startDate });
+      throw toUnavailableBlockError(blockData);
+    }
+    throw error;
+  }
+};
+
+export const updateCabinBlock = async (id: string, data: CabinBlockFormData): Promise<void> => {
+  logger.info('cabinBlocks.updateCabinBlock.start', { id });
+
+  const updateData = {
+    cabinType: data.cabinType,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    reason: data.reason,
+    notes: data.notes || '',
+    recurrence: data.recurrence,
+    updatedAt: new Date(),
+  };
+  assertValid(validateCabinBlock(updateData));
+  assertBlockSpan(updateData);
+  await assertNoReservations(updateData);
+
+  try {
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const current = await transaction.getBlock(id);
+      if (!current) {
+        throw new Error('Bloqueo no encontrado');
+      }
+      const lockNights = await lockBlockNights(transaction, id, normalizeCabinBlock({ ...current.data, id }), updateData);
+      transaction.updateBlock(id, updateData);
+      lockNights(id);
+    });
+  } catch (error) {
+    if (isOccupancyConflict(error)) {
+      logger.warn('cabinBlocks.updateCabinBlock.lock.conflict', { id });
+      throw toUnavailableBlockError(updateData);
+    }
+    throw error;
+  }
+  logger.info('cabinBlocks.updateCabinBlock.success', { id });
+};
+
+// Blocks are not reservations: they are deleted outright, without trash or history
+export const deleteCabinBlock = async (id: string): Promise<void> => {
+  await getReservationRepository().runTransaction(async (transaction) => {
+    const current = await transaction.getBlock(id);
+    if (!current) return;
+    const lockNights = await lockBlockNights(transaction, id, normalizeCabinBlock({ ...current.data, id }), null);
+    transaction.deleteBlock(id);
+    lockNights(id);
+  });
+  logger.info('cabinBlocks.deleteCabinBlock.success', { id });
+};
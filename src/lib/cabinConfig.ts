@@ -1,63 +1,80 @@
 /**
  * Centralized cabin configuration
- * All cabin-related constants and helpers in one place
+ * The cabins are the ones configured in Admin (`adminConfig.ts`); reservations, blocks,
+ * waitlist entries and occupancy locks refer to a cabin by its stable id (`cabin-1`…),
+ * so renaming a cabin or changing its capacity never orphans its bookings.
  */
 
-// Cabin types with capacity info
-export const CABIN_TYPES = [
-  'Cabaña Pequeña (Max 3p)',
-  'Cabaña Mediana 1 (Max 4p)',
-  'Cabaña Mediana 2 (Max 4p)',
-  'Cabaña Grande (Max 6p)'
-] as const;
+import type { CabinType } from '@/types/reservation';
+import { CabinConfig, getActiveCabins, getAdminConfig } from './adminConfig';
 
-export type CabinType = typeof CABIN_TYPES[number];
+// Names stored before cabins had ids; the four original cabins are cabin-1 … cabin-4
+const LEGACY_CABIN_IDS: Record<string, CabinType> = {
+  'Cabaña Pequeña (Max 3p)': 'cabin-1',
+  'Cabaña Mediana 1 (Max 4p)': 'cabin-2',
+  'Cabaña Mediana 2 (Max 4p)': 'cabin-3',
+  'Cabaña Grande (Max 6p)': 'cabin-4',
+  'Cabaña Pequeña': 'cabin-1',
+  'Cabaña Mediana 1': 'cabin-2',
+  'Cabaña Mediana 2': 'cabin-3',
+  'Cabaña Grande': 'cabin-4',
+  'Pequeña': 'cabin-1',
+  'Mediana 1': 'cabin-2',
+  'Mediana 2': 'cabin-3',
+  'Grande': 'cabin-4'
+};
+
+// Every configured cabin, deactivated ones included: their bookings must still resolve
+const getAllCabins = (): CabinConfig[] => getAdminConfig().cabins;
+
+// Active cabins in the order set in Admin: the ones that can be booked and are shown
+export const getCabins = (): CabinConfig[] => getActiveCabins();
 
-// Mapping for legacy/short cabin names to normalized names
-export const CABIN_TYPE_MAPPING: Record<string, CabinType> = {
-  'Cabaña Pequeña': 'Cabaña Pequeña (Max 3p)',
-  'Cabaña Mediana 1': 'Cabaña Mediana 1 (Max 4p)',
-  'Cabaña Mediana 2': 'Cabaña Mediana 2 (Max 4p)',
-  'Cabaña Grande': 'Cabaña Grande (Max 6p)',
-  'Pequeña': 'Cabaña Pequeña (Max 3p)',
-  'Mediana 1': 'Cabaña Mediana 1 (Max 4p)',
-  'Mediana 2': 'Cabaña Mediana 2 (Max 4p)',
-  'Grande': 'Cabaña Grande (Max 6p)'
+export const getCabinIds = (): CabinType[] => getCabins().map(cabin => cabin.id);
+
+export const findCabin = (cabinType: string): CabinConfig | undefined => {
+  return getAllCabins().find(cabin => cabin.id === cabinType);
 };
 
-// Normalize any cabin type string to the standard format
-export const normalizeCabinType = (cabinType: string): string => {
+export const isActiveCabin = (cabinType: string): boolean => !!findCabin(cabinType)?.isActive;
+
+// Cabin id for any stored value: an id, a configured name or a legacy name
+export const normalizeCabinType = (cabinType: string): CabinType => {
   if (!cabinType) return '';
-  return CABIN_TYPE_MAPPING[cabinType] || cabinType;
+  const cabins = getAllCabins();
+  if (cabins.some(cabin => cabin.id === cabinType)) return cabinType;
+  const byName = cabins.find(cabin => cabin.name === cabinType || cabin.displayName === cabinType);
+  return byName?.id || LEGACY_CABIN_IDS[cabinType] || cabinType;
 };
 
-// Get maximum capacity for a cabin type
+/**
+ * Values a cabin may be stored under until the data migration rewrites them to ids.
+ * Availability queries look for all of them so legacy bookings still block the cabin.
+ */
+export const getStoredCabinKeys = (cabinType: CabinType): string[] => {
+  const legacyNames = Object.keys(LEGACY_CABIN_IDS).filter(name => LEGACY_CABIN_IDS[name] === cabinType);
+  const cabin = findCabin(cabinType);
+  return Array.from(new Set([cabinType, ...legacyNames, ...(cabin ? [cabin.name] : [])]));
+};
+
+// Get maximum capacity for a cabin (adults + children)
 export const getMaxCapacity = (cabinType: string): number => {
-  if (cabinType.includes('Pequeña')) return 3;
-  if (cabinType.includes('Mediana')) return 4;
-  if (cabinType.includes('Grande')) return 6;
-  return 3;
+  return findCabin(normalizeCabinType(cabinType))?.maxCapacity ?? 3;
+};
+
+// Full name with capacity, e.g. "Cabaña Pequeña (Max 3p)"
+export const getCabinName = (cabinType: string): string => {
+  return findCabin(normalizeCabinType(cabinType))?.name ?? cabinType;
 };
 
 // Get display name without capacity info
 export const getCabinDisplayName = (cabinType: string): string => {
-  return cabinType.split(' (')[0];
+  return findCabin(normalizeCabinType(cabinType))?.displayName ?? cabinType.split(' (')[0];
 };
 
 // Get color class for cabin type (for UI)
 export const getCabinColor = (cabinType: string): string => {
-  switch (cabinType) {
-    case 'Cabaña Pequeña (Max 3p)':
-      return 'bg-blue-500';
-    case 'Cabaña Mediana 1 (Max 4p)':
-      return 'bg-purple-500';
-    case 'Cabaña Mediana 2 (Max 4p)':
-      return 'bg-amber-500';
-    case 'Cabaña Grande (Max 6p)':
-      return 'bg-pink-500';
-    default:
-      return 'bg-emerald-500';
-  }
+  return findCabin(normalizeCabinType(cabinType))?.color ?? 'bg-emerald-500';
 };
 
 // Cabin info interface for public display
@@ -71,11 +88,11 @@ export interface CabinInfo {
 
 // Get full cabin info array
 export const getCabinInfo = (): CabinInfo[] => {
-  return CABIN_TYPES.map((cabinType, index) => ({
-    id: `cabin-${index + 1}`,
-    name: cabinType,
-    displayName: getCabinDisplayName(cabinType),
-    maxCapacity: getMaxCapacity(cabinType),
-    color: getCabinColor(cabinType)
+  return getCabins().map(cabin => ({
+    id: cabin.id,
+    name: cabin.name,
+    displayName: cabin.displayName,
+    maxCapacity: cabin.maxCapacity,
+    color: cabin.color
   }));
 };
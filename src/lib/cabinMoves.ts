@@ -0,0 +1,109 @@
+import { CabinType } from '@/types/reservation';
+import { logger } from './logger';
+import { formatDateForDisplay } from './dateUtils';
+import { getCabinName, isActiveCabin } from './cabinConfig';
+import { getReservationById, normalizeReservation } from './reservations';
+import { checkCabinAvailability } from './availability';
+import { blocksInventory } from './availabilityPolicy';
+import { isTrashed } from './trash';
+import { calculateRemainingBalance, getStayPricing } from './pricing';
+import { getBookingDate } from './pricingRules';
+import { validateCabinCapacity } from './validation';
+import { splitStayAt, toStayLayout } from './staySegments';
+import {
+  OCCUPANCY_CONFLICT,
+  readLocks,
+  getConflictingLockIds,
+  writeLocks,
+  deleteOwnedLocks,
+  isOccupancyConflict
+} from './occupancyLocks';
+import { HistoryContext, diffFields, recordHistory } from './reservationHistory';
+import { getReservationRepository } from './repository';
+import { assertValid, validateReservationUpdate } from './schemas';
+import { notifyWaitlist } from './waitlist';
+
+/**
+ * Moves an in-house or upcoming guest to another cabin from moveDate until check-out,
+ * splitting the stay instead of cancelling and re-creating it. The nights before the
+ * move keep their cabin; the price is recalculated cabin by cabin.
+ */
+export const moveGuest = async (
+  reservationId: string,
+  moveDate: string,
+  cabinType: CabinType,
+  context?: HistoryContext
+): Promise<void> => {
+  logger.info('cabinMoves.moveGuest.start', { reservationId, moveDate, cabinType });
+  logger.time('cabinMoves.moveGuest');
+
+  let checkOut = '';
+  try {
+    const reservation = await getReservationById(reservationId);
+    if (!reservation || isTrashed(reservation) || !blocksInventory(reservation)) {
+      throw new Error('Solo se puede mover a huéspedes de reservas activas');
+    }
+    if (reservation.checkOutStatus === 'checked_out') {
+      throw new Error('El huésped ya hizo check-out');
+    }
+    checkOut = reservation.checkOut;
+
+    if (!isActiveCabin(cabinType)) {
+      throw new Error(`La ${getCabinName(cabinType)} no está habilitada para reservas`);
+    }
+    const capacityValidation = validateCabinCapacity(cabinType, reservation.adults, reservation.children, reservation.babies);
+    if (!capacityValidation.isValid) {
+      throw new Error(capacityValidation.error);
+    }
+    // Validates the date before touching availability
+    splitStayAt(reservation, moveDate, cabinType);
+
+    // Pre-check against existing documents (covers legacy reservations without occupancy locks)
+    const isAvailable = await checkCabinAvailability(cabinType, moveDate, reservation.checkOut, reservationId);
+    if (!isAvailable) {
+      throw new Error(OCCUPANCY_CONFLICT);
+    }
+
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reservationId);
+      if (!snapshot) {
+        throw new Error('Reserva no encontrada');
+      }
+      const stored = normalizeReservation({ ...snapshot.data, id: reservationId });
+      const layout = toStayLayout(splitStayAt(stored, moveDate, cabinType));
+
+      const previousLocks = await readLocks(transaction, stored);
+      const nextLocks = await readLocks(transaction, layout);
+      if (getConflictingLockIds(nextLocks, reservationId).length > 0) {
+        throw new Error(OCCUPANCY_CONFLICT);
+      }
+
+      const pricing = getStayPricing({ ...stored, ...layout }, getBookingDate(stored), stored.nightlyRates, stored.priceAdjustments);
+      const { totalPrice } = pricing;
+      const updateData = {
+        ...layout,
+        ...pricing,
+        remainingBalance: calculateRemainingBalance({ ...stored, totalPrice }),
+        updatedAt: new Date()
+      };
+      assertValid(validateReservationUpdate(updateData));
+
+      deleteOwnedLocks(transaction, previousLocks, reservationId, Array.from(nextLocks.keys()));
+      writeLocks(transaction, layout, reservationId);
+      transaction.update(reservationId, updateData);
+      recordHistory(transaction, reservationId, 'move', diffFields(stored, updateData), context);
+    });
+
+    logger.info('cabinMoves.moveGuest.success', { reservationId, moveDate, cabinType });
+    // The previous cabin is free from the move date
+    await notifyWaitlist({ checkIn: moveDate, checkOut });
+  } catch (error) {
+    logger.error('cabinMoves.moveGuest.error', { reservationId, error: String(error) });
+    if (isOccupancyConflict(error)) {
+      throw new Error(`La ${getCabinName(cabinType)} no está disponible del ${formatDateForDisplay(moveDate)} al ${formatDateForDisplay(checkOut)}`);
+    }
+    throw error;
+  } finally {
+    logger.timeEnd('cabinMoves.moveGuest');
+  }
+};
@@ -0,0 +1,177 @@
+import { Reservation, Cancellation, CancellationReason } from '@/types/reservation';
+import { Payment } from '@/types/payment';
+import { logger } from './logger';
+import { calculateNights, getTodayDate } from './dateUtils';
+import { normalizeReservation } from './reservations';
+import { readLocks, deleteOwnedLocks } from './occupancyLocks';
+import { diffFields, recordHistory } from './reservationHistory';
+import { getHeldPromoCode, transferPromoCodeUse } from './pricingRules';
+import { getReservationRepository } from './repository';
+import { assertValid, validateReservationUpdate } from './schemas';
+import { notifyWaitlist, ReleasedStay } from './waitlist';
+
+export const CANCELLATION_REASONS: Record<CancellationReason, string> = {
+  guest_request: 'Solicitud del huésped',
+  no_deposit: 'Sin abono',
+  force_majeure: 'Fuerza mayor',
+  duplicate: 'Reserva duplicada',
+  hold_expired: 'Bloqueo vencido'
+};
+
+// Reasons an operator can pick; expired holds are only released automatically (see holds.ts)
+export const MANUAL_CANCELLATION_REASONS = (Object.keys(CANCELLATION_REASONS) as CancellationReason[])
+  .filter(reason => reason !== 'hold_expired');
+
+// Reasons that never carry a fee, whatever the notice
+const FEE_EXEMPT_REASONS: CancellationReason[] = ['no_deposit', 'force_majeure', 'duplicate', 'hold_expired'];
+
+// Share of the stay total charged, by days of notice before check-in (checked top to bottom)
+export const CANCELLATION_FEE_TIERS = [
+  { minDaysNotice: 30, feeRate: 0 },
+  { minDaysNotice: 14, feeRate: 0.25 },
+  { minDaysNotice: 7, feeRate: 0.5 },
+  { minDaysNotice: 0, feeRate: 1 }
+];
+
+export interface CancellationRequest {
+  reason: CancellationReason;
+  notes?: string;
+  cancelledBy: string;
+  fee: number;
+  refundAmount: number;
+  refundMethod?: Payment['method'];
+}
+
+export const isCancelled = (reservation: Pick<Reservation, 'reservationStatus'>): boolean => {
+  return reservation.reservationStatus === 'cancelled';
+};
+
+// Net amount received: payments minus refunds
+export const getTotalPaid = (reservation: Reservation): number => {
+  return (reservation.payments || []).reduce((sum, payment) => sum + (payment?.amount || 0), 0);
+};
+
+// Revenue kept from a reservation: the stay total, or only the fee once cancelled
+export const getRetainedRevenue = (reservation: Reservation): number => {
+  if (isCancelled(reservation)) {
+    return reservation.cancellation?.fee || 0;
+  }
+  return reservation.totalPrice || 0;
+};
+
+export const calculateCancellationFee = (
+  reservation: Reservation,
+  reason: CancellationReason,
+  cancelDate: string = getTodayDate()
+): number => {
+  if (FEE_EXEMPT_REASONS.includes(reason)) return 0;
+
+  const daysNotice = calculateNights(cancelDate, reservation.checkIn);
+  const tier = CANCELLATION_FEE_TIERS.find(t => daysNotice >= t.minDaysNotice);
+  const feeRate = tier ? tier.feeRate : 1; // Cancelling after check-in date
+
+  return Math.round((reservation.totalPrice || 0) * feeRate);
+};
+
+export const calculateSuggestedRefund = (reservation: Reservation, fee: number): number => {
+  return Math.max(0, getTotalPaid(reservation) - fee);
+};
+
+export const cancelReservation = async (reservationId: string, request: CancellationRequest): Promise<void> => {
+  logger.info('cancellations.cancelReservation.start', {
+    reservationId,
+    reason: request.reason,
+    fee: request.fee,
+    refundAmount: request.refundAmount
+  });
+  logger.time('cancellations.cancelReservation');
+
+  try {
+    if (!request.cancelledBy.trim()) {
+      throw new Error('Debe indicar quién cancela la reserva');
+    }
+    if (request.fee < 0 || request.refundAmount < 0) {
+      throw new Error('El cargo y el reembolso no pueden ser negativos');
+    }
+
+    const released = await getReservationRepository().runTransaction<ReleasedStay>(async (transaction) => {
+      const snapshot = await transaction.get(reservationId);
+      if (!snapshot) {
+        throw new Error('Reserva no encontrada');
+      }
+      const reservation = normalizeReservation({ ...snapshot.data, id: reservationId });
+      if (isCancelled(reservation)) {
+        throw new Error('La reserva ya está cancelada');
+      }
+      // The hold may have been confirmed or extended since it was found expired
+      if (request.reason === 'hold_expired' && (
+        reservation.reservationStatus !== 'hold' ||
+        !reservation.holdExpiresAt ||
+        new Date(reservation.holdExpiresAt).getTime() > Date.now()
+      )) {
+        throw new Error('El bloqueo ya no está vencido');
+      }
+
+      const totalPaid = getTotalPaid(reservation);
+      if (request.refundAmount > totalPaid) {
+        throw new Error(`El reembolso (${request.refundAmount.toLocaleString('es-CL')}) excede lo pagado (${totalPaid.toLocaleString('es-CL')})`);
+      }
+
+      const locks = await readLocks(transaction, reservation);
+      const releasePromoCodeUse = await transferPromoCodeUse(transaction, reservationId, getHeldPromoCode(reservation), undefined);
+
+      const payments = [...(reservation.payments || [])];
+      if (request.refundAmount > 0) {
+        const refund: Payment = {
+          id: Date.now().toString(),
+          type: 'refund',
+          amount: -request.refundAmount,
+          paymentDate: getTodayDate(),
+          method: request.refundMethod || 'transfer',
+          notes: `Reembolso por cancelación (${CANCELLATION_REASONS[request.reason]})`,
+          createdBy: request.cancelledBy.trim(),
+          createdAt: new Date()
+        };
+        payments.push(refund);
+      }
+
+      const cancellation: Cancellation = {
+        reason: request.reason,
+        cancelledAt: new Date().toISOString(),
+        cancelledBy: request.cancelledBy.trim(),
+        fee: request.fee,
+        refundAmount: request.refundAmount,
+        previousReservationStatus: reservation.reservationStatus
+      };
+      if (request.notes?.trim()) {
+        cancellation.notes = request.notes.trim();
+      }
+
+      const netPaid = totalPaid - request.refundAmount;
+
+      const updateData = {
+        reservationStatus: 'cancelled',
+        cancellation,
+        payments,
+        remainingBalance: Math.max(0, request.fee - netPaid),
+        updatedAt: new Date()
+      };
+
+      assertValid(validateReservationUpdate(updateData));
+
+      deleteOwnedLocks(transaction, locks, reservationId);
+      releasePromoCodeUse();
+      transaction.update(reservationId, updateData);
+      recordHistory(transaction, reservationId, 'cancel', diffFields(reservation, updateData), { actor: cancellation.cancelledBy });
+      return { checkIn: reservation.checkIn, checkOut: reservation.checkOut };
+    });
+
+    logger.info('cancellations.cancelReservation.success', { reservationId });
+    await notifyWaitlist(released);
+  } catch (error) {
+    logger.error('cancellations.cancelReservation.error', { reservationId, error: String(error) });
+    throw error;
+  } finally {
+    logger.timeEnd('cancellations.cancelReservation');
+  }
+};
@@ -1,13 +1,14 @@
-import { doc, updateDoc, Timestamp } from 'firebase/firestore';
-import { db } from './firebase';
-import { CheckInOutData, Reservation } from '@/types/reservation';
+import { CheckInOutData } from '@/types/reservation';
 import { logger } from './logger';
+import { updateReservationStatuses, normalizeReservation } from './reservations';
+import { HistoryContext, diffFields, recordHistory } from './reservationHistory';
+import { getReservationRepository } from './repository';
+import { assertValid, validateReservationUpdate } from './schemas';
+import { getCheckInHoldUpdate } from './holds';
 // Removed automatic status calculations to prevent loops
 
-const COLLECTION_NAME = 'reservas';
-
 // Check-in/Check-out functions with automatic status updates
-export const updateCheckInOut = async (data: CheckInOutData): Promise<void> => {
+export const updateCheckInOut = async (data: CheckInOutData, context?: HistoryContext): Promise<void> => {
   logger.info('checkInOut.updateCheckInOut.start', { 
     type: data.type,
     reservationId: data.reservationId 
@@ -15,50 +16,37 @@ export const updateCheckInOut = async (data: CheckInOutData): Promise<void> => {
   logger.time('checkInOut.updateCheckInOut');
 
   try {
-    const docRef = doc(db, COLLECTION_NAME, data.reservationId);
-    
-    // Get current reservation data to calculate new statuses
-    const { getDoc } = await import('firebase/firestore');
-    const reservationDoc = await getDoc(docRef);
-    const currentReservation = reservationDoc.data() as Reservation;
-    
-    if (!currentReservation) {
-      logger.error('checkInOut.updateCheckInOut.reservation.not_found', { 
-        reservationId: data.reservationId 
-      });
-      throw new Error('Reserva no encontrada');
-    }
-    
-    const baseUpdateData = data.type === 'check_in' 
-      ? {
-          actualCheckIn: data.actualDateTime,
-          checkInStatus: 'checked_in',
-          checkInNotes: data.notes || '',
-          updatedAt: Timestamp.now()
-        }
-      : {
-          actualCheckOut: data.actualDateTime,
-          checkOutStatus: 'checked_out',
-          checkOutNotes: data.notes || '',
-          updatedAt: Timestamp.now()
-        };
-    
-    // Calculate new statuses
-    const tempReservation = { ...currentReservation };
-    if (data.type === 'check_in') {
-      tempReservation.checkInStatus = 'checked_in' as const;
-      tempReservation.actualCheckIn = data.actualDateTime;
-    } else {
-      tempReservation.checkOutStatus = 'checked_out' as const;
-      tempReservation.actualCheckOut = data.actualDateTime;
-    }
-    
-    // Keep existing statuses to prevent automatic changes and loops
-    const finalUpdateData = {
-      ...baseUpdateData
-    };
-    
-    await updateDoc(docRef, finalUpdateData);
+    // Read inside the transaction so the history diff and the hold check see the stored document
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(data.reservationId);
+      if (!snapshot) {
+        logger.error('checkInOut.updateCheckInOut.reservation.not_found', { 
+          reservationId: data.reservationId 
+        });
+        throw new Error('Reserva no encontrada');
+      }
+      const currentReservation = normalizeReservation({ ...snapshot.data, id: data.reservationId });
+
+      // Keep existing statuses to prevent automatic changes and loops
+      const finalUpdateData = data.type === 'check_in' 
+        ? {
+            actualCheckIn: data.actualDateTime,
+            checkInStatus: 'checked_in',
+            checkInNotes: data.notes || '',
+            ...getCheckInHoldUpdate(currentReservation),
+            updatedAt: new Date()
+          }
+        : {
+            actualCheckOut: data.actualDateTime,
+            checkOutStatus: 'checked_out',
+            checkOutNotes: data.notes || '',
+            updatedAt: new Date()
+          };
+      assertValid(validateReservationUpdate(finalUpdateData));
+
+      transaction.update(data.reservationId, finalUpdateData);
+      recordHistory(transaction, data.reservationId, data.type, diffFields(currentReservation, finalUpdateData), context);
+    });
 
     logger.info('checkInOut.updateCheckInOut.success', { 
       type: data.type,
@@ -76,14 +64,11 @@ export const updateCheckInOut = async (data: CheckInOutData): Promise<void> => {
   }
 };
 
-export const markNoShow = async (reservationId: string): Promise<void> => {
+export const markNoShow = async (reservationId: string, context?: HistoryContext): Promise<void> => {
   logger.info('checkInOut.markNoShow.start', { reservationId });
   try {
-    const docRef = doc(db, COLLECTION_NAME, reservationId);
-    await updateDoc(docRef, {
-      checkInStatus: 'no_show',
-      updatedAt: Timestamp.now()
-    });
+    // No-show frees the cabin, so its occupancy locks must be released too
+    await updateReservationStatuses(reservationId, { checkInStatus: 'no_show' }, { context });
     logger.info('checkInOut.markNoShow.success', { reservationId });
   } catch (error) {
     logger.error('checkInOut.markNoShow.error', { reservationId, error: String(error) });
@@ -91,13 +76,17 @@ export const markNoShow = async (reservationId: string): Promise<void> => {
   }
 };
 
-export const markLateCheckout = async (reservationId: string): Promise<void> => {
+export const markLateCheckout = async (reservationId: string, context?: HistoryContext): Promise<void> => {
   logger.info('checkInOut.markLateCheckout.start', { reservationId });
   try {
-    const docRef = doc(db, COLLECTION_NAME, reservationId);
-    await updateDoc(docRef, {
+    const updateData = {
       checkOutStatus: 'late_checkout',
-      updatedAt: Timestamp.now()
+      updatedAt: new Date()
+    };
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const current = await transaction.get(reservationId);
+      transaction.update(reservationId, updateData);
+      recordHistory(transaction, reservationId, 'status', diffFields(current?.data || {}, updateData), context);
     });
     logger.info('checkInOut.markLateCheckout.success', { reservationId });
   } catch (error) {
@@ -119,17 +108,22 @@ export const performCheckOut = async (data: CheckInOutData): Promise<void> => {
 export const markConfirmationSent = async (
   reservationId: string, 
   method: 'email' | 'whatsapp' | 'manual',
-  notes?: string
+  notes?: string,
+  context?: HistoryContext
 ): Promise<void> => {
   logger.info('checkInOut.markConfirmationSent.start', { reservationId, method });
   try {
-    const docRef = doc(db, COLLECTION_NAME, reservationId);
-    await updateDoc(docRef, {
+    const updateData = {
       confirmationSent: true,
       confirmationSentDate: new Date().toISOString(),
       confirmationMethod: method,
       ...(notes && { confirmationNotes: notes }),
-      updatedAt: Timestamp.now()
+      updatedAt: new Date()
+    };
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const current = await transaction.get(reservationId);
+      transaction.update(reservationId, updateData);
+      recordHistory(transaction, reservationId, 'confirmation', diffFields(current?.data || {}, updateData), context);
     });
     logger.info('checkInOut.markConfirmationSent.success', { reservationId, method });
   } catch (error) {
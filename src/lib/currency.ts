@@ -0,0 +1,89 @@
+/**
+ * Currencies
+ * Prices and balances are always in CLP, the base currency of every reservation. Guests may
+ * pay in USD or EUR: the payment keeps what they paid and the rate used, and its CLP
+ * equivalent is what counts toward the balance. Rates are maintained by hand in Admin.
+ */
+
+import type { Currency, Payment, PaymentFormData } from '@/types/payment';
+import { ExchangeRates, getExchangeRates } from './adminConfig';
+
+export const BASE_CURRENCY: Currency = 'CLP';
+
+export const CURRENCIES: Currency[] = ['CLP', 'USD', 'EUR'];
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  CLP: 'Peso chileno (CLP)',
+  USD: 'Dólar (USD)',
+  EUR: 'Euro (EUR)',
+};
+
+// CLP per unit of the currency
+export const getExchangeRate = (currency: Currency, rates: ExchangeRates = getExchangeRates()): number => {
+  return currency === BASE_CURRENCY ? 1 : rates[currency];
+};
+
+// CLP has no cents; USD and EUR keep two decimals
+const roundAmount = (amount: number, currency: Currency): number => {
+  return currency === BASE_CURRENCY ? Math.round(amount) : Math.round(amount * 100) / 100;
+};
+
+export const toBaseAmount = (amount: number, exchangeRate: number): number => Math.round(amount * exchangeRate);
+
+/**
+ * CLP counted for a foreign amount toward a balance. The balance shown in USD or EUR is
+ * rounded to the cent, so paying it converts back a few pesos off; an amount within one
+ * cent of the balance settles it exactly instead of leaving (or exceeding) those pesos.
+ */
+export const toSettledBaseAmount = (amount: number, exchangeRate: number, remainingBalance: number): number => {
+  const baseAmount = toBaseAmount(amount, exchangeRate);
+  return amount > 0 && Math.abs(baseAmount - remainingBalance) <= exchangeRate / 100 ? remainingBalance : baseAmount;
+};
+
+export const fromBaseAmount = (amount: number, currency: Currency, exchangeRate: number = getExchangeRate(currency)): number => {
+  return roundAmount(amount / exchangeRate, currency);
+};
+
+export const formatCurrency = (amount: number, currency: Currency = BASE_CURRENCY): string => {
+  return new Intl.NumberFormat('es-CL', {
+    style: 'currency',
+    currency
+  }).format(amount);
+};
+
+/**
+ * Payment ready to store: `amount` is the CLP equivalent of a USD or EUR payment, and CLP
+ * payments carry no currency fields (storage rejects undefined inside the payments list).
+ * With the balance it pays toward, an amount within one cent of it settles it exactly.
+ */
+export const toBasePayment = (payment: PaymentFormData, remainingBalance?: number): PaymentFormData => {
+  const { currency, originalAmount, exchangeRate, ...rest } = payment;
+  if (!currency || currency === BASE_CURRENCY) return rest;
+
+  if (!originalAmount || originalAmount <= 0) {
+    throw new Error('El monto del pago debe ser mayor a 0');
+  }
+  if (!exchangeRate || exchangeRate <= 0) {
+    throw new Error('El tipo de cambio debe ser mayor a 0');
+  }
+  const amount = remainingBalance === undefined
+    ? toBaseAmount(originalAmount, exchangeRate)
+    : toSettledBaseAmount(originalAmount, exchangeRate, remainingBalance);
+  return { ...rest, amount, currency, originalAmount, exchangeRate };
+};
+
+// Part of a payment split among reservations (group payments), with its original amount in proportion
+export const getPaymentShare = (payment: PaymentFormData, amount: number): PaymentFormData => {
+  if (!payment.currency || payment.originalAmount === undefined || payment.amount === 0) {
+    return { ...payment, amount };
+  }
+  return { ...payment, amount, originalAmount: roundAmount(payment.originalAmount * amount / payment.amount, payment.currency) };
+};
+
+// "$95.000" or, for a payment in another currency, "US$100,00 ($95.000)"
+export const formatPaymentAmount = (payment: Pick<Payment, 'amount' | 'currency' | 'originalAmount'>): string => {
+  if (!payment.currency || payment.currency === BASE_CURRENCY || payment.originalAmount === undefined) {
+    return formatCurrency(payment.amount);
+  }
+  return `${formatCurrency(payment.originalAmount, payment.currency)} (${formatCurrency(payment.amount)})`;
+};
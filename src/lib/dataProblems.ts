@@ -0,0 +1,41 @@
+import { logger } from './logger';
+import { validateCabinBlock, validateGroup, validateReferrer, validateReservation, validateWaitlistEntry } from './schemas';
+import { getCabinBlockRepository, getGroupRepository, getReferrerRepository, getReservationRepository, getWaitlistRepository } from './repository';
+import { normalizeReservation } from './reservations';
+import { normalizeReferrer } from './referrers';
+import { normalizeGroup } from './groups';
+import { normalizeWaitlistEntry } from './waitlist';
+import { normalizeCabinBlock } from './cabinBlocks';
+import { DataProblem, clearQuarantine, getQuarantinedDocuments, readValidDocuments } from './quarantine';
+
+// Full scan of every collection for the "Problemas de datos" page; regular reads only quarantine what they touch
+export const scanDataProblems = async (): Promise<DataProblem[]> => {
+  logger.info('dataProblems.scan.start');
+  logger.time('dataProblems.scan');
+
+  try {
+    const [reservations, referrers, groups, waitlist, blocks] = await Promise.all([
+      getReservationRepository().find(),
+      getReferrerRepository().find(),
+      getGroupRepository().find(),
+      getWaitlistRepository().find(),
+      getCabinBlockRepository().find()
+    ]);
+
+    clearQuarantine();
+    readValidDocuments('reservas', reservations, normalizeReservation, validateReservation, 'passengerName');
+    readValidDocuments('referentes', referrers, normalizeReferrer, validateReferrer, 'name');
+    readValidDocuments('grupos', groups, normalizeGroup, validateGroup, 'name');
+    readValidDocuments('lista_espera', waitlist, normalizeWaitlistEntry, validateWaitlistEntry, 'guestName');
+    readValidDocuments('fuera_de_servicio', blocks, normalizeCabinBlock, validateCabinBlock, 'cabinType');
+
+    const problems = getQuarantinedDocuments();
+    logger.info('dataProblems.scan.success', {
+      scanned: reservations.length + referrers.length + groups.length + waitlist.length + blocks.length,
+      problems: problems.length
+    });
+    return problems;
+  } finally {
+    logger.timeEnd('dataProblems.scan');
+  }
+};
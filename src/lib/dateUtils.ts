@@ -96,3 +96,21 @@ export const getDateRange = (startDate: string, endDays: number): string[] => {
   }
   return dates;
 };
+
+// Value for <input type="datetime-local"> (local time, minute precision)
+export const toDateTimeInputValue = (isoDateTime: string): string => {
+  const date = new Date(isoDateTime);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${formatDateToISO(date)}T${hours}:${minutes}`;
+};
+
+export const formatDateTimeForDisplay = (isoDateTime: string): string => {
+  return new Date(isoDateTime).toLocaleString('es-CL', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
@@ -0,0 +1,281 @@
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  doc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  onSnapshot,
+  runTransaction,
+  writeBatch,
+  deleteField,
+  QueryConstraint,
+  QuerySnapshot
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { ReservationHistoryEntry } from '@/types/reservation';
+import { OCCUPANCY_COLLECTION, OccupancyLock } from './occupancyLocks';
+import type {
+  ConfigRepository,
+  ConfigTransaction,
+  GroupRepository,
+  PromoCodeUsage,
+  QueryOptions,
+  ReferrerRepository,
+  Repositories,
+  ReservationRepository,
+  ReservationTransaction,
+  StoredData,
+  StoredDocument
+} from './repository';
+
+const RESERVATIONS_COLLECTION = 'reservas';
+const REFERRERS_COLLECTION = 'referentes';
+const GROUPS_COLLECTION = 'grupos';
+const WAITLIST_COLLECTION = 'lista_espera';
+const BLOCKS_COLLECTION = 'fuera_de_servicio';
+const PROMO_CODE_USAGE_COLLECTION = 'usos_codigos';
+const HISTORY_SUBCOLLECTION = 'historial';
+const CONFIG_COLLECTION = 'configuracion';
+const CONFIG_DOCUMENT = 'admin';
+const CONFIG_VERSIONS_SUBCOLLECTION = 'versiones';
+
+const toStoredDocuments = (snapshot: QuerySnapshot): StoredDocument[] => {
+  return snapshot.docs.map(d => ({ id: d.id, data: d.data() }));
+};
+
+// Firestore rejects undefined: on create it is dropped, on update it removes the field
+const withoutUndefined = (data: StoredData): StoredData => {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+};
+
+const toUpdateData = (data: StoredData): StoredData => {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+  );
+};
+
+const buildConstraints = (options?: QueryOptions): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = (options?.filters || []).map(f => where(f.field, f.op, f.value));
+  if (options?.orderBy) {
+    const direction = options.orderBy.direction || 'asc';
+    constraints.push(orderBy(options.orderBy.field, direction));
+    if (options.startAfter) {
+      // Same direction as the field so the single-field index still serves the query
+      constraints.push(orderBy(documentId(), direction));
+      constraints.push(startAfter(options.startAfter.value, options.startAfter.id));
+    }
+  }
+  if (options?.limit) {
+    constraints.push(limit(options.limit));
+  }
+  return constraints;
+};
+
+const findIn = async (collectionName: string, options?: QueryOptions): Promise<StoredDocument[]> => {
+  const snapshot = await getDocs(query(collection(db, collectionName), ...buildConstraints(options)));
+  return toStoredDocuments(snapshot);
+};
+
+const getFrom = async (collectionName: string, id: string): Promise<StoredDocument | null> => {
+  const snapshot = await getDoc(doc(db, collectionName, id));
+  return snapshot.exists() ? { id: snapshot.id, data: snapshot.data() } : null;
+};
+
+const createReservationRepository = (): ReservationRepository => ({
+  get: (id) => getFrom(RESERVATIONS_COLLECTION, id),
+
+  find: (options) => findIn(RESERVATIONS_COLLECTION, options),
+
+  subscribe: (onChange, onError) => {
+    return onSnapshot(
+      query(collection(db, RESERVATIONS_COLLECTION)),
+      snapshot => onChange(toStoredDocuments(snapshot)),
+      error => onError?.(error)
+    );
+  },
+
+  getHistory: async (reservationId) => {
+    const q = query(
+      collection(db, RESERVATIONS_COLLECTION, reservationId, HISTORY_SUBCOLLECTION),
+      orderBy('timestamp', 'desc')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(entry => ({ ...(entry.data() as ReservationHistoryEntry), id: entry.id }));
+  },
+
+  // Subcollections are not removed with their document; batches stay under Firestore's 500 writes
+  deleteHistory: async (reservationId) => {
+    const snapshot = await getDocs(collection(db, RESERVATIONS_COLLECTION, reservationId, HISTORY_SUBCOLLECTION));
+    for (let start = 0; start < snapshot.docs.length; start += 500) {
+      const batch = writeBatch(db);
+      snapshot.docs.slice(start, start + 500).forEach(entry => batch.delete(entry.ref));
+      await batch.commit();
+    }
+  },
+
+  runTransaction: (work) => runTransaction(db, (firestoreTransaction) => {
+    const transaction: ReservationTransaction = {
+      get: async (id) => {
+        const snapshot = await firestoreTransaction.get(doc(db, RESERVATIONS_COLLECTION, id));
+        return snapshot.exists() ? { id: snapshot.id, data: snapshot.data() } : null;
+      },
+      getLocks: async (lockIds) => {
+        const snapshots = await Promise.all(
+          lockIds.map(lockId => firestoreTransaction.get(doc(db, OCCUPANCY_COLLECTION, lockId)))
+        );
+        const locks = new Map<string, OccupancyLock | null>();
+        snapshots.forEach(snap => {
+          locks.set(snap.id, snap.exists() ? (snap.data() as OccupancyLock) : null);
+        });
+        return locks;
+      },
+      create: (data) => {
+        const docRef = doc(collection(db, RESERVATIONS_COLLECTION));
+        firestoreTransaction.set(docRef, withoutUndefined(data));
+        return docRef.id;
+      },
+      update: (id, data) => {
+        firestoreTransaction.update(doc(db, RESERVATIONS_COLLECTION, id), toUpdateData(data));
+      },
+      delete: (id) => {
+        firestoreTransaction.delete(doc(db, RESERVATIONS_COLLECTION, id));
+      },
+      setLock: (lockId, lock) => {
+        firestoreTransaction.set(doc(db, OCCUPANCY_COLLECTION, lockId), lock);
+      },
+      deleteLock: (lockId) => {
+        firestoreTransaction.delete(doc(db, OCCUPANCY_COLLECTION, lockId));
+      },
+      appendHistory: (reservationId, entry) => {
+        const entryRef = doc(collection(db, RESERVATIONS_COLLECTION, reservationId, HISTORY_SUBCOLLECTION));
+        firestoreTransaction.set(entryRef, entry);
+      },
+      getGroup: async (id) => {
+        const snapshot = await firestoreTransaction.get(doc(db, GROUPS_COLLECTION, id));
+        return snapshot.exists() ? { id: snapshot.id, data: snapshot.data() } : null;
+      },
+      createGroup: (data) => {
+        const docRef = doc(collection(db, GROUPS_COLLECTION));
+        firestoreTransaction.set(docRef, withoutUndefined(data));
+        return docRef.id;
+      },
+      updateGroup: (id, data) => {
+        firestoreTransaction.update(doc(db, GROUPS_COLLECTION, id), toUpdateData(data));
+      },
+      deleteGroup: (id) => {
+        firestoreTransaction.delete(doc(db, GROUPS_COLLECTION, id));
+      },
+      getBlock: async (id) => {
+        const snapshot = await firestoreTransaction.get(doc(db, BLOCKS_COLLECTION, id));
+        return snapshot.exists() ? { id: snapshot.id, data: snapshot.data() } : null;
+      },
+      createBlock: (data) => {
+        const docRef = doc(collection(db, BLOCKS_COLLECTION));
+        firestoreTransaction.set(docRef, withoutUndefined(data));
+        return docRef.id;
+      },
+      updateBlock: (id, data) => {
+        firestoreTransaction.update(doc(db, BLOCKS_COLLECTION, id), toUpdateData(data));
+      },
+      deleteBlock: (id) => {
+        firestoreTransaction.delete(doc(db, BLOCKS_COLLECTION, id));
+      },
+      getPromoCodeUsage: async (code) => {
+        const snapshot = await firestoreTransaction.get(doc(db, PROMO_CODE_USAGE_COLLECTION, code));
+        return snapshot.exists() ? (snapshot.data() as PromoCodeUsage) : null;
+      },
+      setPromoCodeUsage: (code, usage) => {
+        firestoreTransaction.set(doc(db, PROMO_CODE_USAGE_COLLECTION, code), usage);
+      }
+    };
+    return work(transaction);
+  })
+});
+
+// Plain CRUD over one collection (referrers, waitlist)
+const createDocumentRepository = (collectionName: string): ReferrerRepository => ({
+  get: (id) => getFrom(collectionName, id),
+
+  find: (options) => findIn(collectionName, options),
+
+  create: async (data) => {
+    const docRef = await addDoc(collection(db, collectionName), withoutUndefined(data));
+    return docRef.id;
+  },
+
+  update: async (id, data) => {
+    await updateDoc(doc(db, collectionName, id), toUpdateData(data));
+  },
+
+  delete: async (id) => {
+    await deleteDoc(doc(db, collectionName, id));
+  }
+});
+
+// configuracion/admin holds the current configuration, versiones/{revision} every saved one
+const createConfigRepository = (): ConfigRepository => {
+  const currentRef = doc(db, CONFIG_COLLECTION, CONFIG_DOCUMENT);
+  const versionsRef = collection(db, CONFIG_COLLECTION, CONFIG_DOCUMENT, CONFIG_VERSIONS_SUBCOLLECTION);
+
+  return {
+    getCurrent: async () => {
+      const snapshot = await getDoc(currentRef);
+      return snapshot.exists() ? snapshot.data() : null;
+    },
+
+    subscribe: (onChange, onError) => {
+      return onSnapshot(
+        currentRef,
+        snapshot => onChange(snapshot.exists() ? snapshot.data() : null),
+        error => onError?.(error)
+      );
+    },
+
+    getVersions: async (max) => {
+      const constraints: QueryConstraint[] = [orderBy('revision', 'desc')];
+      if (max) constraints.push(limit(max));
+      const snapshot = await getDocs(query(versionsRef, ...constraints));
+      return toStoredDocuments(snapshot);
+    },
+
+    runTransaction: (work) => runTransaction(db, (firestoreTransaction) => {
+      const transaction: ConfigTransaction = {
+        getCurrent: async () => {
+          const snapshot = await firestoreTransaction.get(currentRef);
+          return snapshot.exists() ? snapshot.data() : null;
+        },
+        setCurrent: (data) => {
+          firestoreTransaction.set(currentRef, withoutUndefined(data));
+        },
+        addVersion: (data) => {
+          firestoreTransaction.set(doc(versionsRef, String(data.revision)), withoutUndefined(data));
+        }
+      };
+      return work(transaction);
+    })
+  };
+};
+
+// Read side of the collections written by reservation transactions (groups, blocks)
+const createReadRepository = (collectionName: string): GroupRepository => ({
+  get: (id) => getFrom(collectionName, id),
+
+  find: (options) => findIn(collectionName, options)
+});
+
+export const createFirestoreRepositories = (): Repositories => ({
+  reservations: createReservationRepository(),
+  referrers: createDocumentRepository(REFERRERS_COLLECTION),
+  groups: createReadRepository(GROUPS_COLLECTION),
+  waitlist: createDocumentRepository(WAITLIST_COLLECTION),
+  blocks: createReadRepository(BLOCKS_COLLECTION),
+  config: createConfigRepository()
+});
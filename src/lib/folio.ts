@@ -0,0 +1,118 @@
+/**
+ * Folio
+ * Everything a reservation charges: the stay (automatic price with its discounts, or a custom
+ * price) plus the add-ons sold with it. An add-on keeps the price the catalog had when it was
+ * added; its total follows the nights and guests of the stay, so editing the dates or the
+ * party updates it. Pricing rules only discount the stay, never the add-ons.
+ */
+
+import { AddOnUnit, Reservation, ReservationAddOn, ReservationFormData } from '@/types/reservation';
+import type { AddOn } from './adminConfig';
+import { calculateNights } from './dateUtils';
+
+export const ADD_ON_UNIT_LABELS: Record<AddOnUnit, string> = {
+  per_stay: 'Por estadía',
+  per_night: 'Por noche',
+  per_person: 'Por persona',
+  per_person_night: 'Por persona por noche',
+};
+
+type AddOnStay = Pick<ReservationFormData, 'checkIn' | 'checkOut' | 'adults' | 'children'>;
+
+// One line of the folio, in the order it is printed
+export interface FolioLine {
+  type: 'stay' | 'adjustment' | 'tax_exemption' | 'add_on';
+  description: string;
+  detail?: string;
+  amount: number;
+}
+
+// Times the unit price is charged for one of the add-on; babies don't count as guests
+export const getAddOnUnits = (unit: AddOnUnit, stay: AddOnStay): number => {
+  const nights = stay.checkIn && stay.checkOut ? Math.max(1, calculateNights(stay.checkIn, stay.checkOut)) : 1;
+  const guests = Math.max(1, stay.adults + (stay.children || 0));
+  switch (unit) {
+    case 'per_night':
+      return nights;
+    case 'per_person':
+      return guests;
+    case 'per_person_night':
+      return nights * guests;
+    default:
+      return 1;
+  }
+};
+
+export const calculateAddOnTotal = (
+  addOn: Pick<ReservationAddOn, 'unit' | 'unitPrice' | 'quantity'>,
+  stay: AddOnStay
+): number => {
+  return Math.round(addOn.unitPrice * addOn.quantity * getAddOnUnits(addOn.unit, stay));
+};
+
+// New line for a catalog add-on, at its current price (unique even when added twice in a row)
+export const createReservationAddOn = (addOn: AddOn, stay: AddOnStay, quantity: number = 1): ReservationAddOn => {
+  const line = {
+    id: `${addOn.id}-${crypto.randomUUID()}`,
+    addOnId: addOn.id,
+    name: addOn.name,
+    unit: addOn.unit,
+    unitPrice: addOn.price,
+    quantity,
+    taxable: addOn.taxable,
+  };
+  return { ...line, total: calculateAddOnTotal(line, stay) };
+};
+
+// Lines with their totals recalculated for the stay
+export const priceAddOns = (addOns: ReservationAddOn[], stay: AddOnStay): ReservationAddOn[] => {
+  return addOns.map(addOn => ({ ...addOn, total: calculateAddOnTotal(addOn, stay) }));
+};
+
+export const sumAddOns = (addOns: ReservationAddOn[] = []): number => {
+  return addOns.reduce((total, addOn) => total + addOn.total, 0);
+};
+
+// "2 × $8.000 por persona por noche"
+export const describeAddOn = (addOn: Pick<ReservationAddOn, 'unit' | 'unitPrice' | 'quantity'>): string => {
+  return `${addOn.quantity} × $${addOn.unitPrice.toLocaleString('es-CL')} ${ADD_ON_UNIT_LABELS[addOn.unit].toLowerCase()}`;
+};
+
+/**
+ * Itemized folio: the stay before discounts, each discount, the IVA waived on an exempt stay
+ * and each add-on. The lines add up to totalPrice; the stay line of custom prices and stays
+ * priced before discounts existed is whatever the add-ons leave of the total.
+ */
+export const getFolioLines = (
+  reservation: Pick<Reservation, 'totalPrice' | 'grossPrice' | 'priceAdjustments' | 'addOns' | 'taxes' | 'useCustomPrice'>
+): FolioLine[] => {
+  const addOns = reservation.addOns || [];
+  const adjustments = reservation.priceAdjustments || [];
+  const waivedIva = reservation.taxes?.waivedIva || 0;
+  const stayPrice = reservation.grossPrice ?? reservation.totalPrice - sumAddOns(addOns) + waivedIva;
+
+  return [
+    {
+      type: 'stay',
+      description: 'Alojamiento',
+      ...(reservation.useCustomPrice ? { detail: 'Precio personalizado' } : {}),
+      amount: stayPrice,
+    },
+    ...adjustments.map((adjustment): FolioLine => ({
+      type: 'adjustment',
+      description: adjustment.code ? `${adjustment.name} (${adjustment.code})` : adjustment.name,
+      amount: adjustment.amount,
+    })),
+    ...(waivedIva > 0 ? [{
+      type: 'tax_exemption' as const,
+      description: 'Exención de IVA (turista extranjero)',
+      amount: -waivedIva,
+    }] : []),
+    ...addOns.map((addOn): FolioLine => ({
+      type: 'add_on',
+      description: addOn.name,
+      detail: describeAddOn(addOn),
+      amount: addOn.total,
+    })),
+  ];
+};
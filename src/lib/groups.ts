@@ -0,0 +1,494 @@
+import {
+  GroupLedgerEntry,
+  GroupPaymentAllocation,
+  GroupSummary,
+  ReservationGroup,
+  ReservationGroupFormData
+} from '@/types/group';
+import { Payment, PaymentFormData } from '@/types/payment';
+import { Reservation } from '@/types/reservation';
+import { logger } from './logger';
+import { calculateAmountDue, calculateRemainingBalance } from './pricing';
+import { getReservationById, normalizeReservation } from './reservations';
+import { isCancelled } from './cancellations';
+import { isTrashed } from './trash';
+import { getCheckInHoldUpdate } from './holds';
+import { HistoryContext, diffFields, recordHistory } from './reservationHistory';
+import { getGroupRepository, getReservationRepository } from './repository';
+import type { ReservationTransaction, StoredData } from './repository';
+import {
+  assertValid,
+  formatSchemaIssues,
+  validateGroup,
+  validateGroupUpdate,
+  validatePayment,
+  validateReservationUpdate
+} from './schemas';
+import { quarantineDocument, releaseDocument } from './quarantine';
+import { getPaymentShare, toBasePayment } from './currency';
+
+/**
+ * Group bookings: several cabin reservations under one lead guest.
+ * The group document (`grupos`) only links the members; prices and payments stay on
+ * each reservation so availability, reports and referrers keep working unchanged.
+ * A payment made for the whole group is split across the members' balances and each
+ * share carries the same `groupPaymentId`, which is how the shared ledger is rebuilt.
+ */
+
+export const MIN_GROUP_SIZE = 2;
+
+type StoredDate = Date | { toDate: () => Date } | undefined;
+
+const toDate = (value: StoredDate): Date | undefined => {
+  if (!value) return undefined;
+  return value instanceof Date ? value : value.toDate();
+};
+
+export const normalizeGroup = (raw: Record<string, unknown>): ReservationGroup => {
+  const data = raw as Partial<Record<keyof ReservationGroupFormData | 'id', string>> & {
+    reservationIds?: string[];
+    createdAt?: StoredDate;
+    updatedAt?: StoredDate;
+  };
+  return {
+    id: data.id,
+    name: data.name || '',
+    leadGuestName: data.leadGuestName || '',
+    leadGuestPhone: data.leadGuestPhone || '',
+    leadGuestEmail: data.leadGuestEmail || '',
+    reservationIds: data.reservationIds || [],
+    notes: data.notes || '',
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+};
+
+const byStay = (a: Reservation, b: Reservation): number => {
+  return a.checkIn.localeCompare(b.checkIn) || a.cabinType.localeCompare(b.cabinType);
+};
+
+export const getGroupById = async (id: string): Promise<ReservationGroup | null> => {
+  const document = await getGroupRepository().get(id);
+  if (!document) return null;
+
+  const group = normalizeGroup({ ...document.data, id: document.id });
+  const issues = validateGroup(group);
+  if (issues.length > 0) {
+    quarantineDocument('grupos', id, group.name || 'Sin nombre', issues);
+    throw new Error(`El grupo tiene datos inválidos — ${formatSchemaIssues(issues)}`);
+  }
+  releaseDocument('grupos', id);
+  return group;
+};
+
+// Trashed or purged members are skipped; they stay in reservationIds so a restore brings them back
+export const getGroupMembers = async (group: ReservationGroup): Promise<Reservation[]> => {
+  const members = await Promise.all(group.reservationIds.map(async (id) => {
+    try {
+      return await getReservationById(id);
+    } catch (error) {
+      // Invalid members are already quarantined and listed in "Problemas de datos"
+      logger.warn('groups.getGroupMembers.member.invalid', { groupId: group.id, id, error: String(error) });
+      return null;
+    }
+  }));
+  return members
+    .filter((member): member is Reservation => member !== null && !isTrashed(member))
+    .sort(byStay);
+};
+
+// Combined price and balance, plus every payment of the members merged into one ledger
+export const summarizeGroup = (members: Reservation[]): GroupSummary => {
+  const ledger = new Map<string, GroupLedgerEntry>();
+
+  members.forEach(member => {
+    (member.payments || []).forEach(payment => {
+      const key = payment.groupPaymentId || `${member.id}:${payment.id}`;
+      const allocation: GroupPaymentAllocation = {
+        reservationId: member.id!,
+        passengerName: member.passengerName,
+        cabinType: member.cabinType,
+        amount: payment.amount
+      };
+      const entry = ledger.get(key);
+      if (entry) {
+        entry.amount += payment.amount;
+        entry.allocations.push(allocation);
+        return;
+      }
+      ledger.set(key, {
+        id: key,
+        amount: payment.amount,
+        type: payment.type,
+        paymentDate: payment.paymentDate,
+        method: payment.method,
+        notes: payment.notes,
+        createdBy: payment.createdBy,
+        allocations: [allocation]
+      });
+    });
+  });
+
+  const totalPrice = members.reduce((sum, member) => sum + calculateAmountDue(member), 0);
+  const totalPaid = members.reduce(
+    (sum, member) => sum + (member.payments || []).reduce((paid, payment) => paid + payment.amount, 0),
+    0
+  );
+
+  return {
+    totalPrice,
+    totalPaid,
+    remainingBalance: members.reduce((sum, member) => sum + calculateRemainingBalance(member), 0),
+    ledger: Array.from(ledger.values()).sort((a, b) => b.paymentDate.localeCompare(a.paymentDate))
+  };
+};
+
+// Splits a group payment in proportion to what each member still owes; rounding pesos go to the earliest stays
+export const allocateGroupPayment = (members: Reservation[], amount: number): GroupPaymentAllocation[] => {
+  const owing = [...members]
+    .sort(byStay)
+    .map(member => ({ member, balance: calculateRemainingBalance(member) }))
+    .filter(({ balance }) => balance > 0);
+  const totalBalance = owing.reduce((sum, { balance }) => sum + balance, 0);
+  if (totalBalance === 0) return [];
+
+  const payable = Math.min(amount, totalBalance);
+  const shares = owing.map(({ balance }) => Math.floor((payable * balance) / totalBalance));
+  let left = payable - shares.reduce((sum, share) => sum + share, 0);
+  owing.forEach(({ balance }, index) => {
+    const extra = Math.min(left, balance - shares[index]);
+    shares[index] += extra;
+    left -= extra;
+  });
+
+  return owing
+    .map(({ member }, index) => ({
+      reservationId: member.id!,
+      passengerName: member.passengerName,
+      cabinType: member.cabinType,
+      amount: shares[index]
+    }))
+    .filter(allocation => allocation.amount > 0);
+};
+
+const readGroup = async (transaction: ReservationTransaction, groupId: string): Promise<ReservationGroup> => {
+  const snapshot = await transaction.getGroup(groupId);
+  if (!snapshot) {
+    throw new Error('Grupo no encontrado');
+  }
+  return normalizeGroup({ ...snapshot.data, id: snapshot.id });
+};
+
+const readMembers = async (transaction: ReservationTransaction, ids: string[]): Promise<Reservation[]> => {
+  const snapshots = await Promise.all(ids.map(id => transaction.get(id)));
+  return snapshots
+    .filter((snapshot): snapshot is NonNullable<typeof snapshot> => snapshot !== null)
+    .map(snapshot => normalizeReservation({ ...snapshot.data, id: snapshot.id }))
+    .filter(member => !isTrashed(member))
+    .sort(byStay);
+};
+
+// New members must be live, not cancelled and not already in a group
+const requireJoinable = (reservation: Reservation | undefined, groupId?: string): Reservation => {
+  if (!reservation) {
+    throw new Error('Reserva no encontrada');
+  }
+  if (isCancelled(reservation)) {
+    throw new Error(`La reserva de ${reservation.passengerName} está cancelada`);
+  }
+  if (reservation.groupId && reservation.groupId !== groupId) {
+    throw new Error(`La reserva de ${reservation.passengerName} ya pertenece al grupo "${reservation.groupName || reservation.groupId}"`);
+  }
+  return reservation;
+};
+
+const writeMembership = (
+  transaction: ReservationTransaction,
+  member: Reservation,
+  group: { id?: string; name?: string },
+  context?: HistoryContext
+): void => {
+  const updateData: StoredData = {
+    groupId: group.id,
+    groupName: group.name,
+    updatedAt: new Date()
+  };
+  transaction.update(member.id!, updateData);
+  recordHistory(transaction, member.id!, 'group', diffFields(member, updateData), context);
+};
+
+const toGroupData = (data: ReservationGroupFormData): ReservationGroupFormData => ({
+  name: data.name.trim(),
+  leadGuestName: data.leadGuestName.trim(),
+  leadGuestPhone: data.leadGuestPhone || '',
+  leadGuestEmail: data.leadGuestEmail || '',
+  notes: data.notes || ''
+});
+
+export const createGroup = async (
+  data: ReservationGroupFormData,
+  reservationIds: string[],
+  context?: HistoryContext
+): Promise<string> => {
+  logger.info('groups.createGroup.start', { size: reservationIds.length });
+
+  const ids = Array.from(new Set(reservationIds));
+  if (ids.length < MIN_GROUP_SIZE) {
+    throw new Error('Un grupo necesita al menos dos reservas');
+  }
+  const groupData = {
+    ...toGroupData(data),
+    reservationIds: ids,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+  assertValid(validateGroup(groupData));
+
+  try {
+    const groupId = await getReservationRepository().runTransaction(async (transaction) => {
+      const members = await readMembers(transaction, ids);
+      ids.forEach(id => requireJoinable(members.find(member => member.id === id)));
+
+      const id = transaction.createGroup(groupData);
+      members.forEach(member => writeMembership(transaction, member, { id, name: groupData.name }, context));
+      return id;
+    });
+    logger.info('groups.createGroup.success', { groupId, size: ids.length });
+    return groupId;
+  } catch (error) {
+    logger.error('groups.createGroup.error', { error: String(error) });
+    throw error;
+  }
+};
+
+export const updateGroupDetails = async (
+  groupId: string,
+  data: ReservationGroupFormData,
+  context?: HistoryContext
+): Promise<void> => {
+  logger.info('groups.updateGroupDetails.start', { groupId });
+  const groupData = { ...toGroupData(data), updatedAt: new Date() };
+  assertValid(validateGroupUpdate(groupData));
+
+  try {
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const group = await readGroup(transaction, groupId);
+      const members = await readMembers(transaction, group.reservationIds);
+      transaction.updateGroup(groupId, groupData);
+      // Members keep a copy of the name for the list and the timeline
+      if (group.name !== groupData.name) {
+        members.forEach(member => writeMembership(transaction, member, { id: groupId, name: groupData.name }, context));
+      }
+    });
+    logger.info('groups.updateGroupDetails.success', { groupId });
+  } catch (error) {
+    logger.error('groups.updateGroupDetails.error', { groupId, error: String(error) });
+    throw error;
+  }
+};
+
+export const addReservationToGroup = async (
+  groupId: string,
+  reservationId: string,
+  context?: HistoryContext
+): Promise<void> => {
+  logger.info('groups.addReservationToGroup.start', { groupId, reservationId });
+  try {
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const group = await readGroup(transaction, groupId);
+      const [found] = await readMembers(transaction, [reservationId]);
+      const reservation = requireJoinable(found, groupId);
+      if (group.reservationIds.includes(reservationId)) return;
+
+      transaction.updateGroup(groupId, {
+        reservationIds: [...group.reservationIds, reservationId],
+        updatedAt: new Date()
+      });
+      writeMembership(transaction, reservation, group, context);
+    });
+    logger.info('groups.addReservationToGroup.success', { groupId, reservationId });
+  } catch (error) {
+    logger.error('groups.addReservationToGroup.error', { groupId, reservationId, error: String(error) });
+    throw error;
+  }
+};
+
+// Payments already split onto the reservation stay with it
+export const removeReservationFromGroup = async (
+  groupId: string,
+  reservationId: string,
+  context?: HistoryContext
+): Promise<void> => {
+  logger.info('groups.removeReservationFromGroup.start', { groupId, reservationId });
+  try {
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const group = await readGroup(transaction, groupId);
+      const [reservation] = await readMembers(transaction, [reservationId]);
+      const remaining = group.reservationIds.filter(id => id !== reservationId);
+      if (remaining.length < MIN_GROUP_SIZE) {
+        throw new Error('Un grupo necesita al menos dos reservas; para deshacerlo usa "Desagrupar"');
+      }
+
+      transaction.updateGroup(groupId, { reservationIds: remaining, updatedAt: new Date() });
+      if (reservation) {
+        writeMembership(transaction, reservation, {}, context);
+      }
+    });
+    logger.info('groups.removeReservationFromGroup.success', { groupId, reservationId });
+  } catch (error) {
+    logger.error('groups.removeReservationFromGroup.error', { groupId, reservationId, error: String(error) });
+    throw error;
+  }
+};
+
+// Deletes the group; the reservations and their payments are kept as individual bookings
+export const dissolveGroup = async (groupId: string, context?: HistoryContext): Promise<void> => {
+  logger.info('groups.dissolveGroup.start', { groupId });
+  try {
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const group = await readGroup(transaction, groupId);
+      const members = await readMembers(transaction, group.reservationIds);
+      members
+        .filter(member => member.groupId === groupId)
+        .forEach(member => writeMembership(transaction, member, {}, context));
+      transaction.deleteGroup(groupId);
+    });
+    logger.info('groups.dissolveGroup.success', { groupId });
+  } catch (error) {
+    logger.error('groups.dissolveGroup.error', { groupId, error: String(error) });
+    throw error;
+  }
+};
+
+// One payment for the whole group, booked as shares on the members in a single transaction
+export const addGroupPayment = async (
+  groupId: string,
+  formData: PaymentFormData,
+  context?: HistoryContext
+): Promise<GroupPaymentAllocation[]> => {
+  logger.info('groups.addGroupPayment.start', { groupId, amount: formData.amount, currency: formData.currency, method: formData.method });
+  logger.time('groups.addGroupPayment');
+
+  try {
+    if (toBasePayment(formData).amount <= 0) {
+      throw new Error('El monto del pago debe ser mayor a 0');
+    }
+
+    const allocations = await getReservationRepository().runTransaction(async (transaction) => {
+      const group = await readGroup(transaction, groupId);
+      const members = await readMembers(transaction, group.reservationIds);
+
+      const balance = members.reduce((sum, member) => sum + calculateRemainingBalance(member), 0);
+      const paymentData = toBasePayment(formData, balance);
+      if (paymentData.amount > balance) {
+        throw new Error(`El monto del pago (${paymentData.amount.toLocaleString('es-CL')}) excede el balance pendiente del grupo (${balance.toLocaleString('es-CL')})`);
+      }
+
+      const groupPaymentId = Date.now().toString();
+      const shares = allocateGroupPayment(members, paymentData.amount);
+      shares.forEach((share, index) => {
+        const member = members.find(m => m.id === share.reservationId)!;
+        const payment: Payment = {
+          ...getPaymentShare(paymentData, share.amount),
+          id: `${groupPaymentId}-${index}`,
+          groupPaymentId,
+          createdAt: new Date()
+        };
+        assertValid(validatePayment(payment));
+
+        const payments = [...(member.payments || []), payment];
+        const updateData = {
+          payments,
+          remainingBalance: calculateRemainingBalance({ ...member, payments }),
+          updatedAt: new Date()
+        };
+        transaction.update(member.id!, updateData);
+        recordHistory(transaction, member.id!, 'payment', diffFields(member, updateData), {
+          actor: paymentData.createdBy,
+          ...context
+        });
+      });
+      return shares;
+    });
+
+    logger.info('groups.addGroupPayment.success', { groupId, shares: allocations.length });
+    return allocations;
+  } catch (error) {
+    logger.error('groups.addGroupPayment.error', { groupId, error: String(error) });
+    throw error;
+  } finally {
+    logger.timeEnd('groups.addGroupPayment');
+  }
+};
+
+// Marks the confirmation as sent on every live member that does not have it yet
+export const confirmGroup = async (
+  groupId: string,
+  method: 'email' | 'whatsapp' | 'manual',
+  notes?: string,
+  context?: HistoryContext
+): Promise<number> => {
+  logger.info('groups.confirmGroup.start', { groupId, method });
+  try {
+    const confirmed = await getReservationRepository().runTransaction(async (transaction) => {
+      const group = await readGroup(transaction, groupId);
+      const members = await readMembers(transaction, group.reservationIds);
+      const pending = members.filter(member => !isCancelled(member) && !member.confirmationSent);
+
+      pending.forEach(member => {
+        const updateData = {
+          confirmationSent: true,
+          confirmationSentDate: new Date().toISOString(),
+          confirmationMethod: method,
+          ...(notes && { confirmationNotes: notes }),
+          updatedAt: new Date()
+        };
+        transaction.update(member.id!, updateData);
+        recordHistory(transaction, member.id!, 'confirmation', diffFields(member, updateData), context);
+      });
+      return pending.length;
+    });
+    logger.info('groups.confirmGroup.success', { groupId, confirmed });
+    return confirmed;
+  } catch (error) {
+    logger.error('groups.confirmGroup.error', { groupId, method, error: String(error) });
+    throw error;
+  }
+};
+
+// Checks in every live member still pending arrival (no-shows and cancelled stays are left out)
+export const checkInGroup = async (
+  groupId: string,
+  actualDateTime: string,
+  notes?: string,
+  context?: HistoryContext
+): Promise<number> => {
+  logger.info('groups.checkInGroup.start', { groupId });
+  const updateData = {
+    actualCheckIn: actualDateTime,
+    checkInStatus: 'checked_in',
+    checkInNotes: notes || '',
+    updatedAt: new Date()
+  };
+  assertValid(validateReservationUpdate(updateData));
+
+  try {
+    const checkedIn = await getReservationRepository().runTransaction(async (transaction) => {
+      const group = await readGroup(transaction, groupId);
+      const members = await readMembers(transaction, group.reservationIds);
+      const pending = members.filter(member => !isCancelled(member) && (member.checkInStatus || 'pending') === 'pending');
+
+      pending.forEach(member => {
+        const memberUpdate = { ...updateData, ...getCheckInHoldUpdate(member) };
+        transaction.update(member.id!, memberUpdate);
+        recordHistory(transaction, member.id!, 'check_in', diffFields(member, memberUpdate), context);
+      });
+      return pending.length;
+    });
+    logger.info('groups.checkInGroup.success', { groupId, checkedIn });
+    return checkedIn;
+  } catch (error) {
+    logger.error('groups.checkInGroup.error', { groupId, error: String(error) });
+    throw error;
+  }
+};
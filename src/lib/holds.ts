@@ -0,0 +1,156 @@
+import { CabinType, Reservation } from '@/types/reservation';
+import { WaitlistEntry } from '@/types/waitlist';
+import { logger } from './logger';
+import { formatDateTimeForDisplay } from './dateUtils';
+import { determineSeason, getHoldConfig } from './adminConfig';
+import { createReservation, getHolds, getReservationById, updateReservationStatuses } from './reservations';
+import { markWaitlistEntryBooked } from './waitlist';
+import { cancelReservation, getTotalPaid } from './cancellations';
+import { HistoryContext } from './reservationHistory';
+
+/**
+ * Tentative holds
+ * Dates promised to an inquiry while the deposit is pending. A hold occupies the cabin
+ * like any reservation until holdExpiresAt; then it is cancelled as 'hold_expired' the
+ * next time the app loads or syncs, which releases its occupancy locks. Checking a hold in
+ * turns it into a stay, so a guest already in the cabin is never released.
+ */
+
+// Actor recorded in the history of holds released automatically
+export const HOLD_RELEASE_ACTOR = 'Sistema';
+
+export const isHold = (reservation: Pick<Reservation, 'reservationStatus'>): boolean => {
+  return reservation.reservationStatus === 'hold';
+};
+
+export const isHoldExpired = (
+  reservation: Pick<Reservation, 'reservationStatus' | 'holdExpiresAt'>,
+  now: Date = new Date()
+): boolean => {
+  if (!isHold(reservation) || !reservation.holdExpiresAt) return false;
+  return new Date(reservation.holdExpiresAt).getTime() <= now.getTime();
+};
+
+// Checking in a hold makes it a stay that no longer expires
+export const getCheckInHoldUpdate = (
+  reservation: Pick<Reservation, 'reservationStatus'>
+): Partial<Pick<Reservation, 'reservationStatus' | 'holdExpiresAt'>> => {
+  return isHold(reservation) ? { reservationStatus: 'in_stay', holdExpiresAt: undefined } : {};
+};
+
+// Expiry for a hold placed now, using the duration configured in Admin
+export const getDefaultHoldExpiry = (from: Date = new Date()): string => {
+  const hours = getHoldConfig().defaultHours;
+  return new Date(from.getTime() + hours * 60 * 60 * 1000).toISOString();
+};
+
+// "48h" / "3h" / "20 min" left before the hold is released
+export const formatHoldTimeLeft = (holdExpiresAt: string, now: Date = new Date()): string => {
+  const minutes = Math.max(0, Math.round((new Date(holdExpiresAt).getTime() - now.getTime()) / 60000));
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h` : `${minutes} min`;
+};
+
+/**
+ * Cancels every expired hold. A hold that already received a payment or whose guest is
+ * already in the cabin is confirmed instead: the deposit arrived, so the booking is kept
+ * as a regular one rather than dropped or left blocking as a hold.
+ * Returns how many holds were released or confirmed.
+ */
+export const releaseExpiredHolds = async (now: Date = new Date()): Promise<number> => {
+  logger.info('holds.releaseExpiredHolds.start');
+
+  try {
+    const expired = (await getHolds()).filter(reservation => isHoldExpired(reservation, now));
+    let released = 0;
+    let confirmed = 0;
+
+    for (const reservation of expired) {
+      if (getTotalPaid(reservation) > 0 || (reservation.checkInStatus || 'pending') !== 'pending') {
+        try {
+          await confirmHold(reservation, { actor: HOLD_RELEASE_ACTOR });
+          confirmed++;
+        } catch (error) {
+          logger.warn('holds.releaseExpiredHolds.confirm.failed', { id: reservation.id, error: String(error) });
+        }
+        continue;
+      }
+      try {
+        await cancelReservation(reservation.id!, {
+          reason: 'hold_expired',
+          notes: `Bloqueo vencido el ${formatDateTimeForDisplay(reservation.holdExpiresAt!)}`,
+          cancelledBy: HOLD_RELEASE_ACTOR,
+          fee: 0,
+          refundAmount: 0
+        });
+        released++;
+      } catch (error) {
+        // Another device may have released or confirmed it in the meantime
+        logger.warn('holds.releaseExpiredHolds.failed', { id: reservation.id, error: String(error) });
+      }
+    }
+
+    logger.info('holds.releaseExpiredHolds.success', { expired: expired.length, released, confirmed });
+    return released + confirmed;
+  } catch (error) {
+    logger.error('holds.releaseExpiredHolds.error', { error: String(error) });
+    throw error;
+  }
+};
+
+// Turns a hold into a regular booking; guest, dates, price and payments are kept
+export const confirmHold = async (reservation: Reservation, context?: HistoryContext): Promise<void> => {
+  logger.info('holds.confirmHold.start', { id: reservation.id });
+
+  // Re-read: the hold may have been released on another device since it was listed
+  const current = await getReservationById(reservation.id!);
+  if (!current || !isHold(current)) {
+    throw new Error(current?.cancellation?.reason === 'hold_expired'
+      ? 'El bloqueo ya venció y la cabaña fue liberada'
+      : 'La reserva no es un bloqueo tentativo');
+  }
+
+  // A hold checked in before it was confirmed is already a stay
+  const reservationStatus = current.checkOutStatus === 'checked_out'
+    ? 'checked_out'
+    : current.checkInStatus === 'checked_in' ? 'in_stay' : 'pending_checkin';
+  await updateReservationStatuses(
+    current.id!,
+    { reservationStatus },
+    { previousReservation: current, context }
+  );
+
+  logger.info('holds.confirmHold.success', { id: reservation.id });
+};
+
+// Books a waitlist offer as a hold, so the cabin is kept while the guest is contacted
+export const holdWaitlistOffer = async (
+  entry: WaitlistEntry,
+  cabinType: CabinType,
+  context?: HistoryContext
+): Promise<string> => {
+  logger.info('holds.holdWaitlistOffer.start', { entryId: entry.id, cabinType });
+
+  const reservationId = await createReservation({
+    passengerName: entry.guestName,
+    phone: entry.phone,
+    email: entry.email,
+    checkIn: entry.checkIn,
+    checkOut: entry.checkOut,
+    adults: entry.adults,
+    children: entry.children,
+    babies: entry.babies,
+    season: determineSeason(entry.checkIn),
+    cabinType,
+    arrivalFlight: '',
+    departureFlight: '',
+    useCustomPrice: false,
+    comments: entry.notes ? `Lista de espera: ${entry.notes}` : 'Desde lista de espera',
+    reservationSource: 'manual',
+    reservationStatus: 'hold',
+    holdExpiresAt: getDefaultHoldExpiry()
+  }, context);
+  await markWaitlistEntryBooked(entry.id!, reservationId);
+
+  logger.info('holds.holdWaitlistOffer.success', { entryId: entry.id, reservationId });
+  return reservationId;
+};
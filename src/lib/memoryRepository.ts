@@ -0,0 +1,411 @@
+import { ReservationHistoryEntry } from '@/types/reservation';
+import { OccupancyLock } from './occupancyLocks';
+import type {
+  ConfigRepository,
+  ConfigTransaction,
+  GroupRepository,
+  PromoCodeUsage,
+  QueryFilter,
+  QueryOptions,
+  ReferrerRepository,
+  Repositories,
+  ReservationRepository,
+  ReservationTransaction,
+  StoredData,
+  StoredDocument
+} from './repository';
+
+/**
+ * In-memory implementation of the repositories.
+ * Mirrors the Firestore behaviour the business rules rely on: query semantics,
+ * transactions that apply all writes at once, reads-before-writes, the 500-write limit and
+ * serialized transactions (so concurrent bookings still conflict on locks).
+ */
+
+const MAX_TRANSACTION_WRITES = 500;
+
+export interface MemorySeed {
+  reservations?: StoredDocument[];
+  referrers?: StoredDocument[];
+  groups?: StoredDocument[];
+  waitlist?: StoredDocument[];
+  blocks?: StoredDocument[];
+  locks?: Array<{ id: string; lock: OccupancyLock }>;
+  config?: StoredData;
+}
+
+let idCounter = 0;
+const generateId = (prefix: string): string => `${prefix}_${Date.now().toString(36)}_${(idCounter++).toString(36)}`;
+
+// Copies so callers never mutate the stored state
+const clone = <T>(value: T): T => structuredClone(value);
+
+const compare = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  return (a as string | number) < (b as string | number) ? -1 : 1;
+};
+
+const matchesFilter = (data: StoredData, filter: QueryFilter): boolean => {
+  const value = data[filter.field];
+  // Firestore never matches documents that lack the filtered field
+  if (value === undefined || value === null) return false;
+  if (filter.op === 'array-contains') {
+    return Array.isArray(value) && value.includes(filter.value);
+  }
+  const result = compare(value, filter.value);
+  switch (filter.op) {
+    case '==': return result === 0;
+    case '<': return result < 0;
+    case '<=': return result <= 0;
+    case '>': return result > 0;
+    case '>=': return result >= 0;
+  }
+};
+
+const runQuery = (store: Map<string, StoredData>, options?: QueryOptions): StoredDocument[] => {
+  let documents = Array.from(store.entries())
+    .map(([id, data]) => ({ id, data: clone(data) }))
+    .filter(d => (options?.filters || []).every(f => matchesFilter(d.data, f)));
+
+  if (options?.orderBy) {
+    const { field, direction = 'asc' } = options.orderBy;
+    const sign = direction === 'desc' ? -1 : 1;
+    documents = documents
+      .filter(d => d.data[field] !== undefined)
+      .sort((a, b) => (compare(a.data[field], b.data[field]) || compare(a.id, b.id)) * sign);
+
+    const cursor = options.startAfter;
+    if (cursor) {
+      documents = documents.filter(d => (compare(d.data[field], cursor.value) || compare(d.id, cursor.id)) * sign > 0);
+    }
+  }
+  if (options?.limit) {
+    documents = documents.slice(0, options.limit);
+  }
+  return documents;
+};
+
+// undefined removes the field, as with Firestore's deleteField()
+const applyUpdate = (current: StoredData, data: StoredData): StoredData => {
+  const next = { ...current };
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = clone(value);
+    }
+  });
+  return next;
+};
+
+const withoutUndefined = (data: StoredData): StoredData => {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+};
+
+// Groups and blocks are shared with the reservation transactions that write them
+const createReservationRepository = (
+  seed: MemorySeed,
+  groups: Map<string, StoredData>,
+  blocks: Map<string, StoredData>
+): ReservationRepository => {
+  const reservations = new Map<string, StoredData>((seed.reservations || []).map(d => [d.id, clone(d.data)]));
+  const locks = new Map<string, OccupancyLock>((seed.locks || []).map(l => [l.id, clone(l.lock)]));
+  const history = new Map<string, ReservationHistoryEntry[]>();
+  const promoCodeUsage = new Map<string, PromoCodeUsage>();
+  const listeners = new Set<(documents: StoredDocument[]) => void>();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const notify = () => {
+    const snapshot = runQuery(reservations);
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const runTransaction = async <T>(work: (transaction: ReservationTransaction) => Promise<T>): Promise<T> => {
+    const writes: Array<() => void> = [];
+    const read = <R>(value: R): R => {
+      if (writes.length > 0) {
+        throw new Error('Transactions require all reads to be executed before all writes.');
+      }
+      return value;
+    };
+    const stage = (write: () => void) => {
+      writes.push(write);
+    };
+
+    const transaction: ReservationTransaction = {
+      get: async (id) => {
+        const data = reservations.get(id);
+        return read(data ? { id, data: clone(data) } : null);
+      },
+      getLocks: async (lockIds) => {
+        const found = new Map<string, OccupancyLock | null>();
+        lockIds.forEach(lockId => {
+          const lock = locks.get(lockId);
+          found.set(lockId, lock ? clone(lock) : null);
+        });
+        return read(found);
+      },
+      create: (data) => {
+        const id = generateId('res');
+        stage(() => reservations.set(id, clone(withoutUndefined(data))));
+        return id;
+      },
+      update: (id, data) => {
+        stage(() => {
+          const current = reservations.get(id);
+          if (!current) {
+            throw new Error(`No document to update: reservas/${id}`);
+          }
+          reservations.set(id, applyUpdate(current, data));
+        });
+      },
+      delete: (id) => {
+        stage(() => reservations.delete(id));
+      },
+      setLock: (lockId, lock) => {
+        stage(() => locks.set(lockId, clone(lock)));
+      },
+      deleteLock: (lockId) => {
+        stage(() => locks.delete(lockId));
+      },
+      appendHistory: (reservationId, entry) => {
+        stage(() => {
+          const entries = history.get(reservationId) || [];
+          history.set(reservationId, [...entries, { ...clone(entry), id: generateId('hist') }]);
+        });
+      },
+      getGroup: async (id) => {
+        const data = groups.get(id);
+        return read(data ? { id, data: clone(data) } : null);
+      },
+      createGroup: (data) => {
+        const id = generateId('grp');
+        stage(() => groups.set(id, clone(withoutUndefined(data))));
+        return id;
+      },
+      updateGroup: (id, data) => {
+        stage(() => {
+          const current = groups.get(id);
+          if (!current) {
+            throw new Error(`No document to update: grupos/${id}`);
+          }
+          groups.set(id, applyUpdate(current, data));
+        });
+      },
+      deleteGroup: (id) => {
+        stage(() => groups.delete(id));
+      },
+      getBlock: async (id) => {
+        const data = blocks.get(id);
+        return read(data ? { id, data: clone(data) } : null);
+      },
+      createBlock: (data) => {
+        const id = generateId('block');
+        stage(() => blocks.set(id, clone(withoutUndefined(data))));
+        return id;
+      },
+      updateBlock: (id, data) => {
+        stage(() => {
+          const current = blocks.get(id);
+          if (!current) {
+            throw new Error(`No document to update: fuera_de_servicio/${id}`);
+          }
+          blocks.set(id, applyUpdate(current, data));
+        });
+      },
+      deleteBlock: (id) => {
+        stage(() => blocks.delete(id));
+      },
+      getPromoCodeUsage: async (code) => {
+        const usage = promoCodeUsage.get(code);
+        return read(usage ? clone(usage) : null);
+      },
+      setPromoCodeUsage: (code, usage) => {
+        stage(() => promoCodeUsage.set(code, clone(usage)));
+      }
+    };
+
+    // One transaction at a time, like Firestore's optimistic retries would end up serializing them
+    const result = queue.then(async () => {
+      const value = await work(transaction);
+      if (writes.length === 0) return value;
+      if (writes.length > MAX_TRANSACTION_WRITES) {
+        throw new Error(`Transaction has ${writes.length} writes; the maximum is ${MAX_TRANSACTION_WRITES}`);
+      }
+
+      // All or nothing: roll back if any staged write fails
+      const backup = {
+        reservations: new Map(reservations),
+        locks: new Map(locks),
+        history: new Map(history),
+        groups: new Map(groups),
+        blocks: new Map(blocks),
+        promoCodeUsage: new Map(promoCodeUsage)
+      };
+      try {
+        writes.forEach(write => write());
+      } catch (error) {
+        [reservations, locks, history, groups, blocks, promoCodeUsage].forEach(map => map.clear());
+        backup.reservations.forEach((v, k) => reservations.set(k, v));
+        backup.locks.forEach((v, k) => locks.set(k, v));
+        backup.history.forEach((v, k) => history.set(k, v));
+        backup.groups.forEach((v, k) => groups.set(k, v));
+        backup.blocks.forEach((v, k) => blocks.set(k, v));
+        backup.promoCodeUsage.forEach((v, k) => promoCodeUsage.set(k, v));
+        throw error;
+      }
+      notify();
+      return value;
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    get: async (id) => {
+      const data = reservations.get(id);
+      return data ? { id, data: clone(data) } : null;
+    },
+
+    find: async (options) => runQuery(reservations, options),
+
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      Promise.resolve().then(() => {
+        if (listeners.has(onChange)) onChange(runQuery(reservations));
+      });
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+
+    getHistory: async (reservationId) => {
+      return clone(history.get(reservationId) || [])
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    },
+
+    deleteHistory: async (reservationId) => {
+      history.delete(reservationId);
+    },
+
+    runTransaction
+  };
+};
+
+// Plain CRUD over one collection (referrers, waitlist)
+const createDocumentRepository = (collectionName: string, idPrefix: string, seed: StoredDocument[] = []): ReferrerRepository => {
+  const documents = new Map<string, StoredData>(seed.map(d => [d.id, clone(d.data)]));
+
+  return {
+    get: async (id) => {
+      const data = documents.get(id);
+      return data ? { id, data: clone(data) } : null;
+    },
+
+    find: async (options) => runQuery(documents, options),
+
+    create: async (data) => {
+      const id = generateId(idPrefix);
+      documents.set(id, clone(withoutUndefined(data)));
+      return id;
+    },
+
+    update: async (id, data) => {
+      const current = documents.get(id);
+      if (!current) {
+        throw new Error(`No document to update: ${collectionName}/${id}`);
+      }
+      documents.set(id, applyUpdate(current, data));
+    },
+
+    delete: async (id) => {
+      documents.delete(id);
+    }
+  };
+};
+
+const createConfigRepository = (seed?: StoredData): ConfigRepository => {
+  let current: StoredData | null = seed ? clone(seed) : null;
+  const versions = new Map<string, StoredData>();
+  const listeners = new Set<(data: StoredData | null) => void>();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const notify = () => {
+    listeners.forEach(listener => listener(current ? clone(current) : null));
+  };
+
+  const runTransaction = async <T>(work: (transaction: ConfigTransaction) => Promise<T>): Promise<T> => {
+    const writes: Array<() => void> = [];
+    const transaction: ConfigTransaction = {
+      getCurrent: async () => {
+        if (writes.length > 0) {
+          throw new Error('Transactions require all reads to be executed before all writes.');
+        }
+        return current ? clone(current) : null;
+      },
+      setCurrent: (data) => {
+        writes.push(() => { current = clone(withoutUndefined(data)); });
+      },
+      addVersion: (data) => {
+        writes.push(() => versions.set(String(data.revision), clone(withoutUndefined(data))));
+      }
+    };
+
+    // Serialized like the reservation transactions; writes are applied only if the work resolves
+    const result = queue.then(async () => {
+      const value = await work(transaction);
+      if (writes.length === 0) return value;
+      writes.forEach(write => write());
+      notify();
+      return value;
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    getCurrent: async () => (current ? clone(current) : null),
+
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      Promise.resolve().then(() => {
+        if (listeners.has(onChange)) onChange(current ? clone(current) : null);
+      });
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+
+    getVersions: async (max) => {
+      const documents = Array.from(versions.entries())
+        .map(([id, data]) => ({ id, data: clone(data) }))
+        .sort((a, b) => compare(b.data.revision, a.data.revision));
+      return max ? documents.slice(0, max) : documents;
+    },
+
+    runTransaction
+  };
+};
+
+// Read side of the collections written by reservation transactions (groups, blocks)
+const createReadRepository = (documents: Map<string, StoredData>): GroupRepository => ({
+  get: async (id) => {
+    const data = documents.get(id);
+    return data ? { id, data: clone(data) } : null;
+  },
+
+  find: async (options) => runQuery(documents, options)
+});
+
+export const createMemoryRepositories = (seed: MemorySeed = {}): Repositories => {
+  const groups = new Map<string, StoredData>((seed.groups || []).map(d => [d.id, clone(d.data)]));
+  const blocks = new Map<string, StoredData>((seed.blocks || []).map(d => [d.id, clone(d.data)]));
+  return {
+    reservations: createReservationRepository(seed, groups, blocks),
+    referrers: createDocumentRepository('referentes', 'ref', seed.referrers),
+    groups: createReadRepository(groups),
+    waitlist: createDocumentRepository('lista_espera', 'wait', seed.waitlist),
+    blocks: createReadRepository(blocks),
+    config: createConfigRepository(seed.config)
+  };
+};
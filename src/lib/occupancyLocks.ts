@@ -0,0 +1,150 @@
+import { addDays } from './dateUtils';
+import type { ReservationTransaction } from './repository';
+import { getStaySegments, OccupyingStay } from './availabilityPolicy';
+
+/**
+ * Per-cabin/per-night occupancy locks.
+ * Each booked night is a document in `ocupacion` keyed by cabin + date, so two
+ * concurrent transactions trying to book the same night conflict on the same document.
+ * Out-of-order blocks hold the nights of their upcoming occurrences the same way.
+ */
+
+export const OCCUPANCY_COLLECTION = 'ocupacion';
+
+// Sentinel message thrown inside transactions when a night is already taken
+export const OCCUPANCY_CONFLICT = 'occupancy-conflict';
+
+export interface OccupancyLock {
+  cabinType: string;
+  date: string;
+  reservationId: string; // Empty for the nights of an out-of-order block
+  blockId?: string;
+  createdAt?: Date;
+}
+
+// Nights occupied by a stay: from check-in (inclusive) to check-out (exclusive)
+export const getOccupiedNights = (checkIn: string, checkOut: string): string[] => {
+  const nights: string[] = [];
+  let current = checkIn;
+  while (current < checkOut) {
+    nights.push(current);
+    current = addDays(current, 1);
+  }
+  return nights;
+};
+
+// Firestore ids cannot contain '/'; only locks from before cabin ids used the cabin name
+export const getLockId = (cabinType: string, date: string): string => {
+  return `${cabinType.replace(/\//g, '-')}__${date}`;
+};
+
+export const getLockIds = (cabinType: string, checkIn: string, checkOut: string): string[] => {
+  return getOccupiedNights(checkIn, checkOut).map(date => getLockId(cabinType, date));
+};
+
+// Locks of every segment of a stay (split stays hold nights in several cabins)
+export const getStayLockIds = (stay: OccupyingStay): string[] => {
+  return getStaySegments(stay).flatMap(segment => getLockIds(segment.cabinType, segment.checkIn, segment.checkOut));
+};
+
+export const isOccupancyConflict = (error: unknown): boolean => {
+  return error instanceof Error && error.message === OCCUPANCY_CONFLICT;
+};
+
+/**
+ * Reads the locks of a stay inside a transaction, keyed by lock id.
+ * Must run before any transaction write.
+ */
+export const readLocks = async (
+  transaction: ReservationTransaction,
+  stay: OccupyingStay
+): Promise<Map<string, OccupancyLock | null>> => {
+  return transaction.getLocks(getStayLockIds(stay));
+};
+
+// Lock ids held by a reservation other than the given one
+export const getConflictingLockIds = (
+  locks: Map<string, OccupancyLock | null>,
+  reservationId?: string
+): string[] => {
+  return Array.from(locks.entries())
+    .filter(([, lock]) => lock !== null && lock.reservationId !== reservationId)
+    .map(([id]) => id);
+};
+
+export const writeLocks = (
+  transaction: ReservationTransaction,
+  stay: OccupyingStay,
+  reservationId: string,
+  skipLockIds: string[] = []
+): void => {
+  getStaySegments(stay).forEach(({ cabinType, checkIn, checkOut }) => {
+    getOccupiedNights(checkIn, checkOut).forEach(date => {
+      if (skipLockIds.includes(getLockId(cabinType, date))) return;
+      const lock: OccupancyLock = {
+        cabinType,
+        date,
+        reservationId,
+        createdAt: new Date()
+      };
+      transaction.setLock(getLockId(cabinType, date), lock);
+    });
+  });
+};
+
+// Deletes only the locks that belong to the given reservation
+export const deleteOwnedLocks = (
+  transaction: ReservationTransaction,
+  locks: Map<string, OccupancyLock | null>,
+  reservationId: string,
+  keepLockIds: string[] = []
+): void => {
+  locks.forEach((lock, id) => {
+    if (lock && lock.reservationId === reservationId && !keepLockIds.includes(id)) {
+      transaction.deleteLock(id);
+    }
+  });
+};
+
+// Lock ids held by a reservation or by a block other than the given one
+export const getBlockConflictingLockIds = (
+  locks: Map<string, OccupancyLock | null>,
+  blockId?: string
+): string[] => {
+  return Array.from(locks.entries())
+    .filter(([, lock]) => lock !== null && (!lock.blockId || lock.blockId !== blockId))
+    .map(([id]) => id);
+};
+
+export const writeBlockLocks = (
+  transaction: ReservationTransaction,
+  stays: OccupyingStay[],
+  blockId: string
+): void => {
+  stays.forEach(stay => {
+    getOccupiedNights(stay.checkIn, stay.checkOut).forEach(date => {
+      const lock: OccupancyLock = {
+        cabinType: stay.cabinType,
+        date,
+        reservationId: '',
+        blockId,
+        createdAt: new Date()
+      };
+      transaction.setLock(getLockId(stay.cabinType, date), lock);
+    });
+  });
+};
+
+// Deletes only the locks that belong to the given block
+export const deleteBlockLocks = (
+  transaction: ReservationTransaction,
+  locks: Map<string, OccupancyLock | null>,
+  blockId: string,
+  keepLockIds: string[] = []
+): void => {
+  locks.forEach((lock, id) => {
+    if (lock && lock.blockId === blockId && !keepLockIds.includes(id)) {
+      transaction.deleteLock(id);
+    }
+  });
+};
@@ -0,0 +1,106 @@
+/**
+ * Occupancy pricing
+ * Rules configured in Admin suggest raising or discounting the nightly rate of a date from
+ * the cabins already sold that night: a surcharge when the property fills up, a discount for
+ * nights still empty a few days ahead. A suggestion never changes a price by itself; staff
+ * accept or override it on the rate calendar, and the accepted percent is charged to every
+ * cabin that night (getNightlyRates). A reservation keeps the percent its nights were booked
+ * with, so editing it later doesn't pick up an adjustment made afterwards.
+ */
+
+import { getOccupancyRules, OccupancyRule, OccupancyRuleType } from './adminConfig';
+import { findStaysInRange } from './availability';
+import { occupiesNight, OccupyingStay } from './availabilityPolicy';
+import { getCabinIds } from './cabinConfig';
+import { addDays, calculateNights, getTodayDate } from './dateUtils';
+import { logger } from './logger';
+
+export const OCCUPANCY_RULE_TYPE_LABELS: Record<OccupancyRuleType, string> = {
+  high_occupancy: 'Alta ocupación',
+  last_minute: 'Última hora',
+};
+
+// Cabins of a night: sold (reservations and holds) and for sale (not out of order)
+export interface NightOccupancy {
+  date: string;
+  sold: number;
+  capacity: number;
+  percent: number; // sold / capacity, 0-100
+}
+
+export interface RateSuggestion {
+  date: string;
+  percent: number;
+  ruleId: string;
+  ruleName: string;
+}
+
+// "+15%" / "-10%"
+export const formatRateAdjustment = (percent: number): string => `${percent > 0 ? '+' : ''}${percent}%`;
+
+export const applyRateAdjustment = (amount: number, percent: number): number => {
+  return Math.max(0, Math.round(amount * (100 + percent) / 100));
+};
+
+export const getNightOccupancy = (
+  stays: OccupyingStay[],
+  date: string,
+  cabinIds: string[] = getCabinIds()
+): NightOccupancy => {
+  let sold = 0;
+  let outOfOrder = 0;
+  cabinIds.forEach(cabinType => {
+    const stay = stays.find(s => occupiesNight(s, date, cabinType));
+    if (!stay) return;
+    if (stay.blockId) {
+      outOfOrder += 1;
+    } else {
+      sold += 1;
+    }
+  });
+  const capacity = cabinIds.length - outOfOrder;
+  return { date, sold, capacity, percent: capacity > 0 ? Math.round(sold * 100 / capacity) : 100 };
+};
+
+// On-the-books occupancy of the nights from startDate to the night before endDate
+export const findOccupancy = async (
+  startDate: string,
+  endDate: string,
+  cabinIds: string[] = getCabinIds()
+): Promise<NightOccupancy[]> => {
+  logger.info('occupancyPricing.findOccupancy.start', { startDate, endDate });
+  const stays = await findStaysInRange(startDate, endDate);
+  const nights: NightOccupancy[] = [];
+  for (let date = startDate; date < endDate; date = addDays(date, 1)) {
+    nights.push(getNightOccupancy(stays, date, cabinIds));
+  }
+  return nights;
+};
+
+const matches = (rule: OccupancyRule, night: NightOccupancy, today: string): boolean => {
+  if (!rule.isActive) return false;
+  switch (rule.type) {
+    case 'high_occupancy':
+      return night.percent >= (rule.minOccupancy ?? 100);
+    case 'last_minute':
+      return calculateNights(today, night.date) < (rule.withinDays || 0) && night.percent <= (rule.maxOccupancy ?? 0);
+  }
+};
+
+/**
+ * Suggested adjustment for a night from today on: the matching rule with the largest
+ * adjustment, so tiers (50% → +5%, 75% → +15%) pick the one that applies best.
+ */
+export const suggestRateAdjustment = (
+  night: NightOccupancy,
+  today: string = getTodayDate(),
+  rules: OccupancyRule[] = getOccupancyRules()
+): RateSuggestion | null => {
+  if (night.date < today || night.capacity === 0) return null;
+  const best = rules
+    .filter(rule => matches(rule, night, today))
+    .reduce<OccupancyRule | null>((current, rule) =>
+      !current || Math.abs(rule.adjustment) > Math.abs(current.adjustment) ? rule : current, null);
+  if (!best || best.adjustment === 0) return null;
+  return { date: night.date, percent: best.adjustment, ruleId: best.id, ruleName: best.name };
+};
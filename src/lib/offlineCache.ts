@@ -1,8 +1,14 @@
-import { Reservation } from '@/types/reservation';
+import { CabinType, Reservation, StaySegment } from '@/types/reservation';
+import { CabinBlock } from '@/types/cabinBlock';
 import { logger } from './logger';
+import { addDays } from './dateUtils';
+import { blocksInventory, conflictsWithStay, getStaySegments, OccupyingStay } from './availabilityPolicy';
+import { planSplitStay } from './staySegments';
+import { BLOCK_HORIZON_DAYS, getBlockStays } from './cabinBlocks';
 
 const STORAGE_KEYS = {
   RESERVATIONS: 'manuara_reservations_cache',
+  CABIN_BLOCKS: 'manuara_cabin_blocks_cache',
   LAST_SYNC: 'manuara_last_sync',
   PENDING_OPERATIONS: 'manuara_pending_operations',
 };
@@ -106,6 +112,23 @@ export function removeCachedReservation(id: string): void {
   saveToStorage(STORAGE_KEYS.RESERVATIONS, filtered);
 }
 
+// ============ Out-of-order Blocks Cache ============
+
+export function getCachedCabinBlocks(): CabinBlock[] {
+  return getFromStorage<CabinBlock[]>(STORAGE_KEYS.CABIN_BLOCKS) || [];
+}
+
+export function cacheCabinBlocks(blocks: CabinBlock[]): void {
+  saveToStorage(STORAGE_KEYS.CABIN_BLOCKS, blocks);
+  logger.info('offlineCache.cabinBlocks.cached', { count: blocks.length });
+}
+
+// Cached reservations plus the cached blocks that fall within the range
+function getCachedStays(rangeStart: string, rangeEnd: string): OccupyingStay[] {
+  const blockStays = getCachedCabinBlocks().flatMap(block => getBlockStays(block, rangeStart, rangeEnd));
+  return [...getCachedReservations(), ...blockStays];
+}
+
 // ============ Pending Operations (for offline mutations) ============
 
 export function getPendingOperations(): PendingOperation[] {
@@ -142,22 +165,12 @@ export function checkCabinAvailabilityOffline(
   checkOut: string,
   excludeReservationId?: string
 ): boolean {
-  const reservations = getCachedReservations();
+  const reservations = getCachedStays(checkIn, checkOut);
   
-  const conflictingReservations = reservations.filter(reservation => {
-    // Exclude current reservation if editing
-    if (excludeReservationId && reservation.id === excludeReservationId) {
-      return false;
-    }
-    
-    // Only check same cabin type
-    if (reservation.cabinType !== cabinType) {
-      return false;
-    }
-    
-    // Check for date overlap: checkIn < resCheckOut && checkOut > resCheckIn
-    return checkIn < reservation.checkOut && checkOut > reservation.checkIn;
-  });
+  // Excludes the reservation being edited and cancelled / no-show stays
+  const conflictingReservations = reservations.filter(reservation =>
+    conflictsWithStay(reservation, cabinType, checkIn, checkOut, excludeReservationId)
+  );
   
   return conflictingReservations.length === 0;
 }
@@ -166,26 +179,38 @@ export function getNextAvailableDateOffline(
   cabinType: string,
   preferredCheckIn: string
 ): string | null {
-  const reservations = getCachedReservations()
-    .filter(r => r.cabinType === cabinType && r.checkOut > preferredCheckIn)
+  // Only the nights each stay spends in this cabin count
+  const segments = getCachedStays(preferredCheckIn, addDays(preferredCheckIn, BLOCK_HORIZON_DAYS))
+    .filter(blocksInventory)
+    .flatMap(getStaySegments)
+    .filter(segment => segment.cabinType === cabinType && segment.checkOut > preferredCheckIn)
     .sort((a, b) => a.checkOut.localeCompare(b.checkOut));
   
-  if (reservations.length === 0) {
+  if (segments.length === 0) {
     return preferredCheckIn;
   }
   
   let currentDate = preferredCheckIn;
   
-  for (const reservation of reservations) {
-    if (currentDate < reservation.checkIn) {
+  for (const segment of segments) {
+    if (currentDate < segment.checkIn) {
       return currentDate; // Gap found before this reservation
     }
-    currentDate = reservation.checkOut;
+    currentDate = segment.checkOut;
   }
   
   return currentDate;
 }
 
+export function findSplitStayOffline(
+  cabinTypes: CabinType[],
+  checkIn: string,
+  checkOut: string,
+  excludeReservationId?: string
+): StaySegment[] | null {
+  return planSplitStay(getCachedStays(checkIn, checkOut), cabinTypes, checkIn, checkOut, excludeReservationId);
+}
+
 // ============ Cache Status ============
 
 export function getCacheStatus(): {
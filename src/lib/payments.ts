@@ -1,12 +1,13 @@
-import { doc, updateDoc, Timestamp } from 'firebase/firestore';
-import { db } from './firebase';
 import { Payment, PaymentFormData } from '@/types/payment';
 import { Reservation } from '@/types/reservation';
 import { calculateRemainingBalance } from './pricing';
-import { getAllReservations } from './reservations';
+import { normalizeReservation } from './reservations';
 import { logger } from './logger';
-
-const COLLECTION_NAME = 'reservas';
+import { isTrashed } from './trash';
+import { assertValid, validatePayment } from './schemas';
+import { HistoryContext, diffFields, recordHistory } from './reservationHistory';
+import { getReservationRepository } from './repository';
+import { toBasePayment } from './currency';
 
 // Clean reservation data to remove undefined fields and set defaults
 const cleanReservationData = (data: Partial<Reservation>) => {
@@ -38,73 +39,83 @@ const cleanReservationData = (data: Partial<Reservation>) => {
   return cleaned;
 };
 
-export const addPayment = async (reservationId: string, paymentData: PaymentFormData): Promise<void> => {
+export const addPayment = async (
+  reservationId: string,
+  formData: PaymentFormData,
+  context?: HistoryContext
+): Promise<void> => {
   logger.info('payments.addPayment.start', { 
     reservationId, 
-    amount: paymentData.amount,
-    method: paymentData.method 
+    amount: formData.amount,
+    currency: formData.currency,
+    method: formData.method 
   });
   logger.time('payments.addPayment');
 
   try {
-    // Get current reservation
-    const reservations = await getAllReservations();
-    const reservation = reservations.find(r => r.id === reservationId);
-    
-    if (!reservation) {
-      logger.error('payments.addPayment.reservation.not_found', { reservationId });
-      throw new Error('Reserva no encontrada');
-    }
-    
-    // Validate payment amount
-    const currentBalance = calculateRemainingBalance(reservation);
-    if (paymentData.amount > currentBalance) {
-      logger.warn('payments.addPayment.validation.amount.exceeds_balance', { 
-        requestedAmount: paymentData.amount,
-        remainingBalance: currentBalance,
-        reservationId 
+    // Read inside the transaction: two payments at once must not overwrite each other's array
+    const { newPayment, newRemainingBalance } = await getReservationRepository().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reservationId);
+      const reservation = snapshot ? normalizeReservation({ ...snapshot.data, id: reservationId }) : null;
+
+      if (!reservation || isTrashed(reservation)) {
+        logger.error('payments.addPayment.reservation.not_found', { reservationId });
+        throw new Error('Reserva no encontrada');
+      }
+
+      // Balances are in CLP: payments in USD or EUR count for their CLP equivalent
+      const currentBalance = calculateRemainingBalance(reservation);
+      const paymentData = toBasePayment(formData, currentBalance);
+
+      // Validate payment amount
+      if (paymentData.amount > currentBalance) {
+        logger.warn('payments.addPayment.validation.amount.exceeds_balance', { 
+          requestedAmount: paymentData.amount,
+          remainingBalance: currentBalance,
+          reservationId 
+        });
+        throw new Error(`El monto del pago (${paymentData.amount.toLocaleString('es-CL')}) excede el balance pendiente (${currentBalance.toLocaleString('es-CL')})`);
+      }
+      
+      if (paymentData.amount <= 0) {
+        logger.warn('payments.addPayment.validation.amount.invalid', { 
+          amount: paymentData.amount,
+          reservationId 
+        });
+        throw new Error('El monto del pago debe ser mayor a 0');
+      }
+      
+      // Create new payment
+      const payment: Payment = {
+        ...paymentData,
+        id: Date.now().toString(), // Simple ID generation
+        createdAt: new Date()
+      };
+      assertValid(validatePayment(payment));
+      
+      // Update reservation with new payment
+      const updatedPayments = [...(reservation.payments || []), payment];
+      const remainingBalance = calculateRemainingBalance({ ...reservation, payments: updatedPayments });
+      
+      // Keep existing statuses to prevent automatic status changes and loops
+      const updateData = cleanReservationData({
+        payments: updatedPayments,
+        remainingBalance,
+        updatedAt: new Date()
       });
-      throw new Error(`El monto del pago (${paymentData.amount.toLocaleString('es-CL')}) excede el balance pendiente (${currentBalance.toLocaleString('es-CL')})`);
-    }
-    
-    if (paymentData.amount <= 0) {
-      logger.warn('payments.addPayment.validation.amount.invalid', { 
-        amount: paymentData.amount,
-        reservationId 
+      
+      transaction.update(reservationId, updateData);
+      recordHistory(transaction, reservationId, 'payment', diffFields(reservation, updateData), {
+        actor: paymentData.createdBy,
+        ...context
       });
-      throw new Error('El monto del pago debe ser mayor a 0');
-    }
-    
-    // Create new payment
-    const newPayment: Payment = {
-      ...paymentData,
-      id: Date.now().toString(), // Simple ID generation
-      createdAt: new Date()
-    };
-    
-    // Update reservation with new payment
-    const updatedPayments = [...(reservation.payments || []), newPayment];
-    const updatedReservation = {
-      ...reservation,
-      payments: updatedPayments
-    };
-    
-    const newRemainingBalance = calculateRemainingBalance(updatedReservation);
-    
-    // Keep existing statuses to prevent automatic status changes and loops
-    const updateData = cleanReservationData({
-      payments: updatedPayments,
-      remainingBalance: newRemainingBalance,
-      updatedAt: new Date()
+      return { newPayment: payment, newRemainingBalance: remainingBalance };
     });
-    
-    const docRef = doc(db, COLLECTION_NAME, reservationId);
-    await updateDoc(docRef, updateData);
 
     logger.info('payments.addPayment.success', { 
       reservationId,
       paymentId: newPayment.id,
-      amount: paymentData.amount,
+      amount: newPayment.amount,
       newRemainingBalance 
     });
   } catch (error) {
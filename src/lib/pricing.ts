@@ -1,29 +1,182 @@
-import { ReservationFormData, Reservation } from '@/types/reservation';
-import { calculateNights } from './dateUtils';
-import { getPricing } from './adminConfig';
-
-export const calculatePrice = (data: ReservationFormData): number => {
-  // If using custom price, return that value
-  if (data.useCustomPrice && data.customPrice) {
-    return data.customPrice;
+import { ReservationFormData, Reservation, NightlyRate, PriceAdjustment, Season } from '@/types/reservation';
+import { addDays, formatDateForDisplay, getTodayDate } from './dateUtils';
+import { determineSeason, getDateRateAdjustments, getRatePlan, getTaxConfig, RatePlan } from './adminConfig';
+import { getSegments } from './staySegments';
+import { getCabinDisplayName } from './cabinConfig';
+import { getPriceAdjustments, sumAdjustments } from './pricingRules';
+import { priceAddOns, sumAddOns } from './folio';
+import { calculateTaxes, getTaxTreatment, removeIva } from './taxes';
+import { applyRateAdjustment, formatRateAdjustment } from './occupancyPricing';
+
+type Guests = Pick<ReservationFormData, 'adults' | 'children' | 'babies'>;
+
+// Consecutive nights in the same cabin at the same rate, as shown in quotes, exports and vouchers
+export interface PriceLine {
+  cabinType: string;
+  season: Season;
+  ratePlanName: string;
+  checkIn: string; // First night
+  checkOut: string; // Day after the last night
+  nights: number;
+  nightlyRate: number;
+  total: number;
+  rateAdjustment?: number; // Rate calendar percent included in nightlyRate
+}
+
+// One night for the party under the plan; included guests are filled by adults first
+export const calculateNightlyRate = (plan: RatePlan, { adults, children, babies }: Guests): number => {
+  const babiesCost = babies * plan.babyRate;
+  if (plan.type === 'per_person') {
+    return (adults * plan.adultRate) + (children * plan.childRate) + babiesCost;
+  }
+
+  const extraAdults = Math.max(0, adults - plan.includedGuests);
+  const extraChildren = Math.max(0, children - Math.max(0, plan.includedGuests - adults));
+  return plan.baseRate + (extraAdults * plan.adultRate) + (extraChildren * plan.childRate) + babiesCost;
+};
+
+/**
+ * Automatic price night by night: each night takes the season of its own date and the
+ * rate plan its cabin uses in that season, so a stay crossing into high season is billed
+ * at both rates. The rate calendar adjusts the rate of a night by a percent; bookedNights
+ * (the nights stored on the reservation being edited) keep the percent they were booked
+ * with, and only nights added to the stay take the current one.
+ */
+export const getNightlyRates = (data: ReservationFormData, bookedNights: NightlyRate[] = []): NightlyRate[] => {
+  const booked = new Map(bookedNights.map(night => [night.date, night.rateAdjustment || 0]));
+  const adjustments = getDateRateAdjustments();
+  return getSegments(data).flatMap(segment => {
+    const nights: NightlyRate[] = [];
+    for (let date = segment.checkIn; date < segment.checkOut; date = addDays(date, 1)) {
+      const season = determineSeason(date);
+      const plan = getRatePlan(segment.cabinType, season);
+      const rateAdjustment = booked.get(date) ?? adjustments[date]?.percent ?? 0;
+      nights.push({
+        date,
+        cabinType: segment.cabinType,
+        season,
+        ratePlanId: plan.id,
+        ratePlanName: plan.name,
+        amount: applyRateAdjustment(calculateNightlyRate(plan, data), rateAdjustment),
+        ...(rateAdjustment ? { rateAdjustment } : {}),
+      });
+    }
+    return nights;
+  });
+};
+
+export const groupNightlyRates = (nightlyRates: NightlyRate[]): PriceLine[] => {
+  return nightlyRates.reduce<PriceLine[]>((lines, night) => {
+    const last = lines[lines.length - 1];
+    if (
+      last &&
+      last.checkOut === night.date &&
+      last.cabinType === night.cabinType &&
+      last.ratePlanName === night.ratePlanName &&
+      last.nightlyRate === night.amount &&
+      last.rateAdjustment === night.rateAdjustment
+    ) {
+      last.checkOut = addDays(night.date, 1);
+      last.nights += 1;
+      last.total += night.amount;
+      return lines;
+    }
+    lines.push({
+      cabinType: night.cabinType,
+      season: night.season,
+      ratePlanName: night.ratePlanName,
+      checkIn: night.date,
+      checkOut: addDays(night.date, 1),
+      nights: 1,
+      nightlyRate: night.amount,
+      total: night.amount,
+      ...(night.rateAdjustment ? { rateAdjustment: night.rateAdjustment } : {}),
+    });
+    return lines;
+  }, []);
+};
+
+// Breakdown stored on a reservation; empty for custom prices and stays priced before it existed
+export const getReservationPriceLines = (reservation: Reservation): PriceLine[] => {
+  return groupNightlyRates(reservation.nightlyRates || []);
+};
+
+// "15-12-2025 - 20-12-2025 · Cabaña Grande · Temporada Alta · Tarifa Grande (+15%): 5 × $69.000"
+export const formatPriceLine = (line: PriceLine): string => {
+  const adjustment = line.rateAdjustment ? ` (${formatRateAdjustment(line.rateAdjustment)})` : '';
+  return `${formatDateForDisplay(line.checkIn)} - ${formatDateForDisplay(line.checkOut)} · ${getCabinDisplayName(line.cabinType)} · Temporada ${line.season} · ${line.ratePlanName}${adjustment}: ${line.nights} × $${line.nightlyRate.toLocaleString('es-CL')}`;
+};
+
+const hasCustomPrice = (data: ReservationFormData): boolean => !!(data.useCustomPrice && data.customPrice);
+
+/**
+ * Price fields stored on the reservation: the total, its itemized nights, the gross price
+ * and the pricing rules applied to it (none of them for a custom price, so an update clears
+ * them), the add-ons priced for the stay, the IVA treatment and split, and the season of the
+ * arrival night. The total is the stay (automatic or custom, without IVA when exempt) plus
+ * the add-ons. bookedOn is the day the stay was booked, which decides early-booking
+ * discounts and promo code windows; bookedNights keep their rate calendar percent (see
+ * getNightlyRates) and heldAdjustments keep the discount of the promo code already held.
+ */
+export const getStayPricing = (
+  data: ReservationFormData,
+  bookedOn: string = getTodayDate(),
+  bookedNights?: NightlyRate[],
+  heldAdjustments?: PriceAdjustment[]
+): Pick<Reservation, 'totalPrice' | 'grossPrice' | 'priceAdjustments' | 'nightlyRates' | 'addOns' | 'taxTreatment' | 'taxes' | 'season'> => {
+  const season = determineSeason(data.checkIn);
+  const addOns = data.addOns?.length ? priceAddOns(data.addOns, data) : undefined;
+  const addOnsTotal = sumAddOns(addOns);
+  const taxTreatment = getTaxTreatment(data);
+  if (hasCustomPrice(data)) {
+    return {
+      totalPrice: data.customPrice! + addOnsTotal,
+      grossPrice: undefined,
+      priceAdjustments: undefined,
+      nightlyRates: undefined,
+      addOns,
+      taxTreatment,
+      taxes: calculateTaxes(data.customPrice!, taxTreatment, addOns),
+      season,
+    };
   }
 
-  // Otherwise calculate automatically
-  const nights = calculateNights(data.checkIn, data.checkOut);
-  if (nights <= 0) return 0;
+  const nightlyRates = getNightlyRates(data, bookedNights);
+  const grossPrice = nightlyRates.reduce((total, night) => total + night.amount, 0);
+  const priceAdjustments = getPriceAdjustments(data, grossPrice, bookedOn, undefined, heldAdjustments);
+  const stayPrice = grossPrice + sumAdjustments(priceAdjustments);
+  const { ivaRate } = getTaxConfig();
+  const waivedIva = taxTreatment === 'exempt' ? stayPrice - removeIva(stayPrice, ivaRate) : 0;
+  return {
+    totalPrice: stayPrice - waivedIva + addOnsTotal,
+    grossPrice,
+    priceAdjustments,
+    nightlyRates,
+    addOns,
+    taxTreatment,
+    taxes: calculateTaxes(stayPrice - waivedIva, taxTreatment, addOns, waivedIva, ivaRate),
+    season,
+  };
+};
 
-  const pricing = getPricing();
-  const adultRate = data.season === 'Alta' ? pricing.adultHighSeason : pricing.adultLowSeason;
-  const costPerNight =
-    (data.adults * adultRate) +
-    (data.children * pricing.childRate) +
-    (data.babies * pricing.babyRate);
+export const calculatePrice = (
+  data: ReservationFormData,
+  bookedOn: string = getTodayDate(),
+  bookedNights?: NightlyRate[],
+  heldAdjustments?: PriceAdjustment[]
+): number => {
+  return getStayPricing(data, bookedOn, bookedNights, heldAdjustments).totalPrice;
+};
 
-  return costPerNight * nights;
+// A cancelled stay only owes its cancellation fee
+export const calculateAmountDue = (reservation: Reservation): number => {
+  return reservation.reservationStatus === 'cancelled' && reservation.cancellation
+    ? reservation.cancellation.fee
+    : reservation.totalPrice;
 };
 
 export const calculateRemainingBalance = (reservation: Reservation): number => {
   const payments = reservation.payments || [];
   const totalPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
-  return Math.max(0, reservation.totalPrice - totalPaid);
+  return Math.max(0, calculateAmountDue(reservation) - totalPaid);
 };
@@ -0,0 +1,209 @@
+/**
+ * Pricing rules
+ * Discounts configured in Admin on top of the automatic price: stays of N+ nights, bookings
+ * made N+ days before check-in and promo codes with a booking window and a usage limit.
+ * The best rule of each type applies; each is computed on the gross price, so they add up
+ * but never take the stay below 0. Custom prices are agreed by hand and skip every rule.
+ * Rules are evaluated on the booking date, so editing a stay later keeps its discounts; the
+ * promo code a reservation was booked with keeps its discount even once deactivated.
+ */
+
+import { PriceAdjustment, PriceAdjustmentType, Reservation, ReservationFormData } from '@/types/reservation';
+import { getPricingRules, PricingRule } from './adminConfig';
+import { calculateNights, formatDateForDisplay, formatDateToISO, getTodayDate } from './dateUtils';
+import { getReservationRepository, ReservationTransaction } from './repository';
+import { logger } from './logger';
+
+export const PRICING_RULE_TYPE_LABELS: Record<PriceAdjustmentType, string> = {
+  length_of_stay: 'Estadía larga',
+  early_booking: 'Reserva anticipada',
+  promo_code: 'Código promocional',
+};
+
+type PricedStay = Pick<ReservationFormData, 'checkIn' | 'checkOut' | 'promoCode'>;
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+// Day the reservation was made; stays without createdAt are treated as booked today
+export const getBookingDate = (reservation: Pick<Reservation, 'createdAt'>): string => {
+  const createdAt = reservation.createdAt ? new Date(reservation.createdAt) : null;
+  return createdAt && !Number.isNaN(createdAt.getTime()) ? formatDateToISO(createdAt) : getTodayDate();
+};
+
+const findPromoCodeRule = (code: string, rules: PricingRule[]): PricingRule | undefined => {
+  const normalized = normalizePromoCode(code);
+  return rules.find(rule => rule.type === 'promo_code' && rule.code && normalizePromoCode(rule.code) === normalized);
+};
+
+// Existing, active and within its booking window on bookedOn; the usage limit is checked on save
+export const checkPromoCode = (
+  code: string,
+  bookedOn: string = getTodayDate(),
+  rules: PricingRule[] = getPricingRules()
+): { isValid: boolean; error?: string } => {
+  const normalized = normalizePromoCode(code);
+  const rule = findPromoCodeRule(code, rules);
+  if (!rule || !rule.isActive) {
+    return { isValid: false, error: `El código ${normalized} no existe o no está activo` };
+  }
+  if (rule.validFrom && bookedOn < rule.validFrom) {
+    return { isValid: false, error: `El código ${normalized} es válido desde el ${formatDateForDisplay(rule.validFrom)}` };
+  }
+  if (rule.validUntil && bookedOn > rule.validUntil) {
+    return { isValid: false, error: `El código ${normalized} venció el ${formatDateForDisplay(rule.validUntil)}` };
+  }
+  return { isValid: true };
+};
+
+const appliesTo = (rule: PricingRule, stay: PricedStay, bookedOn: string, rules: PricingRule[]): boolean => {
+  if (!rule.isActive) return false;
+  switch (rule.type) {
+    case 'length_of_stay':
+      return calculateNights(stay.checkIn, stay.checkOut) >= (rule.minNights || 1);
+    case 'early_booking':
+      return calculateNights(bookedOn, stay.checkIn) >= (rule.minDaysAhead || 1);
+    case 'promo_code':
+      return !!stay.promoCode && findPromoCodeRule(stay.promoCode, rules) === rule && checkPromoCode(stay.promoCode, bookedOn, rules).isValid;
+  }
+};
+
+const getDiscount = (rule: PricingRule, grossPrice: number): number => {
+  return rule.discountType === 'percent'
+    ? Math.round(grossPrice * rule.value / 100)
+    : rule.value;
+};
+
+/**
+ * Rule of the promo code the stay was booked with (heldAdjustments), applied whether or not
+ * it is still active or within its window. A deleted rule keeps the amount it discounted.
+ */
+const getHeldPromoCodeRule = (
+  stay: PricedStay,
+  rules: PricingRule[],
+  heldAdjustments: PriceAdjustment[]
+): PricingRule | undefined => {
+  if (!stay.promoCode) return undefined;
+  const code = normalizePromoCode(stay.promoCode);
+  const held = heldAdjustments.find(adjustment => adjustment.type === 'promo_code' && adjustment.code === code);
+  if (!held) return undefined;
+  return findPromoCodeRule(code, rules) || {
+    id: held.ruleId,
+    name: held.name,
+    type: 'promo_code',
+    discountType: 'fixed',
+    value: -held.amount,
+    isActive: true,
+    code,
+  };
+};
+
+/**
+ * Adjustments for a stay with the given gross (automatic) price, in rule order: the largest
+ * discount of each type, trimmed so the total never goes below 0. heldAdjustments are the
+ * ones the reservation has stored, so the promo code it holds keeps applying.
+ */
+export const getPriceAdjustments = (
+  stay: PricedStay,
+  grossPrice: number,
+  bookedOn: string = getTodayDate(),
+  rules: PricingRule[] = getPricingRules(),
+  heldAdjustments: PriceAdjustment[] = []
+): PriceAdjustment[] => {
+  const heldRule = getHeldPromoCodeRule(stay, rules, heldAdjustments);
+  const best = new Map<PriceAdjustmentType, { rule: PricingRule; discount: number }>();
+  [...rules, ...(heldRule && !rules.includes(heldRule) ? [heldRule] : [])]
+    .filter(rule => rule === heldRule || appliesTo(rule, stay, bookedOn, rules))
+    .forEach(rule => {
+      const discount = getDiscount(rule, grossPrice);
+      const current = best.get(rule.type);
+      if (discount > 0 && (!current || discount > current.discount)) {
+        best.set(rule.type, { rule, discount });
+      }
+    });
+
+  let remaining = grossPrice;
+  return Array.from(best.values()).flatMap(({ rule, discount }) => {
+    const amount = Math.min(discount, remaining);
+    remaining -= amount;
+    if (amount <= 0) return [];
+    return [{
+      ruleId: rule.id,
+      name: rule.name,
+      type: rule.type,
+      ...(rule.type === 'promo_code' && rule.code ? { code: normalizePromoCode(rule.code) } : {}),
+      amount: -amount,
+    }];
+  });
+};
+
+export const sumAdjustments = (adjustments: PriceAdjustment[] = []): number => {
+  return adjustments.reduce((total, adjustment) => total + adjustment.amount, 0);
+};
+
+// Code whose use the reservation takes: not cancelled nor in the trash
+export const getHeldPromoCode = (
+  reservation: Pick<Reservation, 'promoCode' | 'reservationStatus' | 'deletedAt'>
+): string | undefined => {
+  if (!reservation.promoCode || reservation.reservationStatus === 'cancelled' || reservation.deletedAt) return undefined;
+  return normalizePromoCode(reservation.promoCode);
+};
+
+// Uses of a code without a counter yet (reservations from before counters), leaving out excludeId
+const countPromoCodeUses = async (code: string, excludeId?: string): Promise<number> => {
+  const documents = await getReservationRepository().find({
+    filters: [{ field: 'promoCode', op: '==', value: code }]
+  });
+  return documents.filter(({ id, data }) =>
+    id !== excludeId && data.reservationStatus !== 'cancelled' && !data.deletedAt
+  ).length;
+};
+
+const readPromoCodeUses = async (
+  transaction: ReservationTransaction,
+  code: string,
+  reservationId: string | undefined,
+  heldByReservation: boolean
+): Promise<number> => {
+  const usage = await transaction.getPromoCodeUsage(code);
+  if (usage) return usage.uses;
+  return (await countPromoCodeUses(code, reservationId)) + (heldByReservation ? 1 : 0);
+};
+
+// The limit error of transferPromoCodeUse, shown to the user as is
+export const isPromoCodeExhausted = (error: unknown): boolean => {
+  return error instanceof Error && /^El código .+ ya alcanzó su límite de \d+ usos$/.test(error.message);
+};
+
+/**
+ * Moves the reservation's use from the code it held to the one it holds after the write
+ * (undefined for none), on a per-code counter read and written in the same transaction, so
+ * concurrent bookings cannot go past maxUses. Taking a use (a new code, a restore) checks the
+ * limit; keeping the code never does. Reads run here, the returned function does the writes.
+ */
+export const transferPromoCodeUse = async (
+  transaction: ReservationTransaction,
+  reservationId: string | undefined,
+  previousCode: string | undefined,
+  nextCode: string | undefined
+): Promise<() => void> => {
+  if (previousCode === nextCode) return () => undefined;
+
+  const previousUses = previousCode ? await readPromoCodeUses(transaction, previousCode, reservationId, true) : 0;
+  const nextUses = nextCode ? await readPromoCodeUses(transaction, nextCode, reservationId, false) : 0;
+
+  const rule = nextCode ? findPromoCodeRule(nextCode, getPricingRules()) : undefined;
+  if (nextCode && rule?.maxUses && nextUses >= rule.maxUses) {
+    logger.warn('pricingRules.promoCode.exhausted', { code: nextCode, uses: nextUses, maxUses: rule.maxUses });
+    throw new Error(`El código ${nextCode} ya alcanzó su límite de ${rule.maxUses} usos`);
+  }
+
+  return () => {
+    const updatedAt = new Date();
+    if (previousCode) {
+      transaction.setPromoCodeUsage(previousCode, { code: previousCode, uses: Math.max(0, previousUses - 1), updatedAt });
+    }
+    if (nextCode) {
+      transaction.setPromoCodeUsage(nextCode, { code: nextCode, uses: nextUses + 1, updatedAt });
+    }
+  };
+};
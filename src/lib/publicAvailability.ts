@@ -1,11 +1,14 @@
-import { collection, getDocs, query, onSnapshot } from 'firebase/firestore';
-import { db } from './firebase';
-import { CABIN_TYPES, getMaxCapacity, getCabinDisplayName, getCabinColor, getCabinInfo, type CabinInfo } from './cabinConfig';
+import { getCabinIds, getCabinInfo, normalizeCabinType, type CabinInfo } from './cabinConfig';
 import { logger } from './logger';
+import { blocksInventory, conflictsWithStay, occupiesNight, staysOverlap, OccupyingStay } from './availabilityPolicy';
+import { getReservationRepository, StoredDocument } from './repository';
+import { findBlockStays } from './cabinBlocks';
+import { addDays } from './dateUtils';
 
 // Re-export CabinInfo for backward compatibility
 export type { CabinInfo };
 
+// Cabins are keyed by their id (see CabinInfo)
 export interface DayAvailability {
   date: string;
   cabins: {
@@ -25,30 +28,33 @@ export interface PublicAvailabilityResponse {
 // Re-export getCabinInfo from cabinConfig
 export { getCabinInfo };
 
-// Get reservations for a date range (for public availability check)
+// Get reservations for a date range (for public availability check); out-of-order blocks count as taken
 const getReservationsInRange = async (startDate: string, endDate: string) => {
   try {
-    const reservasRef = collection(db, 'reservas');
-    const reservasSnapshot = await getDocs(reservasRef);
+    const [documents, blockStays] = await Promise.all([
+      getReservationRepository().find(),
+      findBlockStays(startDate, addDays(endDate, 1))
+    ]);
     
-    const allReservations: any[] = [];
+    const allReservations: any[] = [...blockStays];
     
-    reservasSnapshot.docs.forEach(doc => {
-      const data = doc.data();
-      if (data.checkIn && data.checkOut) {
+    documents.forEach(doc => {
+      const data = doc.data as Partial<OccupyingStay>;
+      // Cancelled / no-show stays free the cabin and are never exposed publicly
+      if (data.checkIn && data.checkOut && blocksInventory(data)) {
         allReservations.push({
           id: doc.id,
           cabinType: data.cabinType,
           checkIn: data.checkIn,
-          checkOut: data.checkOut
+          checkOut: data.checkOut,
+          // A split stay takes each cabin only on the nights of its segment
+          segments: data.segments
         });
       }
     });
     
     // Filter to only include reservations that overlap with our date range
-    return allReservations.filter(res => {
-      return res.checkIn < endDate && res.checkOut > startDate;
-    });
+    return allReservations.filter(res => staysOverlap(res.checkIn, res.checkOut, startDate, endDate));
   } catch (error) {
     logger.error('publicAvailability.getReservationsInRange.error', { error: String(error) });
     return [];
@@ -62,12 +68,10 @@ const generateDayAvailability = (
 ): DayAvailability => {
   const cabins: DayAvailability['cabins'] = {};
   
-  CABIN_TYPES.forEach(cabinType => {
+  getCabinIds().forEach(cabinType => {
     // Check if any reservation occupies this cabin on this date
     const occupyingReservation = reservations.find(res => 
-      res.cabinType === cabinType && 
-      res.checkIn <= date && 
-      res.checkOut > date
+      occupiesNight(res, date, cabinType)
     );
     
     cabins[cabinType] = {
@@ -136,9 +140,7 @@ export const checkCabinAvailabilityPublic = async (
     const reservations = await getReservationsInRange(checkIn, checkOut);
     
     const hasConflict = reservations.some(res => 
-      res.cabinType === cabinType &&
-      res.checkIn < checkOut &&
-      res.checkOut > checkIn
+      conflictsWithStay(res, normalizeCabinType(cabinType), checkIn, checkOut)
     );
     
     return !hasConflict;
@@ -159,9 +161,7 @@ export const getAvailableCabins = async (
     
     return cabinInfo.filter(cabin => {
       const hasConflict = reservations.some(res => 
-        res.cabinType === cabin.name &&
-        res.checkIn < checkOut &&
-        res.checkOut > checkIn
+        conflictsWithStay(res, cabin.id, checkIn, checkOut)
       );
       return !hasConflict;
     });
@@ -179,42 +179,57 @@ export const subscribeToAvailability = (
   onError?: (error: Error) => void
 ): (() => void) => {
   logger.info('publicAvailability.subscribe.start', { startDate, endDate });
-  
-  const reservasRef = collection(db, 'reservas');
 
-  const unsubscribe = onSnapshot(
-    query(reservasRef),
-    (snapshot) => {
-      const reservasData = snapshot.docs
-        .map(doc => {
-          const data = doc.data();
-          if (data.checkIn && data.checkOut && data.cabinType) {
-            return {
-              id: doc.id,
-              cabinType: data.cabinType,
-              checkIn: data.checkIn,
-              checkOut: data.checkOut
-            };
-          }
-          return null;
-        })
-        .filter(res => res !== null)
-        .filter(res => res!.checkIn < endDate && res!.checkOut > startDate);
-      
-      const dates = getDateRange(startDate, endDate);
-      const availability = dates.map(date => generateDayAvailability(date, reservasData as any[]));
-      
-      const response: PublicAvailabilityResponse = {
-        cabins: getCabinInfo(),
-        availability,
-        lastUpdated: new Date().toISOString()
-      };
-      
-      logger.info('publicAvailability.subscribe.updated', { 
-        reservationsCount: reservasData.length 
-      });
-      
-      callback(response);
+  // Blocks change rarely: they are read once, and the latest reservations are published again when they arrive
+  let blockStays: OccupyingStay[] = [];
+  let latestDocuments: StoredDocument[] | null = null;
+
+  const publish = (documents: StoredDocument[]) => {
+    const reservasData = documents
+      .map(doc => {
+        const data = doc.data as Partial<OccupyingStay>;
+        if (data.checkIn && data.checkOut && data.cabinType && blocksInventory(data)) {
+          return {
+            id: doc.id,
+            cabinType: data.cabinType,
+            checkIn: data.checkIn,
+            checkOut: data.checkOut,
+            segments: data.segments
+          };
+        }
+        return null;
+      })
+      .filter(res => res !== null)
+      .filter(res => staysOverlap(res!.checkIn, res!.checkOut, startDate, endDate));
+    
+    const dates = getDateRange(startDate, endDate);
+    const availability = dates.map(date => generateDayAvailability(date, [...reservasData, ...blockStays] as any[]));
+    
+    const response: PublicAvailabilityResponse = {
+      cabins: getCabinInfo(),
+      availability,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    logger.info('publicAvailability.subscribe.updated', { 
+      reservationsCount: reservasData.length,
+      blocksCount: blockStays.length
+    });
+    
+    callback(response);
+  };
+
+  findBlockStays(startDate, addDays(endDate, 1))
+    .then(stays => {
+      blockStays = stays;
+      if (latestDocuments) publish(latestDocuments);
+    })
+    .catch(error => logger.error('publicAvailability.subscribe.blocks.error', { error: String(error) }));
+  
+  const unsubscribe = getReservationRepository().subscribe(
+    (documents) => {
+      latestDocuments = documents;
+      publish(documents);
     },
     (error) => {
       logger.error('publicAvailability.subscribe.error', { error: String(error) });
@@ -0,0 +1,85 @@
+import { logger } from './logger';
+import { SchemaIssue } from './schemas';
+import type { StoredDocument } from './repository';
+
+/**
+ * Quarantine for documents that fail their schema.
+ * Reads skip invalid documents instead of handing them to the screens, and record
+ * them here; the "Problemas de datos" page lists them with the exact failing fields.
+ */
+
+export type DataProblemCollection = 'reservas' | 'referentes' | 'grupos' | 'lista_espera' | 'fuera_de_servicio';
+
+export interface DataProblem {
+  collection: DataProblemCollection;
+  id: string;
+  label: string; // Passenger, referrer or group name, when readable
+  issues: SchemaIssue[];
+  detectedAt: string; // ISO date-time string
+}
+
+const quarantined = new Map<string, DataProblem>();
+
+const problemKey = (collection: DataProblemCollection, id: string) => `${collection}/${id}`;
+
+export const quarantineDocument = (
+  collection: DataProblemCollection,
+  id: string,
+  label: string,
+  issues: SchemaIssue[]
+): void => {
+  const key = problemKey(collection, id);
+  if (!quarantined.has(key)) {
+    logger.warn('dataProblems.quarantined', { collection, id, issues });
+  }
+  quarantined.set(key, { collection, id, label, issues, detectedAt: new Date().toISOString() });
+};
+
+// Documents fixed since they were quarantined leave the list on the next read
+export const releaseDocument = (collection: DataProblemCollection, id: string): void => {
+  quarantined.delete(problemKey(collection, id));
+};
+
+// A full scan starts from scratch so purged documents drop out
+export const clearQuarantine = (): void => {
+  quarantined.clear();
+};
+
+// Problems seen by reads in this session
+export const getQuarantinedDocuments = (): DataProblem[] => {
+  return Array.from(quarantined.values());
+};
+
+const unreadable = (error: unknown): SchemaIssue[] => [
+  { field: '(documento)', message: `No se pudo leer: ${String(error)}` }
+];
+
+// Normalizes stored documents and keeps the valid ones; the rest are quarantined
+export const readValidDocuments = <T>(
+  collection: DataProblemCollection,
+  documents: StoredDocument[],
+  normalize: (raw: Record<string, unknown>) => T,
+  validateItem: (item: T) => SchemaIssue[],
+  labelField: string
+): T[] => {
+  const valid: T[] = [];
+  documents.forEach(doc => {
+    const label = String(doc.data[labelField] || 'Sin nombre');
+    let item: T;
+    let issues: SchemaIssue[];
+    try {
+      item = normalize({ ...doc.data, id: doc.id });
+      issues = validateItem(item);
+    } catch (error) {
+      quarantineDocument(collection, doc.id, label, unreadable(error));
+      return;
+    }
+    if (issues.length > 0) {
+      quarantineDocument(collection, doc.id, label, issues);
+      return;
+    }
+    releaseDocument(collection, doc.id);
+    valid.push(item);
+  });
+  return valid;
+};
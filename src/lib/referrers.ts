@@ -1,20 +1,11 @@
-import {
-  collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  getDocs,
-  doc,
-  Timestamp,
-  orderBy,
-  query,
-} from 'firebase/firestore';
-import { db } from './firebase';
 import { Referrer, ReferrerPaymentStatus } from '@/types/referrer';
+import { isTrashed, assertPurgeable } from './trash';
+import { HistoryContext, diffFields, recordHistory, getHistoryActor } from './reservationHistory';
+import { getReferrerRepository, getReservationRepository, StoredDocument } from './repository';
+import { assertValid, validateReferrer, validateReferrerUpdate } from './schemas';
+import { readValidDocuments } from './quarantine';
 
-const COLLECTION = 'referentes';
-
-const normalize = (raw: any): Referrer => ({
+export const normalizeReferrer = (raw: any): Referrer => ({
   id: raw.id,
   name: raw.name || '',
   phone: raw.phone || '',
@@ -22,51 +13,95 @@ const normalize = (raw: any): Referrer => ({
   notes: raw.notes || '',
   createdAt: raw.createdAt?.toDate ? raw.createdAt.toDate() : raw.createdAt,
   updatedAt: raw.updatedAt?.toDate ? raw.updatedAt.toDate() : raw.updatedAt,
+  deletedAt: raw.deletedAt,
+  deletedBy: raw.deletedBy,
 });
 
+// Documents that fail the schema are quarantined instead of reaching the screens
+const toValidReferrers = (docs: StoredDocument[]): Referrer[] => {
+  return readValidDocuments<Referrer>('referentes', docs, normalizeReferrer, validateReferrer, 'name');
+};
+
 export const getAllReferrers = async (): Promise<Referrer[]> => {
   try {
-    const q = query(collection(db, COLLECTION), orderBy('name', 'asc'));
-    const snap = await getDocs(q);
-    return snap.docs.map((d) => normalize({ ...d.data(), id: d.id }));
+    const docs = await getReferrerRepository().find({ orderBy: { field: 'name', direction: 'asc' } });
+    return toValidReferrers(docs).filter((r) => !isTrashed(r));
   } catch {
-    const snap = await getDocs(collection(db, COLLECTION));
-    return snap.docs.map((d) => normalize({ ...d.data(), id: d.id }));
+    const docs = await getReferrerRepository().find();
+    return toValidReferrers(docs).filter((r) => !isTrashed(r));
   }
 };
 
+export const getTrashedReferrers = async (): Promise<Referrer[]> => {
+  // Ordering by deletedAt only returns documents that have the field
+  const docs = await getReferrerRepository().find({ orderBy: { field: 'deletedAt', direction: 'desc' } });
+  return toValidReferrers(docs).filter((r) => isTrashed(r));
+};
+
 export const createReferrer = async (data: Omit<Referrer, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
-  const docRef = await addDoc(collection(db, COLLECTION), {
+  const referrerData = {
     name: data.name.trim(),
     phone: data.phone || '',
     email: data.email || '',
     notes: data.notes || '',
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
-  return docRef.id;
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  assertValid(validateReferrer(referrerData));
+  return getReferrerRepository().create(referrerData);
 };
 
 export const updateReferrer = async (id: string, data: Partial<Referrer>): Promise<void> => {
-  const { id: _id, createdAt, updatedAt, ...rest } = data;
-  await updateDoc(doc(db, COLLECTION, id), {
+  const { id: _id, createdAt, updatedAt, deletedAt, deletedBy, ...rest } = data;
+  assertValid(validateReferrerUpdate(rest));
+  await getReferrerRepository().update(id, {
     ...rest,
-    updatedAt: Timestamp.now(),
+    updatedAt: new Date(),
+  });
+};
+
+// Moves the referrer to the trash; reservations keep their historical referrerName
+export const deleteReferrer = async (id: string, deletedBy: string = getHistoryActor()): Promise<void> => {
+  await getReferrerRepository().update(id, {
+    deletedAt: new Date().toISOString(),
+    deletedBy,
+    updatedAt: new Date(),
+  });
+};
+
+export const restoreReferrer = async (id: string): Promise<void> => {
+  await getReferrerRepository().update(id, {
+    deletedAt: undefined,
+    deletedBy: undefined,
+    updatedAt: new Date(),
   });
 };
 
-export const deleteReferrer = async (id: string): Promise<void> => {
-  await deleteDoc(doc(db, COLLECTION, id));
+// Permanently deletes a trashed referrer once the retention period is over
+export const purgeReferrer = async (id: string): Promise<void> => {
+  const stored = await getReferrerRepository().get(id);
+  if (!stored) return;
+  assertPurgeable(normalizeReferrer({ ...stored.data, id }));
+  await getReferrerRepository().delete(id);
 };
 
 // Update payment status of a reservation referred by someone
 export const setReservationReferrerPayment = async (
   reservationId: string,
-  status: ReferrerPaymentStatus
+  status: ReferrerPaymentStatus,
+  context?: HistoryContext
 ): Promise<void> => {
-  await updateDoc(doc(db, 'reservas', reservationId), {
+  const updateData = {
     referrerPaymentStatus: status,
-    referrerPaidAt: status === 'paid' ? Timestamp.now() : null,
-    updatedAt: Timestamp.now(),
+    referrerPaidAt: status === 'paid' ? new Date() : null,
+    updatedAt: new Date(),
+  };
+  await getReservationRepository().runTransaction(async (transaction) => {
+    const current = await transaction.get(reservationId);
+    if (!current) {
+      throw new Error('Reserva no encontrada');
+    }
+    transaction.update(reservationId, updateData);
+    recordHistory(transaction, reservationId, 'referrer_payment', diffFields(current.data, updateData), context);
   });
 };
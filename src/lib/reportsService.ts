@@ -1,12 +1,19 @@
-import { getAllReservations } from './reservationService';
-import { Reservation } from '@/types/reservation';
+import { getReservationsInRange, getStayDateBounds } from './reservationService';
+import { GuestResidency, PriceAdjustment, Reservation, ReservationAddOn, TaxBreakdown, TaxTreatment } from '@/types/reservation';
 import { format, isWithinInterval } from 'date-fns';
 import { es } from 'date-fns/locale';
 import Papa from 'papaparse';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { parseDate, formatDateForDisplay } from './dateUtils';
+import { parseDate, formatDateForDisplay, formatDateToISO } from './dateUtils';
 import { logger } from './logger';
+import { isCancelled } from './cancellations';
+import { quarantineDocument } from './quarantine';
+import { getCabinDisplayName, getCabinIds, getCabinName } from './cabinConfig';
+import { formatPriceLine, getReservationPriceLines, PriceLine } from './pricing';
+import { sumAdjustments } from './pricingRules';
+import { describeAddOn, sumAddOns } from './folio';
+import { calculateTaxes, getReservationTaxes, GUEST_RESIDENCY_LABELS, TAX_TREATMENT_LABELS } from './taxes';
 
 export interface ReportData {
   passengerName: string;
@@ -22,10 +29,21 @@ export interface ReportData {
   month: string;
   year: string;
   totalPrice: number;
+  grossPrice: number; // Stay before discounts; the custom price for custom prices
+  discounts: number; // Taken off by pricing rules, as a positive amount
+  priceAdjustments: PriceAdjustment[];
+  addOns: ReservationAddOn[];
+  addOnsTotal: number; // Part of totalPrice
+  guestResidency: GuestResidency;
+  taxTreatment: TaxTreatment;
+  taxes: TaxBreakdown;
+  priceLines: PriceLine[]; // Nightly breakdown; empty for custom prices
   totalPaid: number;
   remainingBalance: number;
   paymentStatus: string;
   hasRentedCar: boolean;
+  cancelled: boolean;
+  cancellationFee: number;
 }
 
 export interface ReportFilters {
@@ -33,8 +51,90 @@ export interface ReportFilters {
   year: number;
   cabinType?: string;
   includeOverlaps?: boolean; // Include reservations that span month boundaries
+  includeCancelled?: boolean; // Cancelled stays are excluded unless requested
 }
 
+export interface RevenueSummary {
+  grossRevenue: number;
+  discounts: number;
+  waivedIva: number;
+  addOnRevenue: number;
+  netRevenue: number;
+  cancellationFees: number; // Retained from cancelled stays, included in netRevenue
+  // IVA split of netRevenue, for the monthly tax return
+  taxableRevenue: number; // Net of IVA
+  iva: number;
+  exemptRevenue: number;
+  exemptStays: number;
+}
+
+/**
+ * Stays before discounts, discounts, add-ons, the resulting totals and their IVA. A cancelled
+ * stay only counts with the fee it retained, taxed like the stay it was charged for.
+ */
+export const getRevenueSummary = (data: ReportData[]): RevenueSummary => {
+  return data.reduce<RevenueSummary>((summary, row) => {
+    if (row.cancelled) {
+      if (row.cancellationFee <= 0) return summary;
+      const feeTaxes = calculateTaxes(row.cancellationFee, row.taxTreatment, [], 0, row.taxes.ivaRate);
+      return {
+        ...summary,
+        netRevenue: summary.netRevenue + row.cancellationFee,
+        cancellationFees: summary.cancellationFees + row.cancellationFee,
+        taxableRevenue: summary.taxableRevenue + feeTaxes.net,
+        iva: summary.iva + feeTaxes.iva,
+        exemptRevenue: summary.exemptRevenue + feeTaxes.exempt,
+      };
+    }
+    return {
+      grossRevenue: summary.grossRevenue + row.grossPrice,
+      discounts: summary.discounts + row.discounts,
+      waivedIva: summary.waivedIva + row.taxes.waivedIva,
+      addOnRevenue: summary.addOnRevenue + row.addOnsTotal,
+      netRevenue: summary.netRevenue + row.totalPrice,
+      cancellationFees: summary.cancellationFees,
+      taxableRevenue: summary.taxableRevenue + row.taxes.net,
+      iva: summary.iva + row.taxes.iva,
+      exemptRevenue: summary.exemptRevenue + row.taxes.exempt,
+      exemptStays: summary.exemptStays + (row.taxTreatment === 'exempt' ? 1 : 0),
+    };
+  }, {
+    grossRevenue: 0, discounts: 0, waivedIva: 0, addOnRevenue: 0, netRevenue: 0, cancellationFees: 0,
+    taxableRevenue: 0, iva: 0, exemptRevenue: 0, exemptStays: 0,
+  });
+};
+
+// "Estadía larga -$50.000 | Código promocional (VERANO) -$20.000"
+const formatAdjustments = (adjustments: PriceAdjustment[]): string => {
+  return adjustments
+    .map(adjustment => `${adjustment.name}${adjustment.code ? ` (${adjustment.code})` : ''} -$${Math.abs(adjustment.amount).toLocaleString('es-CL')}`)
+    .join(' | ');
+};
+
+// "Traslado aeropuerto 2 × $10.000 por persona $40.000 | Desayuno ..."
+const formatAddOns = (addOns: ReservationAddOn[]): string => {
+  return addOns
+    .map(addOn => `${addOn.name} ${describeAddOn(addOn)} $${addOn.total.toLocaleString('es-CL')}`)
+    .join(' | ');
+};
+
+const computePriceInfo = (reservation: Reservation) => {
+  const addOns = reservation.addOns || [];
+  const addOnsTotal = sumAddOns(addOns);
+  const taxes = getReservationTaxes(reservation);
+  return {
+    grossPrice: reservation.grossPrice ?? ((reservation.totalPrice || 0) - addOnsTotal + taxes.waivedIva),
+    discounts: -sumAdjustments(reservation.priceAdjustments),
+    priceAdjustments: reservation.priceAdjustments || [],
+    addOns,
+    addOnsTotal,
+    priceLines: getReservationPriceLines(reservation),
+    guestResidency: reservation.guestResidency || 'resident',
+    taxTreatment: reservation.taxTreatment || 'taxable',
+    taxes,
+  };
+};
+
 const computePaymentInfo = (reservation: Reservation) => {
   const totalPrice = reservation.totalPrice || 0;
   const totalPaid = (reservation.payments || []).reduce((sum, p) => sum + (p?.amount || 0), 0);
@@ -49,16 +149,25 @@ const computePaymentInfo = (reservation: Reservation) => {
     fully_paid: 'Pagado',
     overdue: 'Atrasado',
   };
-  const paymentStatus = statusMap[reservation.paymentStatus] || reservation.paymentStatus || 'N/A';
+  const paymentStatus = isCancelled(reservation)
+    ? 'Cancelada'
+    : statusMap[reservation.paymentStatus] || reservation.paymentStatus || 'N/A';
   return { totalPrice, totalPaid, remainingBalance, paymentStatus };
 };
 
+// Only stays overlapping the report period are read; the filters below narrow them down
+const loadReportReservations = (filters: ReportFilters): Promise<Reservation[]> => {
+  const start = filters.month ? new Date(filters.year, filters.month - 1, 1) : new Date(filters.year, 0, 1);
+  const end = filters.month ? new Date(filters.year, filters.month, 0) : new Date(filters.year, 11, 31);
+  return getReservationsInRange(formatDateToISO(start), formatDateToISO(end));
+};
+
 export const generateReportData = async (filters: ReportFilters): Promise<ReportData[]> => {
   logger.info('reports.generateReportData.start', { filters });
   logger.time('reports.generateReportData');
 
   try {
-    const reservations = await getAllReservations();
+    const reservations = await loadReportReservations(filters);
     logger.debug('reports.generateReportData.loaded', { totalReservations: reservations.length });
     
     const reportData: ReportData[] = reservations
@@ -115,6 +224,8 @@ export const generateReportData = async (filters: ReportFilters): Promise<Report
           
           // Filter by cabin type if specified
           if (filters.cabinType && reservation.cabinType !== filters.cabinType) return false;
+
+          if (!filters.includeCancelled && isCancelled(reservation)) return false;
           
           return true;
         } catch (error) {
@@ -144,35 +255,24 @@ export const generateReportData = async (filters: ReportFilters): Promise<Report
             month: format(checkInDate, 'MMMM', { locale: es }),
             year: checkInDate.getFullYear().toString(),
             ...computePaymentInfo(reservation),
+            ...computePriceInfo(reservation),
             hasRentedCar: !!reservation.hasRentedCar,
+            cancelled: isCancelled(reservation),
+            cancellationFee: reservation.cancellation?.fee || 0,
           };
         } catch (error) {
           logger.error('reports.generateReportData.mapping_error', { 
             id: reservation.id, 
             error: String(error) 
           });
-          // Return fallback data for corrupted reservations
-          return {
-            passengerName: reservation.passengerName || 'Error en datos',
-            checkIn: reservation.checkIn || 'N/A',
-            checkOut: reservation.checkOut || 'N/A',
-            arrivalFlight: 'N/A',
-            departureFlight: 'N/A',
-            totalGuests: 0,
-            adults: 0,
-            children: 0,
-            babies: 0,
-            cabinType: reservation.cabinType || 'N/A',
-            month: 'N/A',
-            year: 'N/A',
-            totalPrice: 0,
-            totalPaid: 0,
-            remainingBalance: 0,
-            paymentStatus: 'N/A',
-            hasRentedCar: false,
-          };
+          // Listed in "Problemas de datos" instead of polluting the report
+          quarantineDocument('reservas', reservation.id!, reservation.passengerName || 'Sin nombre', [
+            { field: '(documento)', message: `No se pudo incluir en el reporte: ${String(error)}` }
+          ]);
+          return null;
         }
       })
+      .filter((row): row is ReportData => row !== null)
       // Robust date-based sorting
       .sort((a, b) => {
         try {
@@ -224,19 +324,33 @@ export const exportToCSV = (data: ReportData[], filters: ReportFilters): void =>
       'Adultos': sanitizeCSVValue(row.adults),
       'Niños': sanitizeCSVValue(row.children),
       'Bebés': sanitizeCSVValue(row.babies),
-      'Tipo de Cabaña': sanitizeCSVValue(row.cabinType),
+      'Tipo de Cabaña': sanitizeCSVValue(getCabinName(row.cabinType)),
       'Auto Arrendado': sanitizeCSVValue(row.hasRentedCar ? 'Sí' : 'No'),
+      'Precio Bruto': sanitizeCSVValue(row.grossPrice),
+      'Descuentos': sanitizeCSVValue(row.discounts),
+      'Detalle Descuentos': sanitizeCSVValue(formatAdjustments(row.priceAdjustments)),
+      'Servicios Adicionales': sanitizeCSVValue(row.addOnsTotal),
+      'Detalle Servicios': sanitizeCSVValue(formatAddOns(row.addOns)),
+      'Residencia': sanitizeCSVValue(GUEST_RESIDENCY_LABELS[row.guestResidency]),
+      'Tratamiento IVA': sanitizeCSVValue(TAX_TREATMENT_LABELS[row.taxTreatment]),
+      'Exención IVA': sanitizeCSVValue(row.taxes.waivedIva),
+      'Neto Afecto': sanitizeCSVValue(row.taxes.net),
+      'IVA': sanitizeCSVValue(row.taxes.iva),
+      'Exento': sanitizeCSVValue(row.taxes.exempt),
       'Precio Total': sanitizeCSVValue(row.totalPrice),
+      'Detalle por Noche': sanitizeCSVValue(row.priceLines.map(formatPriceLine).join(' | ')),
       'Abono Pagado': sanitizeCSVValue(row.totalPaid),
       'Saldo Pendiente': sanitizeCSVValue(row.remainingBalance),
       'Estado de Pago': sanitizeCSVValue(row.paymentStatus),
+      'Cancelada': sanitizeCSVValue(row.cancelled ? 'Sí' : 'No'),
+      'Cargo Cancelación': sanitizeCSVValue(row.cancellationFee),
     }));
 
     const csv = Papa.unparse(csvData);
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     
-    const fileName = `reporte_uso_${filters.year}${filters.month ? `_${String(filters.month).padStart(2, '0')}` : ''}${filters.cabinType ? `_${filters.cabinType.replace(/\s+/g, '_')}` : ''}.csv`;
+    const fileName = `reporte_uso_${filters.year}${filters.month ? `_${String(filters.month).padStart(2, '0')}` : ''}${filters.cabinType ? `_${getCabinDisplayName(filters.cabinType).replace(/\s+/g, '_')}` : ''}.csv`;
     
     link.href = URL.createObjectURL(blob);
     link.download = fileName;
@@ -273,11 +387,14 @@ export const exportToPDF = (data: ReportData[], filters: ReportFilters): void =>
       filterText += ` | Mes: ${monthNames[filters.month - 1]}`;
     }
     if (filters.cabinType) {
-      filterText += ` | Cabaña: ${filters.cabinType}`;
+      filterText += ` | Cabaña: ${getCabinName(filters.cabinType)}`;
     }
     if (filters.includeOverlaps) {
       filterText += ' | Incluye solapamientos';
     }
+    if (filters.includeCancelled) {
+      filterText += ' | Incluye canceladas';
+    }
     
     doc.text(filterText, 20, 30);
     
@@ -302,7 +419,7 @@ export const exportToPDF = (data: ReportData[], filters: ReportFilters): void =>
       row.passengerName.length > 18 ? row.passengerName.substring(0, 15) + '...' : row.passengerName,
       row.checkIn,
       row.checkOut,
-      row.cabinType.split(' (')[0],
+      getCabinDisplayName(row.cabinType),
       row.adults.toString(),
       row.children.toString(),
       row.babies.toString(),
@@ -330,8 +447,139 @@ export const exportToPDF = (data: ReportData[], filters: ReportFilters): void =>
       },
       margin: { top: 40, left: 8, right: 8 },
     });
+
+    // Revenue before and after discounts, and add-ons
+    const revenue = getRevenueSummary(data);
+    const lastTable = (doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable;
+    let summaryY = (lastTable?.finalY ?? 40) + 10;
+    if (summaryY > doc.internal.pageSize.getHeight() - 20) {
+      doc.addPage();
+      summaryY = 20;
+    }
+    doc.setFontSize(10);
+    doc.text(
+      `Alojamiento bruto: $${revenue.grossRevenue.toLocaleString('es-CL')}   Descuentos: -$${revenue.discounts.toLocaleString('es-CL')}   Exención IVA: -$${revenue.waivedIva.toLocaleString('es-CL')}   Servicios: $${revenue.addOnRevenue.toLocaleString('es-CL')}   Cargos por cancelación: $${revenue.cancellationFees.toLocaleString('es-CL')}   Ingresos totales: $${revenue.netRevenue.toLocaleString('es-CL')}`,
+      8,
+      summaryY
+    );
+
+    // IVA of the period: taxable sales and their IVA, exempt sales (foreign tourists, non-taxable add-ons)
+    autoTable(doc, {
+      head: [['Resumen IVA', 'Monto']],
+      body: [
+        ['Ventas afectas (neto)', `$${revenue.taxableRevenue.toLocaleString('es-CL')}`],
+        ['IVA débito', `$${revenue.iva.toLocaleString('es-CL')}`],
+        [`Ventas exentas (${revenue.exemptStays} estadía(s) de turistas extranjeros)`, `$${revenue.exemptRevenue.toLocaleString('es-CL')}`],
+        ['Total', `$${revenue.netRevenue.toLocaleString('es-CL')}`],
+      ],
+      startY: summaryY + 4,
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: {
+        fillColor: [41, 128, 185],
+        textColor: 255,
+        fontStyle: 'bold',
+      },
+      columnStyles: { 1: { halign: 'right' } },
+      margin: { left: 8 },
+      tableWidth: 120,
+    });
+
+    // Discounts applied, one row per pricing rule of each reservation
+    const discountRows = data.flatMap(row => row.priceAdjustments.map(adjustment => [
+      row.passengerName.length > 18 ? row.passengerName.substring(0, 15) + '...' : row.passengerName,
+      row.checkIn,
+      adjustment.name,
+      adjustment.code || '',
+      `$${row.grossPrice.toLocaleString('es-CL')}`,
+      `-$${Math.abs(adjustment.amount).toLocaleString('es-CL')}`,
+    ]));
+    if (discountRows.length > 0) {
+      doc.addPage();
+      doc.setFontSize(14);
+      doc.text('Descuentos Aplicados', 20, 20);
+      autoTable(doc, {
+        head: [['Pasajero', 'Check-in', 'Descuento', 'Código', 'Precio bruto', 'Monto']],
+        body: discountRows,
+        startY: 28,
+        styles: {
+          fontSize: 7,
+          cellPadding: 2,
+          overflow: 'linebreak',
+        },
+        headStyles: {
+          fillColor: [41, 128, 185],
+          textColor: 255,
+          fontStyle: 'bold',
+        },
+        margin: { top: 28, left: 8, right: 8 },
+      });
+    }
+
+    // Add-ons sold, one row per service of each reservation
+    const addOnRows = data.flatMap(row => row.addOns.map(addOn => [
+      row.passengerName.length > 18 ? row.passengerName.substring(0, 15) + '...' : row.passengerName,
+      row.checkIn,
+      addOn.name,
+      describeAddOn(addOn),
+      addOn.taxable ? 'Sí' : 'No',
+      `$${addOn.total.toLocaleString('es-CL')}`,
+    ]));
+    if (addOnRows.length > 0) {
+      doc.addPage();
+      doc.setFontSize(14);
+      doc.text('Servicios Adicionales', 20, 20);
+      autoTable(doc, {
+        head: [['Pasajero', 'Check-in', 'Servicio', 'Detalle', 'Afecto IVA', 'Total']],
+        body: addOnRows,
+        startY: 28,
+        styles: {
+          fontSize: 7,
+          cellPadding: 2,
+          overflow: 'linebreak',
+        },
+        headStyles: {
+          fillColor: [41, 128, 185],
+          textColor: 255,
+          fontStyle: 'bold',
+        },
+        margin: { top: 28, left: 8, right: 8 },
+      });
+    }
+
+    // Nightly breakdown on its own page: one row per run of nights at the same rate
+    const breakdownRows = data.flatMap(row => row.priceLines.map(line => [
+      row.passengerName.length > 18 ? row.passengerName.substring(0, 15) + '...' : row.passengerName,
+      `${formatDateForDisplay(line.checkIn)} - ${formatDateForDisplay(line.checkOut)}`,
+      getCabinDisplayName(line.cabinType),
+      line.season,
+      line.ratePlanName,
+      line.nights.toString(),
+      `$${line.nightlyRate.toLocaleString('es-CL')}`,
+      `$${line.total.toLocaleString('es-CL')}`,
+    ]));
+    if (breakdownRows.length > 0) {
+      doc.addPage();
+      doc.setFontSize(14);
+      doc.text('Detalle por Noche', 20, 20);
+      autoTable(doc, {
+        head: [['Pasajero', 'Período', 'Cabaña', 'Temporada', 'Tarifa', 'Noches', 'Por noche', 'Total']],
+        body: breakdownRows,
+        startY: 28,
+        styles: {
+          fontSize: 7,
+          cellPadding: 2,
+          overflow: 'linebreak',
+        },
+        headStyles: {
+          fillColor: [41, 128, 185],
+          textColor: 255,
+          fontStyle: 'bold',
+        },
+        margin: { top: 28, left: 8, right: 8 },
+      });
+    }
     
-    const fileName = `reporte_uso_${filters.year}${filters.month ? `_${String(filters.month).padStart(2, '0')}` : ''}${filters.cabinType ? `_${filters.cabinType.replace(/\s+/g, '_')}` : ''}.pdf`;
+    const fileName = `reporte_uso_${filters.year}${filters.month ? `_${String(filters.month).padStart(2, '0')}` : ''}${filters.cabinType ? `_${getCabinDisplayName(filters.cabinType).replace(/\s+/g, '_')}` : ''}.pdf`;
     
     doc.save(fileName);
     
@@ -344,14 +592,8 @@ export const exportToPDF = (data: ReportData[], filters: ReportFilters): void =>
   }
 };
 
-export const getCabinTypes = (): string[] => {
-  return [
-    'Cabaña Pequeña (Max 3p)',
-    'Cabaña Mediana 1 (Max 4p)',
-    'Cabaña Mediana 2 (Max 4p)',
-    'Cabaña Grande (Max 6p)'
-  ];
-};
+// Cabin ids as configured in Admin
+export const getCabinTypes = (): string[] => getCabinIds();
 
 export type CabinGroup = 'small-large' | 'mediums';
 
@@ -359,12 +601,12 @@ const CABIN_GROUPS: Record<CabinGroup, { label: string; fileSuffix: string; type
   'small-large': {
     label: 'Pequeña + Grande',
     fileSuffix: 'pequena_grande',
-    types: ['Cabaña Pequeña (Max 3p)', 'Cabaña Grande (Max 6p)'],
+    types: ['cabin-1', 'cabin-4'],
   },
   'mediums': {
     label: 'Medianas (1 y 2)',
     fileSuffix: 'medianas',
-    types: ['Cabaña Mediana 1 (Max 4p)', 'Cabaña Mediana 2 (Max 4p)'],
+    types: ['cabin-2', 'cabin-3'],
   },
 };
 
@@ -373,7 +615,7 @@ export const generateReportDataByCabinTypes = async (filters: ReportFilters, cab
   logger.time('reports.generateReportDataByCabinTypes');
 
   try {
-    const reservations = await getAllReservations();
+    const reservations = await loadReportReservations(filters);
     logger.debug('reports.generateReportDataByCabinTypes.loaded', { totalReservations: reservations.length });
 
     const reportData: ReportData[] = reservations
@@ -412,6 +654,8 @@ export const generateReportDataByCabinTypes = async (filters: ReportFilters, cab
           
           if (!cabinTypes.includes(reservation.cabinType)) return false;
 
+          if (!filters.includeCancelled && isCancelled(reservation)) return false;
+
           return true;
         } catch (error) {
           logger.error('reports.generateReportDataByCabinTypes.filter_error', { 
@@ -440,34 +684,23 @@ export const generateReportDataByCabinTypes = async (filters: ReportFilters, cab
             month: format(checkInDate, 'MMMM', { locale: es }),
             year: checkInDate.getFullYear().toString(),
             ...computePaymentInfo(reservation),
+            ...computePriceInfo(reservation),
             hasRentedCar: !!reservation.hasRentedCar,
+            cancelled: isCancelled(reservation),
+            cancellationFee: reservation.cancellation?.fee || 0,
           };
         } catch (error) {
           logger.error('reports.generateReportDataByCabinTypes.mapping_error', { 
             id: reservation.id, 
             error: String(error) 
           });
-          return {
-            passengerName: 'Error en datos',
-            checkIn: 'N/A',
-            checkOut: 'N/A',
-            arrivalFlight: 'N/A',
-            departureFlight: 'N/A',
-            totalGuests: 0,
-            adults: 0,
-            children: 0,
-            babies: 0,
-            cabinType: 'N/A',
-            month: 'N/A',
-            year: 'N/A',
-            totalPrice: 0,
-            totalPaid: 0,
-            remainingBalance: 0,
-            paymentStatus: 'N/A',
-            hasRentedCar: false,
-          };
+          quarantineDocument('reservas', reservation.id!, reservation.passengerName || 'Sin nombre', [
+            { field: '(documento)', message: `No se pudo incluir en el reporte: ${String(error)}` }
+          ]);
+          return null;
         }
       })
+      .filter((row): row is ReportData => row !== null)
       .sort((a, b) => {
         try {
           const dateA = a.checkIn.split('/').reverse().join('-');
@@ -519,12 +752,14 @@ export const exportCabinGroupToCSV = async (filters: ReportFilters, group: Cabin
       'Adultos': sanitizeCSVValue(row.adults),
       'Niños': sanitizeCSVValue(row.children),
       'Bebés': sanitizeCSVValue(row.babies),
-      'Tipo de Cabaña': sanitizeCSVValue(row.cabinType),
+      'Tipo de Cabaña': sanitizeCSVValue(getCabinName(row.cabinType)),
       'Auto Arrendado': sanitizeCSVValue(row.hasRentedCar ? 'Sí' : 'No'),
       'Precio Total': sanitizeCSVValue(row.totalPrice),
       'Abono Pagado': sanitizeCSVValue(row.totalPaid),
       'Saldo Pendiente': sanitizeCSVValue(row.remainingBalance),
       'Estado de Pago': sanitizeCSVValue(row.paymentStatus),
+      'Cancelada': sanitizeCSVValue(row.cancelled ? 'Sí' : 'No'),
+      'Cargo Cancelación': sanitizeCSVValue(row.cancellationFee),
     }));
 
     const csv = Papa.unparse(csvData);
@@ -571,6 +806,9 @@ export const exportCabinGroupToPDF = async (filters: ReportFilters, group: Cabin
     if (filters.includeOverlaps) {
       filterText += ' | Incluye solapamientos';
     }
+    if (filters.includeCancelled) {
+      filterText += ' | Incluye canceladas';
+    }
     doc.text(filterText, 20, 30);
 
     const headers = [
@@ -592,7 +830,7 @@ export const exportCabinGroupToPDF = async (filters: ReportFilters, group: Cabin
       row.passengerName.length > 18 ? row.passengerName.substring(0, 15) + '...' : row.passengerName,
       row.checkIn,
       row.checkOut,
-      row.cabinType.split(' (')[0],
+      getCabinDisplayName(row.cabinType),
       row.adults.toString(),
       row.children.toString(),
       row.babies.toString(),
@@ -639,28 +877,25 @@ export const getAvailableYears = async (): Promise<number[]> => {
   logger.time('reports.getAvailableYears');
 
   try {
-    const reservations = await getAllReservations();
+    const { firstCheckIn, lastCheckOut } = await getStayDateBounds();
     
+    // Every year between the first check-in and the last check-out
     const years = new Set<number>();
-    reservations.forEach(r => {
-      try {
-        if (r.checkIn) {
-          const checkInDate = parseDate(r.checkIn);
-          if (checkInDate) years.add(checkInDate.getFullYear());
-        }
-        if (r.checkOut) {
-          const checkOutDate = parseDate(r.checkOut);
-          if (checkOutDate) years.add(checkOutDate.getFullYear());
+    try {
+      if (firstCheckIn && lastCheckOut) {
+        const firstYear = parseDate(firstCheckIn).getFullYear();
+        const lastYear = parseDate(lastCheckOut).getFullYear();
+        for (let year = firstYear; year <= lastYear; year++) {
+          years.add(year);
         }
-      } catch (error) {
-        logger.warn('reports.getAvailableYears.date_parse_error', { 
-          id: r.id, 
-          checkIn: r.checkIn, 
-          checkOut: r.checkOut,
-          error: String(error) 
-        });
       }
-    });
+    } catch (error) {
+      logger.warn('reports.getAvailableYears.date_parse_error', { 
+        firstCheckIn, 
+        lastCheckOut,
+        error: String(error) 
+      });
+    }
 
     const sortedYears = Array.from(years).sort((a, b) => b - a); // Most recent first
     
@@ -0,0 +1,174 @@
+import type { ReservationHistoryEntry } from '@/types/reservation';
+import type { OccupancyLock } from './occupancyLocks';
+import { createFirestoreRepositories } from './firestoreRepository';
+import { createMemoryRepositories } from './memoryRepository';
+import { logger } from './logger';
+
+/**
+ * Storage-agnostic access to reservations, referrers, group bookings, the waitlist,
+ * out-of-order blocks and the shared admin configuration.
+ * Business modules only talk to these interfaces; `firestoreRepository.ts` backs the
+ * app and `memoryRepository.ts` backs tests and the local demo mode.
+ *
+ * Documents are returned raw (as stored); callers normalize them.
+ * In `update`, a field set to `undefined` is removed from the document.
+ */
+
+export type StoredData = Record<string, unknown>;
+
+export interface StoredDocument {
+  id: string;
+  data: StoredData;
+}
+
+// 'array-contains' matches documents whose array field includes the value
+export type QueryOperator = '==' | '<' | '<=' | '>' | '>=' | 'array-contains';
+
+export interface QueryFilter {
+  field: string;
+  op: QueryOperator;
+  value: string | number | boolean;
+}
+
+// Position of the last document of a page: its orderBy value plus its id to break ties
+export interface QueryCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface QueryOptions {
+  filters?: QueryFilter[];
+  // Like Firestore, ordering by a field leaves out documents that do not have it
+  orderBy?: { field: string; direction?: 'asc' | 'desc' };
+  limit?: number;
+  // Requires orderBy; documents are then also ordered by id
+  startAfter?: QueryCursor;
+}
+
+/**
+ * Writes staged inside a transaction are applied together when the work resolves.
+ * All reads must happen before the first write.
+ */
+// Uses of a promo code: reservations holding it that are neither cancelled nor in the trash
+export interface PromoCodeUsage {
+  code: string;
+  uses: number;
+  updatedAt?: Date;
+}
+
+// Firestore rejects a transaction with more writes; callers writing many locks check against it
+export const MAX_TRANSACTION_WRITES = 500;
+
+export interface ReservationTransaction {
+  get(id: string): Promise<StoredDocument | null>;
+  getLocks(lockIds: string[]): Promise<Map<string, OccupancyLock | null>>;
+  create(data: StoredData): string;
+  update(id: string, data: StoredData): void;
+  delete(id: string): void;
+  setLock(lockId: string, lock: OccupancyLock): void;
+  deleteLock(lockId: string): void;
+  appendHistory(reservationId: string, entry: ReservationHistoryEntry): void;
+  // Group bookings are written together with their member reservations
+  getGroup(id: string): Promise<StoredDocument | null>;
+  createGroup(data: StoredData): string;
+  updateGroup(id: string, data: StoredData): void;
+  deleteGroup(id: string): void;
+  // Out-of-order blocks are written together with the occupancy locks of their nights
+  getBlock(id: string): Promise<StoredDocument | null>;
+  createBlock(data: StoredData): string;
+  updateBlock(id: string, data: StoredData): void;
+  deleteBlock(id: string): void;
+  // Promo code usage counters are taken and released in the transaction that changes the reservation
+  getPromoCodeUsage(code: string): Promise<PromoCodeUsage | null>;
+  setPromoCodeUsage(code: string, usage: PromoCodeUsage): void;
+}
+
+export interface ReservationRepository {
+  get(id: string): Promise<StoredDocument | null>;
+  find(options?: QueryOptions): Promise<StoredDocument[]>;
+  subscribe(onChange: (documents: StoredDocument[]) => void, onError?: (error: Error) => void): () => void;
+  getHistory(reservationId: string): Promise<ReservationHistoryEntry[]>;
+  // Purge only: history entries are never removed while the reservation exists
+  deleteHistory(reservationId: string): Promise<void>;
+  runTransaction<T>(work: (transaction: ReservationTransaction) => Promise<T>): Promise<T>;
+}
+
+export interface ReferrerRepository {
+  get(id: string): Promise<StoredDocument | null>;
+  find(options?: QueryOptions): Promise<StoredDocument[]>;
+  create(data: StoredData): Promise<string>;
+  update(id: string, data: StoredData): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Read side only; groups change through ReservationRepository.runTransaction
+export interface GroupRepository {
+  get(id: string): Promise<StoredDocument | null>;
+  find(options?: QueryOptions): Promise<StoredDocument[]>;
+}
+
+// Same operations as referrers: entries are independent documents
+export type WaitlistRepository = ReferrerRepository;
+
+// Read side only; blocks change through ReservationRepository.runTransaction
+export type CabinBlockRepository = GroupRepository;
+
+// Same read-before-write rule as reservation transactions
+export interface ConfigTransaction {
+  getCurrent(): Promise<StoredData | null>;
+  setCurrent(data: StoredData): void;
+  addVersion(data: StoredData): void;
+}
+
+// One current admin configuration plus the history of its saved versions
+export interface ConfigRepository {
+  getCurrent(): Promise<StoredData | null>;
+  subscribe(onChange: (data: StoredData | null) => void, onError?: (error: Error) => void): () => void;
+  // Newest first
+  getVersions(limit?: number): Promise<StoredDocument[]>;
+  runTransaction<T>(work: (transaction: ConfigTransaction) => Promise<T>): Promise<T>;
+}
+
+export interface Repositories {
+  reservations: ReservationRepository;
+  referrers: ReferrerRepository;
+  groups: GroupRepository;
+  waitlist: WaitlistRepository;
+  blocks: CabinBlockRepository;
+  config: ConfigRepository;
+}
+
+let active: Repositories | null = null;
+
+// VITE_DATA_SOURCE=memory runs the app without Firebase (demo mode)
+const createDefaultRepositories = (): Repositories => {
+  if (import.meta.env.VITE_DATA_SOURCE === 'memory') {
+    logger.info('repository.source', { source: 'memory' });
+    return createMemoryRepositories();
+  }
+  return createFirestoreRepositories();
+};
+
+export const getRepositories = (): Repositories => {
+  if (!active) {
+    active = createDefaultRepositories();
+  }
+  return active;
+};
+
+// Swap the storage backend (tests, demo data)
+export const setRepositories = (repositories: Repositories): void => {
+  active = repositories;
+};
+
+export const getReservationRepository = (): ReservationRepository => getRepositories().reservations;
+
+export const getReferrerRepository = (): ReferrerRepository => getRepositories().referrers;
+
+export const getGroupRepository = (): GroupRepository => getRepositories().groups;
+
+export const getWaitlistRepository = (): WaitlistRepository => getRepositories().waitlist;
+
+export const getCabinBlockRepository = (): CabinBlockRepository => getRepositories().blocks;
+
+export const getConfigRepository = (): ConfigRepository => getRepositories().config;
@@ -0,0 +1,119 @@
+import { FieldChange, ReservationHistoryAction, ReservationHistoryEntry } from '@/types/reservation';
+import { logger } from './logger';
+import { getReservationRepository } from './repository';
+import type { ReservationTransaction } from './repository';
+
+/**
+ * Per-reservation change history.
+ * Every mutation appends one entry to `reservas/{id}/historial` in the same
+ * transaction as the change itself, so the trail cannot drift from the data.
+ */
+
+const ACTOR_STORAGE_KEY = 'manuara_operator_name';
+const DEFAULT_ACTOR = 'Sistema';
+
+// Bookkeeping fields that change on every write, or are derived (cabinTypes), are not worth recording
+const IGNORED_FIELDS = ['updatedAt', 'createdAt', 'cabinTypes'];
+
+export interface HistoryContext {
+  actor?: string;
+  source?: string;
+}
+
+// There is no login, so each device stores the name of whoever operates it
+export const getHistoryActor = (): string => {
+  try {
+    return localStorage.getItem(ACTOR_STORAGE_KEY)?.trim() || DEFAULT_ACTOR;
+  } catch {
+    return DEFAULT_ACTOR;
+  }
+};
+
+export const setHistoryActor = (name: string): void => {
+  try {
+    if (name.trim()) {
+      localStorage.setItem(ACTOR_STORAGE_KEY, name.trim());
+    } else {
+      localStorage.removeItem(ACTOR_STORAGE_KEY);
+    }
+  } catch (error) {
+    logger.warn('reservationHistory.setHistoryActor.error', { error: String(error) });
+  }
+};
+
+const getCurrentSource = (): string => {
+  return typeof window !== 'undefined' ? window.location.pathname : 'system';
+};
+
+const hasToDate = (value: unknown): value is { toDate: () => Date } => {
+  return !!value && typeof (value as { toDate?: unknown }).toDate === 'function';
+};
+
+// Storage rejects undefined and Timestamps/Dates differ per backend; keep entries plain JSON
+const toHistoryValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (hasToDate(value)) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toHistoryValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, toHistoryValue(v)])
+    );
+  }
+  return value;
+};
+
+// A missing field and an empty string are the same thing for the forms
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  const blank = (value: unknown) => value === null || value === '';
+  if (blank(a) && blank(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Field-level diff of the keys being written
+export const diffFields = (
+  before: object,
+  after: object
+): FieldChange[] => {
+  const previous = before as Record<string, unknown>;
+  return Object.entries(after)
+    .filter(([field]) => !IGNORED_FIELDS.includes(field))
+    .map(([field, value]) => ({
+      field,
+      from: toHistoryValue(previous[field]),
+      to: toHistoryValue(value)
+    }))
+    .filter(change => !isSameValue(change.from, change.to));
+};
+
+export const buildHistoryEntry = (
+  action: ReservationHistoryAction,
+  changes: FieldChange[],
+  context?: HistoryContext
+): ReservationHistoryEntry => ({
+  action,
+  changes,
+  actor: context?.actor?.trim() || getHistoryActor(),
+  source: context?.source || getCurrentSource(),
+  timestamp: new Date().toISOString()
+});
+
+// Stages the history entry on the same transaction as the reservation write
+export const recordHistory = (
+  transaction: ReservationTransaction,
+  reservationId: string,
+  action: ReservationHistoryAction,
+  changes: FieldChange[],
+  context?: HistoryContext
+): void => {
+  // Plain edits that change nothing are not worth an entry
+  if (action === 'update' && changes.length === 0) return;
+  transaction.appendHistory(reservationId, buildHistoryEntry(action, changes, context));
+};
+
+export const getReservationHistory = async (reservationId: string): Promise<ReservationHistoryEntry[]> => {
+  logger.info('reservationHistory.getReservationHistory.start', { reservationId });
+  return getReservationRepository().getHistory(reservationId);
+};
@@ -0,0 +1,225 @@
+import { FieldChange } from '@/types/reservation';
+import { logger } from './logger';
+import { markStayDatesCanonical, normalizeReservation } from './reservations';
+import { recordHistory } from './reservationHistory';
+import { getReservationRepository, ReservationTransaction, StoredData, StoredDocument } from './repository';
+import { getStaySegments } from './availabilityPolicy';
+import { getLockId, getLockIds, OccupancyLock } from './occupancyLocks';
+import { getStoredCabinKeys, normalizeCabinType } from './cabinConfig';
+
+/**
+ * One-shot migration of legacy reservation documents.
+ * Rewrites `reservas` into the canonical shape that `normalizeReservation` builds on
+ * every read (YYYY-MM-DD dates, ISO strings instead of Timestamps, cabin ids instead of
+ * cabin names, default statuses), so the read-time shims can eventually be retired.
+ * Occupancy locks still keyed by cabin name are moved to the cabin id in the same batch.
+ * Always plan (dry run) first. Applying re-plans each document inside its transaction, so
+ * a payment or status change made after the dry run is never overwritten with plan values.
+ */
+
+// Firestore rejects transactions with more than 500 writes; batches are sized to stay under it
+export const MIGRATION_MAX_WRITES = 500;
+
+// Fields normalizeReservation rewrites on read; createdAt/updatedAt stay Timestamps
+const MIGRATED_FIELDS = [
+  'checkIn',
+  'checkOut',
+  'actualCheckIn',
+  'actualCheckOut',
+  'confirmationSentDate',
+  'cabinType',
+  'cabinTypes',
+  'segments',
+  'payments',
+  'paymentStatus',
+  'reservationStatus'
+] as const;
+
+export interface DocumentMigration {
+  id: string;
+  passengerName: string;
+  changes: FieldChange[];
+  update: StoredData;
+  writes: number; // Upper bound: the update, its history entry and a delete + set per legacy lock
+}
+
+export interface MigrationPlan {
+  scanned: number;
+  documents: DocumentMigration[];
+  createdAt: string; // ISO date-time string
+}
+
+export interface MigrationResult {
+  migrated: number;
+  skipped: number; // Deleted or already canonical by the time the batch ran
+  failed: Array<{ id: string; error: string }>;
+}
+
+const hasToDate = (value: unknown): value is { toDate: () => Date } => {
+  return !!value && typeof (value as { toDate?: unknown }).toDate === 'function';
+};
+
+// How the stored value reads in the report; Timestamps are flagged so they do not look unchanged
+const describeStoredValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (hasToDate(value)) return `Timestamp(${value.toDate().toISOString()})`;
+  return value;
+};
+
+const isSameStoredValue = (stored: unknown, canonical: unknown): boolean => {
+  if (hasToDate(stored)) return false;
+  return JSON.stringify(stored ?? null) === JSON.stringify(canonical ?? null);
+};
+
+// Lock ids the stay may still hold under the names its cabins had before they had ids
+const getLegacyLockIds = (document: StoredDocument): string[] => {
+  const stay = normalizeReservation({ ...document.data, id: document.id });
+  return getStaySegments(stay).flatMap(segment =>
+    getStoredCabinKeys(segment.cabinType)
+      .filter(key => key !== segment.cabinType)
+      .flatMap(key => getLockIds(key, segment.checkIn, segment.checkOut))
+  );
+};
+
+export const planDocumentMigration = (document: StoredDocument): DocumentMigration | null => {
+  const canonical = normalizeReservation({ ...document.data, id: document.id }) as unknown as StoredData;
+  const update: StoredData = {};
+  const changes: FieldChange[] = [];
+
+  MIGRATED_FIELDS.forEach(field => {
+    const stored = document.data[field];
+    const next = canonical[field];
+    // Fields the document never had are left out
+    if (next === undefined || next === '' || isSameStoredValue(stored, next)) return;
+    update[field] = next;
+    changes.push({ field, from: describeStoredValue(stored), to: next });
+  });
+
+  if (changes.length === 0) return null;
+  return {
+    id: document.id,
+    passengerName: String(document.data.passengerName || 'Sin nombre'),
+    changes,
+    update,
+    writes: 2 + 2 * getLegacyLockIds(document).length
+  };
+};
+
+// Consecutive documents grouped so no batch goes over maxWrites; a larger document goes alone
+const toBatches = (documents: DocumentMigration[], maxWrites: number): DocumentMigration[][] => {
+  const batches: DocumentMigration[][] = [];
+  let writes = 0;
+  documents.forEach(migration => {
+    const last = batches[batches.length - 1];
+    if (last && writes + migration.writes <= maxWrites) {
+      last.push(migration);
+      writes += migration.writes;
+      return;
+    }
+    batches.push([migration]);
+    writes = migration.writes;
+  });
+  return batches;
+};
+
+// Re-keys the name-keyed locks a reservation owns to its cabin id
+const moveLegacyLocks = (
+  transaction: ReservationTransaction,
+  reservationId: string,
+  locks: Map<string, OccupancyLock | null>
+): void => {
+  locks.forEach((lock, id) => {
+    if (!lock || lock.reservationId !== reservationId) return;
+    const cabinType = normalizeCabinType(lock.cabinType);
+    transaction.setLock(getLockId(cabinType, lock.date), { ...lock, cabinType });
+    transaction.deleteLock(id);
+  });
+};
+
+// Dry run: scans every document and reports what would change, without writing
+export const planReservationMigration = async (): Promise<MigrationPlan> => {
+  logger.info('reservationMigration.plan.start');
+  logger.time('reservationMigration.plan');
+
+  try {
+    // Trashed documents are migrated too so a restore brings them back canonical
+    const documents = await getReservationRepository().find();
+    const plan: MigrationPlan = {
+      scanned: documents.length,
+      documents: documents
+        .map(planDocumentMigration)
+        .filter((migration): migration is DocumentMigration => migration !== null),
+      createdAt: new Date().toISOString()
+    };
+    // Range queries stop falling back to full reads once no stay dates are left to rewrite
+    if (!plan.documents.some(migration => migration.changes.some(change => change.field === 'checkIn' || change.field === 'checkOut'))) {
+      markStayDatesCanonical(true);
+    }
+
+    logger.info('reservationMigration.plan.success', {
+      scanned: plan.scanned,
+      pending: plan.documents.length
+    });
+    return plan;
+  } finally {
+    logger.timeEnd('reservationMigration.plan');
+  }
+};
+
+/**
+ * Applies a plan in batches sized by their writes; each batch is one transaction, a failing
+ * batch does not stop the rest. Every document is planned again from what the transaction
+ * reads: the plan only chooses which documents to visit.
+ */
+export const applyReservationMigration = async (
+  plan: MigrationPlan,
+  onProgress?: (done: number, total: number) => void,
+  maxWrites: number = MIGRATION_MAX_WRITES
+): Promise<MigrationResult> => {
+  const batches = toBatches(plan.documents, maxWrites);
+  logger.info('reservationMigration.apply.start', { pending: plan.documents.length, batches: batches.length });
+  logger.time('reservationMigration.apply');
+
+  const result: MigrationResult = { migrated: 0, skipped: 0, failed: [] };
+  const repository = getReservationRepository();
+  let done = 0;
+
+  for (const batch of batches) {
+    try {
+      const migrated = await repository.runTransaction(async (transaction) => {
+        const current = await Promise.all(batch.map(migration => transaction.get(migration.id)));
+        // Documents deleted or already canonical since the plan was made are skipped
+        const pending = current.flatMap(document => {
+          const migration = document ? planDocumentMigration(document) : null;
+          return document && migration ? [{ document, migration }] : [];
+        });
+        // Every read goes before the first write
+        const legacyLocks = await Promise.all(pending.map(({ document }) => transaction.getLocks(getLegacyLockIds(document))));
+        pending.forEach(({ migration }, index) => {
+          transaction.update(migration.id, migration.update);
+          recordHistory(transaction, migration.id, 'migration', migration.changes, { source: 'migration' });
+          moveLegacyLocks(transaction, migration.id, legacyLocks[index]);
+        });
+        return pending.length;
+      });
+      result.migrated += migrated;
+      result.skipped += batch.length - migrated;
+    } catch (error) {
+      logger.error('reservationMigration.apply.batch.error', { first: batch[0].id, size: batch.length, error: String(error) });
+      batch.forEach(migration => result.failed.push({ id: migration.id, error: String(error) }));
+    }
+    done += batch.length;
+    onProgress?.(done, plan.documents.length);
+  }
+
+  // The next range query checks the stored dates again
+  markStayDatesCanonical(false);
+
+  logger.info('reservationMigration.apply.success', {
+    migrated: result.migrated,
+    skipped: result.skipped,
+    failed: result.failed.length
+  });
+  logger.timeEnd('reservationMigration.apply');
+  return result;
+};
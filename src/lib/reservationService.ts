@@ -8,6 +8,7 @@ export * from './pricing';
 export * from './validation';
 export * from './payments';
 export * from './checkInOut';
+export * from './cancellations';
 
 // Keep backward compatibility by re-exporting from the new modules
 import { calculateRemainingBalance } from './pricing';
@@ -1,26 +1,30 @@
-import { 
-  collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  getDocs, 
-  doc, 
-  query, 
-  where, 
-  orderBy,
-  Timestamp
-} from 'firebase/firestore';
-import { db } from './firebase';
-import { Reservation, ReservationFormData } from '@/types/reservation';
+import { Reservation, ReservationFormData, StaySegment } from '@/types/reservation';
 import { logger } from './logger';
-import { normalizeCabinType } from './cabinConfig';
+import { getCabinName, isActiveCabin, normalizeCabinType } from './cabinConfig';
 
 import { addDays, getTomorrowDate, formatDateToISO, formatDateForDisplay, getTodayDate } from './dateUtils';
 import { validateReservationDates, validateCabinCapacity } from './validation';
-import { calculatePrice } from './pricing';
-import { checkCabinAvailability, getNextAvailableDate } from './availability';
-
-const COLLECTION_NAME = 'reservas';
+import { calculateRemainingBalance, getStayPricing } from './pricing';
+import { checkPromoCode, getBookingDate, getHeldPromoCode, isPromoCodeExhausted, normalizePromoCode, transferPromoCodeUse } from './pricingRules';
+import { findUnavailableSegment, getNextAvailableDate } from './availability';
+import { blocksInventory, getCabinOnNight } from './availabilityPolicy';
+import { isTrashed, assertPurgeable } from './trash';
+import { fitSegmentsToStay, getSegments, StayLayout, toStayLayout, validateSegments } from './staySegments';
+import { validateStayRestrictions } from './stayRestrictions';
+import { HistoryContext, diffFields, recordHistory, getHistoryActor } from './reservationHistory';
+import { getReservationRepository, QueryCursor, QueryFilter, StoredDocument } from './repository';
+import { assertValid, formatSchemaIssues, validateReservation, validateReservationUpdate } from './schemas';
+import { quarantineDocument, readValidDocuments, releaseDocument } from './quarantine';
+import { notifyWaitlist } from './waitlist';
+import {
+  OCCUPANCY_CONFLICT,
+  readLocks,
+  getConflictingLockIds,
+  writeLocks,
+  deleteOwnedLocks,
+  isOccupancyConflict,
+  getOccupiedNights
+} from './occupancyLocks';
 
 // Date normalization - convert DD-MM-YYYY to YYYY-MM-DD
 const normalizeDateFormat = (dateStr: string): string => {
@@ -41,7 +45,7 @@ const normalizeDateFormat = (dateStr: string): string => {
 };
 
 // Normalize reservation data to ensure consistent date formats
-const normalizeReservation = (rawReservation: any): Reservation => {
+export const normalizeReservation = (rawReservation: any): Reservation => {
   const checkIn = rawReservation.checkIn && typeof rawReservation.checkIn === 'object' && rawReservation.checkIn.toDate 
     ? formatDateToISO(rawReservation.checkIn.toDate())
     : normalizeDateFormat(rawReservation.checkIn?.split('T')[0] || rawReservation.checkIn);
@@ -75,8 +79,14 @@ const normalizeReservation = (rawReservation: any): Reservation => {
     confirmationSentDate,
     createdAt,
     updatedAt,
-    // Normalize cabin type
+    // Cabins are stored by id; documents not migrated yet still carry cabin names
     cabinType: normalizeCabinType(rawReservation.cabinType || ''),
+    ...(rawReservation.cabinTypes ? { cabinTypes: rawReservation.cabinTypes.map(normalizeCabinType) } : {}),
+    ...(rawReservation.segments ? {
+      segments: rawReservation.segments.map((segment: StaySegment) => ({ ...segment, cabinType: normalizeCabinType(segment.cabinType) }))
+    } : {}),
+    // Exempt stays priced before the confirmation was recorded were confirmed by their guest currency
+    paysInForeignCurrency: rawReservation.paysInForeignCurrency ?? (rawReservation.taxTreatment === 'exempt' || undefined),
     // Ensure payments array exists
     payments: rawReservation.payments || [],
     // Set default status values if missing
@@ -87,7 +97,61 @@ const normalizeReservation = (rawReservation: any): Reservation => {
   return reservation;
 };
 
-export const createReservation = async (data: ReservationFormData): Promise<string> => {
+// Documents that fail the schema are quarantined instead of reaching the screens
+const toValidReservations = (documents: StoredDocument[]): Reservation[] => {
+  return readValidDocuments<Reservation>('reservas', documents, normalizeReservation, validateReservation, 'passengerName');
+};
+
+// Trashed reservations are left out of every regular query
+const toActiveReservations = (documents: StoredDocument[]): Reservation[] => {
+  return toValidReservations(documents.filter(doc => !isTrashed(doc.data)));
+};
+
+const buildUnavailableError = async (cabinType: string, checkIn: string, checkOut: string): Promise<Error> => {
+  const nextAvailable = await getNextAvailableDate(cabinType, checkIn);
+  return new Error(`La ${getCabinName(cabinType)} no está disponible para las fechas seleccionadas (${formatDateForDisplay(checkIn)} - ${formatDateForDisplay(checkOut)}). Próxima fecha disponible: ${nextAvailable ? formatDateForDisplay(nextAvailable) : 'No disponible'}`);
+};
+
+// Split stays report the first cabin that is taken
+const buildStayUnavailableError = async (stay: StayLayout, excludeReservationId?: string): Promise<Error> => {
+  const segment = await findUnavailableSegment(stay, excludeReservationId) || stay;
+  return buildUnavailableError(segment.cabinType, segment.checkIn, segment.checkOut);
+};
+
+// Every cabin of a split stay must fit the party
+const validateStayCapacity = (layout: StayLayout, data: Pick<ReservationFormData, 'adults' | 'children' | 'babies'>): { isValid: boolean; error?: string } => {
+  for (const cabinType of layout.cabinTypes || [layout.cabinType]) {
+    const validation = validateCabinCapacity(cabinType, data.adults, data.children, data.babies);
+    if (!validation.isValid) return validation;
+  }
+  return { isValid: true };
+};
+
+// Only active cabins can be booked; an edit may keep the deactivated cabins it already had
+const validateStayCabins = (layout: StayLayout, previous?: Reservation): { isValid: boolean; error?: string } => {
+  const kept = previous ? getSegments(previous).map(segment => segment.cabinType) : [];
+  const inactive = (layout.cabinTypes || [layout.cabinType]).find(cabinType => !isActiveCabin(cabinType) && !kept.includes(cabinType));
+  return inactive
+    ? { isValid: false, error: `La ${getCabinName(inactive)} no está habilitada para reservas` }
+    : { isValid: true };
+};
+
+// Normalized promo code of the stay; a new code is checked against its window here and
+// against its usage limit in the transaction that takes the use (transferPromoCodeUse)
+const resolvePromoCode = (data: ReservationFormData, bookedOn: string, previous?: Reservation): string | undefined => {
+  const code = data.promoCode ? normalizePromoCode(data.promoCode) : '';
+  // Custom prices skip the pricing rules, so the code is not used
+  if (!code || (data.useCustomPrice && data.customPrice)) return undefined;
+  if (code === previous?.promoCode) return code;
+
+  const validation = checkPromoCode(code, bookedOn);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+  return code;
+};
+
+export const createReservation = async (data: ReservationFormData, context?: HistoryContext): Promise<string> => {
   logger.info('reservations.createReservation.start', { 
     cabinType: data.cabinType, 
     checkIn: data.checkIn, 
@@ -109,28 +173,51 @@ export const createReservation = async (data: ReservationFormData): Promise<stri
       throw new Error(dateValidation.error);
     }
     
-    const capacityValidation = validateCabinCapacity(data.cabinType, data.adults, data.children, data.babies);
+    // A split stay arrives with its cabin segments; otherwise the whole stay is in cabinType
+    const segments = getSegments(data);
+    const segmentsValidation = validateSegments(segments);
+    if (!segmentsValidation.isValid) {
+      throw new Error(segmentsValidation.error);
+    }
+    const layout = toStayLayout(segments);
+    if (layout.checkIn !== data.checkIn || layout.checkOut !== data.checkOut) {
+      throw new Error('Los tramos de la estadía no coinciden con las fechas de check-in y check-out');
+    }
+
+    const cabinsValidation = validateStayCabins(layout);
+    if (!cabinsValidation.isValid) {
+      throw new Error(cabinsValidation.error);
+    }
+
+    const capacityValidation = validateStayCapacity(layout, data);
     if (!capacityValidation.isValid) {
       logger.warn('reservations.createReservation.validation.capacity.failed', { error: capacityValidation.error });
       throw new Error(capacityValidation.error);
     }
+
+    const restrictionValidation = validateStayRestrictions(layout);
+    if (!restrictionValidation.isValid) {
+      logger.warn('reservations.createReservation.validation.restrictions.failed', { error: restrictionValidation.error });
+      throw new Error(restrictionValidation.error);
+    }
     
-    const isAvailable = await checkCabinAvailability(data.cabinType, data.checkIn, data.checkOut);
-    if (!isAvailable) {
-      const nextAvailable = await getNextAvailableDate(data.cabinType, data.checkIn);
+    // Pre-check against existing documents (covers legacy reservations without occupancy locks)
+    const unavailableSegment = await findUnavailableSegment(layout);
+    if (unavailableSegment) {
       logger.warn('reservations.createReservation.availability.failed', { 
-        cabinType: data.cabinType, 
-        requestedDates: `${data.checkIn} - ${data.checkOut}`,
-        nextAvailable 
+        cabinType: unavailableSegment.cabinType, 
+        requestedDates: `${unavailableSegment.checkIn} - ${unavailableSegment.checkOut}`
       });
-      throw new Error(`La ${data.cabinType} no está disponible para las fechas seleccionadas (${formatDateForDisplay(data.checkIn)} - ${formatDateForDisplay(data.checkOut)}). Próxima fecha disponible: ${nextAvailable ? formatDateForDisplay(nextAvailable) : 'No disponible'}`);
+      throw await buildUnavailableError(unavailableSegment.cabinType, unavailableSegment.checkIn, unavailableSegment.checkOut);
     }
 
-    // Calculate price and statuses
-    const totalPrice = calculatePrice(data);
+    // Calculate price (night by night, then discounts) and statuses
+    const promoCode = resolvePromoCode(data, getTodayDate());
+    const pricing = getStayPricing({ ...data, ...layout, promoCode });
+    const { totalPrice } = pricing;
 
     // Handle optional initial payment (abono)
-    const { initialPayment, ...rest } = data as any;
+    const { initialPayment, holdExpiresAt, ...rest } = data as any;
     const payments: any[] = [];
     let remainingBalance = totalPrice;
     let paymentStatus: 'pending_deposit' | 'deposit_made' | 'fully_paid' = 'pending_deposit';
@@ -150,31 +237,64 @@ export const createReservation = async (data: ReservationFormData): Promise<stri
       paymentStatus = remainingBalance === 0 ? 'fully_paid' : 'deposit_made';
     }
 
-    const reservationStatus = 'pending_checkin' as const;
+    // Tentative holds block the cabin until holdExpiresAt (see holds.ts)
+    const isHold = data.reservationStatus === 'hold';
+    if (isHold && (!holdExpiresAt || new Date(holdExpiresAt).getTime() <= Date.now())) {
+      throw new Error('El vencimiento del bloqueo debe ser posterior a ahora');
+    }
+    const reservationStatus = isHold ? 'hold' as const : 'pending_checkin' as const;
 
     const reservationData = {
       ...rest,
-      totalPrice,
+      ...layout,
+      ...pricing,
+      promoCode,
       payments,
       remainingBalance,
       paymentStatus,
       reservationStatus,
+      ...(isHold ? { holdExpiresAt } : {}),
       checkInStatus: 'pending' as const,
       checkOutStatus: 'pending' as const,
       confirmationSent: false,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now()
+      createdAt: new Date(),
+      updatedAt: new Date()
     };
-
-    const docRef = await addDoc(collection(db, COLLECTION_NAME), reservationData);
+    assertValid(validateReservation(reservationData));
+
+    // Write the reservation and its nightly locks atomically so concurrent bookings cannot overlap
+    let reservationId: string;
+    try {
+      reservationId = await getReservationRepository().runTransaction(async (transaction) => {
+        const locks = await readLocks(transaction, layout);
+        if (getConflictingLockIds(locks).length > 0) {
+          throw new Error(OCCUPANCY_CONFLICT);
+        }
+        const takePromoCodeUse = await transferPromoCodeUse(transaction, undefined, undefined, getHeldPromoCode(reservationData));
+        const newId = transaction.create(reservationData);
+        writeLocks(transaction, layout, newId);
+        takePromoCodeUse();
+        recordHistory(transaction, newId, 'create', diffFields({}, reservationData), context);
+        return newId;
+      });
+    } catch (error) {
+      if (isOccupancyConflict(error)) {
+        logger.warn('reservations.createReservation.lock.conflict', { 
+          cabinType: data.cabinType, 
+          requestedDates: `${data.checkIn} - ${data.checkOut}`
+        });
+        throw await buildStayUnavailableError(layout);
+      }
+      throw error;
+    }
     
     logger.info('reservations.createReservation.success', { 
-      id: docRef.id, 
+      id: reservationId, 
       totalPrice,
       cabinType: data.cabinType 
     });
     
-    return docRef.id;
+    return reservationId;
   } catch (error) {
     logger.error('reservations.createReservation.error', { 
       error: String(error),
@@ -186,19 +306,35 @@ export const createReservation = async (data: ReservationFormData): Promise<stri
   }
 };
 
-export const updateReservation = async (id: string, data: ReservationFormData, shouldUpdateDates: boolean = true): Promise<void> => {
-  const capacityValidation = validateCabinCapacity(data.cabinType, data.adults, data.children, data.babies);
-  if (!capacityValidation.isValid) {
-    throw new Error(capacityValidation.error);
-  }
-  
+export const updateReservation = async (
+  id: string,
+  data: ReservationFormData,
+  shouldUpdateDates: boolean = true,
+  context?: HistoryContext
+): Promise<void> => {
   // Cargar reserva actual primero para conocer su estado
-  const reservations = await getAllReservations();
-  const reservation = reservations.find(r => r.id === id);
-  if (!reservation) {
+  const reservation = await getReservationById(id);
+  if (!reservation || isTrashed(reservation)) {
     throw new Error('Reserva no encontrada');
   }
 
+  // Split stays keep their cabin changes, adapted to the edited dates and arrival cabin
+  const layout = toStayLayout(
+    data.segments && data.segments.length > 0
+      ? data.segments
+      : fitSegmentsToStay(getSegments(reservation), data.cabinType, data.checkIn, data.checkOut)
+  );
+
+  const cabinsValidation = validateStayCabins(layout, reservation);
+  if (!cabinsValidation.isValid) {
+    throw new Error(cabinsValidation.error);
+  }
+
+  const capacityValidation = validateStayCapacity(layout, data);
+  if (!capacityValidation.isValid) {
+    throw new Error(capacityValidation.error);
+  }
+
   if (shouldUpdateDates) {
     if (!data.checkIn || !data.checkOut) {
       throw new Error('Las fechas de check-in y check-out son obligatorias.');
@@ -209,40 +345,122 @@ export const updateReservation = async (id: string, data: ReservationFormData, s
     if (!dateValidation.isValid) {
       throw new Error(dateValidation.error);
     }
+
+    const restrictionValidation = validateStayRestrictions(layout, reservation);
+    if (!restrictionValidation.isValid) {
+      throw new Error(restrictionValidation.error);
+    }
     
-    const isAvailable = await checkCabinAvailability(data.cabinType, data.checkIn, data.checkOut, id);
-    if (!isAvailable) {
-      const nextAvailable = await getNextAvailableDate(data.cabinType, data.checkIn);
-      throw new Error(`La ${data.cabinType} no está disponible para las fechas seleccionadas (${formatDateForDisplay(data.checkIn)} - ${formatDateForDisplay(data.checkOut)}). Próxima fecha disponible: ${nextAvailable ? formatDateForDisplay(nextAvailable) : 'No disponible'}`);
+    // Las reservas canceladas o no-show no ocupan la cabaña
+    if (blocksInventory(reservation)) {
+      const unavailableSegment = await findUnavailableSegment(layout, id);
+      if (unavailableSegment) {
+        throw await buildUnavailableError(unavailableSegment.cabinType, unavailableSegment.checkIn, unavailableSegment.checkOut);
+      }
     }
   }
 
 
-  // Recalculate derived fields
-  const totalPrice = calculatePrice(data);
-  const currentBalance = reservation.totalPrice - (reservation.payments?.reduce((sum, p) => sum + p.amount, 0) || 0);
-  const newBalance = totalPrice - (reservation.payments?.reduce((sum, p) => sum + p.amount, 0) || 0);
+  // Recalculate derived fields; discounts and the rate of booked nights stay as they were booked
+  const bookedOn = getBookingDate(reservation);
+  const promoCode = resolvePromoCode(data, bookedOn, reservation);
+  const pricing = getStayPricing({ ...data, ...layout, promoCode }, bookedOn, reservation.nightlyRates, reservation.priceAdjustments);
+  // A cancelled stay still only owes its cancellation fee
+  const newBalance = calculateRemainingBalance({ ...reservation, ...pricing });
   
   // Keep existing payment and reservation status to prevent automatic changes
   const updateData = {
     ...data,
-    totalPrice,
+    ...layout,
+    ...pricing,
+    promoCode,
     remainingBalance: newBalance,
-    updatedAt: Timestamp.now()
+    updatedAt: new Date()
   };
+  assertValid(validateReservationUpdate(updateData));
 
-  const docRef = doc(db, COLLECTION_NAME, id);
-  await updateDoc(docRef, updateData);
+  try {
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(id);
+      if (!snapshot) {
+        throw new Error('Reserva no encontrada');
+      }
+      const stored = normalizeReservation({ ...snapshot.data, id });
+      const previousLocks = await readLocks(transaction, stored);
+      const changes = diffFields(stored, updateData);
+      const movePromoCodeUse = await transferPromoCodeUse(transaction, id, getHeldPromoCode(stored), getHeldPromoCode({ ...stored, promoCode }));
+
+      // Cancelled / no-show reservations hold no nights
+      if (!blocksInventory(stored)) {
+        deleteOwnedLocks(transaction, previousLocks, id);
+        movePromoCodeUse();
+        transaction.update(id, updateData);
+        recordHistory(transaction, id, 'update', changes, context);
+        return;
+      }
+
+      const nextLocks = await readLocks(transaction, layout);
+      const takenLockIds = getConflictingLockIds(nextLocks, id);
+
+      // Only date changes are validated; other edits keep the previous behaviour
+      if (shouldUpdateDates && takenLockIds.length > 0) {
+        throw new Error(OCCUPANCY_CONFLICT);
+      }
+
+      deleteOwnedLocks(transaction, previousLocks, id, Array.from(nextLocks.keys()));
+      writeLocks(transaction, layout, id, takenLockIds);
+      movePromoCodeUse();
+      transaction.update(id, updateData);
+      recordHistory(transaction, id, 'update', changes, context);
+    });
+  } catch (error) {
+    if (isOccupancyConflict(error)) {
+      logger.warn('reservations.updateReservation.lock.conflict', { 
+        id,
+        cabinType: data.cabinType, 
+        requestedDates: `${data.checkIn} - ${data.checkOut}`
+      });
+      throw await buildStayUnavailableError(layout, id);
+    }
+    throw error;
+  }
+
+  // Shortened or moved stays release nights for the waitlist
+  const releasesNights = blocksInventory(reservation) && getOccupiedNights(reservation.checkIn, reservation.checkOut)
+    .some(night => getCabinOnNight(layout, night) !== getCabinOnNight(reservation, night));
+  if (releasesNights) {
+    await notifyWaitlist(reservation);
+  }
 };
 
-export const deleteReservation = async (id: string): Promise<void> => {
+// Moves the reservation to the trash; it can be restored until it is purged
+export const deleteReservation = async (id: string, deletedBy: string = getHistoryActor()): Promise<void> => {
   logger.info('reservations.deleteReservation.start', { id });
   logger.time('reservations.deleteReservation');
   
   try {
-    const docRef = doc(db, COLLECTION_NAME, id);
-    await deleteDoc(docRef);
+    const deleted = await getReservationRepository().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(id);
+      if (!snapshot) return null;
+      const stored = normalizeReservation({ ...snapshot.data, id });
+      if (isTrashed(stored)) return null;
+      const locks = await readLocks(transaction, stored);
+      const releasePromoCodeUse = await transferPromoCodeUse(transaction, id, getHeldPromoCode(stored), undefined);
+      const updateData = {
+        deletedAt: new Date().toISOString(),
+        deletedBy,
+        updatedAt: new Date()
+      };
+      deleteOwnedLocks(transaction, locks, id);
+      releasePromoCodeUse();
+      transaction.update(id, updateData);
+      recordHistory(transaction, id, 'delete', diffFields(stored, updateData), { actor: deletedBy });
+      return stored;
+    });
     logger.info('reservations.deleteReservation.success', { id });
+    if (deleted && blocksInventory(deleted)) {
+      await notifyWaitlist(deleted);
+    }
   } catch (error) {
     logger.error('reservations.deleteReservation.error', { id, error: String(error) });
     throw error;
@@ -251,27 +469,111 @@ export const deleteReservation = async (id: string): Promise<void> => {
   }
 };
 
+export const restoreReservation = async (id: string, context?: HistoryContext): Promise<void> => {
+  logger.info('reservations.restoreReservation.start', { id });
+  logger.time('reservations.restoreReservation');
+
+  const repository = getReservationRepository();
+  let reservation: Reservation | null = null;
+  try {
+    const current = await repository.get(id);
+    if (!current) {
+      throw new Error('Reserva no encontrada');
+    }
+    reservation = normalizeReservation({ ...current.data, id });
+    const restored = { ...reservation, deletedAt: undefined };
+
+    // The nights may have been booked again while the reservation was in the trash
+    if (blocksInventory(restored)) {
+      const unavailableSegment = await findUnavailableSegment(restored, id);
+      if (unavailableSegment) {
+        throw await buildUnavailableError(unavailableSegment.cabinType, unavailableSegment.checkIn, unavailableSegment.checkOut);
+      }
+    }
+
+    await repository.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(id);
+      if (!snapshot) {
+        throw new Error('Reserva no encontrada');
+      }
+      const stored = normalizeReservation({ ...snapshot.data, id });
+      if (!isTrashed(stored)) return;
+
+      const locks = blocksInventory({ ...stored, deletedAt: undefined }) ? await readLocks(transaction, stored) : null;
+      if (locks && getConflictingLockIds(locks, id).length > 0) {
+        throw new Error(OCCUPANCY_CONFLICT);
+      }
+      // The code may have reached its limit while the reservation was in the trash
+      const takePromoCodeUse = await transferPromoCodeUse(transaction, id, undefined, getHeldPromoCode({ ...stored, deletedAt: undefined }));
+      if (locks) {
+        writeLocks(transaction, stored, id);
+      }
+      takePromoCodeUse();
+
+      transaction.update(id, {
+        deletedAt: undefined,
+        deletedBy: undefined,
+        updatedAt: new Date()
+      });
+      recordHistory(transaction, id, 'restore', diffFields(stored, { deletedAt: null, deletedBy: null }), context);
+    });
+    logger.info('reservations.restoreReservation.success', { id });
+  } catch (error) {
+    logger.error('reservations.restoreReservation.error', { id, error: String(error) });
+    if (isOccupancyConflict(error) && reservation) {
+      throw await buildStayUnavailableError(reservation, id);
+    }
+    throw error;
+  } finally {
+    logger.timeEnd('reservations.restoreReservation');
+  }
+};
+
+// Permanently deletes a trashed reservation once the retention period is over, with its history.
+// The history goes after the document: a failed cleanup leaves entries of a purged stay, never a
+// reservation without its history.
+export const purgeReservation = async (id: string): Promise<void> => {
+  logger.info('reservations.purgeReservation.start', { id });
+
+  try {
+    const repository = getReservationRepository();
+    await repository.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(id);
+      if (!snapshot) return;
+      const stored = normalizeReservation({ ...snapshot.data, id });
+      assertPurgeable(stored);
+      transaction.delete(id);
+    });
+    await repository.deleteHistory(id);
+    logger.info('reservations.purgeReservation.success', { id });
+  } catch (error) {
+    logger.error('reservations.purgeReservation.error', { id, error: String(error) });
+    throw error;
+  }
+};
+
+export const getTrashedReservations = async (): Promise<Reservation[]> => {
+  // Ordering by deletedAt only returns documents that have the field
+  const documents = await getReservationRepository().find({ orderBy: { field: 'deletedAt', direction: 'desc' } });
+
+  return toValidReservations(documents.filter(doc => isTrashed(doc.data)));
+};
+
 export const getAllReservations = async (): Promise<Reservation[]> => {
   logger.time('reservations.getAllReservations');
-  logger.info('reservations.getAllReservations.start', { collection: COLLECTION_NAME });
+  logger.info('reservations.getAllReservations.start');
   
   const reservations: Reservation[] = [];
   
   try {
     // Leer solo de colección 'reservas'
-    const qReservas = query(collection(db, COLLECTION_NAME), orderBy('checkIn', 'asc'));
-    logger.debug('reservations.getAllReservations.query', { path: COLLECTION_NAME });
-    
-    const reservasSnapshot = await getDocs(qReservas);
+    const documents = await getReservationRepository().find({ orderBy: { field: 'checkIn', direction: 'asc' } });
     logger.info('reservations.getAllReservations.fetched', { 
-      count: reservasSnapshot.size,
-      empty: reservasSnapshot.empty 
+      count: documents.length,
+      empty: documents.length === 0 
     });
     
-    reservasSnapshot.docs.forEach(doc => {
-      const data = doc.data();
-      reservations.push(normalizeReservation({ ...data, id: doc.id }));
-    });
+    reservations.push(...toActiveReservations(documents));
     
     logger.debug('reservations.getAllReservations.loaded', { 
       count: reservations.length
@@ -287,135 +589,312 @@ export const getAllReservations = async (): Promise<Reservation[]> => {
   return reservations;
 };
 
+export const getReservationById = async (id: string): Promise<Reservation | null> => {
+  const document = await getReservationRepository().get(id);
+  if (!document) return null;
+
+  const reservation = normalizeReservation({ ...document.data, id: document.id });
+  const issues = validateReservation(reservation);
+  if (issues.length > 0) {
+    quarantineDocument('reservas', id, reservation.passengerName || 'Sin nombre', issues);
+    throw new Error(`La reserva tiene datos inválidos — ${formatSchemaIssues(issues)}`);
+  }
+  releaseDocument('reservas', id);
+  return reservation;
+};
+
+// Set on this device once no stored stay has legacy dates left
+const CANONICAL_DATES_KEY = 'manuara_reservation_dates_canonical';
+let legacyDatesCheck: Promise<boolean> | null = null;
+
+const isCanonicalDate = (value: unknown): boolean => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Called by the reservation migration once the stored dates are known; false checks again on the next query
+export const markStayDatesCanonical = (canonical: boolean): void => {
+  legacyDatesCheck = null;
+  try {
+    if (canonical) {
+      localStorage.setItem(CANONICAL_DATES_KEY, 'true');
+    } else {
+      localStorage.removeItem(CANONICAL_DATES_KEY);
+    }
+  } catch (error) {
+    logger.warn('reservations.markStayDatesCanonical.storageError', { error: String(error) });
+  }
+};
+
+/**
+ * Whether any stored stay still has checkIn/checkOut as a Timestamp or DD-MM-YYYY.
+ * Range queries compare the stored strings, so they would miss those stays until the
+ * reservation migration rewrites them. Checked once per session until it comes back clean.
+ */
+const hasLegacyStayDates = (): Promise<boolean> => {
+  try {
+    if (localStorage.getItem(CANONICAL_DATES_KEY) === 'true') return Promise.resolve(false);
+  } catch {
+    // Without storage the check runs once per session
+  }
+
+  if (!legacyDatesCheck) {
+    legacyDatesCheck = getReservationRepository().find()
+      .then(documents => {
+        const legacy = documents.filter(doc => !isCanonicalDate(doc.data.checkIn) || !isCanonicalDate(doc.data.checkOut));
+        if (legacy.length === 0) {
+          markStayDatesCanonical(true);
+          return false;
+        }
+        logger.warn('reservations.legacyDates.found', { count: legacy.length });
+        return true;
+      })
+      .catch(error => {
+        legacyDatesCheck = null;
+        throw error;
+      });
+  }
+  return legacyDatesCheck;
+};
+
+// Every active stay with its dates normalized, for the queries legacy dates would slip past
+const findAllNormalized = async (query: string): Promise<Reservation[]> => {
+  logger.warn('reservations.legacyDates.fallback', { query });
+  return toActiveReservations(await getReservationRepository().find());
+};
+
+// Stays overlapping [startDate, endDate] (both inclusive); without endDate, every stay from startDate on.
+// Needs the (checkOut, checkIn) composite index from firebase-indexes.md
+export const getReservationsInRange = async (startDate: string, endDate?: string): Promise<Reservation[]> => {
+  logger.info('reservations.getReservationsInRange.start', { startDate, endDate });
+
+  if (await hasLegacyStayDates()) {
+    const reservations = await findAllNormalized('getReservationsInRange');
+    return reservations.filter(r => r.checkOut >= startDate && (!endDate || r.checkIn <= endDate));
+  }
+
+  const filters: QueryFilter[] = [{ field: 'checkOut', op: '>=', value: startDate }];
+  if (endDate) {
+    filters.push({ field: 'checkIn', op: '<=', value: endDate });
+  }
+  const documents = await getReservationRepository().find({ filters });
+
+  logger.info('reservations.getReservationsInRange.fetched', { count: documents.length });
+  return toActiveReservations(documents);
+};
+
+export interface ReservationPage {
+  reservations: Reservation[];
+  nextCursor: QueryCursor | null;
+}
+
+export const RESERVATIONS_PAGE_SIZE = 50;
+
+// Latest check-ins first; pass the previous page's nextCursor to keep going
+export const getReservationsPage = async (
+  cursor?: QueryCursor | null,
+  pageSize: number = RESERVATIONS_PAGE_SIZE
+): Promise<ReservationPage> => {
+  logger.info('reservations.getReservationsPage.start', { cursor, pageSize });
+
+  if (await hasLegacyStayDates()) {
+    // Same order and cursor as the query: checkIn, then id, both descending
+    const sorted = (await findAllNormalized('getReservationsPage'))
+      .sort((a, b) => b.checkIn.localeCompare(a.checkIn) || (b.id || '').localeCompare(a.id || ''));
+    const remaining = cursor
+      ? sorted.filter(r => r.checkIn < String(cursor.value) || (r.checkIn === cursor.value && (r.id || '') < cursor.id))
+      : sorted;
+    const reservations = remaining.slice(0, pageSize);
+    const last = reservations[reservations.length - 1];
+    return {
+      reservations,
+      nextCursor: remaining.length > pageSize && last ? { value: last.checkIn, id: last.id || '' } : null
+    };
+  }
+
+  const documents = await getReservationRepository().find({
+    orderBy: { field: 'checkIn', direction: 'desc' },
+    limit: pageSize,
+    startAfter: cursor || undefined
+  });
+
+  // Trashed documents still count towards the page so the cursor keeps moving
+  const last = documents[documents.length - 1];
+  const nextCursor = documents.length === pageSize && last
+    ? { value: last.data.checkIn as string, id: last.id }
+    : null;
+
+  return { reservations: toActiveReservations(documents), nextCursor };
+};
+
+// First check-in and last check-out on record (YYYY-MM-DD), without loading every stay
+export const getStayDateBounds = async (): Promise<{ firstCheckIn: string | null; lastCheckOut: string | null }> => {
+  if (await hasLegacyStayDates()) {
+    const reservations = await findAllNormalized('getStayDateBounds');
+    return {
+      firstCheckIn: reservations.reduce<string | null>((min, r) => !min || r.checkIn < min ? r.checkIn : min, null),
+      lastCheckOut: reservations.reduce<string | null>((max, r) => !max || r.checkOut > max ? r.checkOut : max, null)
+    };
+  }
+
+  const repository = getReservationRepository();
+  const [first, last] = await Promise.all([
+    repository.find({ orderBy: { field: 'checkIn', direction: 'asc' }, limit: 1 }),
+    repository.find({ orderBy: { field: 'checkOut', direction: 'desc' }, limit: 1 })
+  ]);
+
+  return {
+    firstCheckIn: first[0] ? normalizeReservation({ ...first[0].data, id: first[0].id }).checkIn : null,
+    lastCheckOut: last[0] ? normalizeReservation({ ...last[0].data, id: last[0].id }).checkOut : null
+  };
+};
+
 export const getReservationsForDate = async (date: string): Promise<Reservation[]> => {
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkIn', '<=', date),
-    where('checkOut', '>', date)
-  );
-  const snapshot = await getDocs(q);
-  
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return normalizeReservation({ ...data, id: doc.id });
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkIn', op: '<=', value: date },
+      { field: 'checkOut', op: '>', value: date }
+    ]
   });
+  
+  return toActiveReservations(documents);
 };
 
 export const getTodayArrivals = async (): Promise<Reservation[]> => {
   const today = getTodayDate();
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkIn', '==', today)
-  );
-  const snapshot = await getDocs(q);
-  
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return normalizeReservation({ ...data, id: doc.id });
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkIn', op: '==', value: today }
+    ]
   });
+  
+  return toActiveReservations(documents);
 };
 
 export const getTodayDepartures = async (): Promise<Reservation[]> => {
   const today = getTodayDate();
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkOut', '==', today)
-  );
-  const snapshot = await getDocs(q);
-  
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return normalizeReservation({ ...data, id: doc.id });
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkOut', op: '==', value: today }
+    ]
   });
+  
+  return toActiveReservations(documents);
 };
 
 export const getUpcomingArrivals = async (days: number = 5): Promise<Reservation[]> => {
   const today = getTodayDate();
   const futureDate = addDays(today, days);
   
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkIn', '>', today),
-    where('checkIn', '<=', futureDate),
-    orderBy('checkIn', 'asc')
-  );
-  const snapshot = await getDocs(q);
-  
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return normalizeReservation({ ...data, id: doc.id });
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkIn', op: '>', value: today },
+      { field: 'checkIn', op: '<=', value: futureDate }
+    ],
+    orderBy: { field: 'checkIn', direction: 'asc' }
   });
+  
+  return toActiveReservations(documents);
 };
 
 export const getUpcomingDepartures = async (days: number = 5): Promise<Reservation[]> => {
   const today = getTodayDate();
   const futureDate = addDays(today, days);
   
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkOut', '>', today),
-    where('checkOut', '<=', futureDate),
-    orderBy('checkOut', 'asc')
-  );
-  const snapshot = await getDocs(q);
-  
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return normalizeReservation({ ...data, id: doc.id });
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkOut', op: '>', value: today },
+      { field: 'checkOut', op: '<=', value: futureDate }
+    ],
+    orderBy: { field: 'checkOut', direction: 'asc' }
   });
+  
+  return toActiveReservations(documents);
 };
 
 export const getTomorrowDepartures = async (): Promise<Reservation[]> => {
   const tomorrow = getTomorrowDate();
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkOut', '==', tomorrow)
-  );
-  const snapshot = await getDocs(q);
-  
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return normalizeReservation({ ...data, id: doc.id });
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkOut', op: '==', value: tomorrow }
+    ]
   });
+  
+  return toActiveReservations(documents);
 };
 
 export const getArrivalsForDate = async (date: string): Promise<Reservation[]> => {
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkIn', '==', date)
-  );
-  const snapshot = await getDocs(q);
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkIn', op: '==', value: date }
+    ]
+  });
   
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-    return normalizeReservation({ ...data, id: doc.id });
+  return toActiveReservations(documents);
+};
+
+// Tentative holds still waiting for a deposit
+export const getHolds = async (): Promise<Reservation[]> => {
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'reservationStatus', op: '==', value: 'hold' }
+    ]
   });
+
+  return toActiveReservations(documents);
 };
 
 export const deleteExpiredReservations = async (): Promise<number> => {
   const today = getTodayDate();
   
-  const q = query(
-    collection(db, COLLECTION_NAME),
-    where('checkOut', '<', today)
-  );
-  
-  const querySnapshot = await getDocs(q);
+  const documents = await getReservationRepository().find({
+    filters: [
+      { field: 'checkOut', op: '<', value: today }
+    ]
+  });
+  const expired = toActiveReservations(documents);
   
-  const deletePromises = querySnapshot.docs.map(doc => deleteDoc(doc.ref));
+  // Go through deleteReservation so the occupancy locks are released too
+  const deletePromises = expired.map(reservation => deleteReservation(reservation.id!));
   await Promise.all(deletePromises);
   
-  return querySnapshot.docs.length;
+  return expired.length;
 };
 
 // Reservation status update - now uses only 'reservas' collection
+const CANCELLED_STATUS_LOCKED = 'Una reserva cancelada no puede cambiar de estado';
+
+const reactivatesCancelled = (
+  reservation: Pick<Reservation, 'reservationStatus'>,
+  statusUpdates: Partial<Pick<Reservation, 'reservationStatus'>>
+): boolean => {
+  return reservation.reservationStatus === 'cancelled' &&
+    !!statusUpdates.reservationStatus && statusUpdates.reservationStatus !== 'cancelled';
+};
+
 export const updateReservationStatuses = async (
   reservationId: string,
-  statusUpdates: Partial<Pick<Reservation, 'paymentStatus' | 'reservationStatus' | 'checkInStatus' | 'checkOutStatus' | 'checkInNotes' | 'checkOutNotes' | 'actualCheckIn' | 'actualCheckOut'>>,
+  statusUpdates: Partial<Pick<Reservation, 'paymentStatus' | 'reservationStatus' | 'holdExpiresAt' | 'checkInStatus' | 'checkOutStatus' | 'checkInNotes' | 'checkOutNotes' | 'actualCheckIn' | 'actualCheckOut'>>,
   options?: {
     previousReservation?: Reservation;
+    context?: HistoryContext;
   }
 ): Promise<void> => {
+  // A cancellation keeps its fee and refunds on the booking, so it is not undone by a status change
+  const previous = options?.previousReservation;
+  if (previous && reactivatesCancelled(previous, statusUpdates)) {
+    throw new Error(CANCELLED_STATUS_LOCKED);
+  }
+
+  // Reactivating a reservation must also respect legacy bookings without locks
+  if (previous && !blocksInventory(previous) && blocksInventory({ ...previous, ...statusUpdates })) {
+    const unavailableSegment = await findUnavailableSegment(previous, reservationId);
+    if (unavailableSegment) {
+      throw await buildUnavailableError(unavailableSegment.cabinType, unavailableSegment.checkIn, unavailableSegment.checkOut);
+    }
+  }
+
+  assertValid(validateReservationUpdate(statusUpdates));
+
+  let stored: Reservation | null = null;
+  let releasesNights = false;
   try {
     // Auto-calculate actualCheckIn/Out timestamps if status changed
     const enrichedUpdates = { ...statusUpdates };
@@ -436,23 +915,75 @@ export const updateReservationStatuses = async (
       
       // Auto-sync reservation status based on check-in/out changes
       if (!statusUpdates.reservationStatus) {
-        if (statusUpdates.checkInStatus === 'checked_in' && prev.reservationStatus === 'pending_checkin') {
+        if (statusUpdates.checkInStatus === 'checked_in' && (prev.reservationStatus === 'pending_checkin' || prev.reservationStatus === 'hold')) {
           enrichedUpdates.reservationStatus = 'in_stay';
         } else if (statusUpdates.checkOutStatus === 'checked_out' && prev.reservationStatus === 'in_stay') {
           enrichedUpdates.reservationStatus = 'checked_out';
         }
       }
+
+      // A confirmed hold no longer expires
+      if (prev.reservationStatus === 'hold' && enrichedUpdates.reservationStatus && enrichedUpdates.reservationStatus !== 'hold') {
+        enrichedUpdates.holdExpiresAt = undefined;
+      }
     }
     
     const updateData = {
       ...enrichedUpdates,
-      updatedAt: Timestamp.now()
+      updatedAt: new Date()
     };
     
-    const docRef = doc(db, COLLECTION_NAME, reservationId);
-    await updateDoc(docRef, updateData);
+    await getReservationRepository().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(reservationId);
+      if (!snapshot) {
+        throw new Error('Reserva no encontrada');
+      }
+      stored = normalizeReservation({ ...snapshot.data, id: reservationId });
+      if (reactivatesCancelled(stored, enrichedUpdates)) {
+        throw new Error(CANCELLED_STATUS_LOCKED);
+      }
+      const wasBlocking = blocksInventory(stored);
+      const willBlock = blocksInventory({ ...stored, ...enrichedUpdates });
+      const locks = wasBlocking !== willBlock ? await readLocks(transaction, stored) : null;
+      // Cancelling releases the use of the promo code, reactivating takes it back
+      const movePromoCodeUse = await transferPromoCodeUse(
+        transaction,
+        reservationId,
+        getHeldPromoCode(stored),
+        getHeldPromoCode({ ...stored, ...enrichedUpdates })
+      );
+
+      // Cancelling / no-show releases the nights, reactivating takes them back
+      if (locks) {
+        if (willBlock) {
+          if (getConflictingLockIds(locks, reservationId).length > 0) {
+            throw new Error(OCCUPANCY_CONFLICT);
+          }
+          writeLocks(transaction, stored, reservationId);
+        } else {
+          deleteOwnedLocks(transaction, locks, reservationId);
+        }
+      }
+      releasesNights = wasBlocking && !willBlock;
+
+      movePromoCodeUse();
+      transaction.update(reservationId, updateData);
+      recordHistory(transaction, reservationId, 'status', diffFields(stored, updateData), options?.context);
+    });
     
   } catch (error) {
+    if (isOccupancyConflict(error) && stored) {
+      logger.warn('reservations.updateReservationStatuses.lock.conflict', { 
+        id: reservationId,
+        cabinType: stored.cabinType
+      });
+      throw await buildStayUnavailableError(stored, reservationId);
+    }
+    if (isPromoCodeExhausted(error) || (error instanceof Error && error.message === CANCELLED_STATUS_LOCKED)) throw error;
     throw new Error('No se pudo actualizar el estado de la reserva');
   }
+
+  if (releasesNights && stored) {
+    await notifyWaitlist(stored);
+  }
 };
\ No newline at end of file
@@ -0,0 +1,431 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for stored documents.
+ * Reads check the normalized shape (after normalizeReservation / normalizeReferrer / normalizeGroup / normalizeWaitlistEntry /
+ * normalizeCabinBlock);
+ * writes check every field being written. Unknown fields are allowed so optional
+ * extras (guest info, flights, referrer data) never block a document.
+ */
+
+export interface SchemaIssue {
+  field: string;
+  message: string;
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Fecha inválida (se espera YYYY-MM-DD)');
+const count = z.number({ invalid_type_error: 'Debe ser un número' }).int('Debe ser un entero').min(0, 'No puede ser negativo');
+const amount = z.number({ invalid_type_error: 'Debe ser un número' }).finite('Monto inválido');
+
+export const paymentSchema = z.object({
+  id: z.string().min(1, 'Falta el id del pago'),
+  amount,
+  type: z.enum(['payment', 'refund']).optional(),
+  paymentDate: z.string().min(1, 'Falta la fecha del pago'),
+  method: z.enum(['cash', 'transfer', 'credit_card', 'other']),
+  notes: z.string().optional(),
+  createdBy: z.string().optional(),
+  groupPaymentId: z.string().optional(),
+  currency: z.enum(['CLP', 'USD', 'EUR']).optional(),
+  originalAmount: amount.optional(),
+  exchangeRate: amount.positive('El tipo de cambio debe ser mayor a 0').optional()
+}).passthrough();
+
+export const staySegmentSchema = z.object({
+  cabinType: z.string().min(1, 'Falta la cabaña del tramo'),
+  checkIn: isoDate,
+  checkOut: isoDate
+}).refine(segment => segment.checkIn < segment.checkOut, { message: 'El tramo debe tener al menos una noche', path: ['checkOut'] });
+
+export const nightlyRateSchema = z.object({
+  date: isoDate,
+  cabinType: z.string().min(1, 'Falta la cabaña de la noche'),
+  season: z.enum(['Alta', 'Baja']),
+  ratePlanId: z.string(),
+  ratePlanName: z.string(),
+  amount: amount.min(0, 'No puede ser negativo'),
+  rateAdjustment: z.number().optional()
+}).passthrough();
+
+const priceAdjustmentType = z.enum(['length_of_stay', 'early_booking', 'promo_code']);
+
+export const priceAdjustmentSchema = z.object({
+  ruleId: z.string().min(1, 'Falta la regla del ajuste'),
+  name: z.string(),
+  type: priceAdjustmentType,
+  code: z.string().optional(),
+  amount
+}).passthrough();
+
+const addOnUnit = z.enum(['per_stay', 'per_night', 'per_person', 'per_person_night']);
+
+export const reservationAddOnSchema = z.object({
+  id: z.string().min(1, 'Falta el id del servicio'),
+  addOnId: z.string().min(1, 'Falta el servicio del catálogo'),
+  name: z.string().trim().min(1, 'Falta el nombre del servicio'),
+  unit: addOnUnit,
+  unitPrice: amount.min(0, 'No puede ser negativo'),
+  quantity: count.min(1, 'Debe ser al menos 1'),
+  taxable: z.boolean(),
+  total: amount.min(0, 'No puede ser negativo')
+}).passthrough();
+
+export const taxBreakdownSchema = z.object({
+  ivaRate: amount.min(0, 'No puede ser negativo'),
+  net: amount,
+  iva: amount,
+  exempt: amount,
+  waivedIva: amount.min(0, 'No puede ser negativo')
+}).passthrough();
+
+export const reservationSchema = z.object({
+  passengerName: z.string().trim().min(1, 'Falta el nombre del pasajero'),
+  checkIn: isoDate,
+  checkOut: isoDate,
+  cabinType: z.string().min(1, 'Falta la cabaña'),
+  segments: z.array(staySegmentSchema).optional(),
+  cabinTypes: z.array(z.string()).optional(),
+  adults: count,
+  children: count.optional(),
+  babies: count.optional(),
+  totalPrice: amount.min(0, 'No puede ser negativo'),
+  nightlyRates: z.array(nightlyRateSchema).optional(),
+  grossPrice: amount.min(0, 'No puede ser negativo').optional(),
+  priceAdjustments: z.array(priceAdjustmentSchema).optional(),
+  promoCode: z.string().optional(),
+  addOns: z.array(reservationAddOnSchema).optional(),
+  guestCurrency: z.enum(['CLP', 'USD', 'EUR']).optional(),
+  guestResidency: z.enum(['resident', 'foreign']).optional(),
+  paysInForeignCurrency: z.boolean().optional(),
+  taxTreatment: z.enum(['taxable', 'exempt']).optional(),
+  taxes: taxBreakdownSchema.optional(),
+  payments: z.array(paymentSchema),
+  paymentStatus: z.enum(['pendiente', 'pending_deposit', 'pending_payment', 'deposit_made', 'fully_paid', 'overdue']),
+  reservationStatus: z.enum(['hold', 'confirmada', 'pending_checkin', 'in_stay', 'checked_out', 'departed', 'cancelled']),
+  holdExpiresAt: z.string().datetime({ offset: true, message: 'Vencimiento del bloqueo inválido' }).optional(),
+  checkInStatus: z.enum(['pending', 'checked_in', 'no_show']).optional(),
+  checkOutStatus: z.enum(['pending', 'checked_out', 'late_checkout']).optional(),
+  groupId: z.string().optional(),
+  groupName: z.string().optional()
+}).passthrough();
+
+export const referrerSchema = z.object({
+  name: z.string().trim().min(1, 'Falta el nombre'),
+  phone: z.string().optional(),
+  email: z.string().optional(),
+  notes: z.string().optional()
+}).passthrough();
+
+export const groupSchema = z.object({
+  name: z.string().trim().min(1, 'Falta el nombre del grupo'),
+  leadGuestName: z.string().trim().min(1, 'Falta el huésped principal'),
+  leadGuestPhone: z.string().optional(),
+  leadGuestEmail: z.string().optional(),
+  reservationIds: z.array(z.string().min(1)).min(1, 'El grupo no tiene reservas'),
+  notes: z.string().optional()
+}).passthrough();
+
+export const waitlistSchema = z.object({
+  guestName: z.string().trim().min(1, 'Falta el nombre del huésped'),
+  phone: z.string().trim().min(1, 'Falta el teléfono de contacto'),
+  email: z.string().optional(),
+  checkIn: isoDate,
+  checkOut: isoDate,
+  cabinTypes: z.array(z.string().min(1)).min(1, 'Elige al menos una cabaña'),
+  adults: count.min(1, 'Debe haber al menos 1 adulto'),
+  children: count,
+  babies: count,
+  notes: z.string().optional(),
+  status: z.enum(['waiting', 'offered', 'booked', 'discarded']),
+  offeredCabins: z.array(z.string().min(1)).optional(),
+  offeredAt: z.string().optional(),
+  reservationId: z.string().optional()
+}).passthrough();
+
+export const cabinBlockSchema = z.object({
+  cabinType: z.string().min(1, 'Falta la cabaña'),
+  startDate: isoDate,
+  endDate: isoDate,
+  reason: z.enum(['maintenance', 'repair', 'owner_use', 'other']),
+  notes: z.string().optional(),
+  recurrence: z.object({
+    frequency: z.enum(['weekly', 'monthly', 'yearly']),
+    until: isoDate.optional()
+  }).optional(),
+  createdBy: z.string().optional()
+}).passthrough();
+
+const seasonRatePlansSchema = z.object({
+  Alta: z.string().min(1, 'Falta la tarifa de temporada alta'),
+  Baja: z.string().min(1, 'Falta la tarifa de temporada baja')
+});
+
+const ratePlanSchema = z.object({
+  id: z.string().min(1, 'Falta el id de la tarifa'),
+  name: z.string().min(1, 'Falta el nombre de la tarifa'),
+  type: z.enum(['per_person', 'cabin']),
+  baseRate: amount.min(0, 'No puede ser negativo'),
+  includedGuests: count,
+  adultRate: amount.min(0, 'No puede ser negativo'),
+  childRate: amount.min(0, 'No puede ser negativo'),
+  babyRate: amount.min(0, 'No puede ser negativo')
+}).passthrough();
+
+const pricingRuleSchema = z.object({
+  id: z.string().min(1, 'Falta el id de la regla'),
+  name: z.string().min(1, 'Falta el nombre de la regla'),
+  type: priceAdjustmentType,
+  discountType: z.enum(['percent', 'fixed']),
+  value: amount.min(0, 'No puede ser negativo'),
+  isActive: z.boolean(),
+  minNights: count.min(1, 'Debe ser al menos 1').optional(),
+  minDaysAhead: count.min(1, 'Debe ser al menos 1').optional(),
+  code: z.string().optional(),
+  validFrom: isoDate.optional(),
+  validUntil: isoDate.optional(),
+  maxUses: count.min(1, 'Debe ser al menos 1').optional()
+}).passthrough().superRefine((rule, ctx) => {
+  if (rule.discountType === 'percent' && rule.value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'El porcentaje no puede superar 100', path: ['value'] });
+  }
+  if (rule.type === 'length_of_stay' && !rule.minNights) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Falta el mínimo de noches', path: ['minNights'] });
+  }
+  if (rule.type === 'early_booking' && !rule.minDaysAhead) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Faltan los días de anticipación', path: ['minDaysAhead'] });
+  }
+  if (rule.type === 'promo_code' && !rule.code?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Falta el código', path: ['code'] });
+  }
+  if (rule.validFrom && rule.validUntil && rule.validUntil < rule.validFrom) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'La vigencia termina antes de empezar', path: ['validUntil'] });
+  }
+});
+
+const occupancyPercent = z.number().min(0, 'No puede ser negativo').max(100, 'No puede superar 100');
+// A night can't be discounted below 0
+const rateAdjustmentPercent = z.number({ invalid_type_error: 'Debe ser un número' }).int('Debe ser un entero').min(-100, 'El descuento no puede superar 100%');
+
+const occupancyRuleSchema = z.object({
+  id: z.string().min(1, 'Falta el id de la regla'),
+  name: z.string().min(1, 'Falta el nombre de la regla'),
+  type: z.enum(['high_occupancy', 'last_minute']),
+  adjustment: rateAdjustmentPercent,
+  isActive: z.boolean(),
+  minOccupancy: occupancyPercent.optional(),
+  maxOccupancy: occupancyPercent.optional(),
+  withinDays: count.min(1, 'Debe ser al menos 1').optional()
+}).passthrough().superRefine((rule, ctx) => {
+  if (rule.type === 'high_occupancy' && rule.minOccupancy === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Falta la ocupación mínima', path: ['minOccupancy'] });
+  }
+  if (rule.type === 'last_minute' && !rule.withinDays) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Faltan los días de anticipación', path: ['withinDays'] });
+  }
+});
+
+const dateRateAdjustmentSchema = z.object({
+  percent: rateAdjustmentPercent,
+  source: z.enum(['suggestion', 'manual']),
+  ruleName: z.string().optional()
+}).passthrough();
+
+const cabinConfigSchema = z.object({
+  id: z.string().min(1, 'Falta el id de la cabaña'),
+  name: z.string().min(1, 'Falta el nombre de la cabaña'),
+  displayName: z.string().min(1, 'Falta el nombre de la cabaña'),
+  maxCapacity: count.min(1, 'La capacidad debe ser al menos 1'),
+  color: z.string(),
+  isActive: z.boolean(),
+  order: z.number(),
+  ratePlans: seasonRatePlansSchema.partial().optional()
+}).passthrough();
+
+const seasonDay = z.number().int().min(1).max(31);
+const seasonMonth = z.number().int().min(1).max(12);
+
+// The shared admin configuration (sharedConfig.ts); sync metadata is checked by the caller
+export const adminConfigSchema = z.object({
+  version: z.string(),
+  cabins: z.array(cabinConfigSchema).min(1, 'Debe haber al menos una cabaña'),
+  pricing: z.object({
+    ratePlans: z.array(ratePlanSchema).min(1, 'Debe haber al menos una tarifa'),
+    defaultRatePlans: seasonRatePlansSchema,
+    rules: z.array(pricingRuleSchema).optional(),
+    occupancyRules: z.array(occupancyRuleSchema).optional(),
+    dateAdjustments: z.record(isoDate, dateRateAdjustmentSchema).optional()
+  }).passthrough(),
+  seasons: z.object({
+    high: z.array(z.object({
+      name: z.string(),
+      type: z.enum(['fixed', 'easter', 'dates']).optional(),
+      startMonth: seasonMonth.optional(),
+      startDay: seasonDay.optional(),
+      endMonth: seasonMonth.optional(),
+      endDay: seasonDay.optional(),
+      easterStartOffset: z.number().int().min(-60).max(60).optional(),
+      easterEndOffset: z.number().int().min(-60).max(60).optional(),
+      ranges: z.array(z.object({ startDate: isoDate, endDate: isoDate })).optional()
+    }).passthrough().superRefine((period, ctx) => {
+      const type = period.type || 'fixed';
+      if (type === 'fixed' && [period.startMonth, period.startDay, period.endMonth, period.endDay].some(value => value === undefined)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Faltan el inicio o el fin de la temporada' });
+      }
+      if (type === 'easter' && (period.easterStartOffset ?? 0) > (period.easterEndOffset ?? 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'El inicio debe ser anterior al fin', path: ['easterEndOffset'] });
+      }
+      (period.ranges || []).forEach((range, index) => {
+        if (range.endDate < range.startDate) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'El rango termina antes de empezar', path: ['ranges', index, 'endDate'] });
+        }
+      });
+    })),
+    defaultSeason: z.enum(['Alta', 'Baja'])
+  }).passthrough(),
+  addOns: z.array(z.object({
+    id: z.string().min(1, 'Falta el id del servicio'),
+    name: z.string().trim().min(1, 'Falta el nombre del servicio'),
+    price: amount.min(0, 'No puede ser negativo'),
+    unit: addOnUnit,
+    taxable: z.boolean(),
+    isActive: z.boolean()
+  }).passthrough()).optional(),
+  taxes: z.object({
+    ivaRate: amount.min(0, 'No puede ser negativo').max(100, 'No puede superar 100')
+  }).passthrough().optional(),
+  exchangeRates: z.object({
+    USD: amount.positive('El tipo de cambio debe ser mayor a 0'),
+    EUR: amount.positive('El tipo de cambio debe ser mayor a 0'),
+    updatedAt: isoDate.optional()
+  }).passthrough().optional(),
+  holds: z.object({ defaultHours: count }).passthrough().optional(),
+  restrictions: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    startDate: isoDate,
+    endDate: isoDate
+  }).passthrough()).optional(),
+  businessName: z.string().optional()
+}).passthrough();
+
+const toIssues = (error: z.ZodError): SchemaIssue[] => {
+  return error.issues.map(issue => ({
+    field: issue.path.join('.') || '(documento)',
+    message: issue.message
+  }));
+};
+
+// null and undefined both mean "not set" in stored documents
+const withoutNulls = (data: object): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null && value !== undefined));
+};
+
+const validate = (schema: z.ZodTypeAny, data: object): SchemaIssue[] => {
+  const result = schema.safeParse(withoutNulls(data));
+  return result.success ? [] : toIssues(result.error);
+};
+
+export const validateReservation = (data: object): SchemaIssue[] => {
+  const issues = validate(reservationSchema, data);
+  const { checkIn, checkOut, segments } = data as { checkIn?: unknown; checkOut?: unknown; segments?: Array<{ checkIn: string; checkOut: string }> };
+  if (issues.length === 0 && typeof checkIn === 'string' && typeof checkOut === 'string' && checkOut <= checkIn) {
+    issues.push({ field: 'checkOut', message: 'El check-out debe ser posterior al check-in' });
+  }
+  const { reservationStatus, holdExpiresAt } = data as { reservationStatus?: unknown; holdExpiresAt?: unknown };
+  if (issues.length === 0 && reservationStatus === 'hold' && !holdExpiresAt) {
+    issues.push({ field: 'holdExpiresAt', message: 'El bloqueo tentativo necesita un vencimiento' });
+  }
+  // Split stays: segments chain without gaps from check-in to check-out
+  if (issues.length === 0 && segments && segments.length > 0) {
+    const chained = segments.every((segment, index) => segment.checkIn === (index === 0 ? checkIn : segments[index - 1].checkOut))
+      && segments[segments.length - 1].checkOut === checkOut;
+    if (!chained) {
+      issues.push({ field: 'segments', message: 'Los tramos no cubren la estadía de check-in a check-out' });
+    }
+  }
+  return issues;
+};
+
+// Partial writes (status, payments, cancellation...) only check the fields they set
+export const validateReservationUpdate = (data: object): SchemaIssue[] => {
+  return validate(reservationSchema.partial(), data);
+};
+
+export const validatePayment = (data: object): SchemaIssue[] => validate(paymentSchema, data);
+
+export const validateReferrer = (data: object): SchemaIssue[] => validate(referrerSchema, data);
+
+export const validateReferrerUpdate = (data: object): SchemaIssue[] => validate(referrerSchema.partial(), data);
+
+export const validateGroup = (data: object): SchemaIssue[] => validate(groupSchema, data);
+
+export const validateGroupUpdate = (data: object): SchemaIssue[] => validate(groupSchema.partial(), data);
+
+export const validateWaitlistEntry = (data: object): SchemaIssue[] => {
+  const issues = validate(waitlistSchema, data);
+  const { checkIn, checkOut } = data as { checkIn?: string; checkOut?: string };
+  if (issues.length === 0 && checkIn && checkOut && checkOut <= checkIn) {
+    issues.push({ field: 'checkOut', message: 'El check-out debe ser posterior al check-in' });
+  }
+  return issues;
+};
+
+export const validateWaitlistEntryUpdate = (data: object): SchemaIssue[] => validate(waitlistSchema.partial(), data);
+
+export const validateCabinBlock = (data: object): SchemaIssue[] => {
+  const issues = validate(cabinBlockSchema, data);
+  const { startDate, endDate, recurrence } = data as { startDate?: string; endDate?: string; recurrence?: { until?: string } };
+  if (issues.length === 0 && startDate && endDate && endDate <= startDate) {
+    issues.push({ field: 'endDate', message: 'El bloqueo debe cubrir al menos una noche' });
+  }
+  if (issues.length === 0 && startDate && recurrence?.until && recurrence.until < startDate) {
+    issues.push({ field: 'recurrence.until', message: 'La repetición debe terminar después del inicio' });
+  }
+  return issues;
+};
+
+export const validateAdminConfig = (data: object): SchemaIssue[] => {
+  const issues = validate(adminConfigSchema, data);
+  if (issues.length > 0) return issues;
+
+  // Every season of every cabin must point to an existing rate plan
+  const { pricing, cabins } = data as {
+    pricing: { ratePlans: Array<{ id: string }>; defaultRatePlans: Record<string, string>; rules?: Array<{ type: string; code?: string }> };
+    cabins: Array<{ id: string; ratePlans?: Record<string, string> }>;
+  };
+  const planIds = new Set(pricing.ratePlans.map(plan => plan.id));
+  const assignments: Array<[string, Record<string, string> | undefined]> = [
+    ['pricing.defaultRatePlans', pricing.defaultRatePlans],
+    ...cabins.map((cabin, index) => [`cabins.${index}.ratePlans`, cabin.ratePlans] as [string, Record<string, string> | undefined])
+  ];
+  assignments.forEach(([field, plans]) => {
+    Object.entries(plans || {}).forEach(([season, planId]) => {
+      if (planId && !planIds.has(planId)) {
+        issues.push({ field: `${field}.${season}`, message: `La tarifa ${planId} no existe` });
+      }
+    });
+  });
+
+  // A promo code must point to a single rule
+  const codes = new Set<string>();
+  (pricing.rules || []).forEach((rule, index) => {
+    if (rule.type !== 'promo_code' || !rule.code) return;
+    const code = rule.code.trim().toUpperCase();
+    if (codes.has(code)) {
+      issues.push({ field: `pricing.rules.${index}.code`, message: `El código ${code} está repetido` });
+    }
+    codes.add(code);
+  });
+  return issues;
+};
+
+export const formatSchemaIssues = (issues: SchemaIssue[]): string => {
+  return issues.map(issue => `${issue.field}: ${issue.message}`).join('; ');
+};
+
+// Writes never store a document that would be quarantined on the next read
+export const assertValid = (issues: SchemaIssue[]): void => {
+  if (issues.length > 0) {
+    throw new Error(`Datos inválidos — ${formatSchemaIssues(issues)}`);
+  }
+};
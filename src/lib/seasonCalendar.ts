@@ -0,0 +1,104 @@
+/**
+ * Season calendar
+ * High-season periods configured in Admin, dated three ways: the same month/day range every
+ * year (summer), days relative to Easter Sunday (Semana Santa moves every year) or explicit
+ * ranges for each year (Tapati Rapa Nui, announced yearly). Dates are nights: a period that
+ * ends on 20-02 includes the night of the 20th.
+ */
+
+import type { Season } from '@/types/reservation';
+import type { AdminConfig, SeasonConfig } from './adminConfig';
+import { addDays, formatDateToISO } from './dateUtils';
+
+export const SEASON_PERIOD_TYPE_LABELS: Record<NonNullable<SeasonConfig['type']>, string> = {
+  fixed: 'Fecha fija',
+  easter: 'Según Pascua',
+  dates: 'Fechas por año',
+};
+
+// Season of one night and the high-season period it falls in, if any
+export interface NightSeason {
+  date: string;
+  season: Season;
+  period?: string;
+}
+
+// Easter Sunday (YYYY-MM-DD) of a year, Gregorian calendar (anonymous algorithm)
+export const getEasterDate = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatDateToISO(new Date(year, month - 1, day));
+};
+
+// Same month/day range every year; ranges like 15-12 to 15-03 cross the new year
+const isInFixedRange = (month: number, day: number, period: SeasonConfig): boolean => {
+  const { startMonth = 1, startDay = 1, endMonth = 12, endDay = 31 } = period;
+  const value = month * 100 + day;
+  const start = startMonth * 100 + startDay;
+  const end = endMonth * 100 + endDay;
+  return start <= end
+    ? value >= start && value <= end
+    : value >= start || value <= end;
+};
+
+export const isInSeasonPeriod = (date: string, period: SeasonConfig): boolean => {
+  switch (period.type || 'fixed') {
+    case 'easter': {
+      const easter = getEasterDate(Number(date.slice(0, 4)));
+      return date >= addDays(easter, period.easterStartOffset ?? 0) && date <= addDays(easter, period.easterEndOffset ?? 0);
+    }
+    case 'dates':
+      return (period.ranges || []).some(range => date >= range.startDate && date <= range.endDate);
+    default:
+      return isInFixedRange(Number(date.slice(5, 7)), Number(date.slice(8, 10)), period);
+  }
+};
+
+export const getNightSeason = (date: string, seasons: AdminConfig['seasons']): NightSeason => {
+  const period = seasons.high.find(candidate => isInSeasonPeriod(date, candidate));
+  return period
+    ? { date, season: 'Alta', period: period.name }
+    : { date, season: seasons.defaultSeason };
+};
+
+// Every night of the year with its season, for the Admin preview
+export const getYearSeasonCalendar = (year: number, seasons: AdminConfig['seasons']): NightSeason[] => {
+  const nights: NightSeason[] = [];
+  for (let date = `${year}-01-01`; date < `${year + 1}-01-01`; date = addDays(date, 1)) {
+    nights.push(getNightSeason(date, seasons));
+  }
+  return nights;
+};
+
+// Dates of the period in the year, e.g. "15/12 - 15/03" or "29/03 - 05/04/2026"
+export const describeSeasonPeriod = (period: SeasonConfig, year: number): string => {
+  const formatDay = (date: string) => `${date.slice(8, 10)}/${date.slice(5, 7)}`;
+  switch (period.type || 'fixed') {
+    case 'easter': {
+      const easter = getEasterDate(year);
+      const start = addDays(easter, period.easterStartOffset ?? 0);
+      const end = addDays(easter, period.easterEndOffset ?? 0);
+      return `${formatDay(start)} - ${formatDay(end)}/${year}`;
+    }
+    case 'dates': {
+      const ranges = (period.ranges || []).filter(range => range.startDate.startsWith(String(year)) || range.endDate.startsWith(String(year)));
+      return ranges.length > 0
+        ? ranges.map(range => `${formatDay(range.startDate)} - ${formatDay(range.endDate)}`).join(', ')
+        : `Sin fechas para ${year}`;
+    }
+    default:
+      return `${period.startDay}/${period.startMonth} - ${period.endDay}/${period.endMonth}`;
+  }
+};
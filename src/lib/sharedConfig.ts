@@ -0,0 +1,210 @@
+import { FieldChange } from '@/types/reservation';
+import { AdminConfig, cacheAdminConfig, getAdminConfig, getDefaultConfig, upgradeAdminConfig } from './adminConfig';
+import { getConfigRepository, StoredData } from './repository';
+import { getHistoryActor } from './reservationHistory';
+import { assertValid, formatSchemaIssues, validateAdminConfig } from './schemas';
+import { logger } from './logger';
+
+/**
+ * Shared admin configuration
+ * Cabins, pricing, add-ons, taxes, exchange rates, seasons, holds and stay restrictions live
+ * in one backend document (`configuracion/admin`) so every device prices a stay the same way.
+ * Each device follows it in real time and keeps the last copy offline (adminConfig.ts).
+ * Every save is a new revision, kept in `configuracion/admin/versiones` with who saved it
+ * and which fields changed; restoring an old version saves it again as a new revision.
+ */
+
+export interface ConfigVersion {
+  id: string;
+  revision: number;
+  config: AdminConfig;
+  changes: FieldChange[];
+  updatedBy: string;
+  updatedAt: string; // ISO date-time string
+  restoredFrom?: number; // Revision brought back by a rollback
+}
+
+export const CONFIG_VERSIONS_LIMIT = 30;
+
+export const CONFIG_CONFLICT_MESSAGE = 'La configuración fue modificada en otro dispositivo. Revisa los cambios recibidos y vuelve a guardar.';
+
+// Storage rejects undefined (restrictions for every cabin have no cabinType); keep it plain JSON
+const toPlain = <T>(value: T): T => JSON.parse(JSON.stringify(value ?? null));
+
+// The sync metadata (revision, updatedBy, lastUpdated) belongs to the document, not to the config
+const toSharedConfig = (config: AdminConfig): StoredData => toPlain({
+  version: config.version,
+  cabins: config.cabins,
+  pricing: config.pricing,
+  addOns: config.addOns,
+  taxes: config.taxes,
+  exchangeRates: config.exchangeRates,
+  holds: config.holds,
+  restrictions: config.restrictions,
+  seasons: config.seasons,
+  businessName: config.businessName,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isListWithIds = (value: unknown): value is Array<{ id: string }> => {
+  return Array.isArray(value) && value.every(item => isRecord(item) && typeof item.id === 'string');
+};
+
+/**
+ * Leaf-level diff, e.g. `pricing.ratePlans.per-person-low.childRate` or `cabins.cabin-2.maxCapacity`.
+ * Lists of items with an id (cabins, restrictions) are compared item by item.
+ */
+const diffValues = (path: string, before: unknown, after: unknown, changes: FieldChange[]): void => {
+  if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) return;
+
+  if (isListWithIds(before) && isListWithIds(after)) {
+    const ids = new Set([...before, ...after].map(item => item.id));
+    ids.forEach(id => diffValues(
+      `${path}.${id}`,
+      before.find(item => item.id === id),
+      after.find(item => item.id === id),
+      changes
+    ));
+    return;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => diffValues(path ? `${path}.${key}` : key, before[key], after[key], changes));
+    return;
+  }
+
+  changes.push({ field: path, from: before ?? null, to: after ?? null });
+};
+
+export const diffConfig = (before: StoredData, after: StoredData): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  diffValues('', before, after, changes);
+  return changes;
+};
+
+// Current document and versions share { revision, config, updatedBy, updatedAt }
+const toAdminConfig = (data: StoredData): AdminConfig | null => {
+  if (!isRecord(data.config)) return null;
+
+  const config = upgradeAdminConfig(data.config as unknown as AdminConfig);
+  const issues = validateAdminConfig(config);
+  if (issues.length > 0) {
+    logger.error('sharedConfig.invalid', { revision: data.revision, issues: formatSchemaIssues(issues) });
+    return null;
+  }
+
+  const updatedAt = typeof data.updatedAt === 'string' ? Date.parse(data.updatedAt) : NaN;
+  return {
+    ...config,
+    revision: Number(data.revision) || 0,
+    updatedBy: typeof data.updatedBy === 'string' ? data.updatedBy : undefined,
+    lastUpdated: Number.isNaN(updatedAt) ? config.lastUpdated : updatedAt,
+  };
+};
+
+/**
+ * Saves the config as the next revision. `baseRevision` is the revision the edits started
+ * from: if another device saved in between, nothing is written and the save is rejected.
+ */
+const saveRevision = async (config: AdminConfig, baseRevision: number, restoredFrom?: number): Promise<AdminConfig> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    throw new Error('Sin conexión: la configuración solo se puede guardar con conexión.');
+  }
+
+  const shared = toSharedConfig(config);
+  assertValid(validateAdminConfig(shared));
+  const updatedBy = getHistoryActor();
+  const updatedAt = new Date().toISOString();
+
+  const saved = await getConfigRepository().runTransaction(async (transaction) => {
+    const current = await transaction.getCurrent();
+    const currentRevision = Number(current?.revision) || 0;
+    if (currentRevision !== baseRevision) {
+      throw new Error(CONFIG_CONFLICT_MESSAGE);
+    }
+
+    // The first revision is the configuration the devices already had, not a change
+    const changes = current && isRecord(current.config) ? diffConfig(current.config, shared) : [];
+    if (current && changes.length === 0) return current;
+
+    const document: StoredData = { revision: currentRevision + 1, config: shared, updatedBy, updatedAt };
+    transaction.setCurrent(document);
+    transaction.addVersion({
+      ...document,
+      changes: toPlain(changes),
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+    });
+    return document;
+  });
+
+  const next = toAdminConfig(saved);
+  if (!next) {
+    throw new Error('La configuración guardada no es válida');
+  }
+  cacheAdminConfig(next);
+  logger.info('sharedConfig.save.success', { revision: next.revision, restoredFrom });
+  return next;
+};
+
+export const saveSharedConfig = (config: AdminConfig, baseRevision: number): Promise<AdminConfig> => {
+  logger.info('sharedConfig.save.start', { baseRevision });
+  return saveRevision(config, baseRevision);
+};
+
+export const restoreConfigVersion = (version: ConfigVersion, baseRevision: number): Promise<AdminConfig> => {
+  logger.info('sharedConfig.restore.start', { revision: version.revision, baseRevision });
+  return saveRevision(version.config, baseRevision, version.revision);
+};
+
+export const resetSharedConfig = (baseRevision: number): Promise<AdminConfig> => {
+  logger.info('sharedConfig.reset.start', { baseRevision });
+  return saveRevision(getDefaultConfig(), baseRevision);
+};
+
+export const getConfigVersions = async (limit: number = CONFIG_VERSIONS_LIMIT): Promise<ConfigVersion[]> => {
+  const documents = await getConfigRepository().getVersions(limit);
+  return documents.flatMap(({ id, data }) => {
+    const config = toAdminConfig(data);
+    if (!config) return [];
+    return [{
+      id,
+      revision: config.revision || 0,
+      config,
+      changes: Array.isArray(data.changes) ? data.changes as FieldChange[] : [],
+      updatedBy: config.updatedBy || '',
+      updatedAt: String(data.updatedAt || ''),
+      ...(typeof data.restoredFrom === 'number' ? { restoredFrom: data.restoredFrom } : {}),
+    }];
+  });
+};
+
+/**
+ * Follows the shared document: every new revision replaces the offline copy. The first
+ * device to connect publishes its own copy as revision 1. Returns the unsubscribe function.
+ */
+export const startAdminConfigSync = (): (() => void) => {
+  logger.info('sharedConfig.sync.start');
+
+  return getConfigRepository().subscribe(
+    (data) => {
+      if (!data) {
+        saveRevision(getAdminConfig(), 0)
+          .then(config => logger.info('sharedConfig.sync.seeded', { revision: config.revision }))
+          .catch(error => logger.warn('sharedConfig.sync.seed.error', { error: String(error) }));
+        return;
+      }
+
+      const config = toAdminConfig(data);
+      // An invalid document is ignored: the device keeps working with its offline copy
+      if (!config || config.revision === getAdminConfig().revision) return;
+
+      cacheAdminConfig(config);
+      logger.info('sharedConfig.sync.received', { revision: config.revision, updatedBy: config.updatedBy });
+    },
+    (error) => logger.warn('sharedConfig.sync.error', { error: String(error) })
+  );
+};
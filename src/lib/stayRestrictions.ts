@@ -0,0 +1,105 @@
+/**
+ * Stay restrictions
+ * Rules configured in Admin per date range and, optionally, per cabin: a minimum number of
+ * nights for arrivals in the range, and days closed to arrival (CTA) or departure (CTD).
+ * The minimum stay is taken from the arrival date, CTA from check-in in the arrival cabin
+ * and CTD from check-out in the cabin the guest leaves from.
+ */
+
+import { getStayRestrictions, StayRestriction } from './adminConfig';
+import { getStaySegments, OccupyingStay } from './availabilityPolicy';
+import { calculateNights, formatDateForDisplay, parseDate } from './dateUtils';
+import { getCabinName } from './cabinConfig';
+
+// Restrictions of one day for one cabin (or aggregated over several cabins)
+export interface DayRestrictions {
+  minNights: number;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+}
+
+const appliesTo = (restriction: StayRestriction, cabinType: string, date: string): boolean => {
+  if (date < restriction.startDate || date > restriction.endDate) return false;
+  if (restriction.cabinType && restriction.cabinType !== cabinType) return false;
+  const weekdays = restriction.weekdays || [];
+  return weekdays.length === 0 || weekdays.includes(parseDate(date).getDay());
+};
+
+export const getDayRestrictions = (
+  cabinType: string,
+  date: string,
+  restrictions: StayRestriction[] = getStayRestrictions()
+): DayRestrictions => {
+  const matching = restrictions.filter(restriction => appliesTo(restriction, cabinType, date));
+  return {
+    minNights: Math.max(1, ...matching.map(restriction => restriction.minNights || 1)),
+    closedToArrival: matching.some(restriction => restriction.closedToArrival),
+    closedToDeparture: matching.some(restriction => restriction.closedToDeparture),
+  };
+};
+
+/**
+ * What a guest free to choose any of the cabins faces on that day: closed only when
+ * every cabin is closed, and the shortest minimum stay among them.
+ */
+export const getDayRestrictionsForAnyCabin = (
+  cabinTypes: readonly string[],
+  date: string,
+  restrictions: StayRestriction[] = getStayRestrictions()
+): DayRestrictions => {
+  const perCabin = cabinTypes.map(cabinType => getDayRestrictions(cabinType, date, restrictions));
+  if (perCabin.length === 0) {
+    return { minNights: 1, closedToArrival: false, closedToDeparture: false };
+  }
+  return {
+    minNights: Math.min(...perCabin.map(day => day.minNights)),
+    closedToArrival: perCabin.every(day => day.closedToArrival),
+    closedToDeparture: perCabin.every(day => day.closedToDeparture),
+  };
+};
+
+type RestrictedStay = Pick<OccupyingStay, 'cabinType' | 'checkIn' | 'checkOut' | 'segments'>;
+
+/**
+ * Checks a new stay, or the edit of a booked one: with `previous`, only what changed is
+ * checked, so stays booked before a rule existed can still be edited.
+ */
+export const validateStayRestrictions = (
+  stay: RestrictedStay,
+  previous?: RestrictedStay,
+  restrictions: StayRestriction[] = getStayRestrictions()
+): { isValid: boolean; error?: string } => {
+  const segments = getStaySegments(stay);
+  const arrivalCabin = segments[0].cabinType;
+  const departureCabin = segments[segments.length - 1].cabinType;
+
+  const previousSegments = previous ? getStaySegments(previous) : [];
+  const arrivalChanged = !previous || previous.checkIn !== stay.checkIn || previousSegments[0].cabinType !== arrivalCabin;
+  const departureChanged = !previous || previous.checkOut !== stay.checkOut || previousSegments[previousSegments.length - 1].cabinType !== departureCabin;
+  const nights = calculateNights(stay.checkIn, stay.checkOut);
+  const nightsChanged = !previous || calculateNights(previous.checkIn, previous.checkOut) !== nights;
+
+  const arrival = getDayRestrictions(arrivalCabin, stay.checkIn, restrictions);
+  if (arrivalChanged && arrival.closedToArrival) {
+    return {
+      isValid: false,
+      error: `No se reciben llegadas el ${formatDateForDisplay(stay.checkIn)} en la ${getCabinName(arrivalCabin)}`
+    };
+  }
+
+  if ((arrivalChanged || nightsChanged) && nights < arrival.minNights) {
+    return {
+      isValid: false,
+      error: `Las llegadas del ${formatDateForDisplay(stay.checkIn)} en la ${getCabinName(arrivalCabin)} requieren una estadía mínima de ${arrival.minNights} noches`
+    };
+  }
+
+  if (departureChanged && getDayRestrictions(departureCabin, stay.checkOut, restrictions).closedToDeparture) {
+    return {
+      isValid: false,
+      error: `No se permiten salidas el ${formatDateForDisplay(stay.checkOut)} desde la ${getCabinName(departureCabin)}`
+    };
+  }
+
+  return { isValid: true };
+};
@@ -0,0 +1,174 @@
+/**
+ * Split stays
+ * A stay normally occupies one cabin from check-in to check-out. When the guest changes
+ * cabin mid-stay the reservation keeps an ordered list of segments: checkIn/checkOut still
+ * cover the whole stay and cabinType is the cabin the guest arrives to.
+ */
+
+import { CabinType, Reservation, StaySegment } from '@/types/reservation';
+import { getCabinOnNight, getStaySegments, occupiesNight, OccupyingStay } from './availabilityPolicy';
+import { getOccupiedNights } from './occupancyLocks';
+import { formatDateForDisplay } from './dateUtils';
+import { getCabinDisplayName, getCabinName } from './cabinConfig';
+
+export type SegmentedStay = Pick<Reservation, 'cabinType' | 'checkIn' | 'checkOut' | 'segments'>;
+
+// Fields written for a stay layout; single-cabin stays clear segments and cabinTypes
+export type StayLayout = Pick<Reservation, 'cabinType' | 'checkIn' | 'checkOut' | 'segments' | 'cabinTypes'>;
+
+export interface CabinMove {
+  date: string;
+  from: CabinType;
+  to: CabinType;
+}
+
+export const getSegments = (stay: SegmentedStay): StaySegment[] => getStaySegments(stay) as StaySegment[];
+
+export const isSplitStay = (stay: SegmentedStay): boolean => getSegments(stay).length > 1;
+
+// Cabin the guest leaves from on check-out day
+export const getDepartureCabin = (stay: SegmentedStay): CabinType => {
+  const segments = getSegments(stay);
+  return segments[segments.length - 1].cabinType;
+};
+
+// Cabin changes during the stay, in order
+export const getCabinMoves = (stay: SegmentedStay): CabinMove[] => {
+  const segments = getSegments(stay);
+  return segments.slice(1).map((segment, index) => ({
+    date: segment.checkIn,
+    from: segments[index].cabinType,
+    to: segment.cabinType
+  }));
+};
+
+// Consecutive segments in the same cabin are a single segment
+export const mergeSegments = (segments: StaySegment[]): StaySegment[] => {
+  return segments.reduce<StaySegment[]>((merged, segment) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.cabinType === segment.cabinType && previous.checkOut === segment.checkIn) {
+      merged[merged.length - 1] = { ...previous, checkOut: segment.checkOut };
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+};
+
+// Segments must chain without gaps from the first check-in to the last check-out
+export const validateSegments = (segments: StaySegment[]): { isValid: boolean; error?: string } => {
+  if (segments.length === 0) {
+    return { isValid: false, error: 'La estadía no tiene cabañas asignadas' };
+  }
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (segment.checkIn >= segment.checkOut) {
+      return { isValid: false, error: `El tramo en ${getCabinName(segment.cabinType)} debe tener al menos una noche` };
+    }
+    if (i > 0 && segments[i - 1].checkOut !== segment.checkIn) {
+      return { isValid: false, error: `Los tramos de la estadía deben ser consecutivos (${formatDateForDisplay(segments[i - 1].checkOut)} / ${formatDateForDisplay(segment.checkIn)})` };
+    }
+  }
+  return { isValid: true };
+};
+
+export const toStayLayout = (segments: StaySegment[]): StayLayout => {
+  const merged = mergeSegments(segments);
+  const isSplit = merged.length > 1;
+  return {
+    cabinType: merged[0].cabinType,
+    checkIn: merged[0].checkIn,
+    checkOut: merged[merged.length - 1].checkOut,
+    segments: isSplit ? merged : undefined,
+    cabinTypes: isSplit ? Array.from(new Set(merged.map(segment => segment.cabinType))) : undefined
+  };
+};
+
+/**
+ * Adapts a split stay to the dates and arrival cabin edited in the reservation form:
+ * segments are clipped to the new dates, the first and last ones stretched to reach them.
+ */
+export const fitSegmentsToStay = (
+  segments: StaySegment[],
+  cabinType: CabinType,
+  checkIn: string,
+  checkOut: string
+): StaySegment[] => {
+  const clipped = segments
+    .map(segment => ({
+      ...segment,
+      checkIn: segment.checkIn > checkIn ? segment.checkIn : checkIn,
+      checkOut: segment.checkOut < checkOut ? segment.checkOut : checkOut
+    }))
+    .filter(segment => segment.checkIn < segment.checkOut);
+
+  if (clipped.length === 0) {
+    return [{ cabinType, checkIn, checkOut }];
+  }
+  clipped[0] = { ...clipped[0], cabinType, checkIn };
+  clipped[clipped.length - 1] = { ...clipped[clipped.length - 1], checkOut };
+  return mergeSegments(clipped);
+};
+
+// Moves the guest to another cabin from moveDate until check-out
+export const splitStayAt = (stay: SegmentedStay, moveDate: string, cabinType: CabinType): StaySegment[] => {
+  if (moveDate <= stay.checkIn || moveDate >= stay.checkOut) {
+    throw new Error(`El cambio de cabaña debe ser después del check-in (${formatDateForDisplay(stay.checkIn)}) y antes del check-out (${formatDateForDisplay(stay.checkOut)})`);
+  }
+  if (getCabinOnNight(stay, moveDate) === cabinType) {
+    throw new Error(`El huésped ya está en la ${getCabinName(cabinType)} esa noche`);
+  }
+
+  const kept = getSegments(stay)
+    .filter(segment => segment.checkIn < moveDate)
+    .map(segment => ({ ...segment, checkOut: segment.checkOut < moveDate ? segment.checkOut : moveDate }));
+
+  return mergeSegments([...kept, { cabinType, checkIn: moveDate, checkOut: stay.checkOut }]);
+};
+
+/**
+ * Proposes a split stay when no single cabin is free for every night.
+ * Each segment stays in the cabin that remains free the longest, which keeps cabin
+ * changes to a minimum. Returns null when some night has no free cabin.
+ */
+export const planSplitStay = (
+  reservations: OccupyingStay[],
+  cabinTypes: CabinType[],
+  checkIn: string,
+  checkOut: string,
+  excludeReservationId?: string
+): StaySegment[] | null => {
+  const nights = getOccupiedNights(checkIn, checkOut);
+  const others = reservations.filter(reservation => !excludeReservationId || reservation.id !== excludeReservationId);
+  const isFree = (cabinType: string, date: string) => !others.some(reservation => occupiesNight(reservation, date, cabinType));
+
+  const segments: StaySegment[] = [];
+  let index = 0;
+  while (index < nights.length) {
+    let bestCabin: CabinType | null = null;
+    let bestEnd = index;
+    for (const cabinType of cabinTypes) {
+      let end = index;
+      while (end < nights.length && isFree(cabinType, nights[end])) end++;
+      if (end > bestEnd) {
+        bestCabin = cabinType;
+        bestEnd = end;
+      }
+    }
+    if (!bestCabin) return null;
+    segments.push({
+      cabinType: bestCabin,
+      checkIn: nights[index],
+      checkOut: bestEnd < nights.length ? nights[bestEnd] : checkOut
+    });
+    index = bestEnd;
+  }
+  return segments;
+};
+
+// "Pequeña 01/03–04/03 → Grande 04/03–07/03"
+export const formatSegments = (segments: StaySegment[]): string => {
+  return segments
+    .map(segment => `${getCabinDisplayName(segment.cabinType)} ${formatDateForDisplay(segment.checkIn)}–${formatDateForDisplay(segment.checkOut)}`)
+    .join(' → ');
+};
@@ -0,0 +1,62 @@
+/**
+ * IVA
+ * Prices configured in Admin include IVA, which is what residents pay. Lodging sold to a
+ * non-resident foreigner who pays in foreign currency is exempt (DL 825, art. 12 E N°17):
+ * the automatic price of the stay is charged without its IVA. Paying in foreign currency is
+ * confirmed by staff on the reservation (paysInForeignCurrency); the guest currency only
+ * changes how quotes are shown. Add-ons carry IVA according to
+ * their own taxable flag, whoever the guest is. A custom price is the agreed final amount of
+ * the stay, so an exempt custom price is not reduced.
+ */
+
+import { GuestResidency, Reservation, ReservationAddOn, ReservationFormData, TaxBreakdown, TaxTreatment } from '@/types/reservation';
+import { getTaxConfig } from './adminConfig';
+import { sumAddOns } from './folio';
+
+export const GUEST_RESIDENCY_LABELS: Record<GuestResidency, string> = {
+  resident: 'Residente en Chile',
+  foreign: 'Extranjero no residente',
+};
+
+export const TAX_TREATMENT_LABELS: Record<TaxTreatment, string> = {
+  taxable: 'Afecta a IVA',
+  exempt: 'Exenta de IVA',
+};
+
+export const getTaxTreatment = (data: Pick<ReservationFormData, 'guestResidency' | 'paysInForeignCurrency'>): TaxTreatment => {
+  return data.guestResidency === 'foreign' && data.paysInForeignCurrency ? 'exempt' : 'taxable';
+};
+
+// Net part of an amount that includes IVA
+export const removeIva = (amount: number, ivaRate: number): number => Math.round(amount / (1 + ivaRate / 100));
+
+/**
+ * IVA of a folio: the stay as charged (after discounts and any exemption) and its add-ons.
+ * Each line is split on its own, so the parts add up to the total exactly.
+ */
+export const calculateTaxes = (
+  stayPrice: number,
+  treatment: TaxTreatment,
+  addOns: ReservationAddOn[] = [],
+  waivedIva: number = 0,
+  ivaRate: number = getTaxConfig().ivaRate
+): TaxBreakdown => {
+  const lines = [
+    { amount: stayPrice, taxable: treatment === 'taxable' },
+    ...addOns.map(addOn => ({ amount: addOn.total, taxable: addOn.taxable })),
+  ];
+  return lines.reduce<TaxBreakdown>((taxes, line) => {
+    if (!line.taxable) return { ...taxes, exempt: taxes.exempt + line.amount };
+    const net = removeIva(line.amount, ivaRate);
+    return { ...taxes, net: taxes.net + net, iva: taxes.iva + line.amount - net };
+  }, { ivaRate, net: 0, iva: 0, exempt: 0, waivedIva });
+};
+
+// Stored split; stays priced before IVA was recorded are taken as taxable at the current rate
+export const getReservationTaxes = (
+  reservation: Pick<Reservation, 'totalPrice' | 'addOns' | 'taxes' | 'taxTreatment'>
+): TaxBreakdown => {
+  if (reservation.taxes) return reservation.taxes;
+  const addOns = reservation.addOns || [];
+  return calculateTaxes((reservation.totalPrice || 0) - sumAddOns(addOns), reservation.taxTreatment || 'taxable', addOns);
+};
@@ -0,0 +1,36 @@
+import { addDays, formatDateToISO, getTodayDate } from './dateUtils';
+
+/**
+ * Trash (soft delete)
+ * Deleted reservations and referrers keep their document with deletedAt/deletedBy
+ * and can be restored. Permanent purge is only allowed once the retention period is over.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashFields {
+  deletedAt?: string; // ISO date-time string
+  deletedBy?: string;
+}
+
+export const isTrashed = (item: TrashFields): boolean => {
+  return !!item.deletedAt;
+};
+
+// First day the item can be purged (YYYY-MM-DD)
+export const getPurgeDate = (deletedAt: string): string => {
+  return addDays(formatDateToISO(new Date(deletedAt)), TRASH_RETENTION_DAYS);
+};
+
+export const canPurge = (item: TrashFields, today: string = getTodayDate()): boolean => {
+  return isTrashed(item) && getPurgeDate(item.deletedAt!) <= today;
+};
+
+export const assertPurgeable = (item: TrashFields): void => {
+  if (!isTrashed(item)) {
+    throw new Error('Solo se pueden eliminar definitivamente elementos de la papelera');
+  }
+  if (!canPurge(item)) {
+    throw new Error(`Solo se puede eliminar definitivamente después de ${TRASH_RETENTION_DAYS} días en la papelera`);
+  }
+};
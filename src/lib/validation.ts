@@ -1,15 +1,16 @@
 import { ReservationFormData } from '@/types/reservation';
 import { addDays, getTodayDate, formatDateForDisplay, calculateNights } from './dateUtils';
+import { getCabinName, getMaxCapacity } from './cabinConfig';
 
+// Capacity comes from the cabin configured in Admin
 export const validateCabinCapacity = (cabinType: string, adults: number, children: number, babies: number): { isValid: boolean; error?: string } => {
   const totalGuests = adults + children; // Babies don't count towards capacity limit
-  const maxCapacity = cabinType.includes('Pequeña') ? 3 : 
-                     cabinType.includes('Mediana') ? 4 : 6;
+  const maxCapacity = getMaxCapacity(cabinType);
   
   if (totalGuests > maxCapacity) {
     return {
       isValid: false,
-      error: `La ${cabinType} tiene capacidad máxima para ${maxCapacity} personas (adultos + niños), pero has seleccionado ${totalGuests} huéspedes (${adults} adultos + ${children} niños). Los bebés no cuentan para el límite de capacidad.`
+      error: `La ${getCabinName(cabinType)} tiene capacidad máxima para ${maxCapacity} personas (adultos + niños), pero has seleccionado ${totalGuests} huéspedes (${adults} adultos + ${children} niños). Los bebés no cuentan para el límite de capacidad.`
     };
   }
   
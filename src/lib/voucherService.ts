@@ -0,0 +1,162 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Reservation } from '@/types/reservation';
+import { Currency } from '@/types/payment';
+import { calculateNights, formatDateForDisplay } from './dateUtils';
+import { logger } from './logger';
+import { getAdminConfig } from './adminConfig';
+import { getCabinDisplayName } from './cabinConfig';
+import { getSegments } from './staySegments';
+import { calculateAmountDue, calculateRemainingBalance, getReservationPriceLines } from './pricing';
+import { isCancelled } from './cancellations';
+import { BASE_CURRENCY, formatCurrency, formatPaymentAmount, fromBaseAmount, getExchangeRate } from './currency';
+import { describeAddOn, getFolioLines, sumAddOns } from './folio';
+import { getReservationTaxes } from './taxes';
+
+/**
+ * Reservation voucher
+ * PDF for the guest with the stay, the price night by night, its discounts, the add-ons, the
+ * IVA and what is left to pay. Custom prices and stays priced before the nightly breakdown
+ * show a single line.
+ * Amounts are in CLP; with a guest currency the totals are also shown converted at the
+ * current rate, as a reference.
+ */
+
+const formatAmount = (amount: number): string => `$${amount.toLocaleString('es-CL')}`;
+
+const TABLE_HEAD_STYLES = {
+  fillColor: [41, 128, 185] as [number, number, number],
+  textColor: 255,
+  fontStyle: 'bold' as const,
+};
+
+export const exportReservationVoucher = (
+  reservation: Reservation,
+  guestCurrency: Currency | undefined = reservation.guestCurrency
+): void => {
+  logger.info('voucher.exportReservationVoucher.start', { id: reservation.id, guestCurrency });
+
+  try {
+    const doc = new jsPDF();
+    const nights = calculateNights(reservation.checkIn, reservation.checkOut);
+
+    // Title
+    doc.setFontSize(16);
+    doc.text(`Comprobante de Reserva - ${getAdminConfig().businessName}`, 20, 20);
+
+    // Stay
+    doc.setFontSize(11);
+    const stayLines = [
+      `Pasajero: ${reservation.passengerName}`,
+      `Check-in: ${formatDateForDisplay(reservation.checkIn)}   Check-out: ${formatDateForDisplay(reservation.checkOut)}   (${nights} noches)`,
+      `Cabaña: ${getSegments(reservation).map(segment => getCabinDisplayName(segment.cabinType)).join(' → ')}`,
+      `Huéspedes: ${reservation.adults} adultos, ${reservation.children || 0} niños, ${reservation.babies || 0} bebés`,
+      ...(reservation.id ? [`Reserva: ${reservation.id}`] : []),
+    ];
+    stayLines.forEach((line, index) => doc.text(line, 20, 32 + index * 7));
+
+    // Price night by night
+    const addOns = reservation.addOns || [];
+    const [stayLine] = getFolioLines(reservation);
+    const priceLines = getReservationPriceLines(reservation);
+    const priceRows = priceLines.length > 0
+      ? priceLines.map(line => [
+          `${formatDateForDisplay(line.checkIn)} - ${formatDateForDisplay(line.checkOut)}`,
+          getCabinDisplayName(line.cabinType),
+          `${line.season} (${line.ratePlanName})`,
+          line.nights.toString(),
+          formatAmount(line.nightlyRate),
+          formatAmount(line.total),
+        ])
+      : [[
+          `${formatDateForDisplay(reservation.checkIn)} - ${formatDateForDisplay(reservation.checkOut)}`,
+          getCabinDisplayName(reservation.cabinType),
+          reservation.useCustomPrice ? 'Precio acordado' : reservation.season,
+          nights.toString(),
+          '',
+          formatAmount(stayLine.amount),
+        ]];
+
+    autoTable(doc, {
+      head: [['Período', 'Cabaña', 'Tarifa', 'Noches', 'Por noche', 'Total']],
+      body: priceRows,
+      startY: 32 + stayLines.length * 7 + 4,
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: TABLE_HEAD_STYLES,
+      margin: { left: 20, right: 20 },
+    });
+
+    // Add-ons
+    if (addOns.length > 0) {
+      autoTable(doc, {
+        head: [['Servicio adicional', 'Detalle', 'Total']],
+        body: addOns.map(addOn => [addOn.name, describeAddOn(addOn), formatAmount(addOn.total)]),
+        styles: { fontSize: 9, cellPadding: 2 },
+        headStyles: TABLE_HEAD_STYLES,
+        columnStyles: { 2: { halign: 'right' } },
+        margin: { left: 20, right: 20 },
+      });
+    }
+
+    // Totals
+    const totalPaid = (reservation.payments || []).reduce((sum, payment) => sum + payment.amount, 0);
+    const adjustments = reservation.priceAdjustments || [];
+    const taxes = getReservationTaxes(reservation);
+    const showGuestCurrency = !!guestCurrency && guestCurrency !== BASE_CURRENCY;
+    const inGuestCurrency = (amount: number) => formatCurrency(fromBaseAmount(amount, guestCurrency!), guestCurrency);
+    const totals = [
+      ...(adjustments.length > 0 || addOns.length > 0 || taxes.waivedIva > 0 ? [['Alojamiento', formatAmount(stayLine.amount)]] : []),
+      ...adjustments.map(adjustment => [
+        `${adjustment.name}${adjustment.code ? ` (${adjustment.code})` : ''}`,
+        `-${formatAmount(Math.abs(adjustment.amount))}`,
+      ]),
+      ...(taxes.waivedIva > 0 ? [['Exención de IVA', `-${formatAmount(taxes.waivedIva)}`]] : []),
+      ...(addOns.length > 0 ? [['Servicios adicionales', formatAmount(sumAddOns(addOns))]] : []),
+      ['Total estadía', formatAmount(reservation.totalPrice)],
+      ['Neto', formatAmount(taxes.net)],
+      [`IVA (${taxes.ivaRate}%)`, formatAmount(taxes.iva)],
+      ...(taxes.exempt > 0 ? [['Exento', formatAmount(taxes.exempt)]] : []),
+      ...(isCancelled(reservation) ? [['Cargo por cancelación', formatAmount(calculateAmountDue(reservation))]] : []),
+      ['Pagado', formatAmount(totalPaid)],
+      ['Saldo pendiente', formatAmount(calculateRemainingBalance(reservation))],
+      ...(showGuestCurrency ? [
+        [`Total estadía (${guestCurrency})`, inGuestCurrency(reservation.totalPrice)],
+        [`Saldo pendiente (${guestCurrency})`, inGuestCurrency(calculateRemainingBalance(reservation))],
+      ] : []),
+    ];
+    autoTable(doc, {
+      body: totals,
+      styles: { fontSize: 10, cellPadding: 2 },
+      columnStyles: { 0: { fontStyle: 'bold' }, 1: { halign: 'right' } },
+      margin: { left: 110, right: 20 },
+    });
+
+    // Payments received, with the original currency of USD and EUR payments
+    const lastTable = (doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable;
+    let noteY = (lastTable?.finalY ?? 200) + 8;
+    doc.setFontSize(9);
+    if ((reservation.payments || []).length > 0) {
+      doc.text('Pagos recibidos:', 20, noteY);
+      noteY += 5;
+    }
+    (reservation.payments || []).forEach(payment => {
+      doc.text(`${formatDateForDisplay(payment.paymentDate.slice(0, 10))}  ${formatPaymentAmount(payment)}${payment.exchangeRate ? `  (1 ${payment.currency} = ${formatCurrency(payment.exchangeRate)})` : ''}`, 20, noteY);
+      noteY += 5;
+    });
+    if (reservation.taxTreatment === 'exempt') {
+      doc.text('Alojamiento exento de IVA: turista extranjero no residente con pago en moneda extranjera (DL 825, art. 12 E N°17).', 20, noteY + 3);
+      noteY += 5;
+    }
+    if (showGuestCurrency) {
+      doc.text(`Montos en ${guestCurrency} referenciales: 1 ${guestCurrency} = ${formatCurrency(getExchangeRate(guestCurrency!))}. El saldo se cobra en CLP.`, 20, noteY + 3);
+    }
+
+    const fileName = `comprobante_${reservation.passengerName.trim().replace(/\s+/g, '_')}_${reservation.checkIn}.pdf`;
+    doc.save(fileName);
+
+    logger.info('voucher.exportReservationVoucher.success', { id: reservation.id, fileName });
+  } catch (error) {
+    logger.error('voucher.exportReservationVoucher.error', { id: reservation.id, error: String(error) });
+    throw new Error('Error al generar el comprobante');
+  }
+};
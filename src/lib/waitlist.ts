@@ -0,0 +1,191 @@
+/**
+ * Waitlist
+ * Requests that could not be booked because every acceptable cabin was taken. Whenever a
+ * reservation releases nights (cancelled, shortened, moved or deleted) the entries that
+ * overlap those nights are checked again; entries with a free cabin become offers on the
+ * Dashboard until they are booked or discarded.
+ */
+
+import { CabinType } from '@/types/reservation';
+import { WaitlistEntry, WaitlistFormData } from '@/types/waitlist';
+import { logger } from './logger';
+import { getTodayDate } from './dateUtils';
+import { findStaysInRange } from './availability';
+import { checkLocalAvailability } from './availabilityHelpers';
+import { validateCabinCapacity } from './validation';
+import { isActiveCabin, normalizeCabinType } from './cabinConfig';
+import { getWaitlistRepository, StoredDocument } from './repository';
+import { assertValid, validateWaitlistEntry, validateWaitlistEntryUpdate } from './schemas';
+import { readValidDocuments } from './quarantine';
+
+// Nights released by a reservation change
+export interface ReleasedStay {
+  checkIn: string;
+  checkOut: string;
+}
+
+type StoredDate = Date | { toDate: () => Date } | undefined;
+
+const toDate = (value: StoredDate): Date | undefined => {
+  if (!value) return undefined;
+  return value instanceof Date ? value : value.toDate();
+};
+
+export const normalizeWaitlistEntry = (raw: Record<string, unknown>): WaitlistEntry => {
+  const data = raw as Partial<Omit<WaitlistEntry, 'createdAt' | 'updatedAt'>> & {
+    createdAt?: StoredDate;
+    updatedAt?: StoredDate;
+  };
+  return {
+    id: data.id,
+    guestName: data.guestName || '',
+    phone: data.phone || '',
+    email: data.email || '',
+    checkIn: data.checkIn || '',
+    checkOut: data.checkOut || '',
+    cabinTypes: (data.cabinTypes || []).map(normalizeCabinType),
+    adults: data.adults ?? 1,
+    children: data.children ?? 0,
+    babies: data.babies ?? 0,
+    notes: data.notes || '',
+    status: data.status || 'waiting',
+    offeredCabins: data.offeredCabins?.map(normalizeCabinType),
+    offeredAt: data.offeredAt,
+    reservationId: data.reservationId,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+};
+
+// Documents that fail the schema are quarantined instead of reaching the screens
+const toValidEntries = (docs: StoredDocument[]): WaitlistEntry[] => {
+  return readValidDocuments<WaitlistEntry>('lista_espera', docs, normalizeWaitlistEntry, validateWaitlistEntry, 'guestName');
+};
+
+const isOpen = (entry: WaitlistEntry): boolean => entry.status === 'waiting' || entry.status === 'offered';
+
+const overlaps = (entry: WaitlistEntry, stay: ReleasedStay): boolean => {
+  return entry.checkIn < stay.checkOut && entry.checkOut > stay.checkIn;
+};
+
+export const addToWaitlist = async (data: WaitlistFormData): Promise<string> => {
+  logger.info('waitlist.addToWaitlist.start', { checkIn: data.checkIn, checkOut: data.checkOut, cabinTypes: data.cabinTypes });
+
+  const entryData = {
+    guestName: data.guestName.trim(),
+    phone: data.phone.trim(),
+    email: data.email || '',
+    checkIn: data.checkIn,
+    checkOut: data.checkOut,
+    cabinTypes: data.cabinTypes,
+    adults: data.adults,
+    children: data.children,
+    babies: data.babies,
+    notes: data.notes || '',
+    status: 'waiting' as const,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  assertValid(validateWaitlistEntry(entryData));
+
+  const id = await getWaitlistRepository().create(entryData);
+  logger.info('waitlist.addToWaitlist.success', { id });
+  return id;
+};
+
+// Waiting and offered entries whose stay has not started yet
+export const getOpenWaitlistEntries = async (): Promise<WaitlistEntry[]> => {
+  const docs = await getWaitlistRepository().find({
+    filters: [{ field: 'checkIn', op: '>=', value: getTodayDate() }]
+  });
+  return toValidEntries(docs)
+    .filter(isOpen)
+    .sort((a, b) => a.checkIn.localeCompare(b.checkIn));
+};
+
+export const discardWaitlistEntry = async (id: string): Promise<void> => {
+  await getWaitlistRepository().update(id, {
+    status: 'discarded',
+    offeredCabins: undefined,
+    offeredAt: undefined,
+    updatedAt: new Date(),
+  });
+  logger.info('waitlist.discardWaitlistEntry.success', { id });
+};
+
+export const markWaitlistEntryBooked = async (id: string, reservationId: string): Promise<void> => {
+  const updateData = {
+    status: 'booked',
+    reservationId,
+    offeredCabins: undefined,
+    offeredAt: undefined,
+    updatedAt: new Date(),
+  };
+  assertValid(validateWaitlistEntryUpdate(updateData));
+  await getWaitlistRepository().update(id, updateData);
+  logger.info('waitlist.markWaitlistEntryBooked.success', { id, reservationId });
+};
+
+// Acceptable cabins, still active, that fit the party and are free for every night of the entry
+const findFreeCabins = async (entry: WaitlistEntry): Promise<CabinType[]> => {
+  const stays = await findStaysInRange(entry.checkIn, entry.checkOut);
+  return entry.cabinTypes.filter(cabinType =>
+    isActiveCabin(cabinType) &&
+    validateCabinCapacity(cabinType, entry.adults, entry.children, entry.babies).isValid &&
+    checkLocalAvailability(stays, cabinType, entry.checkIn, entry.checkOut)
+  );
+};
+
+/**
+ * Re-checks open entries: the ones overlapping the released nights, or every open entry
+ * when no stay is given. Offers whose cabins were booked again go back to waiting.
+ * Returns the number of entries that are offered after the check.
+ */
+export const evaluateWaitlist = async (released?: ReleasedStay): Promise<number> => {
+  logger.info('waitlist.evaluateWaitlist.start', { released });
+  logger.time('waitlist.evaluateWaitlist');
+
+  try {
+    const entries = (await getOpenWaitlistEntries())
+      .filter(entry => !released || overlaps(entry, released));
+
+    let offered = 0;
+    for (const entry of entries) {
+      const freeCabins = await findFreeCabins(entry);
+      const unchanged = freeCabins.length > 0
+        ? entry.status === 'offered' && freeCabins.join('|') === (entry.offeredCabins || []).join('|')
+        : entry.status === 'waiting';
+
+      if (freeCabins.length > 0) offered++;
+      if (unchanged) continue;
+
+      await getWaitlistRepository().update(entry.id!, freeCabins.length > 0
+        ? {
+            status: 'offered',
+            offeredCabins: freeCabins,
+            offeredAt: entry.status === 'offered' && entry.offeredAt ? entry.offeredAt : new Date().toISOString(),
+            updatedAt: new Date(),
+          }
+        : {
+            status: 'waiting',
+            offeredCabins: undefined,
+            offeredAt: undefined,
+            updatedAt: new Date(),
+          });
+    }
+
+    logger.info('waitlist.evaluateWaitlist.success', { checked: entries.length, offered });
+    return offered;
+  } finally {
+    logger.timeEnd('waitlist.evaluateWaitlist');
+  }
+};
+
+// Called after a change releases nights; the change itself already succeeded, so errors are only logged
+export const notifyWaitlist = async ({ checkIn, checkOut }: ReleasedStay): Promise<void> => {
+  try {
+    await evaluateWaitlist({ checkIn, checkOut });
+  } catch (error) {
+    logger.warn('waitlist.notifyWaitlist.error', { checkIn, checkOut, error: String(error) });
+  }
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Settings, Save, Plus, Trash2, GripVertical, RotateCcw, DollarSign, Home, Calendar, Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Settings, Save, Plus, Trash2, GripVertical, RotateCcw, DollarSign, Home, Calendar, Cloud, CloudOff, RefreshCw, AlertTriangle, UserCircle, FileWarning, Clock, CalendarX, Tag, Coins, ShoppingBag, Receipt, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -22,15 +23,37 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useAdminConfig, useOfflineSync } from '@/hooks/useOfflineSync';
 import { 
-  getAdminConfig, 
-  saveAdminConfig, 
-  resetToDefaults,
+  AddOn,
   CabinConfig,
+  DateRateAdjustment,
+  OccupancyRule,
+  OccupancyRuleType,
   PricingConfig,
-  AdminConfig
+  PricingRule,
+  RatePlan,
+  RatePlanType,
+  SeasonConfig,
+  SeasonDateRange,
+  StayRestriction,
+  AdminConfig,
+  getRatePlan
 } from '@/lib/adminConfig';
+import { calculateNightlyRate } from '@/lib/pricing';
+import { PRICING_RULE_TYPE_LABELS } from '@/lib/pricingRules';
+import { OCCUPANCY_RULE_TYPE_LABELS } from '@/lib/occupancyPricing';
+import { CURRENCY_LABELS, formatCurrency } from '@/lib/currency';
+import { ADD_ON_UNIT_LABELS } from '@/lib/folio';
+import { describeSeasonPeriod, SEASON_PERIOD_TYPE_LABELS } from '@/lib/seasonCalendar';
+import type { AddOnUnit, PriceAdjustmentType, Season } from '@/types/reservation';
+import { formatDateForDisplay, getTodayDate } from '@/lib/dateUtils';
+import { getHistoryActor, setHistoryActor } from '@/lib/reservationHistory';
+import { resetSharedConfig, saveSharedConfig } from '@/lib/sharedConfig';
+import ReservationMigration from '@/components/ReservationMigration';
+import ConfigHistory from '@/components/ConfigHistory';
+import SeasonCalendarPreview from '@/components/SeasonCalendarPreview';
+import RateCalendar from '@/components/RateCalendar';
 
 const CABIN_COLORS = [
   { value: 'bg-blue-500', label: 'Azul', preview: 'bg-blue-500' },
@@ -45,13 +68,47 @@ const CABIN_COLORS = [
   { value: 'bg-cyan-500', label: 'Cian', preview: 'bg-cyan-500' },
 ];
 
+const RESTRICTION_WEEKDAYS = [
+  { value: 1, label: 'Lu' },
+  { value: 2, label: 'Ma' },
+  { value: 3, label: 'Mi' },
+  { value: 4, label: 'Ju' },
+  { value: 5, label: 'Vi' },
+  { value: 6, label: 'Sá' },
+  { value: 0, label: 'Do' },
+];
+
+const RATE_PLAN_TYPE_LABELS: Record<RatePlanType, string> = {
+  per_person: 'Por persona',
+  cabin: 'Tarifa de cabaña',
+};
+
+const SEASONS: Season[] = ['Alta', 'Baja'];
+
+// Condition a rule of each type starts with
+const PRICING_RULE_DEFAULTS: Record<PriceAdjustmentType, Partial<PricingRule>> = {
+  length_of_stay: { name: 'Estadía de 7 noches o más', minNights: 7 },
+  early_booking: { name: 'Reserva con 60 días de anticipación', minDaysAhead: 60 },
+  promo_code: { name: 'Código promocional', code: 'PROMO' },
+};
+
+// Condition and adjustment an occupancy rule of each type starts with
+const OCCUPANCY_RULE_DEFAULTS: Record<OccupancyRuleType, Partial<OccupancyRule>> = {
+  high_occupancy: { name: 'Alta ocupación', minOccupancy: 75, adjustment: 15 },
+  last_minute: { name: 'Última hora', maxOccupancy: 0, withinDays: 7, adjustment: -15 },
+};
+
 const Admin = () => {
   const { toast } = useToast();
   const { isOnline, isSyncing, pendingCount, pendingOperations, syncNow } = useOfflineSync();
   
-  const [config, setConfig] = useState<AdminConfig>(getAdminConfig());
+  const { config: sharedConfig } = useAdminConfig();
+  
+  const [config, setConfig] = useState<AdminConfig>(sharedConfig);
   const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
   const [editingCabin, setEditingCabin] = useState<string | null>(null);
+  const [operatorName, setOperatorName] = useState(getHistoryActor);
   
   // New cabin form state
   const [newCabin, setNewCabin] = useState({
@@ -73,6 +130,305 @@ const Admin = () => {
     setHasChanges(true);
   }, []);
 
+  const updateRatePlan = useCallback((id: string, updates: Partial<RatePlan>) => {
+    setConfig(prev => ({
+      ...prev,
+      pricing: {
+        ...prev.pricing,
+        ratePlans: prev.pricing.ratePlans.map(p => p.id === id ? { ...p, ...updates } : p),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const addRatePlan = useCallback(() => {
+    const plan: RatePlan = {
+      id: `plan-${Date.now()}`,
+      name: 'Nueva tarifa',
+      type: 'cabin',
+      baseRate: 50000,
+      includedGuests: 2,
+      adultRate: 15000,
+      childRate: 10000,
+      babyRate: 0,
+    };
+
+    setConfig(prev => ({
+      ...prev,
+      pricing: { ...prev.pricing, ratePlans: [...prev.pricing.ratePlans, plan] },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const removeRatePlan = useCallback((id: string) => {
+    const assigned = [config.pricing.defaultRatePlans, ...config.cabins.map(c => c.ratePlans || {})]
+      .some(plans => Object.values(plans).includes(id));
+    if (assigned) {
+      toast({
+        title: 'Tarifa en uso',
+        description: 'Asigna otra tarifa a las cabañas y temporadas que la usan antes de eliminarla.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setConfig(prev => ({
+      ...prev,
+      pricing: { ...prev.pricing, ratePlans: prev.pricing.ratePlans.filter(p => p.id !== id) },
+    }));
+    setHasChanges(true);
+  }, [config.pricing.defaultRatePlans, config.cabins, toast]);
+
+  const updatePricingRule = useCallback((id: string, updates: Partial<PricingRule>) => {
+    setConfig(prev => ({
+      ...prev,
+      pricing: {
+        ...prev.pricing,
+        rules: prev.pricing.rules.map(r => r.id === id ? { ...r, ...updates } : r),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  // Keeps the fields of the previous type; only the new type's condition is filled in if missing
+  const changePricingRuleType = useCallback((id: string, type: PriceAdjustmentType) => {
+    setConfig(prev => ({
+      ...prev,
+      pricing: {
+        ...prev.pricing,
+        rules: prev.pricing.rules.map(r => {
+          if (r.id !== id) return r;
+          const missing = Object.fromEntries(Object.entries(PRICING_RULE_DEFAULTS[type])
+            .filter(([key]) => key !== 'name' && r[key as keyof PricingRule] === undefined));
+          return { ...r, ...missing, type };
+        }),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const addPricingRule = useCallback(() => {
+    const rule: PricingRule = {
+      id: `rule-${Date.now()}`,
+      name: PRICING_RULE_DEFAULTS.length_of_stay.name || '',
+      type: 'length_of_stay',
+      discountType: 'percent',
+      value: 10,
+      isActive: true,
+      minNights: PRICING_RULE_DEFAULTS.length_of_stay.minNights,
+    };
+
+    setConfig(prev => ({
+      ...prev,
+      pricing: { ...prev.pricing, rules: [...prev.pricing.rules, rule] },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const removePricingRule = useCallback((id: string) => {
+    setConfig(prev => ({
+      ...prev,
+      pricing: { ...prev.pricing, rules: prev.pricing.rules.filter(r => r.id !== id) },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const updateOccupancyRule = useCallback((id: string, updates: Partial<OccupancyRule>) => {
+    setConfig(prev => ({
+      ...prev,
+      pricing: {
+        ...prev.pricing,
+        occupancyRules: prev.pricing.occupancyRules.map(r => r.id === id ? { ...r, ...updates } : r),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  // Like pricing rules: only the new type's condition is filled in if missing
+  const changeOccupancyRuleType = useCallback((id: string, type: OccupancyRuleType) => {
+    setConfig(prev => ({
+      ...prev,
+      pricing: {
+        ...prev.pricing,
+        occupancyRules: prev.pricing.occupancyRules.map(r => {
+          if (r.id !== id) return r;
+          const missing = Object.fromEntries(Object.entries(OCCUPANCY_RULE_DEFAULTS[type])
+            .filter(([key]) => key !== 'name' && key !== 'adjustment' && r[key as keyof OccupancyRule] === undefined));
+          return { ...r, ...missing, type };
+        }),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const addOccupancyRule = useCallback(() => {
+    const rule: OccupancyRule = {
+      id: `occupancy-${Date.now()}`,
+      name: OCCUPANCY_RULE_DEFAULTS.high_occupancy.name || '',
+      type: 'high_occupancy',
+      adjustment: OCCUPANCY_RULE_DEFAULTS.high_occupancy.adjustment || 0,
+      isActive: true,
+      minOccupancy: OCCUPANCY_RULE_DEFAULTS.high_occupancy.minOccupancy,
+    };
+
+    setConfig(prev => ({
+      ...prev,
+      pricing: { ...prev.pricing, occupancyRules: [...prev.pricing.occupancyRules, rule] },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const removeOccupancyRule = useCallback((id: string) => {
+    setConfig(prev => ({
+      ...prev,
+      pricing: { ...prev.pricing, occupancyRules: prev.pricing.occupancyRules.filter(r => r.id !== id) },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  // Accepted or overridden on the rate calendar; undefined clears the night
+  const updateDateAdjustments = useCallback((updates: Record<string, DateRateAdjustment | undefined>) => {
+    setConfig(prev => {
+      const dateAdjustments = { ...prev.pricing.dateAdjustments };
+      Object.entries(updates).forEach(([date, adjustment]) => {
+        if (adjustment) {
+          dateAdjustments[date] = adjustment;
+        } else {
+          delete dateAdjustments[date];
+        }
+      });
+      return { ...prev, pricing: { ...prev.pricing, dateAdjustments } };
+    });
+    setHasChanges(true);
+  }, []);
+
+  const updateAddOn = useCallback((id: string, updates: Partial<AddOn>) => {
+    setConfig(prev => ({
+      ...prev,
+      addOns: prev.addOns.map(a => a.id === id ? { ...a, ...updates } : a),
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const addAddOn = useCallback(() => {
+    const addOn: AddOn = {
+      id: `addon-${Date.now()}`,
+      name: 'Nuevo servicio',
+      price: 0,
+      unit: 'per_stay',
+      taxable: true,
+      isActive: true,
+    };
+
+    setConfig(prev => ({ ...prev, addOns: [...prev.addOns, addOn] }));
+    setHasChanges(true);
+  }, []);
+
+  const removeAddOn = useCallback((id: string) => {
+    setConfig(prev => ({ ...prev, addOns: prev.addOns.filter(a => a.id !== id) }));
+    setHasChanges(true);
+  }, []);
+
+  const updateIvaRate = useCallback((ivaRate: number) => {
+    setConfig(prev => ({ ...prev, taxes: { ...prev.taxes, ivaRate } }));
+    setHasChanges(true);
+  }, []);
+
+  const updateExchangeRate = useCallback((currency: 'USD' | 'EUR', rate: number) => {
+    setConfig(prev => ({
+      ...prev,
+      exchangeRates: { ...prev.exchangeRates, [currency]: rate, updatedAt: getTodayDate() },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  // 'default' removes the cabin's own plan for the season
+  const setCabinRatePlan = useCallback((cabinId: string, season: Season, planId: string) => {
+    setConfig(prev => ({
+      ...prev,
+      cabins: prev.cabins.map(c => {
+        if (c.id !== cabinId) return c;
+        const ratePlans = { ...c.ratePlans, [season]: planId === 'default' ? undefined : planId };
+        return { ...c, ratePlans: ratePlans.Alta || ratePlans.Baja ? ratePlans : undefined };
+      }),
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const updateSeasonPeriod = useCallback((index: number, updates: Partial<SeasonConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      seasons: {
+        ...prev.seasons,
+        high: prev.seasons.high.map((p, i) => i === index ? { ...p, ...updates } : p),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  // Each type starts from a usable range: summer-like dates, Holy Week, or no dates yet
+  const changeSeasonPeriodType = useCallback((index: number, type: NonNullable<SeasonConfig['type']>) => {
+    const defaults: Record<typeof type, Partial<SeasonConfig>> = {
+      fixed: { startMonth: 1, startDay: 1, endMonth: 1, endDay: 31 },
+      easter: { easterStartOffset: -7, easterEndOffset: 0 },
+      dates: { ranges: [] },
+    };
+    setConfig(prev => ({
+      ...prev,
+      seasons: {
+        ...prev.seasons,
+        high: prev.seasons.high.map((p, i) => i === index ? { name: p.name, type, ...defaults[type] } : p),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const addSeasonPeriod = useCallback(() => {
+    setConfig(prev => ({
+      ...prev,
+      seasons: {
+        ...prev.seasons,
+        high: [...prev.seasons.high, { name: 'Nueva temporada', type: 'dates', ranges: [] }],
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const removeSeasonPeriod = useCallback((index: number) => {
+    setConfig(prev => ({
+      ...prev,
+      seasons: { ...prev.seasons, high: prev.seasons.high.filter((_, i) => i !== index) },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const updateSeasonRange = useCallback((index: number, rangeIndex: number, updates: Partial<SeasonDateRange>) => {
+    setConfig(prev => ({
+      ...prev,
+      seasons: {
+        ...prev.seasons,
+        high: prev.seasons.high.map((p, i) => i === index
+          ? { ...p, ranges: (p.ranges || []).map((r, j) => j === rangeIndex ? { ...r, ...updates } : r) }
+          : p),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const addSeasonRange = useCallback((index: number) => {
+    const today = getTodayDate();
+    setConfig(prev => ({
+      ...prev,
+      seasons: {
+        ...prev.seasons,
+        high: prev.seasons.high.map((p, i) => i === index
+          ? { ...p, ranges: [...(p.ranges || []), { startDate: today, endDate: today }] }
+          : p),
+      },
+    }));
+    setHasChanges(true);
+  }, []);
+
   const updateCabin = useCallback((id: string, updates: Partial<CabinConfig>) => {
     setConfig(prev => ({
       ...prev,
@@ -127,6 +483,42 @@ const Admin = () => {
     });
   }, [toast]);
 
+  const updateRestriction = useCallback((id: string, updates: Partial<StayRestriction>) => {
+    setConfig(prev => ({
+      ...prev,
+      restrictions: prev.restrictions.map(r => r.id === id ? { ...r, ...updates } : r),
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const addRestriction = useCallback(() => {
+    const today = getTodayDate();
+    const restriction: StayRestriction = {
+      id: `restriction-${Date.now()}`,
+      name: 'Nueva restricción',
+      startDate: today,
+      endDate: today,
+      minNights: 2,
+      closedToArrival: false,
+      closedToDeparture: false,
+      weekdays: [],
+    };
+
+    setConfig(prev => ({
+      ...prev,
+      restrictions: [...prev.restrictions, restriction],
+    }));
+    setHasChanges(true);
+  }, []);
+
+  const removeRestriction = useCallback((id: string) => {
+    setConfig(prev => ({
+      ...prev,
+      restrictions: prev.restrictions.filter(r => r.id !== id),
+    }));
+    setHasChanges(true);
+  }, []);
+
   const restoreCabin = useCallback((id: string) => {
     setConfig(prev => ({
       ...prev,
@@ -135,26 +527,67 @@ const Admin = () => {
     setHasChanges(true);
   }, []);
 
-  const saveChanges = useCallback(() => {
-    saveAdminConfig(config);
-    setHasChanges(false);
-    
-    toast({
-      title: 'Configuración guardada',
-      description: 'Los cambios se aplicarán en las nuevas reservas.',
-    });
+  // Without local edits the form follows the shared configuration, saved here or elsewhere
+  useEffect(() => {
+    if (!hasChanges) setConfig(sharedConfig);
+  }, [sharedConfig, hasChanges]);
+
+  // Another device saved while this one was editing: these edits can no longer be saved
+  const remoteChanged = hasChanges && (sharedConfig.revision ?? 0) !== (config.revision ?? 0);
+
+  const saveChanges = useCallback(async () => {
+    setSaving(true);
+    try {
+      const saved = await saveSharedConfig(config, config.revision ?? 0);
+      setConfig(saved);
+      setHasChanges(false);
+      
+      toast({
+        title: 'Configuración guardada',
+        description: `Versión ${saved.revision}. Los cambios se aplicarán en las nuevas reservas de todos los dispositivos.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'No se pudo guardar',
+        description: error instanceof Error ? error.message : 'Error al guardar la configuración',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
   }, [config, toast]);
 
-  const handleReset = useCallback(() => {
-    const defaultConfig = resetToDefaults();
-    setConfig(defaultConfig);
+  const discardChanges = useCallback(() => {
     setHasChanges(false);
+  }, []);
+
+  const handleReset = useCallback(async () => {
+    try {
+      await resetSharedConfig(sharedConfig.revision ?? 0);
+      setHasChanges(false);
+      
+      toast({
+        title: 'Configuración restaurada',
+        description: 'Se restauró la configuración por defecto en todos los dispositivos.',
+      });
+    } catch (error) {
+      toast({
+        title: 'No se pudo restaurar',
+        description: error instanceof Error ? error.message : 'Error al restaurar la configuración',
+        variant: 'destructive',
+      });
+    }
+  }, [sharedConfig.revision, toast]);
+
+  const handleSaveOperator = useCallback(() => {
+    setHistoryActor(operatorName);
+    setOperatorName(getHistoryActor());
     
     toast({
-      title: 'Configuración restaurada',
-      description: 'Se restauró la configuración por defecto.',
+      title: 'Operador guardado',
+      description: 'Los cambios en reservas desde este dispositivo quedarán registrados con este nombre.',
     });
-  }, [toast]);
+  }, [operatorName, toast]);
 
   const activeCabins = config.cabins.filter(c => c.isActive);
   const inactiveCabins = config.cabins.filter(c => !c.isActive);
@@ -171,17 +604,58 @@ const Admin = () => {
           <p className="text-sm text-muted-foreground">
             Configura cabañas, precios y preferencias del sistema
           </p>
+          {sharedConfig.revision ? (
+            <p className="text-xs text-muted-foreground">
+              Versión {sharedConfig.revision}
+              {sharedConfig.updatedBy ? ` · guardada por ${sharedConfig.updatedBy}` : ''}
+            </p>
+          ) : null}
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link to="/trash">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Papelera
+            </Link>
+          </Button>
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link to="/data-problems">
+              <FileWarning className="w-4 h-4 mr-2" />
+              Problemas de datos
+            </Link>
+          </Button>
           {hasChanges && (
-            <Button onClick={saveChanges} className="w-full sm:w-auto">
-              <Save className="w-4 h-4 mr-2" />
+            <Button onClick={saveChanges} disabled={saving || !isOnline || remoteChanged} className="w-full sm:w-auto">
+              {saving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
               Guardar cambios
             </Button>
           )}
         </div>
       </div>
 
+      {remoteChanged && (
+        <Alert className="border-yellow-500/50 bg-yellow-500/10">
+          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="flex items-center justify-between flex-wrap gap-2">
+            <span>
+              {sharedConfig.updatedBy || 'Otro dispositivo'} guardó la versión {sharedConfig.revision} mientras editabas. Descarta tus cambios para ver la configuración actual y vuelve a aplicarlos.
+            </span>
+            <Button size="sm" variant="outline" onClick={discardChanges} className="h-7">
+              Descartar mis cambios
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {hasChanges && !isOnline && !remoteChanged && (
+        <Alert>
+          <CloudOff className="h-4 w-4" />
+          <AlertDescription>
+            La configuración es compartida: conéctate para guardar los cambios.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Offline Sync Status */}
       {pendingCount > 0 && (
         <Alert className="border-yellow-500/50 bg-yellow-500/10">
@@ -449,118 +923,624 @@ const Admin = () => {
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
                 <DollarSign className="w-5 h-5" />
-                Tarifas por Persona por Noche
+                Planes de Tarifa
               </CardTitle>
               <CardDescription>
-                Configura los precios según temporada y tipo de huésped
+                Cobro por persona, o tarifa de la cabaña con huéspedes incluidos y cargo por persona adicional
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-6">
-              {/* Adult Rates */}
-              <div className="space-y-4">
-                <h4 className="font-medium">Adultos</h4>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="adultHigh">Temporada Alta (CLP)</Label>
-                    <div className="relative mt-1">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
-                      <Input
-                        id="adultHigh"
-                        type="number"
-                        min="0"
-                        step="1000"
-                        value={config.pricing.adultHighSeason}
-                        onChange={(e) => updatePricing({ adultHighSeason: parseInt(e.target.value) || 0 })}
-                        className="pl-8"
-                      />
-                    </div>
+            <CardContent className="space-y-3">
+              {config.pricing.ratePlans.map((plan) => (
+                <div key={plan.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={plan.name}
+                      onChange={(e) => updateRatePlan(plan.id, { name: e.target.value })}
+                      className="h-9"
+                    />
+                    <Select
+                      value={plan.type}
+                      onValueChange={(v: RatePlanType) => updateRatePlan(plan.id, { type: v })}
+                    >
+                      <SelectTrigger className="h-9 w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(RATE_PLAN_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => removeRatePlan(plan.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
                   </div>
-                  <div>
-                    <Label htmlFor="adultLow">Temporada Baja (CLP)</Label>
-                    <div className="relative mt-1">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                  <div className={`grid grid-cols-2 gap-2 ${plan.type === 'cabin' ? 'sm:grid-cols-5' : 'sm:grid-cols-3'}`}>
+                    {plan.type === 'cabin' && (
+                      <>
+                        <div>
+                          <Label className="text-xs">Tarifa cabaña (CLP)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1000"
+                            value={plan.baseRate}
+                            onChange={(e) => updateRatePlan(plan.id, { baseRate: parseInt(e.target.value) || 0 })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Huéspedes incluidos</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={plan.includedGuests}
+                            onChange={(e) => updateRatePlan(plan.id, { includedGuests: parseInt(e.target.value) || 0 })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                      </>
+                    )}
+                    <div>
+                      <Label className="text-xs">{plan.type === 'cabin' ? 'Adulto adicional' : 'Adulto'} (CLP)</Label>
                       <Input
-                        id="adultLow"
                         type="number"
                         min="0"
                         step="1000"
-                        value={config.pricing.adultLowSeason}
-                        onChange={(e) => updatePricing({ adultLowSeason: parseInt(e.target.value) || 0 })}
-                        className="pl-8"
+                        value={plan.adultRate}
+                        onChange={(e) => updateRatePlan(plan.id, { adultRate: parseInt(e.target.value) || 0 })}
+                        className="h-9 mt-1"
                       />
                     </div>
-                  </div>
-                </div>
-              </div>
-
-              <Separator />
-
-              {/* Children Rate */}
-              <div className="space-y-4">
-                <h4 className="font-medium">Niños (cualquier temporada)</h4>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="childRate">Tarifa Niños (CLP)</Label>
-                    <div className="relative mt-1">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                    <div>
+                      <Label className="text-xs">{plan.type === 'cabin' ? 'Niño adicional' : 'Niño'} (CLP)</Label>
                       <Input
-                        id="childRate"
                         type="number"
                         min="0"
                         step="1000"
-                        value={config.pricing.childRate}
-                        onChange={(e) => updatePricing({ childRate: parseInt(e.target.value) || 0 })}
-                        className="pl-8"
+                        value={plan.childRate}
+                        onChange={(e) => updateRatePlan(plan.id, { childRate: parseInt(e.target.value) || 0 })}
+                        className="h-9 mt-1"
                       />
                     </div>
-                  </div>
-                  <div>
-                    <Label htmlFor="babyRate">Tarifa Bebés (CLP)</Label>
-                    <div className="relative mt-1">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                    <div>
+                      <Label className="text-xs">Bebé (CLP)</Label>
                       <Input
-                        id="babyRate"
                         type="number"
                         min="0"
                         step="1000"
-                        value={config.pricing.babyRate}
-                        onChange={(e) => updatePricing({ babyRate: parseInt(e.target.value) || 0 })}
-                        className="pl-8"
+                        value={plan.babyRate}
+                        onChange={(e) => updateRatePlan(plan.id, { babyRate: parseInt(e.target.value) || 0 })}
+                        className="h-9 mt-1"
                       />
                     </div>
-                    <p className="text-xs text-muted-foreground mt-1">Generalmente $0</p>
                   </div>
                 </div>
-              </div>
-
-              <Separator />
+              ))}
 
-              {/* Price Preview */}
-              <div className="bg-accent/50 p-4 rounded-lg">
-                <h4 className="font-medium mb-3">Vista Previa de Precios</h4>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <p className="text-muted-foreground">2 Adultos, 1 Noche (Alta)</p>
-                    <p className="font-bold text-lg">${(config.pricing.adultHighSeason * 2).toLocaleString('es-CL')}</p>
-                  </div>
-                  <div>
-                    <p className="text-muted-foreground">2 Adultos, 1 Noche (Baja)</p>
-                    <p className="font-bold text-lg">${(config.pricing.adultLowSeason * 2).toLocaleString('es-CL')}</p>
-                  </div>
-                  <div>
-                    <p className="text-muted-foreground">2 Adultos + 2 Niños, 3 Noches (Alta)</p>
-                    <p className="font-bold text-lg">
-                      ${((config.pricing.adultHighSeason * 2 + config.pricing.childRate * 2) * 3).toLocaleString('es-CL')}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-muted-foreground">2 Adultos + 2 Niños, 3 Noches (Baja)</p>
-                    <p className="font-bold text-lg">
-                      ${((config.pricing.adultLowSeason * 2 + config.pricing.childRate * 2) * 3).toLocaleString('es-CL')}
-                    </p>
-                  </div>
-                </div>
-              </div>
+              <Button variant="outline" onClick={addRatePlan} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar plan de tarifa
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Precios por noche. En la tarifa de cabaña los huéspedes incluidos se cuentan primero entre los adultos; los bebés siempre pagan su tarifa.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Home className="w-5 h-5" />
+                Tarifa por Cabaña y Temporada
+              </CardTitle>
+              <CardDescription>
+                Plan que se cobra en cada cabaña según la temporada de la reserva
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-3 gap-2 items-center text-xs text-muted-foreground">
+                <span></span>
+                {SEASONS.map(season => (
+                  <span key={season}>Temporada {season}</span>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2 items-center">
+                <span className="text-sm font-medium">Por defecto</span>
+                {SEASONS.map(season => (
+                  <Select
+                    key={season}
+                    value={config.pricing.defaultRatePlans[season]}
+                    onValueChange={(v) => updatePricing({ defaultRatePlans: { ...config.pricing.defaultRatePlans, [season]: v } })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {config.pricing.ratePlans.map(plan => (
+                        <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+              <Separator />
+              {activeCabins.map(cabin => (
+                <div key={cabin.id} className="grid grid-cols-3 gap-2 items-center">
+                  <span className="text-sm flex items-center gap-2">
+                    <span className={`w-3 h-3 rounded-full ${cabin.color}`}></span>
+                    {cabin.displayName}
+                  </span>
+                  {SEASONS.map(season => (
+                    <Select
+                      key={season}
+                      value={cabin.ratePlans?.[season] || 'default'}
+                      onValueChange={(v) => setCabinRatePlan(cabin.id, season, v)}
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Por defecto</SelectItem>
+                        {config.pricing.ratePlans.map(plan => (
+                          <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                </div>
+              ))}
+
+              <Separator />
+
+              {/* Price Preview */}
+              <div className="bg-accent/50 p-4 rounded-lg">
+                <h4 className="font-medium mb-3">Vista Previa: 2 Adultos, 1 Noche</h4>
+                <div className="space-y-2 text-sm">
+                  {activeCabins.map(cabin => (
+                    <div key={cabin.id} className="grid grid-cols-3 gap-2">
+                      <span className="text-muted-foreground">{cabin.displayName}</span>
+                      {SEASONS.map(season => (
+                        <span key={season} className="font-bold">
+                          ${calculateNightlyRate(getRatePlan(cabin.id, season, config), { adults: 2, children: 0, babies: 0 }).toLocaleString('es-CL')}
+                        </span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Tag className="w-5 h-5" />
+                Descuentos y Códigos Promocionales
+              </CardTitle>
+              <CardDescription>
+                Descuentos sobre el precio automático por estadía larga, reserva anticipada o código promocional
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {config.pricing.rules.length === 0 && (
+                <p className="text-sm text-muted-foreground">No hay descuentos configurados.</p>
+              )}
+              {config.pricing.rules.map((rule) => (
+                <div key={rule.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={rule.name}
+                      onChange={(e) => updatePricingRule(rule.id, { name: e.target.value })}
+                      className="h-9"
+                    />
+                    <Select
+                      value={rule.type}
+                      onValueChange={(v: PriceAdjustmentType) => changePricingRuleType(rule.id, v)}
+                    >
+                      <SelectTrigger className="h-9 w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PRICING_RULE_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(checked) => updatePricingRule(rule.id, { isActive: checked })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => removePricingRule(rule.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <div>
+                      <Label className="text-xs">Descuento</Label>
+                      <Select
+                        value={rule.discountType}
+                        onValueChange={(v: PricingRule['discountType']) => updatePricingRule(rule.id, { discountType: v })}
+                      >
+                        <SelectTrigger className="h-9 mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="percent">Porcentaje</SelectItem>
+                          <SelectItem value="fixed">Monto fijo</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">{rule.discountType === 'percent' ? 'Porcentaje (%)' : 'Monto (CLP)'}</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={rule.discountType === 'percent' ? 100 : undefined}
+                        step={rule.discountType === 'percent' ? 1 : 1000}
+                        value={rule.value}
+                        onChange={(e) => updatePricingRule(rule.id, { value: parseInt(e.target.value) || 0 })}
+                        className="h-9 mt-1"
+                      />
+                    </div>
+                    {rule.type === 'length_of_stay' && (
+                      <div>
+                        <Label className="text-xs">Desde (noches)</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={rule.minNights || ''}
+                          onChange={(e) => updatePricingRule(rule.id, { minNights: parseInt(e.target.value) || undefined })}
+                          className="h-9 mt-1"
+                        />
+                      </div>
+                    )}
+                    {rule.type === 'early_booking' && (
+                      <div>
+                        <Label className="text-xs">Días de anticipación</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={rule.minDaysAhead || ''}
+                          onChange={(e) => updatePricingRule(rule.id, { minDaysAhead: parseInt(e.target.value) || undefined })}
+                          className="h-9 mt-1"
+                        />
+                      </div>
+                    )}
+                    {rule.type === 'promo_code' && (
+                      <>
+                        <div>
+                          <Label className="text-xs">Código</Label>
+                          <Input
+                            value={rule.code || ''}
+                            onChange={(e) => updatePricingRule(rule.id, { code: e.target.value.toUpperCase() })}
+                            className="h-9 mt-1 uppercase"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Máximo de usos</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            value={rule.maxUses || ''}
+                            onChange={(e) => updatePricingRule(rule.id, { maxUses: parseInt(e.target.value) || undefined })}
+                            placeholder="Sin límite"
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Reservas desde</Label>
+                          <Input
+                            type="date"
+                            value={rule.validFrom || ''}
+                            onChange={(e) => updatePricingRule(rule.id, { validFrom: e.target.value || undefined })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Reservas hasta</Label>
+                          <Input
+                            type="date"
+                            value={rule.validUntil || ''}
+                            min={rule.validFrom}
+                            onChange={(e) => updatePricingRule(rule.id, { validUntil: e.target.value || undefined })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <Button variant="outline" onClick={addPricingRule} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar descuento
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Se aplica el mayor descuento de cada tipo y se suman entre tipos. La vigencia de los códigos se cuenta desde el día en que se hace la reserva. Los precios personalizados no reciben descuentos.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <TrendingUp className="w-5 h-5" />
+                Tarifas según Ocupación
+              </CardTitle>
+              <CardDescription>
+                Reglas que sugieren subir o bajar la tarifa de una noche según las cabañas ya vendidas, y el calendario donde se aceptan
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {config.pricing.occupancyRules.length === 0 && (
+                <p className="text-sm text-muted-foreground">No hay reglas de ocupación configuradas.</p>
+              )}
+              {config.pricing.occupancyRules.map((rule) => (
+                <div key={rule.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={rule.name}
+                      onChange={(e) => updateOccupancyRule(rule.id, { name: e.target.value })}
+                      className="h-9"
+                    />
+                    <Select
+                      value={rule.type}
+                      onValueChange={(v: OccupancyRuleType) => changeOccupancyRuleType(rule.id, v)}
+                    >
+                      <SelectTrigger className="h-9 w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(OCCUPANCY_RULE_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(checked) => updateOccupancyRule(rule.id, { isActive: checked })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => removeOccupancyRule(rule.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    <div>
+                      <Label className="text-xs">Ajuste de la tarifa (%)</Label>
+                      <Input
+                        type="number"
+                        min="-100"
+                        step="1"
+                        value={rule.adjustment}
+                        onChange={(e) => updateOccupancyRule(rule.id, { adjustment: parseInt(e.target.value) || 0 })}
+                        className="h-9 mt-1"
+                      />
+                    </div>
+                    {rule.type === 'high_occupancy' && (
+                      <div>
+                        <Label className="text-xs">Ocupación desde (%)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={rule.minOccupancy ?? ''}
+                          onChange={(e) => updateOccupancyRule(rule.id, { minOccupancy: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+                          className="h-9 mt-1"
+                        />
+                      </div>
+                    )}
+                    {rule.type === 'last_minute' && (
+                      <>
+                        <div>
+                          <Label className="text-xs">Ocupación hasta (%)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={rule.maxOccupancy ?? ''}
+                            onChange={(e) => updateOccupancyRule(rule.id, { maxOccupancy: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Dentro de (días)</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            value={rule.withinDays || ''}
+                            onChange={(e) => updateOccupancyRule(rule.id, { withinDays: parseInt(e.target.value) || undefined })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <Button variant="outline" onClick={addOccupancyRule} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar regla de ocupación
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                La ocupación de una noche son las cabañas vendidas sobre las que están en servicio. Si varias reglas coinciden se sugiere el mayor ajuste. Las sugerencias no cambian precios hasta que se aceptan en el calendario.
+              </p>
+
+              <Separator />
+
+              <RateCalendar
+                pricing={config.pricing}
+                cabinIds={activeCabins.map(c => c.id)}
+                onChange={updateDateAdjustments}
+              />
+              <p className="text-xs text-muted-foreground">
+                El ajuste aceptado se aplica a la tarifa de todas las cabañas esa noche, antes de los descuentos, desde que se guarda la configuración. Las noches ya reservadas mantienen la tarifa con que se reservaron.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ShoppingBag className="w-5 h-5" />
+                Servicios Adicionales
+              </CardTitle>
+              <CardDescription>
+                Catálogo de traslados, arriendo de autos, tours y otros servicios que se agregan al folio de una reserva
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {config.addOns.map((addOn) => (
+                <div key={addOn.id} className={`p-3 border rounded-lg space-y-3 ${addOn.isActive ? '' : 'opacity-60'}`}>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={addOn.name}
+                      onChange={(e) => updateAddOn(addOn.id, { name: e.target.value })}
+                      className="h-9"
+                    />
+                    <Switch
+                      checked={addOn.isActive}
+                      onCheckedChange={(checked) => updateAddOn(addOn.id, { isActive: checked })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => removeAddOn(addOn.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 items-end">
+                    <div>
+                      <Label className="text-xs">Precio (CLP)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1000"
+                        value={addOn.price}
+                        onChange={(e) => updateAddOn(addOn.id, { price: parseInt(e.target.value) || 0 })}
+                        className="h-9 mt-1"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Cobro</Label>
+                      <Select
+                        value={addOn.unit}
+                        onValueChange={(v: AddOnUnit) => updateAddOn(addOn.id, { unit: v })}
+                      >
+                        <SelectTrigger className="h-9 mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(ADD_ON_UNIT_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2 h-9">
+                      <Switch
+                        id={`taxable-${addOn.id}`}
+                        checked={addOn.taxable}
+                        onCheckedChange={(checked) => updateAddOn(addOn.id, { taxable: checked })}
+                      />
+                      <Label htmlFor={`taxable-${addOn.id}`} className="text-xs">Afecto a IVA</Label>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              <Button variant="outline" onClick={addAddOn} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar servicio
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Cada reserva guarda el precio del servicio al momento de agregarlo, así que cambiarlo aquí no modifica reservas anteriores. Los descuentos no se aplican a los servicios.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Receipt className="w-5 h-5" />
+                Impuestos
+              </CardTitle>
+              <CardDescription>
+                Tasa de IVA incluida en las tarifas y servicios afectos
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="w-40">
+                <Label className="text-xs">IVA (%)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={config.taxes.ivaRate}
+                  onChange={(e) => updateIvaRate(parseFloat(e.target.value) || 0)}
+                  className="h-9 mt-1"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Las tarifas incluyen IVA. El alojamiento de extranjeros no residentes que pagan en dólares o euros queda exento y se cobra sin IVA; los servicios adicionales afectos siempre lo llevan. Cada reserva guarda el IVA con que se calculó.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Coins className="w-5 h-5" />
+                Tipos de Cambio
+              </CardTitle>
+              <CardDescription>
+                Pesos chilenos por unidad, para registrar pagos en dólares o euros y mostrar cotizaciones en la moneda del huésped
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                {(['USD', 'EUR'] as const).map(currency => (
+                  <div key={currency}>
+                    <Label className="text-xs">{CURRENCY_LABELS[currency]} → CLP</Label>
+                    <Input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={config.exchangeRates[currency]}
+                      onChange={(e) => updateExchangeRate(currency, parseFloat(e.target.value) || 0)}
+                      className="h-9 mt-1"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      1 {currency} = {formatCurrency(config.exchangeRates[currency] || 0)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {config.exchangeRates.updatedAt ? `Actualizado el ${formatDateForDisplay(config.exchangeRates.updatedAt)}. ` : ''}
+                Los saldos se llevan en CLP. Cada pago guarda el tipo de cambio con que se registró, así que cambiarlo aquí no modifica pagos anteriores.
+              </p>
             </CardContent>
           </Card>
 
@@ -572,22 +1552,309 @@ const Admin = () => {
                 Temporadas
               </CardTitle>
               <CardDescription>
-                Define los períodos de temporada alta
+                Define los períodos de temporada alta: fechas fijas, según Pascua o fechas de cada año
               </CardDescription>
             </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {config.seasons.high.map((season, index) => (
-                  <div key={index} className="flex items-center gap-3 p-3 border rounded-lg">
-                    <Badge variant="destructive">{season.name}</Badge>
-                    <span className="text-sm text-muted-foreground">
-                      {season.startDay}/{season.startMonth} - {season.endDay}/{season.endMonth}
-                    </span>
+            <CardContent className="space-y-3">
+              {config.seasons.high.map((period, index) => {
+                const type = period.type || 'fixed';
+                return (
+                  <div key={index} className="p-3 border rounded-lg space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={period.name}
+                        onChange={(e) => updateSeasonPeriod(index, { name: e.target.value })}
+                        className="h-9"
+                      />
+                      <Select
+                        value={type}
+                        onValueChange={(v: NonNullable<SeasonConfig['type']>) => changeSeasonPeriodType(index, v)}
+                      >
+                        <SelectTrigger className="h-9 w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(SEASON_PERIOD_TYPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => removeSeasonPeriod(index)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    {type === 'fixed' && (
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {([
+                          ['startDay', 'Día inicio', 31],
+                          ['startMonth', 'Mes inicio', 12],
+                          ['endDay', 'Día fin', 31],
+                          ['endMonth', 'Mes fin', 12],
+                        ] as const).map(([field, label, max]) => (
+                          <div key={field}>
+                            <Label className="text-xs">{label}</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              max={max}
+                              value={period[field] ?? 1}
+                              onChange={(e) => updateSeasonPeriod(index, { [field]: Math.min(max, Math.max(1, parseInt(e.target.value) || 1)) })}
+                              className="h-9 mt-1"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {type === 'easter' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label className="text-xs">Desde (días desde Pascua)</Label>
+                          <Input
+                            type="number"
+                            value={period.easterStartOffset ?? 0}
+                            onChange={(e) => updateSeasonPeriod(index, { easterStartOffset: parseInt(e.target.value) || 0 })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Hasta (días desde Pascua)</Label>
+                          <Input
+                            type="number"
+                            value={period.easterEndOffset ?? 0}
+                            onChange={(e) => updateSeasonPeriod(index, { easterEndOffset: parseInt(e.target.value) || 0 })}
+                            className="h-9 mt-1"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {type === 'dates' && (
+                      <div className="space-y-2">
+                        {(period.ranges || []).map((range, rangeIndex) => (
+                          <div key={rangeIndex} className="flex items-end gap-2">
+                            <div className="flex-1">
+                              <Label className="text-xs">Desde</Label>
+                              <Input
+                                type="date"
+                                value={range.startDate}
+                                onChange={(e) => updateSeasonRange(index, rangeIndex, { startDate: e.target.value })}
+                                className="h-9 mt-1"
+                              />
+                            </div>
+                            <div className="flex-1">
+                              <Label className="text-xs">Hasta</Label>
+                              <Input
+                                type="date"
+                                value={range.endDate}
+                                min={range.startDate}
+                                onChange={(e) => updateSeasonRange(index, rangeIndex, { endDate: e.target.value })}
+                                className="h-9 mt-1"
+                              />
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => updateSeasonPeriod(index, { ranges: (period.ranges || []).filter((_, i) => i !== rangeIndex) })}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button variant="outline" size="sm" onClick={() => addSeasonRange(index)}>
+                          <Plus className="w-4 h-4 mr-2" />
+                          Agregar fechas
+                        </Button>
+                      </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                      {new Date().getFullYear()}: {describeSeasonPeriod(period, new Date().getFullYear())}
+                    </p>
                   </div>
-                ))}
+                );
+              })}
+
+              <Button variant="outline" onClick={addSeasonPeriod} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar temporada alta
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Los períodos fuera de temporada alta se consideran temporada baja. Según Pascua: 0 es el Domingo de Resurrección, -7 el Domingo de Ramos. Las fechas son noches: el último día se cobra en temporada alta.
+              </p>
+
+              <Separator />
+
+              <SeasonCalendarPreview seasons={config.seasons} />
+            </CardContent>
+          </Card>
+
+          {/* Tentative holds */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Clock className="w-5 h-5" />
+                Bloqueos Tentativos
+              </CardTitle>
+              <CardDescription>
+                Fechas prometidas a la espera del abono
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="sm:max-w-xs">
+                <Label htmlFor="holdHours">Duración por defecto (horas)</Label>
+                <Input
+                  id="holdHours"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={config.holds.defaultHours}
+                  onChange={(e) => updateConfig({ holds: { ...config.holds, defaultHours: parseInt(e.target.value) || 1 } })}
+                  className="mt-1"
+                />
               </div>
               <p className="text-xs text-muted-foreground mt-4">
-                Los períodos fuera de temporada alta se consideran temporada baja.
+                Al vencer, el bloqueo se libera automáticamente la próxima vez que se abre o sincroniza la app.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Stay restrictions */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <CalendarX className="w-5 h-5" />
+                Restricciones de Estadía
+              </CardTitle>
+              <CardDescription>
+                Mínimo de noches y días sin llegadas o salidas
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {config.restrictions.map((restriction) => (
+                <div key={restriction.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={restriction.name}
+                      onChange={(e) => updateRestriction(restriction.id, { name: e.target.value })}
+                      className="h-9"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => removeRestriction(restriction.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+                    <div>
+                      <Label className="text-xs">Desde</Label>
+                      <Input
+                        type="date"
+                        value={restriction.startDate}
+                        onChange={(e) => updateRestriction(restriction.id, { startDate: e.target.value })}
+                        className="h-9 mt-1"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Hasta</Label>
+                      <Input
+                        type="date"
+                        value={restriction.endDate}
+                        min={restriction.startDate}
+                        onChange={(e) => updateRestriction(restriction.id, { endDate: e.target.value })}
+                        className="h-9 mt-1"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Cabaña</Label>
+                      <Select
+                        value={restriction.cabinType || 'all'}
+                        onValueChange={(v) => updateRestriction(restriction.id, { cabinType: v === 'all' ? undefined : v })}
+                      >
+                        <SelectTrigger className="h-9 mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Todas</SelectItem>
+                          {activeCabins.map(cabin => (
+                            <SelectItem key={cabin.id} value={cabin.id}>{cabin.displayName}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Mínimo de noches</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={restriction.minNights || 1}
+                        onChange={(e) => updateRestriction(restriction.id, { minNights: parseInt(e.target.value) || 1 })}
+                        className="h-9 mt-1"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={restriction.closedToArrival}
+                        onCheckedChange={(checked) => updateRestriction(restriction.id, { closedToArrival: checked })}
+                      />
+                      Sin llegadas
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={restriction.closedToDeparture}
+                        onCheckedChange={(checked) => updateRestriction(restriction.id, { closedToDeparture: checked })}
+                      />
+                      Sin salidas
+                    </label>
+                    <div className="flex gap-1">
+                      {RESTRICTION_WEEKDAYS.map(day => {
+                        const weekdays = restriction.weekdays || [];
+                        const active = weekdays.includes(day.value);
+                        return (
+                          <Button
+                            key={day.value}
+                            type="button"
+                            variant={active ? 'default' : 'outline'}
+                            size="sm"
+                            className="h-8 w-9 px-0 text-xs"
+                            onClick={() => updateRestriction(restriction.id, {
+                              weekdays: active ? weekdays.filter(d => d !== day.value) : [...weekdays, day.value]
+                            })}
+                          >
+                            {day.label}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              {config.restrictions.length === 0 && (
+                <p className="text-center text-muted-foreground py-4">
+                  No hay restricciones configuradas.
+                </p>
+              )}
+
+              <Button variant="outline" onClick={addRestriction} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar restricción
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                El mínimo de noches se aplica a las llegadas dentro del rango. Si no marcas días de la semana, la restricción rige todos los días. Las reservas existentes solo se revisan cuando se cambian sus fechas.
               </p>
             </CardContent>
           </Card>
@@ -678,6 +1945,41 @@ const Admin = () => {
             </CardContent>
           </Card>
 
+          {/* Operator used in the reservation history */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <UserCircle className="w-5 h-5" />
+                Operador de este dispositivo
+              </CardTitle>
+              <CardDescription>
+                Nombre que se registra en el historial de cambios de cada reserva
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={operatorName}
+                  onChange={(e) => setOperatorName(e.target.value)}
+                  placeholder="Ej: Recepción"
+                  className="sm:max-w-xs"
+                />
+                <Button variant="outline" onClick={handleSaveOperator}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Guardar
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <ConfigHistory
+            currentRevision={sharedConfig.revision ?? 0}
+            disabled={!isOnline}
+            onRestored={discardChanges}
+          />
+
+          <ReservationMigration disabled={!isOnline} />
+
           {/* Reset Settings */}
           <Card className="border-destructive/50">
             <CardHeader>
@@ -689,7 +1991,7 @@ const Admin = () => {
             <CardContent>
               <AlertDialog>
                 <AlertDialogTrigger asChild>
-                  <Button variant="destructive" className="w-full sm:w-auto">
+                  <Button variant="destructive" className="w-full sm:w-auto" disabled={!isOnline}>
                     <RotateCcw className="w-4 h-4 mr-2" />
                     Restaurar Configuración por Defecto
                   </Button>
@@ -2,8 +2,11 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Calendar, DollarSign, Users, TrendingUp, Home, Percent } from 'lucide-react';
-import { getAllReservations } from '@/lib/reservationService';
+import { getReservationsInRange } from '@/lib/reservationService';
+import { getCabinBlocks } from '@/lib/cabinBlocks';
+import { addDays, getTodayDate } from '@/lib/dateUtils';
 import { 
   calculateOccupancyStats, 
   calculateCabinStats, 
@@ -14,6 +17,7 @@ import {
   OccupancyStats 
 } from '@/lib/analyticsService';
 import { Reservation } from '@/types/reservation';
+import { CabinBlock } from '@/types/cabinBlock';
 import StatsCard from '@/components/analytics/StatsCard';
 import OccupancyChart from '@/components/analytics/OccupancyChart';
 import RevenueChart from '@/components/analytics/RevenueChart';
@@ -22,8 +26,10 @@ import SeasonComparisonChart from '@/components/analytics/SeasonComparisonChart'
 
 const Analytics = () => {
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [blocks, setBlocks] = useState<CabinBlock[]>([]);
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState<'30days' | '90days' | '1year'>('30days');
+  const [includeCancelled, setIncludeCancelled] = useState(false);
 
   useEffect(() => {
     loadReservations();
@@ -32,8 +38,14 @@ const Analytics = () => {
   const loadReservations = async () => {
     try {
       setLoading(true);
-      const data = await getAllReservations();
+      // The widest selectable period is one year back; later stays feed the monthly charts
+      // Out-of-order blocks reduce the capacity the occupancy is measured against
+      const [data, blockData] = await Promise.all([
+        getReservationsInRange(addDays(getTodayDate(), -365)),
+        getCabinBlocks()
+      ]);
       setReservations(data);
+      setBlocks(blockData);
     } catch (error) {
       // Error handled silently
     } finally {
@@ -64,10 +76,11 @@ const Analytics = () => {
   };
 
   const { startDate, endDate } = getDateRange();
-  const occupancyStats = calculateOccupancyStats(reservations, startDate, endDate);
-  const cabinStats = calculateCabinStats(reservations);
-  const monthlyStats = calculateMonthlyStats(reservations);
-  const seasonStats = calculateSeasonStats(reservations);
+  const analyticsOptions = { includeCancelled, blocks };
+  const occupancyStats = calculateOccupancyStats(reservations, startDate, endDate, analyticsOptions);
+  const cabinStats = calculateCabinStats(reservations, analyticsOptions);
+  const monthlyStats = calculateMonthlyStats(reservations, analyticsOptions);
+  const seasonStats = calculateSeasonStats(reservations, analyticsOptions);
 
   const getDateRangeLabel = () => {
     switch (dateRange) {
@@ -100,7 +113,17 @@ const Analytics = () => {
           </p>
         </div>
         
-        <div className="flex gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-2 mr-2">
+            <Checkbox
+              id="includeCancelled"
+              checked={includeCancelled}
+              onCheckedChange={(checked) => setIncludeCancelled(checked as boolean)}
+            />
+            <label htmlFor="includeCancelled" className="text-xs text-muted-foreground cursor-pointer">
+              Incluir canceladas
+            </label>
+          </div>
           <Button
             variant={dateRange === '30days' ? 'default' : 'outline'}
             onClick={() => setDateRange('30days')}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Plus, Search, Filter, Edit, Trash2 } from 'lucide-react';
+import { Plus, Search, Filter, Edit, Trash2, Wrench } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -20,9 +20,13 @@ import { useToast } from '@/hooks/use-toast';
 import ReservationModal from '@/components/ReservationModal';
 import TimelineCalendar from '@/components/TimelineCalendar';
 import AvailabilityCard from '@/components/AvailabilityCard';
+import CabinBlockModal from '@/components/CabinBlockModal';
 import { Reservation } from '@/types/reservation';
+import { CabinBlock } from '@/types/cabinBlock';
 import { useReservationsQuery, useDeleteReservation, useInvalidateReservations } from '@/hooks/useReservations';
+import { useCabinBlocksQuery } from '@/hooks/useCabinBlocks';
 import { formatDateForDisplay, parseDate } from '@/lib/dateUtils';
+import { getCabinDisplayName, getCabins } from '@/lib/cabinConfig';
 
 const Calendar = () => {
   const { toast } = useToast();
@@ -32,9 +36,12 @@ const Calendar = () => {
   const [filterCabin, setFilterCabin] = useState('all');
   const [sortBy, setSortBy] = useState('checkIn');
   const [selectedDateRange, setSelectedDateRange] = useState<{ start: string; end: string } | null>(null);
+  const [selectedBlock, setSelectedBlock] = useState<CabinBlock | null>(null);
+  const [isBlockModalOpen, setIsBlockModalOpen] = useState(false);
 
   // React Query hooks
   const { data: reservations = [], isLoading: loading } = useReservationsQuery();
+  const { data: blocks = [] } = useCabinBlocksQuery();
   const deleteReservationMutation = useDeleteReservation();
   const invalidateReservations = useInvalidateReservations();
 
@@ -88,7 +95,7 @@ const Calendar = () => {
       await deleteReservationMutation.mutateAsync(id);
       toast({
         title: "Éxito",
-        description: "Reserva eliminada correctamente."
+        description: "Reserva movida a la papelera."
       });
     } catch (error) {
       toast({
@@ -133,6 +140,16 @@ const Calendar = () => {
     }
   };
 
+  const handleBlockClick = (block: CabinBlock | null) => {
+    setSelectedBlock(block);
+    setIsBlockModalOpen(true);
+  };
+
+  const handleBlockModalClose = () => {
+    setIsBlockModalOpen(false);
+    setSelectedBlock(null);
+  };
+
   const handleClearSelection = () => {
     setSelectedDateRange(null);
   };
@@ -148,13 +165,23 @@ const Calendar = () => {
         <div className="flex items-center gap-4">
           <h1 className="text-3xl font-bold text-foreground">Timeline de Reservas</h1>
         </div>
-        <Button
-          onClick={() => setIsModalOpen(true)}
-          className="btn-cabin w-full sm:w-auto"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Nueva Reserva
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          <Button
+            variant="outline"
+            onClick={() => handleBlockClick(null)}
+            className="w-full sm:w-auto"
+          >
+            <Wrench className="w-4 h-4 mr-2" />
+            Fuera de servicio
+          </Button>
+          <Button
+            onClick={() => setIsModalOpen(true)}
+            className="btn-cabin w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Nueva Reserva
+          </Button>
+        </div>
       </div>
 
       {/* Selected Date Range Availability */}
@@ -163,6 +190,7 @@ const Calendar = () => {
           startDate={selectedDateRange.start}
           endDate={selectedDateRange.end}
           reservations={reservations}
+          blocks={blocks}
           onBookCabin={handleBookCabin}
           onClear={handleClearSelection}
         />
@@ -174,6 +202,8 @@ const Calendar = () => {
         onReservationClick={handleReservationClick}
         loading={loading}
         onDateRangeSelect={handleDateRangeSelect}
+        blocks={blocks}
+        onBlockClick={handleBlockClick}
       />
 
       {/* Legend */}
@@ -187,21 +217,18 @@ const Calendar = () => {
               <div className="w-4 h-4 bg-primary/10 border border-primary rounded"></div>
               <span className="text-sm">Día actual</span>
             </div>
+            {getCabins().map(cabin => (
+              <div key={cabin.id} className="flex items-center gap-2">
+                <div className={`w-4 h-4 ${cabin.color} rounded`}></div>
+                <span className="text-sm">{cabin.displayName}</span>
+              </div>
+            ))}
             <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-blue-500 rounded"></div>
-              <span className="text-sm">Cabaña Pequeña</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-purple-500 rounded"></div>
-              <span className="text-sm">Cabaña Mediana 1</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-amber-500 rounded"></div>
-              <span className="text-sm">Cabaña Mediana 2</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-pink-500 rounded"></div>
-              <span className="text-sm">Cabaña Grande</span>
+              <div
+                className="w-4 h-4 bg-muted-foreground/20 rounded"
+                style={{ backgroundImage: 'repeating-linear-gradient(-45deg, rgba(100,116,139,0.25) 0 4px, transparent 4px 10px)' }}
+              ></div>
+              <span className="text-sm">Fuera de servicio</span>
             </div>
           </div>
         </CardContent>
@@ -227,10 +254,9 @@ const Calendar = () => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Todas las cabañas</SelectItem>
-                <SelectItem value="Cabaña Pequeña (Max 3p)">Cabaña Pequeña</SelectItem>
-                <SelectItem value="Cabaña Mediana 1 (Max 4p)">Cabaña Mediana 1</SelectItem>
-                <SelectItem value="Cabaña Mediana 2 (Max 4p)">Cabaña Mediana 2</SelectItem>
-                <SelectItem value="Cabaña Grande (Max 6p)">Cabaña Grande</SelectItem>
+                {getCabins().map(cabin => (
+                  <SelectItem key={cabin.id} value={cabin.id}>{cabin.displayName}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -300,7 +326,7 @@ const Calendar = () => {
                         {formatDateForDisplay(reservation.checkOut)}
                       </td>
                       <td className="p-4 text-sm">
-                        {reservation.cabinType.split(' (')[0]}
+                        {getCabinDisplayName(reservation.cabinType)}
                       </td>
                       <td className="p-4 text-sm">
                         {reservation.adults} + {reservation.children}
@@ -340,7 +366,7 @@ const Calendar = () => {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>¿Eliminar reserva?</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  Esta acción no se puede deshacer. Se eliminará permanentemente la reserva de {reservation.passengerName}.
+                                  La reserva de {reservation.passengerName} se moverá a la papelera, desde donde se puede restaurar.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
                               <AlertDialogFooter>
@@ -371,6 +397,13 @@ const Calendar = () => {
         onSuccess={invalidateReservations}
         reservation={selectedReservation}
       />
+
+      <CabinBlockModal
+        isOpen={isBlockModalOpen}
+        onClose={handleBlockModalClose}
+        onSuccess={invalidateReservations}
+        block={selectedBlock}
+      />
     </div>
   );
 };
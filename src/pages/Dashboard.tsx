@@ -1,24 +1,32 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Plus, LogIn, LogOut, CalendarDays, Users, Clock, AlertTriangle, Calendar, WifiOff } from 'lucide-react';
+import { Plus, LogIn, LogOut, CalendarDays, Users, Clock, AlertTriangle, Calendar, WifiOff, ArrowRightLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import ReservationModal from '@/components/ReservationModal';
+import WaitlistCard from '@/components/WaitlistCard';
 import { formatDateForDisplay, getTodayDate, getTomorrowDate, addDays } from '@/lib/dateUtils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { logger } from '@/lib/logger';
 import { useInvalidateReservations } from '@/hooks/useReservations';
 import { useOfflineReservations, useSyncPendingOperations } from '@/hooks/useOfflineReservations';
+import { useWaitlistQuery } from '@/hooks/useWaitlist';
 import { Reservation } from '@/types/reservation';
+import { isCancelled } from '@/lib/cancellations';
+import { getCabinMoves, getDepartureCabin } from '@/lib/staySegments';
+import { getCabinDisplayName, getCabinName } from '@/lib/cabinConfig';
 
 const Dashboard = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   
   // Use offline-capable hook for reservations
-  const { reservations, isLoading: loading, isOnline, isUsingCache, cacheStatus } = useOfflineReservations();
+  const { reservations: allReservations, isLoading: loading, isOnline, isUsingCache, cacheStatus } = useOfflineReservations();
+  // Cancelled reservations are kept for reporting only
+  const reservations = useMemo(() => allReservations.filter(r => !isCancelled(r)), [allReservations]);
   const invalidateReservations = useInvalidateReservations();
   useSyncPendingOperations(); // Auto-sync when online
+  const { data: waitlist = [] } = useWaitlistQuery(isOnline);
   
   // Calculate dashboard metrics from reservations
   const dashboardData = useMemo(() => {
@@ -38,6 +46,13 @@ const Dashboard = () => {
     const upcomingDepartures = reservations.filter(r => 
       r.checkOut > today && r.checkOut <= fiveDaysFromNow
     ).slice(0, 5);
+
+    // Mid-stay cabin changes: the old cabin needs cleaning, the new one must be ready
+    const cabinMoves = reservations.flatMap(reservation =>
+      getCabinMoves(reservation)
+        .filter(move => move.date === today || move.date === tomorrow)
+        .map(move => ({ reservation, move }))
+    );
     
     return {
       todayArrivals,
@@ -45,11 +60,12 @@ const Dashboard = () => {
       tomorrowDepartures,
       tomorrowArrivals,
       upcomingArrivals,
-      upcomingDepartures
+      upcomingDepartures,
+      cabinMoves
     };
   }, [reservations]);
   
-  const { todayArrivals, todayDepartures, tomorrowDepartures, tomorrowArrivals, upcomingArrivals, upcomingDepartures } = dashboardData;
+  const { todayArrivals, todayDepartures, tomorrowDepartures, tomorrowArrivals, upcomingArrivals, upcomingDepartures, cabinMoves } = dashboardData;
   
   const lastDataUpdate = cacheStatus.lastSync 
     ? cacheStatus.lastSync.toLocaleTimeString('es-CL') 
@@ -69,14 +85,30 @@ const Dashboard = () => {
 
   const [conflicts, setConflicts] = useState<Reservation[]>([]);
 
+  // Guests moving into a cabin tomorrow need it turned over like an arrival
+  const tomorrowCabinArrivals = useMemo(() => {
+    const tomorrow = getTomorrowDate();
+    return [
+      ...tomorrowArrivals.map(reservation => ({ reservation, cabinType: reservation.cabinType })),
+      ...cabinMoves
+        .filter(({ move }) => move.date === tomorrow)
+        .map(({ reservation, move }) => ({ reservation, cabinType: move.to }))
+    ];
+  }, [tomorrowArrivals, cabinMoves]);
+
+  const findConflictingArrival = (departure: Reservation): Reservation | undefined => {
+    const cabinType = getDepartureCabin(departure);
+    return tomorrowCabinArrivals.find(arrival => arrival.cabinType === cabinType)?.reservation;
+  };
+
   const hasSameDayConflict = (departure: Reservation): boolean => {
-    return tomorrowArrivals.some(arrival => arrival.cabinType === departure.cabinType);
+    return !!findConflictingArrival(departure);
   };
 
   useEffect(() => {
     const conflictingDepartures = tomorrowDepartures.filter(hasSameDayConflict);
     setConflicts(conflictingDepartures);
-  }, [tomorrowDepartures, tomorrowArrivals]);
+  }, [tomorrowDepartures, tomorrowCabinArrivals]);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -190,7 +222,7 @@ const Dashboard = () => {
                       <div>
                         <h4 className="font-medium">{reservation.passengerName}</h4>
                         <p className="text-sm text-muted-foreground">
-                          {reservation.cabinType}
+                          {getCabinName(reservation.cabinType)}
                         </p>
                         <p className="text-sm text-muted-foreground">
                           Vuelo: {reservation.arrivalFlight}
@@ -230,7 +262,7 @@ const Dashboard = () => {
                       <div>
                         <h4 className="font-medium">{reservation.passengerName}</h4>
                         <p className="text-sm text-muted-foreground">
-                          {reservation.cabinType}
+                          {getDepartureCabin(reservation)}
                         </p>
                         <p className="text-sm text-muted-foreground">
                           Vuelo: {reservation.departureFlight}
@@ -266,7 +298,7 @@ const Dashboard = () => {
               <div className="space-y-4">
                 {tomorrowDepartures.map((reservation) => {
                   const conflict = hasSameDayConflict(reservation);
-                  const conflictingArrival = conflict ? tomorrowArrivals.find(arrival => arrival.cabinType === reservation.cabinType) : null;
+                  const conflictingArrival = conflict ? findConflictingArrival(reservation) : null;
 
                   return (
                     <div
@@ -277,7 +309,7 @@ const Dashboard = () => {
                         <div>
                           <h4 className="font-medium">{reservation.passengerName}</h4>
                           <p className="text-sm text-muted-foreground">
-                            {reservation.cabinType}
+                            {getDepartureCabin(reservation)}
                           </p>
                           <p className="text-sm text-orange-600 font-medium">
                             {formatDateForDisplay(reservation.checkOut)}
@@ -313,6 +345,45 @@ const Dashboard = () => {
         </Card>
       </div>
 
+      {/* Cabin Changes - only when a guest moves today or tomorrow */}
+      {cabinMoves.length > 0 && (
+        <Card className="card-cabin">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5 text-primary" />
+              Cambios de Cabaña
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {cabinMoves.map(({ reservation, move }) => (
+                <div key={`${reservation.id}-${move.date}`} className="border rounded-lg p-4 space-y-2">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h4 className="font-medium">{reservation.passengerName}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {getCabinDisplayName(move.from)} → {getCabinDisplayName(move.to)}
+                      </p>
+                      <p className="text-sm text-primary font-medium">
+                        {move.date === getTodayDate() ? 'Hoy' : 'Mañana'} · {formatDateForDisplay(move.date)}
+                      </p>
+                    </div>
+                    <Badge variant="secondary">
+                      {reservation.adults + reservation.children}p
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Waitlist - offers first, only when there are open requests */}
+      {waitlist.length > 0 && (
+        <WaitlistCard entries={waitlist} onChange={invalidateReservations} canBook={isOnline} />
+      )}
+
       {/* Next 5 Days Departures - Full Width */}
       <Card className="card-cabin">
         <CardHeader>
@@ -336,7 +407,7 @@ const Dashboard = () => {
                     <div>
                       <h4 className="font-medium">{reservation.passengerName}</h4>
                       <p className="text-sm text-muted-foreground">
-                        {reservation.cabinType}
+                        {getDepartureCabin(reservation)}
                       </p>
                       <p className="text-sm text-yellow-600 font-medium">
                         {formatDateForDisplay(reservation.checkOut)}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FileWarning, RefreshCw, Bed, Users, UsersRound, ListOrdered, Wrench } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { scanDataProblems } from '@/lib/dataProblems';
+import { DataProblem, DataProblemCollection } from '@/lib/quarantine';
+import { logger } from '@/lib/logger';
+
+const COLLECTION_LABELS: Record<DataProblemCollection, { title: string; icon: typeof Bed }> = {
+  reservas: { title: 'Reservas', icon: Bed },
+  referentes: { title: 'Referentes', icon: Users },
+  grupos: { title: 'Grupos', icon: UsersRound },
+  lista_espera: { title: 'Lista de espera', icon: ListOrdered },
+  fuera_de_servicio: { title: 'Fuera de servicio', icon: Wrench }
+};
+
+const DataProblemRow = ({ problem }: { problem: DataProblem }) => (
+  <div className="p-4 space-y-2">
+    <div className="flex items-center justify-between gap-2">
+      <p className="font-medium truncate">{problem.label}</p>
+      <Badge variant="outline" className="text-xs font-mono shrink-0">{problem.id}</Badge>
+    </div>
+    <ul className="space-y-1">
+      {problem.issues.map((issue, index) => (
+        <li key={`${issue.field}-${index}`} className="text-xs">
+          <span className="font-mono font-medium text-destructive">{issue.field}</span>
+          <span className="text-muted-foreground"> — {issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const DataProblems = () => {
+  const { toast } = useToast();
+  const [problems, setProblems] = useState<DataProblem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setProblems(await scanDataProblems());
+    } catch (error) {
+      logger.error('dataProblems.load.error', { error: String(error) });
+      toast({ title: 'Error', description: 'No se pudieron analizar los datos.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const collections = Object.keys(COLLECTION_LABELS) as DataProblemCollection[];
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground flex items-center gap-2">
+            <FileWarning className="h-7 w-7" />
+            Problemas de datos
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Documentos que no cumplen el formato esperado. No se muestran en el resto de la app ni en los reportes hasta corregirlos.
+          </p>
+        </div>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Analizar de nuevo
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+          Analizando...
+        </div>
+      ) : problems.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No se encontraron problemas en los datos
+          </CardContent>
+        </Card>
+      ) : (
+        collections.map(collection => {
+          const items = problems.filter(problem => problem.collection === collection);
+          if (items.length === 0) return null;
+          const { title, icon: Icon } = COLLECTION_LABELS[collection];
+          return (
+            <Card key={collection}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Icon className="w-4 h-4" />
+                  {title} ({items.length})
+                </CardTitle>
+                <CardDescription>Colección `{collection}`</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="divide-y divide-border">
+                  {items.map(problem => (
+                    <DataProblemRow key={problem.id} problem={problem} />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default DataProblems;
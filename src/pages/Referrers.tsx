@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Card,
   CardContent,
@@ -37,7 +37,9 @@ import {
 } from 'lucide-react';
 import { Reservation } from '@/types/reservation';
 import { Referrer } from '@/types/referrer';
-import { getAllReservations } from '@/lib/reservations';
+import { getReservationsInRange } from '@/lib/reservations';
+import { getAvailableYears } from '@/lib/reportsService';
+import { getCabinName } from '@/lib/cabinConfig';
 import {
   getAllReferrers,
   createReferrer,
@@ -45,7 +47,7 @@ import {
   deleteReferrer,
   setReservationReferrerPayment,
 } from '@/lib/referrers';
-import { formatDateForDisplay, parseDate, getTodayDate } from '@/lib/dateUtils';
+import { formatDateForDisplay, formatDateToISO, parseDate, getTodayDate } from '@/lib/dateUtils';
 import Papa from 'papaparse';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -64,6 +66,7 @@ const Referrers = () => {
   const [loading, setLoading] = useState(true);
   const [month, setMonth] = useState<number>(today.getMonth());
   const [year, setYear] = useState<number>(today.getFullYear());
+  const [availableYears, setAvailableYears] = useState<number[]>([]);
 
   // Referrer dialog
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -71,19 +74,26 @@ const Referrers = () => {
   const [form, setForm] = useState({ name: '', phone: '', email: '', notes: '' });
   const [saving, setSaving] = useState(false);
 
-  const load = async () => {
+  const load = useCallback(async () => {
     setLoading(true);
     try {
-      const [refs, res] = await Promise.all([getAllReferrers(), getAllReservations()]);
+      // Only the selected month is read
+      const monthStart = formatDateToISO(new Date(year, month, 1));
+      const monthEnd = formatDateToISO(new Date(year, month + 1, 0));
+      const [refs, res] = await Promise.all([getAllReferrers(), getReservationsInRange(monthStart, monthEnd)]);
       setReferrers(refs);
       setReservations(res);
     } finally {
       setLoading(false);
     }
-  };
+  }, [month, year]);
 
   useEffect(() => {
     load();
+  }, [load]);
+
+  useEffect(() => {
+    getAvailableYears().then(setAvailableYears);
   }, []);
 
   // Group reservations by referrer for the selected month
@@ -171,10 +181,10 @@ const Referrers = () => {
   };
 
   const removeReferrer = async (id: string) => {
-    if (!confirm('¿Eliminar este cliente? Las reservas asociadas mantendrán el nombre histórico.')) return;
+    if (!confirm('¿Mover este cliente a la papelera? Las reservas asociadas mantendrán el nombre histórico.')) return;
     try {
       await deleteReferrer(id);
-      toast({ title: 'Cliente eliminado' });
+      toast({ title: 'Cliente movido a la papelera' });
       await load();
     } catch (e: any) {
       toast({ title: 'Error', description: e.message, variant: 'destructive' });
@@ -190,7 +200,7 @@ const Referrers = () => {
         rows.push({
           Cliente: g.name,
           Pasajero: r.passengerName,
-          Cabaña: r.cabinType,
+          Cabaña: getCabinName(r.cabinType),
           'Check-in': formatDateForDisplay(r.checkIn),
           'Check-out': formatDateForDisplay(r.checkOut),
           Personas: (r.adults || 0) + (r.children || 0) + (r.babies || 0),
@@ -227,7 +237,7 @@ const Referrers = () => {
         head: [['Pasajero', 'Cabaña', 'Check-in', 'Check-out', 'Total', 'Estado']],
         body: g.items.map((r) => [
           r.passengerName,
-          r.cabinType,
+          getCabinName(r.cabinType),
           formatDateForDisplay(r.checkIn),
           formatDateForDisplay(r.checkOut),
           `$${(r.totalPrice || 0).toLocaleString('es-CL')}`,
@@ -245,12 +255,9 @@ const Referrers = () => {
   };
 
   const yearOptions = useMemo(() => {
-    const ys = new Set<number>([today.getFullYear()]);
-    reservations.forEach((r) => {
-      if (r.checkIn) ys.add(parseDate(r.checkIn).getFullYear());
-    });
+    const ys = new Set<number>([today.getFullYear(), ...availableYears]);
     return Array.from(ys).sort((a, b) => b - a);
-  }, [reservations]);
+  }, [availableYears]);
 
   return (
     <div className="space-y-6">
@@ -371,7 +378,7 @@ const Referrers = () => {
                     <div className="text-sm">
                       <div className="font-medium">{r.passengerName}</div>
                       <div className="text-xs text-muted-foreground">
-                        {r.cabinType} · {formatDateForDisplay(r.checkIn)} → {formatDateForDisplay(r.checkOut)}
+                        {getCabinName(r.cabinType)} · {formatDateForDisplay(r.checkIn)} → {formatDateForDisplay(r.checkOut)}
                       </div>
                     </div>
                     <div className="flex items-center gap-3">
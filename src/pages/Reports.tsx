@@ -27,12 +27,13 @@ import {
   ReportData, 
   ReportFilters,
   exportCabinGroupToCSV,
-  exportCabinGroupToPDF
+  exportCabinGroupToPDF,
+  getRevenueSummary
 } from '@/lib/reportsService';
 import { useToast } from '@/hooks/use-toast';
 import { logger } from '@/lib/logger';
 import { useReservationsQuery } from '@/hooks/useReservations';
-import { CABIN_TYPES } from '@/lib/cabinConfig';
+import { getCabinDisplayName, getCabinIds } from '@/lib/cabinConfig';
 
 const Reports = () => {
   const [reportData, setReportData] = useState<ReportData[]>([]);
@@ -40,6 +41,7 @@ const Reports = () => {
   const [filters, setFilters] = useState<ReportFilters>({
     year: new Date().getFullYear(),
     includeOverlaps: false,
+    includeCancelled: false,
   });
   const { toast } = useToast();
   
@@ -68,7 +70,7 @@ const Reports = () => {
     const totalChildren = reportData.reduce((sum, r) => sum + r.children, 0);
     const totalBabies = reportData.reduce((sum, r) => sum + r.babies, 0);
     
-    const byCabin = CABIN_TYPES.reduce((acc, cabin) => {
+    const byCabin = getCabinIds().reduce((acc, cabin) => {
       acc[cabin] = reportData.filter(r => r.cabinType === cabin).length;
       return acc;
     }, {} as Record<string, number>);
@@ -82,7 +84,8 @@ const Reports = () => {
       totalChildren,
       totalBabies,
       avgGuests: avgGuests.toFixed(1),
-      byCabin
+      byCabin,
+      revenue: getRevenueSummary(reportData)
     };
   }, [reportData]);
 
@@ -285,7 +288,7 @@ const Reports = () => {
                       <SelectItem value="all">Todas</SelectItem>
                       {getCabinTypes().map((cabin) => (
                         <SelectItem key={cabin} value={cabin}>
-                          {cabin.split(' (')[0]}
+                          {getCabinDisplayName(cabin)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -326,6 +329,20 @@ const Reports = () => {
                   </label>
                 </div>
               )}
+
+              {/* Include cancelled option */}
+              <div className="flex items-center gap-2 pt-2 border-t">
+                <Checkbox
+                  id="includeCancelled"
+                  checked={filters.includeCancelled || false}
+                  onCheckedChange={(checked) => {
+                    setFilters({ ...filters, includeCancelled: checked as boolean });
+                  }}
+                />
+                <label htmlFor="includeCancelled" className="text-xs text-muted-foreground cursor-pointer">
+                  Incluir reservas canceladas
+                </label>
+              </div>
             </CardContent>
           </Card>
 
@@ -371,6 +388,74 @@ const Reports = () => {
             </div>
           )}
 
+          {/* Revenue before and after discounts, and add-ons */}
+          {summaryStats && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">Alojamiento bruto</p>
+                  <p className="text-base sm:text-xl font-bold">${summaryStats.revenue.grossRevenue.toLocaleString('es-CL')}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">Descuentos</p>
+                  <p className="text-base sm:text-xl font-bold text-green-600">-${summaryStats.revenue.discounts.toLocaleString('es-CL')}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">Servicios adicionales</p>
+                  <p className="text-base sm:text-xl font-bold">${summaryStats.revenue.addOnRevenue.toLocaleString('es-CL')}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">Ingresos totales</p>
+                  <p className="text-base sm:text-xl font-bold">${summaryStats.revenue.netRevenue.toLocaleString('es-CL')}</p>
+                  {summaryStats.revenue.cancellationFees > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Incluye ${summaryStats.revenue.cancellationFees.toLocaleString('es-CL')} en cargos por cancelación
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {/* IVA of the period, for the monthly tax return */}
+          {summaryStats && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">Ventas afectas (neto)</p>
+                  <p className="text-base sm:text-xl font-bold">${summaryStats.revenue.taxableRevenue.toLocaleString('es-CL')}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">IVA débito</p>
+                  <p className="text-base sm:text-xl font-bold">${summaryStats.revenue.iva.toLocaleString('es-CL')}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">Ventas exentas</p>
+                  <p className="text-base sm:text-xl font-bold">${summaryStats.revenue.exemptRevenue.toLocaleString('es-CL')}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs text-muted-foreground">Estadías exentas</p>
+                  <p className="text-base sm:text-xl font-bold">{summaryStats.revenue.exemptStays}</p>
+                  {summaryStats.revenue.waivedIva > 0 && (
+                    <p className="text-xs text-muted-foreground">IVA no cobrado: ${summaryStats.revenue.waivedIva.toLocaleString('es-CL')}</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
           {/* Export Actions */}
           {reportData.length > 0 && (
             <Card>
@@ -403,7 +488,7 @@ const Reports = () => {
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-                  {CABIN_TYPES.map((cabin) => {
+                  {getCabinIds().map((cabin) => {
                     const count = summaryStats.byCabin[cabin] || 0;
                     const percentage = summaryStats.totalReservations > 0 
                       ? ((count / summaryStats.totalReservations) * 100).toFixed(0)
@@ -411,7 +496,7 @@ const Reports = () => {
                     
                     return (
                       <div key={cabin} className="p-3 rounded-lg bg-accent/50">
-                        <p className="text-xs text-muted-foreground truncate">{cabin.split(' (')[0]}</p>
+                        <p className="text-xs text-muted-foreground truncate">{getCabinDisplayName(cabin)}</p>
                         <div className="flex items-end justify-between mt-1">
                           <p className="text-lg font-bold">{count}</p>
                           <Badge variant="outline" className="text-xs">{percentage}%</Badge>
@@ -600,12 +685,24 @@ const Reports = () => {
                               {row.adults}/{row.children}/{row.babies}
                             </TableCell>
                             <TableCell className="text-xs max-w-[120px] truncate">
-                              {row.cabinType.split(' (')[0]}
+                              {getCabinDisplayName(row.cabinType)}
                             </TableCell>
                             <TableCell className="text-center text-xs">
                               {row.hasRentedCar ? '🚗 Sí' : 'No'}
                             </TableCell>
-                            <TableCell className="text-right text-xs">${(row.totalPrice || 0).toLocaleString('es-CL')}</TableCell>
+                            <TableCell className="text-right text-xs">
+                              ${(row.totalPrice || 0).toLocaleString('es-CL')}
+                              {row.discounts > 0 && (
+                                <div className="text-green-600" title={row.priceAdjustments.map(adjustment => adjustment.name).join(', ')}>
+                                  -${row.discounts.toLocaleString('es-CL')}
+                                </div>
+                              )}
+                              {row.addOnsTotal > 0 && (
+                                <div className="text-muted-foreground" title={row.addOns.map(addOn => addOn.name).join(', ')}>
+                                  +${row.addOnsTotal.toLocaleString('es-CL')} serv.
+                                </div>
+                              )}
+                            </TableCell>
                             <TableCell className="text-right text-xs text-green-600 font-medium">${(row.totalPaid || 0).toLocaleString('es-CL')}</TableCell>
                             <TableCell className="text-right text-xs text-orange-600">${(row.remainingBalance || 0).toLocaleString('es-CL')}</TableCell>
                             <TableCell className="text-xs">
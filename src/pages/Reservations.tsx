@@ -22,13 +22,18 @@ import ReservationModal from '@/components/ReservationModal';
 import PaymentModal from '@/components/PaymentModal';
 import CheckInOutModal from '@/components/CheckInOutModal';
 import ConfirmationModal from '@/components/ConfirmationModal';
+import CancellationModal from '@/components/CancellationModal';
+import GroupBookingModal from '@/components/GroupBookingModal';
+import MoveGuestModal from '@/components/MoveGuestModal';
 import ReservationCard from '@/components/mobile/ReservationCard';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Reservation } from '@/types/reservation';
-import { deleteReservation, calculateRemainingBalance } from '@/lib/reservationService';
+import { deleteReservation, calculateRemainingBalance, isCancelled, getRetainedRevenue } from '@/lib/reservationService';
 import { useToast } from '@/hooks/use-toast';
-import { CABIN_TYPES } from '@/lib/cabinConfig';
-import { useOfflineReservations, useSyncPendingOperations } from '@/hooks/useOfflineReservations';
+import { getCabinDisplayName, getCabinIds } from '@/lib/cabinConfig';
+import { getSegments } from '@/lib/staySegments';
+import { confirmHold } from '@/lib/holds';
+import { useOfflineReservationPages, useSyncPendingOperations } from '@/hooks/useOfflineReservations';
 
 const Reservations = () => {
   const isMobile = useIsMobile();
@@ -41,8 +46,11 @@ const Reservations = () => {
     isOnline, 
     isUsingCache, 
     cacheStatus,
-    refetch 
-  } = useOfflineReservations();
+    refetch,
+    hasMore,
+    isLoadingMore,
+    loadMore
+  } = useOfflineReservationPages();
   useSyncPendingOperations();
   
   // Add remaining balance to reservations
@@ -59,10 +67,14 @@ const Reservations = () => {
   const [selectedPaymentReservation, setSelectedPaymentReservation] = useState<Reservation | null>(null);
   const [selectedCheckInOutReservation, setSelectedCheckInOutReservation] = useState<Reservation | null>(null);
   const [selectedConfirmationReservation, setSelectedConfirmationReservation] = useState<Reservation | null>(null);
+  const [selectedCancellationReservation, setSelectedCancellationReservation] = useState<Reservation | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isCheckInOutModalOpen, setIsCheckInOutModalOpen] = useState(false);
   const [isConfirmationModalOpen, setIsConfirmationModalOpen] = useState(false);
+  const [isCancellationModalOpen, setIsCancellationModalOpen] = useState(false);
+  const [selectedGroupReservation, setSelectedGroupReservation] = useState<Reservation | null>(null);
+  const [selectedMoveReservation, setSelectedMoveReservation] = useState<Reservation | null>(null);
   const [checkInOutType, setCheckInOutType] = useState<'check_in' | 'check_out'>('check_in');
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCabin, setFilterCabin] = useState('all');
@@ -73,7 +85,7 @@ const Reservations = () => {
   // Calculate completed reservations analytics
   const completedAnalytics = useMemo(() => {
     const completed = reservations.filter(r => 
-      r.checkOutStatus === 'checked_out' || r.reservationStatus === 'checked_out'
+      !isCancelled(r) && (r.checkOutStatus === 'checked_out' || r.reservationStatus === 'checked_out')
     );
     
     const totalRevenue = completed.reduce((sum, r) => sum + r.totalPrice, 0);
@@ -86,7 +98,7 @@ const Reservations = () => {
         }, 0) / completed.length
       : 0;
 
-    const byCabin = CABIN_TYPES.reduce((acc, cabin) => {
+    const byCabin = getCabinIds().reduce((acc, cabin) => {
       acc[cabin] = completed.filter(r => r.cabinType === cabin).length;
       return acc;
     }, {} as Record<string, number>);
@@ -110,26 +122,41 @@ const Reservations = () => {
     };
   }, [reservations]);
 
+  // Cancelled reservations are kept for reporting, listed in their own tab
+  const cancelledReservations = useMemo(() => 
+    reservations
+      .filter(r => isCancelled(r))
+      .sort((a, b) => (b.cancellation?.cancelledAt || '').localeCompare(a.cancellation?.cancelledAt || '')),
+    [reservations]
+  );
+
+  const cancelledFees = useMemo(() => 
+    cancelledReservations.reduce((sum, r) => sum + getRetainedRevenue(r), 0),
+    [cancelledReservations]
+  );
+
   useEffect(() => {
     let filtered = [...reservations];
 
     // Filter by status (active/completed)
     if (filterStatus === 'active') {
-      filtered = filtered.filter(r => r.checkOutStatus !== 'checked_out' && r.reservationStatus !== 'checked_out');
+      filtered = filtered.filter(r => !isCancelled(r) && r.checkOutStatus !== 'checked_out' && r.reservationStatus !== 'checked_out');
     } else if (filterStatus === 'completed') {
-      filtered = filtered.filter(r => r.checkOutStatus === 'checked_out' || r.reservationStatus === 'checked_out');
+      filtered = filtered.filter(r => !isCancelled(r) && (r.checkOutStatus === 'checked_out' || r.reservationStatus === 'checked_out'));
     }
 
-    // Filter by search
+    // Filter by search (also matches the group name)
     if (searchTerm) {
       filtered = filtered.filter(r => 
-        r.passengerName.toLowerCase().includes(searchTerm.toLowerCase())
+        r.passengerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (r.groupName || '').toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
 
     // Filter by cabin type
     if (filterCabin !== 'all') {
-      filtered = filtered.filter(r => r.cabinType === filterCabin);
+      // Split stays show up under every cabin they use
+      filtered = filtered.filter(r => getSegments(r).some(segment => segment.cabinType === filterCabin));
     }
 
     // Filter by payment status
@@ -155,6 +182,14 @@ const Reservations = () => {
       }
     });
 
+    // Members of a group are listed together, right after the first of them
+    const groupOrder = new Map<string, number>();
+    filtered.forEach((r, index) => {
+      if (r.groupId && !groupOrder.has(r.groupId)) groupOrder.set(r.groupId, index);
+    });
+    const position = new Map(filtered.map((r, index) => [r, r.groupId ? groupOrder.get(r.groupId)! : index]));
+    filtered.sort((a, b) => position.get(a)! - position.get(b)!);
+
     setFilteredReservations(filtered);
   }, [reservations, searchTerm, filterCabin, filterPaymentStatus, sortBy, filterStatus]);
 
@@ -185,12 +220,42 @@ const Reservations = () => {
     setIsConfirmationModalOpen(true);
   };
 
+  const handleCancel = (reservation: Reservation) => {
+    setSelectedCancellationReservation(reservation);
+    setIsCancellationModalOpen(true);
+  };
+
+  const handleGroup = (reservation: Reservation) => {
+    setSelectedGroupReservation(reservation);
+  };
+
+  const handleMove = (reservation: Reservation) => {
+    setSelectedMoveReservation(reservation);
+  };
+
+  const handleConfirmHold = async (reservation: Reservation) => {
+    try {
+      await confirmHold(reservation);
+      toast({
+        title: "Bloqueo confirmado",
+        description: `El bloqueo de ${reservation.passengerName} pasa a ser una reserva.`
+      });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo confirmar el bloqueo.",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleDelete = async (id: string) => {
     try {
       await deleteReservation(id);
       toast({
         title: "Éxito",
-        description: "Reserva eliminada correctamente."
+        description: "Reserva movida a la papelera."
       });
       refetch();
     } catch (error) {
@@ -222,6 +287,11 @@ const Reservations = () => {
     setSelectedConfirmationReservation(null);
   };
 
+  const handleCancellationModalClose = () => {
+    setIsCancellationModalOpen(false);
+    setSelectedCancellationReservation(null);
+  };
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
     return date.toLocaleDateString('es-CL', {
@@ -274,8 +344,19 @@ const Reservations = () => {
     }
   };
 
-  const activeCount = reservations.filter(r => r.checkOutStatus !== 'checked_out' && r.reservationStatus !== 'checked_out').length;
+  const activeCount = reservations.filter(r => !isCancelled(r) && r.checkOutStatus !== 'checked_out' && r.reservationStatus !== 'checked_out').length;
   const completedCount = completedAnalytics.total;
+  const cancelledCount = cancelledReservations.length;
+  // Counts, totals and search only see the pages loaded so far
+  const countSuffix = hasMore ? '+' : '';
+  const partialNotice = hasMore && (
+    <p className="text-xs text-muted-foreground">
+      Cifras calculadas sobre las {reservations.length} reservas cargadas.{' '}
+      <button type="button" className="underline" onClick={() => loadMore()} disabled={isLoadingMore}>
+        Cargar reservas anteriores
+      </button>
+    </p>
+  );
 
   return (
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
@@ -307,7 +388,10 @@ const Reservations = () => {
         <div>
           <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Reservas</h1>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <span>{activeCount} activas · {completedCount} completadas</span>
+            <span>
+              {activeCount}{countSuffix} activas · {completedCount}{countSuffix} completadas · {cancelledCount}{countSuffix} canceladas
+              {hasMore && ` (de las ${reservations.length} cargadas)`}
+            </span>
             {isUsingCache && (
               <Badge variant="outline" className="text-xs gap-1">
                 <WifiOff className="w-3 h-3" />
@@ -329,12 +413,15 @@ const Reservations = () => {
 
       {/* Tabs for Active/Completed */}
       <Tabs defaultValue="active" className="w-full" onValueChange={(v) => setFilterStatus(v)}>
-        <TabsList className="grid w-full grid-cols-2 h-12">
+        <TabsList className="grid w-full grid-cols-3 h-12">
           <TabsTrigger value="active" className="text-sm">
-            Activas ({activeCount})
+            Activas ({activeCount}{countSuffix})
           </TabsTrigger>
           <TabsTrigger value="completed" className="text-sm">
-            Completadas ({completedCount})
+            Completadas ({completedCount}{countSuffix})
+          </TabsTrigger>
+          <TabsTrigger value="cancelled" className="text-sm">
+            Canceladas ({cancelledCount}{countSuffix})
           </TabsTrigger>
         </TabsList>
 
@@ -354,6 +441,11 @@ const Reservations = () => {
                     className="pl-10 h-11"
                   />
                 </div>
+                {searchTerm && hasMore && (
+                  <p className="text-xs text-muted-foreground">
+                    Buscando entre las {reservations.length} reservas cargadas; las anteriores no aparecen hasta cargarlas.
+                  </p>
+                )}
 
                 {/* Filter row */}
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
@@ -363,9 +455,9 @@ const Reservations = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">Todas</SelectItem>
-                      {CABIN_TYPES.map(cabin => (
+                      {getCabinIds().map(cabin => (
                         <SelectItem key={cabin} value={cabin}>
-                          {cabin.split(' (')[0]}
+                          {getCabinDisplayName(cabin)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -432,6 +524,10 @@ const Reservations = () => {
                   onCheckOut={handleCheckOut}
                   onDelete={handleDelete}
                   onConfirmation={handleConfirmation}
+                  onCancel={isOnline ? handleCancel : undefined}
+                  onGroup={isOnline ? handleGroup : undefined}
+                  onMove={isOnline ? handleMove : undefined}
+                  onConfirmHold={isOnline ? handleConfirmHold : undefined}
                 />
               ))}
             </div>
@@ -440,6 +536,7 @@ const Reservations = () => {
 
         {/* Completed Reservations Tab with Analytics */}
         <TabsContent value="completed" className="space-y-4 mt-4">
+          {partialNotice}
           {/* Analytics Cards */}
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
             <Card>
@@ -520,14 +617,14 @@ const Reservations = () => {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-                {CABIN_TYPES.map(cabin => {
+                {getCabinIds().map(cabin => {
                   const count = completedAnalytics.byCabin[cabin] || 0;
                   const pct = completedAnalytics.total > 0 
                     ? ((count / completedAnalytics.total) * 100).toFixed(0) 
                     : 0;
                   return (
                     <div key={cabin} className="p-3 bg-accent/50 rounded-lg">
-                      <p className="text-xs text-muted-foreground truncate">{cabin.split(' (')[0]}</p>
+                      <p className="text-xs text-muted-foreground truncate">{getCabinDisplayName(cabin)}</p>
                       <div className="flex items-end justify-between mt-1">
                         <p className="text-lg font-bold">{count}</p>
                         <Badge variant="outline" className="text-xs">{pct}%</Badge>
@@ -552,7 +649,7 @@ const Reservations = () => {
                     <div className="flex justify-between items-start gap-2">
                       <div className="min-w-0 flex-1">
                         <p className="font-medium truncate">{reservation.passengerName}</p>
-                        <p className="text-xs text-muted-foreground">{reservation.cabinType.split(' (')[0]}</p>
+                        <p className="text-xs text-muted-foreground">{getCabinDisplayName(reservation.cabinType)}</p>
                         <div className="flex gap-2 mt-1 text-xs text-muted-foreground">
                           <span>{formatDate(reservation.checkIn)}</span>
                           <span>→</span>
@@ -572,8 +669,59 @@ const Reservations = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Cancelled Reservations Tab */}
+        <TabsContent value="cancelled" className="space-y-4 mt-4">
+          {partialNotice}
+          <div className="grid grid-cols-2 gap-3">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Total Canceladas</p>
+                <p className="text-2xl font-bold">{cancelledCount}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">Cargos Retenidos</p>
+                <p className="text-xl sm:text-2xl font-bold">${cancelledFees.toLocaleString('es-CL')}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {cancelledReservations.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                No hay reservas canceladas
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {cancelledReservations.map((reservation) => (
+                <ReservationCard
+                  key={reservation.id}
+                  reservation={reservation}
+                  onEdit={handleEdit}
+                  onAddPayment={handleAddPayment}
+                  onCheckIn={handleCheckIn}
+                  onCheckOut={handleCheckOut}
+                  onDelete={handleDelete}
+                  onConfirmation={handleConfirmation}
+                />
+              ))}
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
 
+      {/* Older reservations are loaded on demand */}
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadMore()} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Cargando...' : 'Cargar reservas anteriores'}
+          </Button>
+        </div>
+      )}
+
       {/* Modals */}
       <ReservationModal
         isOpen={isModalOpen}
@@ -609,6 +757,33 @@ const Reservations = () => {
           reservation={selectedConfirmationReservation}
         />
       )}
+
+      {selectedGroupReservation && (
+        <GroupBookingModal
+          isOpen={!!selectedGroupReservation}
+          onClose={() => setSelectedGroupReservation(null)}
+          onSuccess={() => refetch()}
+          reservation={selectedGroupReservation}
+        />
+      )}
+
+      {selectedMoveReservation && (
+        <MoveGuestModal
+          isOpen={!!selectedMoveReservation}
+          onClose={() => setSelectedMoveReservation(null)}
+          onSuccess={() => refetch()}
+          reservation={selectedMoveReservation}
+        />
+      )}
+
+      {selectedCancellationReservation && (
+        <CancellationModal
+          isOpen={isCancellationModalOpen}
+          onClose={handleCancellationModalClose}
+          onSuccess={() => refetch()}
+          reservation={selectedCancellationReservation}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Trash2, RotateCcw, Loader2, Bed, Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateReservations } from '@/hooks/useReservations';
+import { Reservation } from '@/types/reservation';
+import { Referrer } from '@/types/referrer';
+import { getTrashedReservations, restoreReservation, purgeReservation } from '@/lib/reservations';
+import { getTrashedReferrers, restoreReferrer, purgeReferrer } from '@/lib/referrers';
+import { canPurge, getPurgeDate, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { formatDateForDisplay } from '@/lib/dateUtils';
+import { logger } from '@/lib/logger';
+import { getCabinDisplayName } from '@/lib/cabinConfig';
+
+interface TrashItemRowProps {
+  title: string;
+  subtitle: string;
+  deletedAt: string;
+  deletedBy?: string;
+  busy: boolean;
+  onRestore: () => void;
+  onPurge: () => void;
+}
+
+const TrashItemRow = ({ title, subtitle, deletedAt, deletedBy, busy, onRestore, onPurge }: TrashItemRowProps) => {
+  const purgeable = canPurge({ deletedAt });
+  const purgeDate = getPurgeDate(deletedAt);
+
+  return (
+    <div className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="min-w-0 flex-1">
+        <p className="font-medium truncate">{title}</p>
+        <p className="text-xs text-muted-foreground truncate">{subtitle}</p>
+        <p className="text-xs text-muted-foreground mt-1">
+          Eliminado el {new Date(deletedAt).toLocaleDateString('es-CL')}
+          {deletedBy ? ` por ${deletedBy}` : ''}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        {!purgeable && (
+          <Badge variant="outline" className="text-xs">
+            Purga desde {formatDateForDisplay(purgeDate)}
+          </Badge>
+        )}
+        <Button variant="outline" size="sm" onClick={onRestore} disabled={busy}>
+          {busy ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-1" />}
+          Restaurar
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy || !purgeable}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>¿Eliminar definitivamente?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Esta acción no se puede deshacer. Se eliminará permanentemente {title}.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={onPurge}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Eliminar
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+};
+
+const Trash = () => {
+  const { toast } = useToast();
+  const invalidateReservations = useInvalidateReservations();
+
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [referrers, setReferrers] = useState<Referrer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [res, refs] = await Promise.all([getTrashedReservations(), getTrashedReferrers()]);
+      setReservations(res);
+      setReferrers(refs);
+    } catch (error) {
+      logger.error('trash.load.error', { error: String(error) });
+      toast({ title: 'Error', description: 'No se pudo cargar la papelera.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (id: string, action: () => Promise<void>, successTitle: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast({ title: successTitle });
+      invalidateReservations();
+      await load();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'No se pudo completar la acción.';
+      toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-foreground flex items-center gap-2">
+          <Trash2 className="h-7 w-7" />
+          Papelera
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Los elementos eliminados se pueden restaurar. La eliminación definitiva se habilita después de {TRASH_RETENTION_DAYS} días.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+          Cargando...
+        </div>
+      ) : (
+        <Tabs defaultValue="reservations" className="w-full">
+          <TabsList className="grid w-full grid-cols-2 h-12">
+            <TabsTrigger value="reservations" className="text-sm">
+              <Bed className="w-4 h-4 mr-1" />
+              Reservas ({reservations.length})
+            </TabsTrigger>
+            <TabsTrigger value="referrers" className="text-sm">
+              <Users className="w-4 h-4 mr-1" />
+              Referentes ({referrers.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="reservations" className="mt-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Reservas eliminadas</CardTitle>
+                <CardDescription>Al restaurar se vuelve a verificar la disponibilidad de la cabaña</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {reservations.length === 0 ? (
+                  <div className="py-12 text-center text-muted-foreground">No hay reservas en la papelera</div>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {reservations.map(reservation => (
+                      <TrashItemRow
+                        key={reservation.id}
+                        title={`la reserva de ${reservation.passengerName}`}
+                        subtitle={`${getCabinDisplayName(reservation.cabinType)} · ${formatDateForDisplay(reservation.checkIn)} - ${formatDateForDisplay(reservation.checkOut)}`}
+                        deletedAt={reservation.deletedAt!}
+                        deletedBy={reservation.deletedBy}
+                        busy={busyId === reservation.id}
+                        onRestore={() => runAction(reservation.id!, () => restoreReservation(reservation.id!), 'Reserva restaurada')}
+                        onPurge={() => runAction(reservation.id!, () => purgeReservation(reservation.id!), 'Reserva eliminada definitivamente')}
+                      />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="referrers" className="mt-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Referentes eliminados</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {referrers.length === 0 ? (
+                  <div className="py-12 text-center text-muted-foreground">No hay referentes en la papelera</div>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {referrers.map(referrer => (
+                      <TrashItemRow
+                        key={referrer.id}
+                        title={`el cliente ${referrer.name}`}
+                        subtitle={[referrer.phone, referrer.email].filter(Boolean).join(' · ') || 'Sin contacto'}
+                        deletedAt={referrer.deletedAt!}
+                        deletedBy={referrer.deletedBy}
+                        busy={busyId === referrer.id}
+                        onRestore={() => runAction(referrer.id!, () => restoreReferrer(referrer.id!), 'Cliente restaurado')}
+                        onPurge={() => runAction(referrer.id!, () => purgeReferrer(referrer.id!), 'Cliente eliminado definitivamente')}
+                      />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
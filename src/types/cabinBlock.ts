@@ -0,0 +1,28 @@
+import { CabinType } from './reservation';
+
+// maintenance: painting, cleaning, planned work · repair: something broke · owner_use: the owners stay
+export type CabinBlockReason = 'maintenance' | 'repair' | 'owner_use' | 'other';
+
+export type CabinBlockFrequency = 'weekly' | 'monthly' | 'yearly';
+
+// The block repeats every week, month or year, until the given date (inclusive) when set
+export interface CabinBlockRecurrence {
+  frequency: CabinBlockFrequency;
+  until?: string; // YYYY-MM-DD
+}
+
+// Cabin taken off sale: it is not a reservation, so it never counts as revenue or occupancy
+export interface CabinBlock {
+  id?: string;
+  cabinType: CabinType;
+  startDate: string; // First night out of order (YYYY-MM-DD)
+  endDate: string; // Day the cabin is back in service, like a check-out (YYYY-MM-DD)
+  reason: CabinBlockReason;
+  notes?: string;
+  recurrence?: CabinBlockRecurrence;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type CabinBlockFormData = Pick<CabinBlock, 'cabinType' | 'startDate' | 'endDate' | 'reason' | 'notes' | 'recurrence'>;
@@ -0,0 +1,49 @@
+import { Payment } from './payment';
+
+// Several cabin reservations booked together under one lead guest (families, tour groups)
+export interface ReservationGroup {
+  id?: string;
+  name: string;
+  leadGuestName: string;
+  leadGuestPhone?: string;
+  leadGuestEmail?: string;
+  reservationIds: string[];
+  notes?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ReservationGroupFormData {
+  name: string;
+  leadGuestName: string;
+  leadGuestPhone?: string;
+  leadGuestEmail?: string;
+  notes?: string;
+}
+
+// Share of a group payment booked on one member reservation
+export interface GroupPaymentAllocation {
+  reservationId: string;
+  passengerName: string;
+  cabinType: string;
+  amount: number;
+}
+
+// One line of the shared ledger: a group payment with its split, or a payment made on a single member
+export interface GroupLedgerEntry {
+  id: string;
+  amount: number;
+  type?: Payment['type'];
+  paymentDate: string;
+  method: Payment['method'];
+  notes?: string;
+  createdBy: string;
+  allocations: GroupPaymentAllocation[];
+}
+
+export interface GroupSummary {
+  totalPrice: number;
+  totalPaid: number;
+  remainingBalance: number;
+  ledger: GroupLedgerEntry[];
+}
@@ -1,12 +1,22 @@
 
+// Balances are kept in CLP; USD and EUR are converted with the exchange rates set in Admin
+export type Currency = 'CLP' | 'USD' | 'EUR';
+
 export interface Payment {
   id: string;
-  amount: number;
+  amount: number; // In CLP, the base currency of every reservation; refunds are stored as negative amounts
+  type?: 'payment' | 'refund';
   paymentDate: string; // ISO date string
   method: 'cash' | 'transfer' | 'credit_card' | 'other';
   notes?: string;
   createdBy: string;
   createdAt: Date;
+  // Shared by the shares of one payment made for a whole group booking
+  groupPaymentId?: string;
+  // Payments received in another currency: what the guest paid and the rate used (CLP per unit)
+  currency?: Currency; // CLP when missing
+  originalAmount?: number;
+  exchangeRate?: number;
 }
 
-export interface PaymentFormData extends Omit<Payment, 'id' | 'createdAt'> {}
+export interface PaymentFormData extends Omit<Payment, 'id' | 'createdAt' | 'groupPaymentId'> {}
@@ -6,6 +6,9 @@ export interface Referrer {
   notes?: string;
   createdAt?: Date;
   updatedAt?: Date;
+  // Trash (soft delete)
+  deletedAt?: string;
+  deletedBy?: string;
 }
 
 export type ReferrerPaymentStatus = 'pending' | 'paid';
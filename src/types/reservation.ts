@@ -1,13 +1,81 @@
 
-import { Payment } from './payment';
+import { Currency, Payment } from './payment';
 
-export type CabinType = 'Cabaña Pequeña (Max 3p)' | 'Cabaña Mediana 1 (Max 4p)' | 'Cabaña Mediana 2 (Max 4p)' | 'Cabaña Grande (Max 6p)';
+// Stable id of a cabin configured in Admin (`cabin-1`…), see cabinConfig.ts
+export type CabinType = string;
 export type Season = 'Alta' | 'Baja';
 export type ArrivalFlight = 'LA841' | 'LA843' | '';
 export type DepartureFlight = 'LA842' | 'LA844' | '';
 export type PaymentStatus = 'pendiente' | 'pending_deposit' | 'pending_payment' | 'deposit_made' | 'fully_paid' | 'overdue';
-export type ReservationStatusType = 'confirmada' | 'pending_checkin' | 'in_stay' | 'checked_out' | 'departed' | 'cancelled';
+export type ReservationStatusType = 'hold' | 'confirmada' | 'pending_checkin' | 'in_stay' | 'checked_out' | 'departed' | 'cancelled';
 export type ReservationSource = 'manual' | 'web' | 'booking' | 'airbnb';
+export type CancellationReason = 'guest_request' | 'no_deposit' | 'force_majeure' | 'duplicate' | 'hold_expired';
+export type ReservationHistoryAction = 'create' | 'update' | 'status' | 'payment' | 'check_in' | 'check_out' | 'confirmation' | 'referrer_payment' | 'cancel' | 'delete' | 'restore' | 'migration' | 'group' | 'move';
+
+export interface Cancellation {
+  reason: CancellationReason;
+  notes?: string;
+  cancelledAt: string; // ISO date-time string
+  cancelledBy: string;
+  fee: number;
+  refundAmount: number;
+  previousReservationStatus?: ReservationStatusType;
+}
+
+// Part of a stay spent in one cabin; checkOut is the night the guest leaves that cabin
+export interface StaySegment {
+  cabinType: CabinType;
+  checkIn: string;
+  checkOut: string;
+}
+
+// One night of the automatic price, priced with the season of that night
+export interface NightlyRate {
+  date: string; // YYYY-MM-DD, the night that starts on this day
+  cabinType: CabinType;
+  season: Season;
+  ratePlanId: string;
+  ratePlanName: string;
+  amount: number;
+  rateAdjustment?: number; // Percent from the rate calendar included in amount (see occupancyPricing.ts)
+}
+
+export type PriceAdjustmentType = 'length_of_stay' | 'early_booking' | 'promo_code';
+
+// Pricing rule applied to the automatic price (see pricingRules.ts)
+export interface PriceAdjustment {
+  ruleId: string;
+  name: string;
+  type: PriceAdjustmentType;
+  code?: string; // Promo code used, for promo_code rules
+  amount: number; // Added to the gross price; discounts are negative
+}
+
+export type GuestResidency = 'resident' | 'foreign';
+export type TaxTreatment = 'taxable' | 'exempt';
+
+// IVA of the total (see taxes.ts); net + iva + exempt = totalPrice
+export interface TaxBreakdown {
+  ivaRate: number; // Percent applied
+  net: number; // Subject to IVA, without it
+  iva: number;
+  exempt: number; // Not subject to IVA: exempt lodging and non-taxable add-ons
+  waivedIva: number; // IVA taken off the automatic price of an exempt stay
+}
+
+export type AddOnUnit = 'per_stay' | 'per_night' | 'per_person' | 'per_person_night';
+
+// Extra service sold with the stay (see folio.ts), priced from the Admin catalog when it was added
+export interface ReservationAddOn {
+  id: string;
+  addOnId: string; // Catalog item in Admin
+  name: string;
+  unit: AddOnUnit;
+  unitPrice: number;
+  quantity: number;
+  taxable: boolean;
+  total: number; // unitPrice × quantity, times the nights and/or guests of the stay depending on unit
+}
 
 export interface Reservation {
   id?: string;
@@ -19,13 +87,31 @@ export interface Reservation {
   adults: number;
   children: number;
   babies: number;
-  season: Season;
+  season: Season; // Season of the arrival night; every night is priced with its own season (nightlyRates)
   cabinType: CabinType;
+  // Split stays only: ordered cabin segments covering checkIn–checkOut (cabinType is the first one).
+  // cabinTypes lists every cabin of the stay so availability queries can find it.
+  segments?: StaySegment[];
+  cabinTypes?: CabinType[];
   arrivalFlight: ArrivalFlight;
   departureFlight: DepartureFlight;
   totalPrice: number;
+  // Itemized automatic price; missing for custom prices and stays priced before it existed
+  nightlyRates?: NightlyRate[];
+  // Automatic price before the pricing rules and the rules that changed it; missing for custom prices
+  grossPrice?: number;
+  priceAdjustments?: PriceAdjustment[];
+  promoCode?: string; // As entered, normalized to upper case
   useCustomPrice: boolean;
   customPrice?: number;
+  // Extra services; their totals are part of totalPrice, on top of the stay (automatic or custom)
+  addOns?: ReservationAddOn[];
+  guestCurrency?: Currency; // Currency the guest pays in; quotes and vouchers also show prices in it
+  guestResidency?: GuestResidency; // 'resident' when missing
+  paysInForeignCurrency?: boolean; // Confirmed by staff: the guest pays the stay in USD or EUR
+  // Lodging of a non-resident paying in foreign currency is exempt; set with the price
+  taxTreatment?: TaxTreatment;
+  taxes?: TaxBreakdown;
   comments?: string;
   payments: Payment[];
   remainingBalance: number;
@@ -33,6 +119,8 @@ export interface Reservation {
   paymentStatus: PaymentStatus;
   // Reservation status
   reservationStatus: ReservationStatusType;
+  // Tentative hold: blocks the cabin until this ISO date-time, then it is released automatically
+  holdExpiresAt?: string;
   // Check-in/Check-out tracking
   actualCheckIn?: string;
   actualCheckOut?: string;
@@ -58,15 +146,23 @@ export interface Reservation {
   agency?: string;
   depositAmount?: number;
   pendingBalance?: number;
-  hasRentedCar?: boolean;
+  hasRentedCar?: boolean; // Guest drives during the stay; a car rented through us is also an add-on
   // Referrer (cliente que pidió/derivó la reserva)
   referrerId?: string;
   referrerName?: string;
   referrerPaymentStatus?: 'pending' | 'paid';
   referrerPaidAt?: string;
+  // Group booking (see ReservationGroup); groupName is copied for lists and the timeline
+  groupId?: string;
+  groupName?: string;
+  // Cancellation (only set when reservationStatus is 'cancelled')
+  cancellation?: Cancellation;
+  // Trash (soft delete)
+  deletedAt?: string;
+  deletedBy?: string;
 }
 
-export interface ReservationFormData extends Omit<Reservation, 'id' | 'totalPrice' | 'payments' | 'remainingBalance' | 'paymentStatus' | 'reservationStatus' | 'actualCheckIn' | 'actualCheckOut' | 'checkInStatus' | 'checkOutStatus' | 'checkInNotes' | 'checkOutNotes' | 'confirmationSent' | 'confirmationSentDate' | 'confirmationMethod' | 'createdAt' | 'updatedAt'> {
+export interface ReservationFormData extends Omit<Reservation, 'id' | 'totalPrice' | 'nightlyRates' | 'grossPrice' | 'priceAdjustments' | 'taxTreatment' | 'taxes' | 'payments' | 'remainingBalance' | 'paymentStatus' | 'reservationStatus' | 'actualCheckIn' | 'actualCheckOut' | 'checkInStatus' | 'checkOutStatus' | 'checkInNotes' | 'checkOutNotes' | 'confirmationSent' | 'confirmationSentDate' | 'confirmationMethod' | 'createdAt' | 'updatedAt' | 'cancellation' | 'deletedAt' | 'deletedBy' | 'groupId' | 'groupName' | 'cabinTypes'> {
   // Allow overriding these fields in form data
   totalPrice?: number;
   paymentStatus?: PaymentStatus;
@@ -86,3 +182,19 @@ export interface CheckInOutData {
   notes?: string;
   type: 'check_in' | 'check_out';
 }
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Append-only entry stored in reservas/{id}/historial
+export interface ReservationHistoryEntry {
+  id?: string;
+  action: ReservationHistoryAction;
+  changes: FieldChange[];
+  actor: string;
+  source: string; // Route the change was made from (e.g. '/calendar')
+  timestamp: string; // ISO date-time string
+}
@@ -0,0 +1,29 @@
+import { CabinType } from './reservation';
+
+// waiting: no acceptable cabin is free · offered: a cabin freed up, the guest can be contacted
+// booked: turned into a reservation · discarded: the guest is no longer interested
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'discarded';
+
+// Request that could not be booked because the dates were full
+export interface WaitlistEntry {
+  id?: string;
+  guestName: string;
+  phone: string;
+  email?: string;
+  checkIn: string;
+  checkOut: string;
+  cabinTypes: CabinType[]; // Cabins the guest accepts, in order of preference
+  adults: number;
+  children: number;
+  babies: number;
+  notes?: string;
+  status: WaitlistStatus;
+  // Set while offered: acceptable cabins free for the whole stay
+  offeredCabins?: CabinType[];
+  offeredAt?: string; // ISO date-time string
+  reservationId?: string; // Set once booked
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type WaitlistFormData = Pick<WaitlistEntry, 'guestName' | 'phone' | 'email' | 'checkIn' | 'checkOut' | 'cabinTypes' | 'adults' | 'children' | 'babies' | 'notes'>;